@@ -0,0 +1,576 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  ArrowLeft,
+  Bell,
+  BellOff,
+  CheckCircle,
+  Pencil,
+  Plus,
+  Send,
+  Trash2,
+  X,
+  XCircle
+} from 'lucide-react';
+import { ASSET_SYMBOLS, DEFAULT_ASSET } from '@/lib/assets';
+import { getTimeframeLabel } from '@/types';
+import type { AlertChannel, AlertCondition, AlertDelivery, AlertRule, AlertRuleInput, Asset } from '@/types';
+
+// ============================================================================
+// CONSTANTS & UTILITY FUNCTIONS
+// ============================================================================
+
+type ConditionKind = AlertCondition['kind'];
+type ChannelType = AlertChannel['type'];
+
+const CONDITION_LABELS: Record<ConditionKind, string> = {
+  high_confidence: 'New high-confidence prediction',
+  win_rate_drop: 'Win rate drops',
+  heartbeat_stale: 'Heartbeat stale',
+  system_error: 'System status is error'
+};
+
+const CHANNEL_CONFIG: Record<ChannelType, { label: string; placeholder: string }> = {
+  webhook: { label: 'Webhook', placeholder: 'https://example.com/hook' },
+  telegram: { label: 'Telegram', placeholder: 'Chat ID' },
+  discord: { label: 'Discord', placeholder: 'https://discord.com/api/webhooks/...' },
+  email: { label: 'Email', placeholder: 'ops@example.com' }
+};
+
+const STATUS_STYLES: Record<AlertDelivery['status'], string> = {
+  sent: 'bg-green-900/30 text-green-400 border-green-700/50',
+  failed: 'bg-red-900/30 text-red-400 border-red-700/50',
+  suppressed: 'bg-gray-700/50 text-gray-400 border-gray-600'
+};
+
+const parseTimeframes = (value: string): number[] | null => {
+  const list = value.split(',').map(item => Number(item.trim())).filter(item => item > 0);
+  return list.length > 0 ? list : null;
+};
+
+const describeCondition = (condition: AlertCondition): string => {
+  const scope = (timeframes: number[] | null) =>
+    timeframes ? ` on ${timeframes.map(getTimeframeLabel).join(', ')}` : '';
+
+  switch (condition.kind) {
+    case 'high_confidence':
+      return `${condition.asset} confidence ≥ ${condition.min_confidence}%${scope(condition.timeframes)}`;
+    case 'win_rate_drop':
+      return `${condition.asset} win rate of last ${condition.window} < ${condition.min_win_rate}%${scope(condition.timeframes)}`;
+    case 'heartbeat_stale':
+      return `No heartbeat for ${condition.stale_minutes} min`;
+    case 'system_error':
+      return 'System status is error';
+  }
+};
+
+const channelValue = (channel: AlertChannel): string => {
+  switch (channel.type) {
+    case 'webhook': return channel.url;
+    case 'telegram': return channel.chat_id;
+    case 'discord': return channel.webhook_url;
+    case 'email': return channel.to;
+  }
+};
+
+const toChannel = (type: ChannelType, value: string): AlertChannel => {
+  switch (type) {
+    case 'webhook': return { type, url: value };
+    case 'telegram': return { type, chat_id: value };
+    case 'discord': return { type, webhook_url: value };
+    case 'email': return { type, to: value };
+  }
+};
+
+const formatTime = (timestamp: string): string =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, { cache: 'no-store', ...init });
+  if (response.status === 204) return undefined as T;
+  const body = await response.json();
+  if (!response.ok || body.error) {
+    throw new Error(body.message || body.error || `HTTP error! status: ${response.status}`);
+  }
+  return body;
+}
+
+// ============================================================================
+// RULE FORM
+// ============================================================================
+
+// Every field as the inputs hold it; converted to an AlertRuleInput on save
+interface RuleForm {
+  name: string;
+  enabled: boolean;
+  kind: ConditionKind;
+  asset: Asset;
+  min_confidence: string;
+  window: string;
+  min_win_rate: string;
+  stale_minutes: string;
+  timeframes: string;
+  cooldown_minutes: string;
+  channels: { type: ChannelType; value: string }[];
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  enabled: true,
+  kind: 'high_confidence',
+  asset: DEFAULT_ASSET,
+  min_confidence: '80',
+  window: '20',
+  min_win_rate: '50',
+  stale_minutes: '10',
+  timeframes: '',
+  cooldown_minutes: '30',
+  channels: [{ type: 'webhook', value: '' }]
+};
+
+const ruleToForm = (rule: AlertRule): RuleForm => {
+  const { condition } = rule;
+  return {
+    ...EMPTY_FORM,
+    name: rule.name,
+    enabled: rule.enabled,
+    kind: condition.kind,
+    cooldown_minutes: String(rule.cooldown_minutes),
+    channels: rule.channels.map(channel => ({ type: channel.type, value: channelValue(channel) })),
+    ...(condition.kind === 'high_confidence' && {
+      asset: condition.asset,
+      min_confidence: String(condition.min_confidence),
+      timeframes: condition.timeframes?.join(', ') ?? ''
+    }),
+    ...(condition.kind === 'win_rate_drop' && {
+      asset: condition.asset,
+      window: String(condition.window),
+      min_win_rate: String(condition.min_win_rate),
+      timeframes: condition.timeframes?.join(', ') ?? ''
+    }),
+    ...(condition.kind === 'heartbeat_stale' && { stale_minutes: String(condition.stale_minutes) })
+  };
+};
+
+const formToInput = (form: RuleForm): AlertRuleInput => {
+  const conditions: Record<ConditionKind, AlertCondition> = {
+    high_confidence: {
+      kind: 'high_confidence',
+      asset: form.asset,
+      min_confidence: Number(form.min_confidence),
+      timeframes: parseTimeframes(form.timeframes)
+    },
+    win_rate_drop: {
+      kind: 'win_rate_drop',
+      asset: form.asset,
+      window: Number(form.window),
+      min_win_rate: Number(form.min_win_rate),
+      timeframes: parseTimeframes(form.timeframes)
+    },
+    heartbeat_stale: { kind: 'heartbeat_stale', stale_minutes: Number(form.stale_minutes) },
+    system_error: { kind: 'system_error' }
+  };
+
+  return {
+    name: form.name,
+    enabled: form.enabled,
+    condition: conditions[form.kind],
+    channels: form.channels.map(channel => toChannel(channel.type, channel.value.trim())),
+    cooldown_minutes: Number(form.cooldown_minutes)
+  };
+};
+
+const inputClass = 'w-full bg-gray-700 text-white text-xs md:text-sm rounded px-2 py-1 border border-gray-600';
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label className="block">
+      <span className="text-xs text-gray-400">{label}</span>
+      <div className="mt-1">{children}</div>
+    </label>
+  );
+}
+
+function RuleEditor({
+  rule,
+  onSaved,
+  onCancel
+}: {
+  rule: AlertRule | null;
+  onSaved: () => void;
+  onCancel: () => void;
+}) {
+  const [form, setForm] = useState<RuleForm>(rule ? ruleToForm(rule) : EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = <K extends keyof RuleForm>(key: K, value: RuleForm[K]) =>
+    setForm(prev => ({ ...prev, [key]: value }));
+
+  const updateChannel = (index: number, patch: Partial<RuleForm['channels'][number]>) =>
+    update('channels', form.channels.map((channel, i) => (i === index ? { ...channel, ...patch } : channel)));
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await requestJson(rule ? `/api/alerts/rules/${rule.id}` : '/api/alerts/rules', {
+        method: rule ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formToInput(form))
+      });
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-900/50 rounded-lg p-3 md:p-4 border border-gray-700 space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <Field label="Name">
+          <input value={form.name} onChange={(e) => update('name', e.target.value)} className={inputClass} />
+        </Field>
+        <Field label="Condition">
+          <select
+            value={form.kind}
+            onChange={(e) => update('kind', e.target.value as ConditionKind)}
+            className={inputClass}
+          >
+            {(Object.keys(CONDITION_LABELS) as ConditionKind[]).map(kind => (
+              <option key={kind} value={kind}>{CONDITION_LABELS[kind]}</option>
+            ))}
+          </select>
+        </Field>
+        <Field label="Cooldown (minutes)">
+          <input
+            type="number"
+            min={0}
+            value={form.cooldown_minutes}
+            onChange={(e) => update('cooldown_minutes', e.target.value)}
+            className={inputClass}
+          />
+        </Field>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {(form.kind === 'high_confidence' || form.kind === 'win_rate_drop') && (
+          <Field label="Asset">
+            <select value={form.asset} onChange={(e) => update('asset', e.target.value as Asset)} className={inputClass}>
+              {ASSET_SYMBOLS.map(asset => (
+                <option key={asset} value={asset}>{asset}</option>
+              ))}
+            </select>
+          </Field>
+        )}
+        {form.kind === 'high_confidence' && (
+          <Field label="Min confidence (%)">
+            <input type="number" value={form.min_confidence} onChange={(e) => update('min_confidence', e.target.value)} className={inputClass} />
+          </Field>
+        )}
+        {form.kind === 'win_rate_drop' && (
+          <>
+            <Field label="Last N predictions">
+              <input type="number" value={form.window} onChange={(e) => update('window', e.target.value)} className={inputClass} />
+            </Field>
+            <Field label="Alert below win rate (%)">
+              <input type="number" value={form.min_win_rate} onChange={(e) => update('min_win_rate', e.target.value)} className={inputClass} />
+            </Field>
+          </>
+        )}
+        {(form.kind === 'high_confidence' || form.kind === 'win_rate_drop') && (
+          <Field label="Timeframes (minutes, blank for all)">
+            <input
+              value={form.timeframes}
+              placeholder="5, 15, 60"
+              onChange={(e) => update('timeframes', e.target.value)}
+              className={inputClass}
+            />
+          </Field>
+        )}
+        {form.kind === 'heartbeat_stale' && (
+          <Field label="Stale after (minutes)">
+            <input type="number" value={form.stale_minutes} onChange={(e) => update('stale_minutes', e.target.value)} className={inputClass} />
+          </Field>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <span className="text-xs text-gray-400">Channels</span>
+        {form.channels.map((channel, index) => (
+          <div key={index} className="flex gap-2">
+            <select
+              value={channel.type}
+              onChange={(e) => updateChannel(index, { type: e.target.value as ChannelType })}
+              className="bg-gray-700 text-white text-xs md:text-sm rounded px-2 py-1 border border-gray-600"
+            >
+              {(Object.keys(CHANNEL_CONFIG) as ChannelType[]).map(type => (
+                <option key={type} value={type}>{CHANNEL_CONFIG[type].label}</option>
+              ))}
+            </select>
+            <input
+              value={channel.value}
+              placeholder={CHANNEL_CONFIG[channel.type].placeholder}
+              onChange={(e) => updateChannel(index, { value: e.target.value })}
+              className={inputClass}
+            />
+            <button
+              onClick={() => update('channels', form.channels.filter((_, i) => i !== index))}
+              disabled={form.channels.length === 1}
+              className="text-gray-400 hover:text-red-400 disabled:opacity-30"
+              aria-label="Remove channel"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => update('channels', [...form.channels, { type: 'webhook', value: '' }])}
+          className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1"
+        >
+          <Plus className="w-3 h-3" />
+          Add channel
+        </button>
+      </div>
+
+      {error && <div className="text-xs md:text-sm text-red-400">{error}</div>}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={save}
+          disabled={saving}
+          className="px-4 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded text-xs md:text-sm"
+        >
+          {saving ? 'Saving...' : rule ? 'Save changes' : 'Create rule'}
+        </button>
+        <button onClick={onCancel} className="px-4 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded text-xs md:text-sm">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// MAIN PAGE
+// ============================================================================
+
+export default function AlertsPage() {
+  // Bumped after every change so both lists refetch
+  const [version, setVersion] = useState(0);
+  const [result, setResult] = useState<{
+    version: number | null;
+    rules: AlertRule[];
+    deliveries: AlertDelivery[];
+    error: string | null;
+  }>({ version: null, rules: [], deliveries: [], error: null });
+  const [editing, setEditing] = useState<AlertRule | 'new' | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const [rules, log] = await Promise.all([
+          requestJson<{ rules: AlertRule[] }>('/api/alerts/rules'),
+          requestJson<{ deliveries: AlertDelivery[] }>('/api/alerts/deliveries')
+        ]);
+        if (!cancelled) setResult({ version, rules: rules.rules, deliveries: log.deliveries, error: null });
+      } catch (error) {
+        console.error('Error fetching alerts:', error);
+        if (!cancelled) {
+          setResult(prev => ({
+            ...prev,
+            version,
+            error: error instanceof Error ? error.message : 'Failed to load alerts'
+          }));
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [version]);
+
+  const loading = result.version !== version;
+  const reload = () => setVersion(v => v + 1);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setActionError(null);
+    try {
+      await action();
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : 'Request failed');
+    }
+    reload();
+  };
+
+  const toggleRule = (rule: AlertRule) => runAction(() => {
+    const input: AlertRuleInput = {
+      name: rule.name,
+      enabled: !rule.enabled,
+      condition: rule.condition,
+      channels: rule.channels,
+      cooldown_minutes: rule.cooldown_minutes
+    };
+    return requestJson(`/api/alerts/rules/${rule.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input)
+    });
+  });
+
+  const deleteRule = (rule: AlertRule) => {
+    if (!window.confirm(`Delete alert rule "${rule.name}"?`)) return;
+    runAction(() => requestJson(`/api/alerts/rules/${rule.id}`, { method: 'DELETE' }));
+  };
+
+  const testRule = (rule: AlertRule) =>
+    runAction(() => requestJson(`/api/alerts/rules/${rule.id}/test`, { method: 'POST' }));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 p-3 md:p-4 lg:p-6">
+      <div className="max-w-5xl mx-auto space-y-4 md:space-y-6">
+
+        {/* Header */}
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 md:p-6 border border-gray-700">
+          <Link href="/" className="inline-flex items-center gap-1 text-xs md:text-sm text-blue-400 hover:text-blue-300 mb-3">
+            <ArrowLeft className="w-4 h-4" />
+            Dashboard
+          </Link>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <h1 className="text-xl md:text-2xl font-bold text-white flex items-center gap-2">
+              <Bell className="w-5 h-5 md:w-6 md:h-6 text-blue-500" />
+              Alerts
+            </h1>
+            {editing === null && (
+              <button
+                onClick={() => setEditing('new')}
+                className="flex items-center gap-2 px-4 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded text-xs md:text-sm"
+              >
+                <Plus className="w-4 h-4" />
+                New rule
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Rules */}
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 md:p-6 border border-gray-700 space-y-3">
+          <h2 className="text-lg md:text-xl font-semibold text-white">Rules</h2>
+
+          {editing !== null && (
+            <RuleEditor
+              key={editing === 'new' ? 'new' : editing.id}
+              rule={editing === 'new' ? null : editing}
+              onSaved={() => {
+                setEditing(null);
+                reload();
+              }}
+              onCancel={() => setEditing(null)}
+            />
+          )}
+
+          {(result.error || actionError) && (
+            <div className="text-xs md:text-sm text-red-400">{actionError ?? result.error}</div>
+          )}
+
+          {result.version === null ? (
+            <div className="text-gray-400 text-xs md:text-sm py-4 text-center">Loading rules...</div>
+          ) : result.rules.length === 0 ? (
+            <div className="text-gray-400 text-xs md:text-sm py-4 text-center">No alert rules yet</div>
+          ) : (
+            <div className={`space-y-2 ${loading ? 'opacity-50' : ''}`}>
+              {result.rules.map(rule => (
+                <div
+                  key={rule.id}
+                  className={`flex flex-col md:flex-row md:items-center justify-between gap-2 bg-gray-900/50 rounded-lg px-3 py-2 border border-gray-700 ${
+                    rule.enabled ? '' : 'opacity-60'
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <div className="text-white text-sm md:text-base font-medium">{rule.name}</div>
+                    <div className="text-xs text-gray-400">
+                      {describeCondition(rule.condition)} · {rule.channels.map(c => CHANNEL_CONFIG[c.type].label).join(', ')}
+                      {' · '}{rule.cooldown_minutes} min cooldown
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3 text-gray-400">
+                    <button onClick={() => toggleRule(rule)} className="hover:text-white" title={rule.enabled ? 'Disable' : 'Enable'}>
+                      {rule.enabled ? <Bell className="w-4 h-4 text-green-400" /> : <BellOff className="w-4 h-4" />}
+                    </button>
+                    <button onClick={() => testRule(rule)} className="hover:text-white" title="Send test notification">
+                      <Send className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => setEditing(rule)} className="hover:text-white" title="Edit">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => deleteRule(rule)} className="hover:text-red-400" title="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Delivery Log */}
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 md:p-6 border border-gray-700">
+          <h2 className="text-lg md:text-xl font-semibold text-white mb-3 md:mb-4">Delivery Log</h2>
+          {result.deliveries.length === 0 ? (
+            <div className="text-gray-400 text-xs md:text-sm py-4 text-center">No alerts delivered yet</div>
+          ) : (
+            <div className="overflow-x-auto -mx-4 md:mx-0">
+              <table className="w-full min-w-[600px]">
+                <thead>
+                  <tr className="border-b border-gray-700">
+                    <th className="text-left py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">Time</th>
+                    <th className="text-left py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">Rule</th>
+                    <th className="text-left py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">Channel</th>
+                    <th className="text-left py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">Alert</th>
+                    <th className="text-left py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="text-xs md:text-sm">
+                  {result.deliveries.map(delivery => (
+                    <tr key={delivery.id} className="border-b border-gray-700/50 align-top">
+                      <td className="py-2 px-4 text-gray-300 whitespace-nowrap">{formatTime(delivery.created_at)}</td>
+                      <td className="py-2 px-4 text-white">{delivery.rule_name}</td>
+                      <td className="py-2 px-4 text-gray-300">
+                        {CHANNEL_CONFIG[delivery.channel].label}
+                        <div className="text-xs text-gray-500">{delivery.target}</div>
+                      </td>
+                      <td className="py-2 px-4 text-gray-300">{delivery.title}</td>
+                      <td className="py-2 px-4">
+                        <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded border text-xs ${STATUS_STYLES[delivery.status]}`}>
+                          {delivery.status === 'sent' && <CheckCircle className="w-3 h-3" />}
+                          {delivery.status === 'failed' && <XCircle className="w-3 h-3" />}
+                          {delivery.status}
+                        </span>
+                        {delivery.error && <div className="text-xs text-gray-500 mt-1">{delivery.error}</div>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,325 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, BarChart3, Copy, Key, Plus, Trash2 } from 'lucide-react';
+import type { ApiKey, ApiKeyUsage, CreatedApiKey } from '@/types';
+
+// ============================================================================
+// CONSTANTS & UTILITY FUNCTIONS
+// ============================================================================
+
+const USAGE_DAYS = 14;
+
+const inputClass = 'w-full bg-gray-700 text-white text-xs md:text-sm rounded px-2 py-1 border border-gray-600';
+
+const formatTime = (timestamp?: string): string =>
+  timestamp
+    ? new Date(timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+    : 'Never';
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, { cache: 'no-store', ...init });
+  if (response.status === 204) return undefined as T;
+  const body = await response.json();
+  if (!response.ok || body.error) {
+    throw new Error(body.message || body.error || `HTTP error! status: ${response.status}`);
+  }
+  return body;
+}
+
+// ============================================================================
+// NEW KEY FORM
+// ============================================================================
+
+function NewKeyForm({
+  defaultLimit,
+  onCreated,
+  onCancel
+}: {
+  defaultLimit: number;
+  onCreated: (key: CreatedApiKey) => void;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState('');
+  const [limit, setLimit] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const key = await requestJson<CreatedApiKey>('/api/auth/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, ...(limit && { rate_limit_per_minute: Number(limit) }) })
+      });
+      onCreated(key);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create key');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-900/50 rounded-lg p-3 md:p-4 border border-gray-700 space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <label className="block">
+          <span className="text-xs text-gray-400">Consumer name</span>
+          <input value={name} placeholder="Execution bot" onChange={(e) => setName(e.target.value)} className={`${inputClass} mt-1`} />
+        </label>
+        <label className="block">
+          <span className="text-xs text-gray-400">Requests per minute</span>
+          <input
+            type="number"
+            min={1}
+            value={limit}
+            placeholder={`${defaultLimit} (default)`}
+            onChange={(e) => setLimit(e.target.value)}
+            className={`${inputClass} mt-1`}
+          />
+        </label>
+      </div>
+
+      {error && <div className="text-xs md:text-sm text-red-400">{error}</div>}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={save}
+          disabled={saving}
+          className="px-4 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded text-xs md:text-sm"
+        >
+          {saving ? 'Creating...' : 'Create key'}
+        </button>
+        <button onClick={onCancel} className="px-4 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded text-xs md:text-sm">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// USAGE
+// ============================================================================
+
+function KeyUsage({ id }: { id: string }) {
+  const [usage, setUsage] = useState<ApiKeyUsage[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    requestJson<{ usage: ApiKeyUsage[] }>(`/api/auth/api-keys/${id}?days=${USAGE_DAYS}`)
+      .then(result => {
+        if (!cancelled) setUsage(result.usage);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load usage');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  if (error) return <div className="text-xs text-red-400">{error}</div>;
+  if (!usage) return <div className="text-xs text-gray-400">Loading usage...</div>;
+  if (usage.length === 0) return <div className="text-xs text-gray-400">No requests in the last {USAGE_DAYS} days</div>;
+
+  const peak = Math.max(...usage.map(day => day.requests + day.rejected));
+  return (
+    <div className="space-y-1">
+      {usage.map(day => (
+        <div key={day.date} className="flex items-center gap-2 text-xs">
+          <span className="w-20 text-gray-400">{day.date}</span>
+          <div className="flex-1 flex h-2 rounded overflow-hidden bg-gray-800">
+            <div className="bg-blue-500" style={{ width: `${(day.requests / peak) * 100}%` }} />
+            <div className="bg-red-500" style={{ width: `${(day.rejected / peak) * 100}%` }} />
+          </div>
+          <span className="w-28 text-right text-gray-300">
+            {day.requests}{day.rejected > 0 && <span className="text-red-400"> +{day.rejected} limited</span>}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ============================================================================
+// MAIN PAGE
+// ============================================================================
+
+export default function ApiKeysPage() {
+  // Bumped after every change so the list refetches
+  const [version, setVersion] = useState(0);
+  const [result, setResult] = useState<{
+    version: number | null;
+    keys: ApiKey[];
+    defaultLimit: number;
+    error: string | null;
+  }>({ version: null, keys: [], defaultLimit: 60, error: null });
+  const [creating, setCreating] = useState(false);
+  const [created, setCreated] = useState<CreatedApiKey | null>(null);
+  const [usageFor, setUsageFor] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const body = await requestJson<{ keys: ApiKey[]; default_rate_limit_per_minute: number }>('/api/auth/api-keys');
+        if (!cancelled) {
+          setResult({ version, keys: body.keys, defaultLimit: body.default_rate_limit_per_minute, error: null });
+        }
+      } catch (error) {
+        console.error('Error fetching API keys:', error);
+        if (!cancelled) {
+          setResult(prev => ({
+            ...prev,
+            version,
+            error: error instanceof Error ? error.message : 'Failed to load API keys'
+          }));
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [version]);
+
+  const loading = result.version !== version;
+  const reload = () => setVersion(v => v + 1);
+
+  const revokeKey = async (key: ApiKey) => {
+    if (!window.confirm(`Revoke API key "${key.name}"? Consumers using it are cut off at once.`)) return;
+    setActionError(null);
+    try {
+      await requestJson(`/api/auth/api-keys/${key.id}`, { method: 'DELETE' });
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : 'Request failed');
+    }
+    reload();
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 p-3 md:p-4 lg:p-6">
+      <div className="max-w-5xl mx-auto space-y-4 md:space-y-6">
+
+        {/* Header */}
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 md:p-6 border border-gray-700">
+          <Link href="/" className="inline-flex items-center gap-1 text-xs md:text-sm text-blue-400 hover:text-blue-300 mb-3">
+            <ArrowLeft className="w-4 h-4" />
+            Dashboard
+          </Link>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <h1 className="text-xl md:text-2xl font-bold text-white flex items-center gap-2">
+              <Key className="w-5 h-5 md:w-6 md:h-6 text-blue-500" />
+              API Keys
+            </h1>
+            {!creating && (
+              <button
+                onClick={() => {
+                  setCreating(true);
+                  setCreated(null);
+                }}
+                className="flex items-center gap-2 px-4 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded text-xs md:text-sm"
+              >
+                <Plus className="w-4 h-4" />
+                New key
+              </button>
+            )}
+          </div>
+          <p className="mt-2 text-xs text-gray-400">
+            Keys for programmatic consumers of <code className="text-gray-300">/api/v1</code>, each limited to{' '}
+            {result.defaultLimit} requests per minute unless set otherwise.
+          </p>
+        </div>
+
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 md:p-6 border border-gray-700 space-y-3">
+          {creating && (
+            <NewKeyForm
+              defaultLimit={result.defaultLimit}
+              onCreated={(key) => {
+                setCreating(false);
+                setCreated(key);
+                reload();
+              }}
+              onCancel={() => setCreating(false)}
+            />
+          )}
+
+          {created && (
+            <div className="bg-green-900/30 border border-green-700/50 rounded-lg p-3 space-y-2">
+              <div className="text-xs md:text-sm text-green-400">
+                Key for &quot;{created.name}&quot; created. Copy it now; it won&apos;t be shown again.
+              </div>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 text-xs md:text-sm text-white bg-gray-900 rounded px-2 py-1 break-all">{created.key}</code>
+                <button
+                  onClick={() => navigator.clipboard.writeText(created.key)}
+                  className="text-gray-400 hover:text-white"
+                  title="Copy"
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          )}
+
+          {(result.error || actionError) && (
+            <div className="text-xs md:text-sm text-red-400">{actionError ?? result.error}</div>
+          )}
+
+          {result.version === null ? (
+            <div className="text-gray-400 text-xs md:text-sm py-4 text-center">Loading keys...</div>
+          ) : result.keys.length === 0 ? (
+            <div className="text-gray-400 text-xs md:text-sm py-4 text-center">No API keys yet</div>
+          ) : (
+            <div className={`space-y-2 ${loading ? 'opacity-50' : ''}`}>
+              {result.keys.map(key => (
+                <div
+                  key={key.id}
+                  className={`bg-gray-900/50 rounded-lg px-3 py-2 border border-gray-700 space-y-2 ${key.revoked_at ? 'opacity-60' : ''}`}
+                >
+                  <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="text-white text-sm md:text-base font-medium">
+                        {key.name}
+                        {key.revoked_at && <span className="ml-2 text-xs text-red-400">Revoked {formatTime(key.revoked_at)}</span>}
+                      </div>
+                      <div className="text-xs text-gray-400">
+                        <code>{key.prefix}…</code>
+                        {' · '}{key.rate_limit_per_minute ?? result.defaultLimit}/min
+                        {' · '}{key.request_count} requests{key.rejected_count > 0 && `, ${key.rejected_count} limited`}
+                        {' · '}last used {formatTime(key.last_used_at)}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3 text-gray-400">
+                      <button
+                        onClick={() => setUsageFor(usageFor === key.id ? null : key.id)}
+                        className="hover:text-white"
+                        title="Daily usage"
+                      >
+                        <BarChart3 className="w-4 h-4" />
+                      </button>
+                      {!key.revoked_at && (
+                        <button onClick={() => revokeKey(key)} className="hover:text-red-400" title="Revoke">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  {usageFor === key.id && <KeyUsage id={key.id} />}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
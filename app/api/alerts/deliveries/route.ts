@@ -0,0 +1,46 @@
+// app/api/alerts/deliveries/route.ts - Recent alert delivery attempts
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { getDataStore } from '@/lib/datastore';
+import { listDeliveries, MAX_DELIVERY_LOG } from '@/lib/alerts';
+import type { DataWarning } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const DEFAULT_LIMIT = 50;
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'admin');
+  if (auth.response) return auth.response;
+
+  const limitParam = request.nextUrl.searchParams.get('limit');
+  const limit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DELIVERY_LOG) {
+    return NextResponse.json(
+      { error: 'Invalid query', message: `limit must be an integer between 1 and ${MAX_DELIVERY_LOG}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const db = getDataStore();
+    const warnings: DataWarning[] = [];
+    const deliveries = await listDeliveries(db, limit, warnings);
+
+    return NextResponse.json({ deliveries, warnings }, {
+      headers: {
+        'Cache-Control': 'no-store, no-cache, must-revalidate'
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error listing alert deliveries:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list alert deliveries',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
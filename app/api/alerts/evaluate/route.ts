@@ -0,0 +1,32 @@
+// app/api/alerts/evaluate/route.ts - Run every enabled alert rule once (cron target)
+import { NextRequest, NextResponse } from 'next/server';
+import { getDataStore } from '@/lib/datastore';
+import { evaluateAlerts } from '@/lib/alerts';
+import { rejectUnauthorizedCron } from '@/lib/cron';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export async function GET(request: NextRequest) {
+  const unauthorized = await rejectUnauthorizedCron(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const db = getDataStore();
+    const summary = await evaluateAlerts(db);
+
+    console.log(`🔔 Alerts: ${summary.evaluated} rules, ${summary.triggered} triggered, ${summary.sent} sent, ${summary.failed} failed, ${summary.suppressed} suppressed`);
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('❌ Error evaluating alerts:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to evaluate alerts',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = GET;
@@ -0,0 +1,84 @@
+// app/api/alerts/rules/[id]/route.ts - Replace or delete one alert rule
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { getDataStore } from '@/lib/datastore';
+import {
+  AlertRuleInputError,
+  AlertRuleNotFoundError,
+  deleteAlertRule,
+  updateAlertRule
+} from '@/lib/alerts';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorize(request, 'admin');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const db = getDataStore();
+    const rule = await updateAlertRule(db, id, body);
+
+    console.log(`🔔 Updated alert rule "${rule.name}" (${id})`);
+    return NextResponse.json(rule);
+  } catch (error) {
+    if (error instanceof AlertRuleNotFoundError) {
+      return NextResponse.json(
+        { error: 'Not found', message: error.message },
+        { status: 404 }
+      );
+    }
+    if (error instanceof AlertRuleInputError) {
+      return NextResponse.json(
+        { error: 'Invalid alert rule', message: error.message, issues: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error(`❌ Error updating alert rule ${id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update alert rule',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorize(request, 'admin');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const db = getDataStore();
+    await deleteAlertRule(db, id);
+
+    console.log(`🗑️ Deleted alert rule ${id}`);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof AlertRuleNotFoundError) {
+      return NextResponse.json(
+        { error: 'Not found', message: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error(`❌ Error deleting alert rule ${id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete alert rule',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
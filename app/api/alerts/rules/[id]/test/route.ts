@@ -0,0 +1,52 @@
+// app/api/alerts/rules/[id]/test/route.ts - Send a test notification to a rule's channels
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { getDataStore } from '@/lib/datastore';
+import { AlertRuleNotFoundError, getAlertRule, sendNotification } from '@/lib/alerts';
+import { toWibIso } from '@/lib/time';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// Bypasses the condition, dedup and cooldown; the attempts are still logged
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize(request, 'admin');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const db = getDataStore();
+    const rule = await getAlertRule(db, id);
+    const now = new Date();
+    const deliveries = await sendNotification(db, rule, {
+      rule_id: rule.id,
+      rule_name: rule.name,
+      title: `Test: ${rule.name}`,
+      message: 'This is a test notification from the BTC predictor dashboard.',
+      dedup_key: `test:${now.getTime()}`,
+      triggered_at: toWibIso(now)
+    });
+
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    if (error instanceof AlertRuleNotFoundError) {
+      return NextResponse.json(
+        { error: 'Not found', message: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error(`❌ Error sending test alert for ${id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to send test alert',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
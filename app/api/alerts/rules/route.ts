@@ -0,0 +1,65 @@
+// app/api/alerts/rules/route.ts - List and create alert rules
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { getDataStore } from '@/lib/datastore';
+import { AlertRuleInputError, createAlertRule, listAlertRules } from '@/lib/alerts';
+import type { DataWarning } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'admin');
+  if (auth.response) return auth.response;
+
+  try {
+    const db = getDataStore();
+    const warnings: DataWarning[] = [];
+    const rules = await listAlertRules(db, warnings);
+
+    return NextResponse.json({ rules, warnings }, {
+      headers: {
+        'Cache-Control': 'no-store, no-cache, must-revalidate'
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error listing alert rules:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list alert rules',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request, 'admin');
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const db = getDataStore();
+    const rule = await createAlertRule(db, body);
+
+    console.log(`🔔 Created alert rule "${rule.name}" (${rule.id})`);
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    if (error instanceof AlertRuleInputError) {
+      return NextResponse.json(
+        { error: 'Invalid alert rule', message: error.message, issues: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('❌ Error creating alert rule:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create alert rule',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+// app/api/auth/api-keys/[id]/route.ts - One API key's daily usage, and revoking it (admins only)
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKeyNotFoundError, authorize, getApiKey, listApiKeyUsage, revokeApiKey } from '@/lib/auth';
+import { getDataStore } from '@/lib/datastore';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const MAX_USAGE_DAYS = 90;
+
+// ?days= of usage, 30 by default
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorize(request, 'admin');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const days = Number(request.nextUrl.searchParams.get('days') ?? 30);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_USAGE_DAYS) {
+    return NextResponse.json(
+      { error: 'Invalid query', message: `days must be an integer from 1 to ${MAX_USAGE_DAYS}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const db = getDataStore();
+    const [key, usage] = await Promise.all([getApiKey(db, id), listApiKeyUsage(db, id, days)]);
+
+    return NextResponse.json({ key, usage }, {
+      headers: {
+        'Cache-Control': 'no-store, no-cache, must-revalidate'
+      }
+    });
+  } catch (error) {
+    if (error instanceof ApiKeyNotFoundError) {
+      return NextResponse.json(
+        { error: 'Not found', message: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error(`❌ Error fetching API key ${id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch API key',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Revokes the key; it stays listed, with its usage
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorize(request, 'admin');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const db = getDataStore();
+    const key = await revokeApiKey(db, id);
+
+    console.log(`🗑️ ${auth.user.email ?? auth.user.id} revoked API key "${key.name}" (${id})`);
+    return NextResponse.json(key);
+  } catch (error) {
+    if (error instanceof ApiKeyNotFoundError) {
+      return NextResponse.json(
+        { error: 'Not found', message: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error(`❌ Error revoking API key ${id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to revoke API key',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+// app/api/auth/api-keys/route.ts - List and create consumer API keys (admins only)
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKeyInputError, authorize, createApiKey, getDefaultRateLimit, listApiKeys } from '@/lib/auth';
+import { getDataStore } from '@/lib/datastore';
+import type { DataWarning } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'admin');
+  if (auth.response) return auth.response;
+
+  try {
+    const db = getDataStore();
+    const warnings: DataWarning[] = [];
+    const keys = await listApiKeys(db, warnings);
+
+    return NextResponse.json({ keys, default_rate_limit_per_minute: getDefaultRateLimit(), warnings }, {
+      headers: {
+        'Cache-Control': 'no-store, no-cache, must-revalidate'
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error listing API keys:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list API keys',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// The response holds the key itself; it can't be retrieved again
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request, 'admin');
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const db = getDataStore();
+    const key = await createApiKey(db, body, auth.user.email ?? auth.user.id);
+
+    console.log(`🔑 ${auth.user.email ?? auth.user.id} created API key "${key.name}" (${key.prefix}...)`);
+    return NextResponse.json(key, {
+      status: 201,
+      headers: {
+        'Cache-Control': 'no-store, no-cache, must-revalidate'
+      }
+    });
+  } catch (error) {
+    if (error instanceof ApiKeyInputError) {
+      return NextResponse.json(
+        { error: 'Invalid API key', message: error.message, issues: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('❌ Error creating API key:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create API key',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
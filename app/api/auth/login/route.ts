@@ -0,0 +1,52 @@
+// app/api/auth/login/route.ts - Sign in with email and password
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthSecret, recordLogin, startSession, verifyCredentials } from '@/lib/auth';
+import { getDataStore } from '@/lib/datastore';
+import type { SessionUser } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export async function POST(request: NextRequest) {
+  if (!getAuthSecret()) {
+    return NextResponse.json(
+      { error: 'Authentication not configured', message: 'Set AUTH_SECRET to enable sign-in' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const db = getDataStore();
+    const user = await verifyCredentials(db, body);
+
+    if (!user) {
+      console.warn('⚠️ Failed sign-in attempt');
+      return NextResponse.json(
+        { error: 'Invalid credentials', message: 'Email or password is incorrect' },
+        { status: 401 }
+      );
+    }
+
+    await recordLogin(db, user.id);
+    const sessionUser: SessionUser = { id: user.id, email: user.email, name: user.name, role: user.role, provider: 'credentials' };
+    const response = NextResponse.json({ user: sessionUser }, {
+      headers: {
+        'Cache-Control': 'no-store, no-cache, must-revalidate'
+      }
+    });
+    await startSession(response, user, 'credentials');
+
+    console.log(`🔑 ${user.email} signed in (${user.role})`);
+    return response;
+  } catch (error) {
+    console.error('❌ Error signing in:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to sign in',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,12 @@
+// app/api/auth/logout/route.ts - Sign out by clearing the session cookie
+import { NextResponse } from 'next/server';
+import { endSession } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export async function POST() {
+  const response = new NextResponse(null, { status: 204 });
+  endSession(response);
+  return response;
+}
@@ -0,0 +1,60 @@
+// app/api/auth/oidc/callback/route.ts - Finish single sign-on and start a session
+import { NextRequest, NextResponse } from 'next/server';
+import { startSession, upsertOidcUser } from '@/lib/auth';
+import {
+  completeAuthorization,
+  decodeLoginState,
+  getOidcConfig,
+  OIDC_CALLBACK_PATH,
+  OIDC_STATE_COOKIE,
+  oidcRedirectUri
+} from '@/lib/auth/oidc';
+import { getDataStore } from '@/lib/datastore';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// Failures go back to the login page, which shows `message`
+function loginRedirect(request: NextRequest, message: string): NextResponse {
+  const url = new URL('/login', request.nextUrl.origin);
+  url.searchParams.set('error', message);
+  const response = NextResponse.redirect(url);
+  response.cookies.set(OIDC_STATE_COOKIE, '', { httpOnly: true, path: OIDC_CALLBACK_PATH, maxAge: 0 });
+  return response;
+}
+
+export async function GET(request: NextRequest) {
+  const config = getOidcConfig();
+  if (!config) return loginRedirect(request, 'Single sign-on is not configured');
+
+  const params = request.nextUrl.searchParams;
+  const providerError = params.get('error');
+  if (providerError) {
+    return loginRedirect(request, params.get('error_description') || `Sign-in was refused (${providerError})`);
+  }
+
+  const state = decodeLoginState(request.cookies.get(OIDC_STATE_COOKIE)?.value);
+  const code = params.get('code');
+  if (!state || !code || params.get('state') !== state.state) {
+    return loginRedirect(request, 'Sign-in expired or was started elsewhere; try again');
+  }
+
+  try {
+    const identity = await completeAuthorization(config, {
+      code,
+      redirectUri: oidcRedirectUri(request.nextUrl.origin),
+      state
+    });
+    const user = await upsertOidcUser(getDataStore(), identity, config.defaultRole);
+
+    const response = NextResponse.redirect(new URL(state.next, request.nextUrl.origin));
+    response.cookies.set(OIDC_STATE_COOKIE, '', { httpOnly: true, path: OIDC_CALLBACK_PATH, maxAge: 0 });
+    await startSession(response, user, 'oidc');
+
+    console.log(`🔑 ${user.email} signed in through single sign-on (${user.role})`);
+    return response;
+  } catch (error) {
+    console.error('❌ Error completing single sign-on:', error);
+    return loginRedirect(request, error instanceof Error ? error.message : 'Single sign-on failed');
+  }
+}
@@ -0,0 +1,50 @@
+// app/api/auth/oidc/route.ts - Start single sign-on by redirecting to the identity provider
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthSecret, safeRedirectPath } from '@/lib/auth';
+import {
+  createAuthorizationRequest,
+  encodeLoginState,
+  getOidcConfig,
+  OIDC_CALLBACK_PATH,
+  OIDC_STATE_COOKIE,
+  OIDC_STATE_TTL_SECONDS,
+  oidcRedirectUri
+} from '@/lib/auth/oidc';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// ?next= is where to land after signing in
+export async function GET(request: NextRequest) {
+  const config = getOidcConfig();
+  if (!config || !getAuthSecret()) {
+    return NextResponse.json(
+      { error: 'Not found', message: 'Single sign-on is not configured' },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const next = safeRedirectPath(request.nextUrl.searchParams.get('next'));
+    const { url, state } = await createAuthorizationRequest(config, oidcRedirectUri(request.nextUrl.origin), next);
+
+    const response = NextResponse.redirect(url);
+    response.cookies.set(OIDC_STATE_COOKIE, encodeLoginState(state), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: OIDC_CALLBACK_PATH,
+      maxAge: OIDC_STATE_TTL_SECONDS
+    });
+    return response;
+  } catch (error) {
+    console.error('❌ Error starting single sign-on:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to start single sign-on',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 502 }
+    );
+  }
+}
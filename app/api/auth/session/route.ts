@@ -0,0 +1,33 @@
+// app/api/auth/session/route.ts - The signed-in user and the available sign-in methods
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthSecret, getSessionUser } from '@/lib/auth';
+import { getOidcConfig } from '@/lib/auth/oidc';
+import type { AuthSessionInfo } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export async function GET(request: NextRequest) {
+  try {
+    const secret = !!getAuthSecret();
+    const session: AuthSessionInfo = {
+      user: await getSessionUser(request),
+      providers: { credentials: secret, oidc: secret && !!getOidcConfig() }
+    };
+
+    return NextResponse.json(session, {
+      headers: {
+        'Cache-Control': 'no-store, no-cache, must-revalidate'
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error reading session:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read session',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+// app/api/auth/users/[id]/route.ts - Change or delete one user (admins only)
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authorize,
+  deleteUser,
+  updateUser,
+  UserConflictError,
+  UserInputError,
+  UserNotFoundError
+} from '@/lib/auth';
+import { getDataStore } from '@/lib/datastore';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorize(request, 'admin');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const db = getDataStore();
+    const user = await updateUser(db, id, body);
+
+    console.log(`👤 ${auth.user.email ?? auth.user.id} updated user ${user.email} (${user.role})`);
+    return NextResponse.json(user);
+  } catch (error) {
+    if (error instanceof UserNotFoundError) {
+      return NextResponse.json(
+        { error: 'Not found', message: error.message },
+        { status: 404 }
+      );
+    }
+    if (error instanceof UserInputError) {
+      return NextResponse.json(
+        { error: 'Invalid user', message: error.message, issues: error.issues },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UserConflictError) {
+      return NextResponse.json(
+        { error: 'Conflict', message: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error(`❌ Error updating user ${id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update user',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorize(request, 'admin');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const db = getDataStore();
+    await deleteUser(db, id);
+
+    console.log(`🗑️ ${auth.user.email ?? auth.user.id} deleted user ${id}`);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof UserNotFoundError) {
+      return NextResponse.json(
+        { error: 'Not found', message: error.message },
+        { status: 404 }
+      );
+    }
+    if (error instanceof UserConflictError) {
+      return NextResponse.json(
+        { error: 'Conflict', message: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error(`❌ Error deleting user ${id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete user',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+// app/api/auth/users/route.ts - List and create users (admins only)
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, createUser, listUsers, UserConflictError, UserInputError } from '@/lib/auth';
+import { getDataStore } from '@/lib/datastore';
+import type { DataWarning } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'admin');
+  if (auth.response) return auth.response;
+
+  try {
+    const db = getDataStore();
+    const warnings: DataWarning[] = [];
+    const users = await listUsers(db, warnings);
+
+    return NextResponse.json({ users, warnings }, {
+      headers: {
+        'Cache-Control': 'no-store, no-cache, must-revalidate'
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error listing users:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list users',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request, 'admin');
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const db = getDataStore();
+    const user = await createUser(db, body);
+
+    console.log(`👤 ${auth.user.email ?? auth.user.id} created user ${user.email} (${user.role})`);
+    return NextResponse.json(user, { status: 201 });
+  } catch (error) {
+    if (error instanceof UserInputError) {
+      return NextResponse.json(
+        { error: 'Invalid user', message: error.message, issues: error.issues },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UserConflictError) {
+      return NextResponse.json(
+        { error: 'Conflict', message: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('❌ Error creating user:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create user',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+// app/api/backtest/route.ts - Simulated trading PnL of validated predictions
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { AssetQueryError, parseAsset } from '@/lib/assets';
+import { getDataStore } from '@/lib/datastore';
+import { BacktestQueryError, loadBacktestPredictions, parseBacktestConfig, runBacktest } from '@/lib/backtest';
+import { parseStatsPeriod, PeriodQueryError } from '@/lib/period';
+import type { Asset, BacktestConfig, StatsPeriod } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// ?period= or ?from=&to= and ?asset=, plus the simulation knobs read by
+// parseBacktestConfig
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'viewer');
+  if (auth.response) return auth.response;
+
+  const params = request.nextUrl.searchParams;
+
+  let period: StatsPeriod;
+  let config: BacktestConfig;
+  let asset: Asset;
+  try {
+    period = parseStatsPeriod(params);
+    config = parseBacktestConfig(params);
+    asset = parseAsset(params);
+  } catch (error) {
+    if (error instanceof PeriodQueryError || error instanceof BacktestQueryError || error instanceof AssetQueryError) {
+      return NextResponse.json(
+        { error: 'Invalid query', message: error.message },
+        { status: 400 }
+      );
+    }
+    throw error;
+  }
+
+  try {
+    const db = getDataStore();
+    const { predictions, truncated } = await loadBacktestPredictions(db, period, asset);
+    const result = runBacktest(predictions, config, period, truncated);
+
+    console.log(`💹 ${asset} backtest (${period.label}, ${config.mode}): ${result.trades} trades, PnL ${result.total_pnl.toFixed(2)}`);
+
+    return NextResponse.json(result, {
+      headers: {
+        'Cache-Control': 'no-store, no-cache, must-revalidate'
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error running backtest:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to run backtest',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
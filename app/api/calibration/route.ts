@@ -0,0 +1,62 @@
+// app/api/calibration/route.ts - Confidence calibration of validated predictions
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { AssetQueryError, parseAsset } from '@/lib/assets';
+import { getDataStore } from '@/lib/datastore';
+import { loadWindowTotals, syncAggregatesThrottled } from '@/lib/aggregates';
+import { buildCalibration, CalibrationQueryError, parseCalibrationSlice } from '@/lib/calibration';
+import type { CalibrationSlice } from '@/lib/calibration';
+import { parseStatsPeriod, PeriodQueryError } from '@/lib/period';
+import type { Asset, StatsPeriod } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// ?period= or ?from=&to= and ?asset=, sliced by ?timeframe= or ?category=
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'viewer');
+  if (auth.response) return auth.response;
+
+  const params = request.nextUrl.searchParams;
+
+  let period: StatsPeriod;
+  let slice: CalibrationSlice;
+  let asset: Asset;
+  try {
+    period = parseStatsPeriod(params);
+    slice = parseCalibrationSlice(params);
+    asset = parseAsset(params);
+  } catch (error) {
+    if (error instanceof PeriodQueryError || error instanceof CalibrationQueryError || error instanceof AssetQueryError) {
+      return NextResponse.json(
+        { error: 'Invalid query', message: error.message },
+        { status: 400 }
+      );
+    }
+    throw error;
+  }
+
+  try {
+    const db = getDataStore();
+    await syncAggregatesThrottled(db, asset);
+    const totals = await loadWindowTotals(db, period, asset);
+    const report = buildCalibration(totals, period, slice);
+
+    console.log(`🎯 ${asset} calibration (${period.label}): ${report.samples} predictions, ECE ${report.ece?.toFixed(2) ?? 'n/a'}`);
+
+    return NextResponse.json(report, {
+      headers: {
+        'Cache-Control': 'no-store, no-cache, must-revalidate'
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error building calibration report:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to build calibration report',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
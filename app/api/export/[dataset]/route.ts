@@ -0,0 +1,89 @@
+// app/api/export/[dataset]/route.ts - Download predictions, stats or model metrics as CSV / NDJSON
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { AssetQueryError } from '@/lib/assets';
+import { getDataStore } from '@/lib/datastore';
+import {
+  EXPORT_SCHEMA_HEADER,
+  exportFilename,
+  ExportQueryError,
+  exportStream,
+  parseExportFormat,
+  prepareExport
+} from '@/lib/export';
+import type { PreparedExport } from '@/lib/export';
+import { HistoryQueryError } from '@/lib/history';
+import { PeriodQueryError } from '@/lib/period';
+import type { DataWarning, ExportFormat } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+export const runtime = 'nodejs';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8'
+};
+
+// ?format=csv|ndjson. predictions takes the history filters
+// (timeframe_minutes, validation_result, trend, method, min_confidence,
+// max_confidence, from, to); the others take ?period= or ?from=&to=.
+// ?asset= picks the coin for everything but model-performance. ?schema=1
+// answers with just the schema as JSON; a download also sends it in the
+// X-Export-Schema header.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ dataset: string }> }
+) {
+  const auth = await authorize(request, 'operator');
+  if (auth.response) return auth.response;
+
+  const { dataset } = await params;
+  const searchParams = request.nextUrl.searchParams;
+  const warnings: DataWarning[] = [];
+
+  let format: ExportFormat;
+  let prepared: PreparedExport;
+  try {
+    format = parseExportFormat(searchParams);
+    prepared = prepareExport(getDataStore(), dataset, searchParams, warnings);
+  } catch (error) {
+    if (
+      error instanceof ExportQueryError
+      || error instanceof HistoryQueryError
+      || error instanceof PeriodQueryError
+      || error instanceof AssetQueryError
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid query', message: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('❌ Error preparing export:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to export data',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+
+  if (searchParams.get('schema') === '1') {
+    return NextResponse.json(prepared.schema, { headers: { 'Cache-Control': 'no-store, no-cache, must-revalidate' } });
+  }
+
+  const stream = exportStream(prepared, format, rows => {
+    console.log(`📦 Exported ${rows} ${dataset} rows as ${format}${warnings.length > 0 ? `, ${warnings.length} malformed skipped` : ''}`);
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${exportFilename(prepared.schema.dataset, format)}"`,
+      [EXPORT_SCHEMA_HEADER]: JSON.stringify(prepared.schema),
+      'Cache-Control': 'no-store, no-cache, must-revalidate'
+    }
+  });
+}
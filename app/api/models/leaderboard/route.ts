@@ -0,0 +1,67 @@
+// app/api/models/leaderboard/route.ts - Per-model accuracy from validated predictions
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { AssetQueryError, parseAsset } from '@/lib/assets';
+import { getDataStore } from '@/lib/datastore';
+import { loadWindowTotals, syncAggregatesThrottled } from '@/lib/aggregates';
+import { buildLeaderboard } from '@/lib/leaderboard';
+import { parseStatsPeriod, PeriodQueryError } from '@/lib/period';
+import type { Asset, StatsPeriod } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// Same ?period= / ?from=&to= window and ?asset= as /api/predictions, plus an optional
+// ?timeframe= (minutes) to narrow the overall and daily scores
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'viewer');
+  if (auth.response) return auth.response;
+
+  const params = request.nextUrl.searchParams;
+
+  let period: StatsPeriod;
+  let timeframe: number | undefined;
+  let asset: Asset;
+  try {
+    period = parseStatsPeriod(params);
+    asset = parseAsset(params);
+    if (params.get('timeframe')) {
+      timeframe = Number(params.get('timeframe'));
+      if (!Number.isInteger(timeframe) || timeframe <= 0) {
+        throw new PeriodQueryError('timeframe must be a positive number of minutes');
+      }
+    }
+  } catch (error) {
+    if (error instanceof PeriodQueryError || error instanceof AssetQueryError) {
+      return NextResponse.json(
+        { error: 'Invalid query', message: error.message },
+        { status: 400 }
+      );
+    }
+    throw error;
+  }
+
+  try {
+    const db = getDataStore();
+    await syncAggregatesThrottled(db, asset);
+    const totals = await loadWindowTotals(db, period, asset);
+    const leaderboard = buildLeaderboard(totals, period, timeframe);
+
+    console.log(`🏆 ${asset} leaderboard (${period.label}): ${leaderboard.overall.map(s => s.model).join(' > ')}`);
+
+    return NextResponse.json(leaderboard, {
+      headers: {
+        'Cache-Control': 'no-store, no-cache, must-revalidate'
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error building model leaderboard:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to build leaderboard',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+// app/api/models/performance/route.ts - Model metrics history with regression flags
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { getDataStore } from '@/lib/datastore';
+import {
+  fetchModelPerformanceHistory,
+  parseRegressionOptions,
+  RegressionQueryError
+} from '@/lib/modelPerformance';
+import type { RegressionOptions } from '@/lib/modelPerformance';
+import { parseStatsPeriod, PeriodQueryError } from '@/lib/period';
+import type { StatsPeriod } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// ?period= or ?from=&to= as elsewhere, plus ?threshold= (percent) and
+// ?window= (retraining runs in the trailing average)
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'viewer');
+  if (auth.response) return auth.response;
+
+  const params = request.nextUrl.searchParams;
+
+  let period: StatsPeriod;
+  let options: RegressionOptions;
+  try {
+    period = parseStatsPeriod(params);
+    options = parseRegressionOptions(params);
+  } catch (error) {
+    if (error instanceof PeriodQueryError || error instanceof RegressionQueryError) {
+      return NextResponse.json(
+        { error: 'Invalid query', message: error.message },
+        { status: 400 }
+      );
+    }
+    throw error;
+  }
+
+  try {
+    const db = getDataStore();
+    const history = await fetchModelPerformanceHistory(db, period, options);
+
+    const regressions = history.points.reduce((sum, point) => sum + point.regressions.length, 0);
+    console.log(`🧠 Model performance (${period.label}): ${history.points.length} snapshots, ${regressions} regressions`);
+
+    return NextResponse.json(history, {
+      headers: {
+        'Cache-Control': 'no-store, no-cache, must-revalidate'
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error fetching model performance history:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch model performance',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+// app/api/predictions/[id]/route.ts - Full detail for a single prediction
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { AssetQueryError, parseAsset } from '@/lib/assets';
+import { getDataStore } from '@/lib/datastore';
+import {
+  getPredictionDetail,
+  MalformedPredictionError,
+  PredictionNotFoundError
+} from '@/lib/predictionDetail';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize(request, 'viewer');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    if (id.includes('/')) throw new PredictionNotFoundError(id);
+
+    const asset = parseAsset(request.nextUrl.searchParams);
+    const db = getDataStore();
+    const detail = await getPredictionDetail(db, id, asset);
+
+    return NextResponse.json(detail, {
+      headers: {
+        'Cache-Control': 'no-store, no-cache, must-revalidate'
+      }
+    });
+  } catch (error) {
+    if (error instanceof AssetQueryError) {
+      return NextResponse.json(
+        { error: 'Invalid query', message: error.message },
+        { status: 400 }
+      );
+    }
+    if (error instanceof PredictionNotFoundError) {
+      return NextResponse.json(
+        { error: 'Not found', message: error.message },
+        { status: 404 }
+      );
+    }
+    if (error instanceof MalformedPredictionError) {
+      return NextResponse.json(
+        { error: 'Malformed prediction', message: error.message, warnings: [error.warning] },
+        { status: 422 }
+      );
+    }
+
+    console.error(`❌ Error fetching prediction ${id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch prediction',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
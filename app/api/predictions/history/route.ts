@@ -0,0 +1,44 @@
+// app/api/predictions/history/route.ts - Paginated prediction history
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { AssetQueryError } from '@/lib/assets';
+import { getDataStore } from '@/lib/datastore';
+import { fetchPredictionHistory, HistoryQueryError, parseHistoryQuery } from '@/lib/history';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'viewer');
+  if (auth.response) return auth.response;
+
+  try {
+    const query = parseHistoryQuery(request.nextUrl.searchParams);
+    const db = getDataStore();
+    const page = await fetchPredictionHistory(db, query);
+
+    console.log(`📜 History page: ${page.predictions.length} predictions, next=${page.nextCursor ?? 'none'}`);
+
+    return NextResponse.json(page, {
+      headers: {
+        'Cache-Control': 'no-store, no-cache, must-revalidate'
+      }
+    });
+  } catch (error) {
+    if (error instanceof HistoryQueryError || error instanceof AssetQueryError) {
+      return NextResponse.json(
+        { error: 'Invalid query', message: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('❌ Error fetching prediction history:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch history',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
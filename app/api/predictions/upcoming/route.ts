@@ -0,0 +1,66 @@
+// app/api/predictions/upcoming/route.ts - In-flight predictions for the countdown board
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { AssetQueryError, parseAsset } from '@/lib/assets';
+import { getDataStore } from '@/lib/datastore';
+import { getSpotPrice } from '@/lib/price';
+import { fetchUpcomingPredictions } from '@/lib/upcoming';
+import type { Asset, DataWarning, UpcomingPredictions } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// ?asset= picks the coin, BTC by default
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'viewer');
+  if (auth.response) return auth.response;
+
+  let asset: Asset;
+  try {
+    asset = parseAsset(request.nextUrl.searchParams);
+  } catch (error) {
+    if (error instanceof AssetQueryError) {
+      return NextResponse.json(
+        { error: 'Invalid query', message: error.message },
+        { status: 400 }
+      );
+    }
+    throw error;
+  }
+
+  try {
+    const db = getDataStore();
+    const now = new Date();
+    const warnings: DataWarning[] = [];
+
+    const [{ predictions, truncated }, priceQuote] = await Promise.all([
+      fetchUpcomingPredictions(db, now, warnings, asset),
+      getSpotPrice({ asset })
+    ]);
+
+    console.log(`⏱️ Upcoming ${asset} predictions: ${predictions.length}${truncated ? ' (truncated)' : ''}`);
+
+    const body: UpcomingPredictions = {
+      asset,
+      predictions,
+      priceQuote,
+      server_time: now.toISOString(),
+      truncated,
+      warnings
+    };
+    return NextResponse.json(body, {
+      headers: {
+        'Cache-Control': 'no-store, no-cache, must-revalidate'
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error fetching upcoming predictions:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch upcoming predictions',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+// app/api/price/history/route.ts - OHLC price history for charts
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { AssetQueryError, parseAsset } from '@/lib/assets';
+import {
+  CANDLE_INTERVALS,
+  CandleQueryError,
+  getCandles,
+  pickCandleInterval,
+  PRICE_HISTORY_RANGES
+} from '@/lib/price/candles';
+import type { CandleQuery } from '@/lib/price/candles';
+import { parseDateParam } from '@/lib/time';
+import type { PriceHistoryRange } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// ?range=1h|6h|24h, or ?from=&to= (to defaults to now) with an optional
+// ?interval= in minutes, coarse enough for at most MAX_CANDLES candles.
+// ?asset= picks the coin, BTC by default.
+function parseCandleQuery(params: URLSearchParams): CandleQuery {
+  const now = new Date();
+  const asset = parseAsset(params);
+  const fromParam = params.get('from');
+
+  if (fromParam) {
+    const start = parseDateParam(fromParam);
+    const end = params.get('to') ? parseDateParam(params.get('to')) : now;
+    if (!start || !end) throw new CandleQueryError('from and to must be ISO dates');
+
+    const interval = params.get('interval') ? Number(params.get('interval')) : pickCandleInterval(start, end);
+    if (!CANDLE_INTERVALS.includes(interval)) {
+      throw new CandleQueryError(`interval must be one of ${CANDLE_INTERVALS.join(', ')}`);
+    }
+    return { start, end, intervalMinutes: interval, asset };
+  }
+
+  const range = (params.get('range') || '6h') as PriceHistoryRange;
+  const preset = PRICE_HISTORY_RANGES[range];
+  if (!preset) {
+    throw new CandleQueryError(`range must be one of ${Object.keys(PRICE_HISTORY_RANGES).join(', ')}`);
+  }
+  return {
+    start: new Date(now.getTime() - preset.minutes * 60000),
+    end: now,
+    intervalMinutes: preset.interval,
+    asset
+  };
+}
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'viewer');
+  if (auth.response) return auth.response;
+
+  try {
+    const query = parseCandleQuery(request.nextUrl.searchParams);
+    const history = await getCandles(query);
+
+    return NextResponse.json(history, {
+      headers: {
+        'Cache-Control': 'no-store, no-cache, must-revalidate'
+      }
+    });
+  } catch (error) {
+    if (error instanceof CandleQueryError || error instanceof AssetQueryError) {
+      return NextResponse.json(
+        { error: 'Invalid query', message: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('❌ Error fetching price history:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch price history',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 502 }
+    );
+  }
+}
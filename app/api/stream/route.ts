@@ -0,0 +1,162 @@
+// app/api/stream/route.ts - Server-Sent Events feed of incremental dashboard updates
+import { NextRequest } from 'next/server';
+import { authorize, hasRole } from '@/lib/auth';
+import { AssetQueryError, parseAsset } from '@/lib/assets';
+import type { DataStore } from '@/lib/datastore';
+import { getDataStore } from '@/lib/datastore';
+import { assetCollections, COLLECTIONS } from '@/lib/firebase';
+import { getSpotPrice } from '@/lib/price';
+import { publicSystemStatus, snapshotToStatus } from '@/lib/systemStatus';
+import { parseDoc } from '@/lib/validation';
+import { PredictionSchema } from '@/types/schemas';
+import type { Asset, LiveEvent } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const PRICE_TICK_MS = 10000;
+const KEEPALIVE_MS = 15000;
+
+// ?asset= picks whose predictions and price are streamed; the heartbeat is shared
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'viewer');
+  if (auth.response) return auth.response;
+
+  const operator = hasRole(auth.user, 'operator');
+
+  let asset: Asset;
+  try {
+    asset = parseAsset(request.nextUrl.searchParams);
+  } catch (error) {
+    if (error instanceof AssetQueryError) {
+      return Response.json({ error: 'Invalid query', message: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+  const collections = assetCollections(asset);
+
+  let db: DataStore;
+  try {
+    db = getDataStore();
+  } catch (error) {
+    return Response.json(
+      { error: 'Stream unavailable', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 503 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const cleanup: Array<() => void> = [];
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          close();
+        }
+      };
+      const send = (event: LiveEvent) => {
+        write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup.forEach(fn => fn());
+        try {
+          controller.close();
+        } catch {
+          // already closed by the client
+        }
+      };
+
+      request.signal.addEventListener('abort', close);
+      write('retry: 5000\n\n');
+
+      // New predictions. The first snapshot is the current state, which the
+      // client already has from /api/predictions.
+      let predictionsPrimed = false;
+      cleanup.push(db
+        .collection(collections.predictions)
+        .orderBy('timestamp', 'desc')
+        .limit(20)
+        .onSnapshot(snapshot => {
+          if (predictionsPrimed) {
+            snapshot.docChanges()
+              .filter(change => change.type === 'added')
+              .forEach(change => {
+                const prediction = parseDoc(PredictionSchema, collections.predictions, change.doc, []);
+                if (prediction) send({ type: 'prediction', prediction });
+              });
+          }
+          predictionsPrimed = true;
+        }, error => {
+          console.error('❌ Stream predictions listener failed:', error);
+          close();
+        }));
+
+      // Validation results, newest first regardless of prediction age
+      let validationsPrimed = false;
+      cleanup.push(db
+        .collection(collections.predictions)
+        .where('validated', '==', true)
+        .orderBy('validation_time', 'desc')
+        .limit(20)
+        .onSnapshot(snapshot => {
+          if (validationsPrimed) {
+            snapshot.docChanges()
+              .filter(change => change.type !== 'removed')
+              .forEach(change => {
+                const prediction = parseDoc(PredictionSchema, collections.predictions, change.doc, []);
+                if (prediction) send({ type: 'validation', prediction });
+              });
+          }
+          validationsPrimed = true;
+        }, error => {
+          console.error('❌ Stream validations listener failed:', error);
+          close();
+        }));
+
+      cleanup.push(db
+        .collection(COLLECTIONS.systemStatus)
+        .doc('heartbeat')
+        .onSnapshot(doc => {
+          const systemStatus = snapshotToStatus(doc, []);
+          send({ type: 'heartbeat', systemStatus: operator ? systemStatus : publicSystemStatus(systemStatus) });
+        }, error => {
+          console.error('❌ Stream heartbeat listener failed:', error);
+          close();
+        }));
+
+      // Price ticks, only when the quote actually changes
+      let lastPrice: number | null = null;
+      const priceTimer = setInterval(async () => {
+        const quote = await getSpotPrice({ asset });
+        if (quote && !quote.stale && quote.price !== lastPrice) {
+          lastPrice = quote.price;
+          send({ type: 'price', quote });
+        }
+      }, PRICE_TICK_MS);
+      cleanup.push(() => clearInterval(priceTimer));
+
+      const keepalive = setInterval(() => write(': keepalive\n\n'), KEEPALIVE_MS);
+      cleanup.push(() => clearInterval(keepalive));
+    },
+    cancel() {
+      closed = true;
+      cleanup.forEach(fn => fn());
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
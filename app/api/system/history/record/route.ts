@@ -0,0 +1,32 @@
+// app/api/system/history/record/route.ts - Snapshot the current heartbeat (cron target)
+import { NextRequest, NextResponse } from 'next/server';
+import { rejectUnauthorizedCron } from '@/lib/cron';
+import { getDataStore } from '@/lib/datastore';
+import { recordHeartbeat } from '@/lib/heartbeatHistory';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export async function GET(request: NextRequest) {
+  const unauthorized = await rejectUnauthorizedCron(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const db = getDataStore();
+    const snapshot = await recordHeartbeat(db);
+
+    if (snapshot) console.log(`🩺 Recorded heartbeat ${snapshot.timestamp} (${snapshot.status})`);
+    return NextResponse.json({ recorded: snapshot !== null, snapshot });
+  } catch (error) {
+    console.error('❌ Error recording heartbeat:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to record heartbeat',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = GET;
@@ -0,0 +1,51 @@
+// app/api/system/history/route.ts - Uptime, incidents and resource usage over time
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { getDataStore } from '@/lib/datastore';
+import { fetchSystemHistory } from '@/lib/heartbeatHistory';
+import { parseStatsPeriod, PeriodQueryError } from '@/lib/period';
+import type { StatsPeriod } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// ?period= or ?from=&to=
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'operator');
+  if (auth.response) return auth.response;
+
+  let period: StatsPeriod;
+  try {
+    period = parseStatsPeriod(request.nextUrl.searchParams);
+  } catch (error) {
+    if (error instanceof PeriodQueryError) {
+      return NextResponse.json(
+        { error: 'Invalid query', message: error.message },
+        { status: 400 }
+      );
+    }
+    throw error;
+  }
+
+  try {
+    const db = getDataStore();
+    const history = await fetchSystemHistory(db, period);
+
+    console.log(`🩺 System history (${period.label}): uptime ${history.uptime_pct?.toFixed(2) ?? 'n/a'}%, ${history.incidents.length} incidents`);
+
+    return NextResponse.json(history, {
+      headers: {
+        'Cache-Control': 'no-store, no-cache, must-revalidate'
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error fetching system history:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch system history',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+// app/api/v1/predictions/[id]/route.ts - One prediction by id, for API consumers
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeConsumer } from '@/lib/auth';
+import { AssetQueryError, parseAsset } from '@/lib/assets';
+import { getDataStore } from '@/lib/datastore';
+import { assetCollections } from '@/lib/firebase';
+import { toV1Prediction } from '@/lib/publicApi';
+import { parseDoc } from '@/lib/validation';
+import { PredictionSchema } from '@/types/schemas';
+import type { ApiV1PredictionResponse } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// ?asset= says whose prediction `id` is, BTC by default
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorizeConsumer(request);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const asset = parseAsset(request.nextUrl.searchParams);
+    const collection = assetCollections(asset).predictions;
+    const doc = id.includes('/') ? null : await getDataStore().collection(collection).doc(id).get();
+    // A malformed document is as good as missing to a consumer; it is
+    // logged by parseDoc
+    const prediction = doc?.exists ? parseDoc(PredictionSchema, collection, doc, []) : null;
+
+    if (!prediction) {
+      return NextResponse.json(
+        { error: 'Not found', message: `No ${asset} prediction with id ${id}` },
+        { status: 404, headers: auth.headers }
+      );
+    }
+
+    const body: ApiV1PredictionResponse = { prediction: toV1Prediction(prediction, asset) };
+    return NextResponse.json(body, {
+      headers: {
+        ...auth.headers,
+        'Cache-Control': 'no-store, no-cache, must-revalidate'
+      }
+    });
+  } catch (error) {
+    if (error instanceof AssetQueryError) {
+      return NextResponse.json(
+        { error: 'Invalid query', message: error.message },
+        { status: 400, headers: auth.headers }
+      );
+    }
+
+    console.error(`❌ Error fetching v1 prediction ${id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch prediction',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: auth.headers }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+// app/api/v1/signals/route.ts - Latest signal per timeframe, for API consumers
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeConsumer } from '@/lib/auth';
+import { AssetQueryError, parseAsset } from '@/lib/assets';
+import { getDataStore } from '@/lib/datastore';
+import { fetchLatestSignals, toV1Prediction } from '@/lib/publicApi';
+import type { ApiV1SignalsResponse, Asset, DataWarning } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// ?asset= picks the coin, BTC by default
+export async function GET(request: NextRequest) {
+  const auth = await authorizeConsumer(request);
+  if (auth.response) return auth.response;
+
+  let asset: Asset;
+  try {
+    asset = parseAsset(request.nextUrl.searchParams);
+  } catch (error) {
+    if (error instanceof AssetQueryError) {
+      return NextResponse.json(
+        { error: 'Invalid query', message: error.message },
+        { status: 400, headers: auth.headers }
+      );
+    }
+    throw error;
+  }
+
+  try {
+    const warnings: DataWarning[] = [];
+    const signals = await fetchLatestSignals(getDataStore(), asset, warnings);
+
+    console.log(`📤 v1 signals for ${auth.key.name}: ${signals.length} ${asset} timeframes${warnings.length > 0 ? `, ${warnings.length} malformed skipped` : ''}`);
+
+    const body: ApiV1SignalsResponse = {
+      asset,
+      generated_at: new Date().toISOString(),
+      signals: signals.map(prediction => toV1Prediction(prediction, asset))
+    };
+    return NextResponse.json(body, {
+      headers: {
+        ...auth.headers,
+        'Cache-Control': 'no-store, no-cache, must-revalidate'
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error fetching v1 signals:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch signals',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: auth.headers }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+// app/api/v1/stats/route.ts - Win rates and errors overall and per timeframe, for API consumers
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeConsumer } from '@/lib/auth';
+import { AssetQueryError, parseAsset } from '@/lib/assets';
+import { loadWindowTotals, syncAggregatesThrottled } from '@/lib/aggregates';
+import { getDataStore } from '@/lib/datastore';
+import { parseStatsPeriod, PeriodQueryError } from '@/lib/period';
+import { toV1Stats } from '@/lib/publicApi';
+import { calculateOverallStats, calculateTimeframeStats } from '@/lib/stats';
+import { resolveTimeframes } from '@/lib/timeframes';
+import type { ApiV1StatsResponse, Asset, StatsPeriod } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// ?asset=, and ?period= (1d, 7d, 30d, 90d, all) or ?from=&to=; 7d by default
+export async function GET(request: NextRequest) {
+  const auth = await authorizeConsumer(request);
+  if (auth.response) return auth.response;
+
+  let period: StatsPeriod;
+  let asset: Asset;
+  try {
+    period = parseStatsPeriod(request.nextUrl.searchParams);
+    asset = parseAsset(request.nextUrl.searchParams);
+  } catch (error) {
+    if (error instanceof PeriodQueryError || error instanceof AssetQueryError) {
+      return NextResponse.json(
+        { error: 'Invalid query', message: error.message },
+        { status: 400, headers: auth.headers }
+      );
+    }
+    throw error;
+  }
+
+  try {
+    const db = getDataStore();
+    await syncAggregatesThrottled(db, asset);
+    const totals = await loadWindowTotals(db, period, asset);
+    const timeframes = resolveTimeframes({ withData: totals.byTimeframe.keys() });
+
+    const body: ApiV1StatsResponse = {
+      asset,
+      period: { key: period.key, label: period.label, from: period.from, to: period.to },
+      overall: toV1Stats(calculateOverallStats(totals, period, null)),
+      timeframes: calculateTimeframeStats(totals, timeframes, period, null).map(toV1Stats)
+    };
+
+    console.log(`📤 v1 stats for ${auth.key.name}: ${asset} ${period.label}, ${body.overall.total} predictions`);
+
+    return NextResponse.json(body, {
+      headers: {
+        ...auth.headers,
+        'Cache-Control': 'no-store, no-cache, must-revalidate'
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error fetching v1 stats:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch stats',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: auth.headers }
+    );
+  }
+}
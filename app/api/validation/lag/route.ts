@@ -0,0 +1,56 @@
+// app/api/validation/lag/route.ts - Overdue validations, lag distribution and trend
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { AssetQueryError, parseAsset } from '@/lib/assets';
+import { getDataStore } from '@/lib/datastore';
+import { parseStatsPeriod, PeriodQueryError } from '@/lib/period';
+import { fetchValidationLagReport } from '@/lib/validationLag';
+import type { Asset, DataWarning, StatsPeriod } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// ?period= or ?from=&to= sets the window for the distribution and trend;
+// the overdue count and oldest age are always as of now. ?asset= picks the coin.
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'operator');
+  if (auth.response) return auth.response;
+
+  let period: StatsPeriod;
+  let asset: Asset;
+  try {
+    period = parseStatsPeriod(request.nextUrl.searchParams);
+    asset = parseAsset(request.nextUrl.searchParams);
+  } catch (error) {
+    if (error instanceof PeriodQueryError || error instanceof AssetQueryError) {
+      return NextResponse.json(
+        { error: 'Invalid query', message: error.message },
+        { status: 400 }
+      );
+    }
+    throw error;
+  }
+
+  try {
+    const db = getDataStore();
+    const warnings: DataWarning[] = [];
+    const report = await fetchValidationLagReport(db, period, warnings, new Date(), asset);
+
+    console.log(`⏳ ${asset} validation lag (${period.label}): ${report.overdue} overdue, oldest ${report.oldest_overdue_minutes?.toFixed(0) ?? 'n/a'}m`);
+
+    return NextResponse.json({ ...report, warnings }, {
+      headers: {
+        'Cache-Control': 'no-store, no-cache, must-revalidate'
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error fetching validation lag:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch validation lag',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
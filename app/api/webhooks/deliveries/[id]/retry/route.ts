@@ -0,0 +1,48 @@
+// app/api/webhooks/deliveries/[id]/retry/route.ts - Queue a dead webhook delivery again
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { getDataStore } from '@/lib/datastore';
+import { retryWebhookDelivery, WebhookDeliveryNotFoundError, WebhookDeliveryStateError } from '@/lib/webhooks';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize(request, 'admin');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const db = getDataStore();
+    const delivery = await retryWebhookDelivery(db, id);
+
+    console.log(`🪝 Requeued webhook delivery ${id}`);
+    return NextResponse.json(delivery);
+  } catch (error) {
+    if (error instanceof WebhookDeliveryNotFoundError) {
+      return NextResponse.json(
+        { error: 'Not found', message: error.message },
+        { status: 404 }
+      );
+    }
+    if (error instanceof WebhookDeliveryStateError) {
+      return NextResponse.json(
+        { error: 'Conflict', message: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error(`❌ Error retrying webhook delivery ${id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to retry webhook delivery',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
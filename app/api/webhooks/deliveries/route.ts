@@ -0,0 +1,60 @@
+// app/api/webhooks/deliveries/route.ts - Recent webhook deliveries; ?status=dead for the dead letters
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { getDataStore } from '@/lib/datastore';
+import { listWebhookDeliveries, MAX_DELIVERY_LOG } from '@/lib/webhooks';
+import { WEBHOOK_DELIVERY_STATUSES } from '@/types/schemas';
+import type { DataWarning, WebhookDelivery } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const DEFAULT_LIMIT = 50;
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'admin');
+  if (auth.response) return auth.response;
+
+  const params = request.nextUrl.searchParams;
+  const limitParam = params.get('limit');
+  const limit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DELIVERY_LOG) {
+    return NextResponse.json(
+      { error: 'Invalid query', message: `limit must be an integer between 1 and ${MAX_DELIVERY_LOG}` },
+      { status: 400 }
+    );
+  }
+
+  const status = params.get('status') ?? undefined;
+  if (status !== undefined && !WEBHOOK_DELIVERY_STATUSES.includes(status as WebhookDelivery['status'])) {
+    return NextResponse.json(
+      { error: 'Invalid query', message: `status must be one of ${WEBHOOK_DELIVERY_STATUSES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const db = getDataStore();
+    const warnings: DataWarning[] = [];
+    const deliveries = await listWebhookDeliveries(
+      db,
+      { status: status as WebhookDelivery['status'] | undefined, limit },
+      warnings
+    );
+
+    return NextResponse.json({ deliveries, warnings }, {
+      headers: {
+        'Cache-Control': 'no-store, no-cache, must-revalidate'
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error listing webhook deliveries:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list webhook deliveries',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
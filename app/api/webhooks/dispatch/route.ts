@@ -0,0 +1,32 @@
+// app/api/webhooks/dispatch/route.ts - Queue new webhook events and send due deliveries (cron target)
+import { NextRequest, NextResponse } from 'next/server';
+import { getDataStore } from '@/lib/datastore';
+import { rejectUnauthorizedCron } from '@/lib/cron';
+import { dispatchWebhooks } from '@/lib/webhooks';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export async function GET(request: NextRequest) {
+  const unauthorized = await rejectUnauthorizedCron(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const db = getDataStore();
+    const summary = await dispatchWebhooks(db);
+
+    console.log(`🪝 Webhooks: ${summary.subscriptions} subscriptions, ${summary.enqueued} queued, ${summary.delivered} delivered, ${summary.retrying} retrying, ${summary.dead} dead`);
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('❌ Error dispatching webhooks:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to dispatch webhooks',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = GET;
@@ -0,0 +1,84 @@
+// app/api/webhooks/subscriptions/[id]/route.ts - Replace or delete one webhook subscription
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { getDataStore } from '@/lib/datastore';
+import {
+  deleteWebhookSubscription,
+  updateWebhookSubscription,
+  WebhookSubscriptionInputError,
+  WebhookSubscriptionNotFoundError
+} from '@/lib/webhooks';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorize(request, 'admin');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const db = getDataStore();
+    const subscription = await updateWebhookSubscription(db, id, body);
+
+    console.log(`🪝 Updated webhook subscription "${subscription.name}" (${id})`);
+    return NextResponse.json(subscription);
+  } catch (error) {
+    if (error instanceof WebhookSubscriptionNotFoundError) {
+      return NextResponse.json(
+        { error: 'Not found', message: error.message },
+        { status: 404 }
+      );
+    }
+    if (error instanceof WebhookSubscriptionInputError) {
+      return NextResponse.json(
+        { error: 'Invalid webhook subscription', message: error.message, issues: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error(`❌ Error updating webhook subscription ${id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update webhook subscription',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorize(request, 'admin');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const db = getDataStore();
+    await deleteWebhookSubscription(db, id);
+
+    console.log(`🗑️ Deleted webhook subscription ${id}`);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof WebhookSubscriptionNotFoundError) {
+      return NextResponse.json(
+        { error: 'Not found', message: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error(`❌ Error deleting webhook subscription ${id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete webhook subscription',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+// app/api/webhooks/subscriptions/route.ts - List and create webhook subscriptions
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { getDataStore } from '@/lib/datastore';
+import { createWebhookSubscription, listWebhookSubscriptions, WebhookSubscriptionInputError } from '@/lib/webhooks';
+import type { DataWarning } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'admin');
+  if (auth.response) return auth.response;
+
+  try {
+    const db = getDataStore();
+    const warnings: DataWarning[] = [];
+    const subscriptions = await listWebhookSubscriptions(db, warnings);
+
+    return NextResponse.json({ subscriptions, warnings }, {
+      headers: {
+        'Cache-Control': 'no-store, no-cache, must-revalidate'
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error listing webhook subscriptions:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list webhook subscriptions',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// The response holds the signing secret, which is not shown again
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request, 'admin');
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const db = getDataStore();
+    const subscription = await createWebhookSubscription(db, body);
+
+    console.log(`🪝 Created webhook subscription "${subscription.name}" (${subscription.id})`);
+    return NextResponse.json(subscription, {
+      status: 201,
+      headers: {
+        'Cache-Control': 'no-store, no-cache, must-revalidate'
+      }
+    });
+  } catch (error) {
+    if (error instanceof WebhookSubscriptionInputError) {
+      return NextResponse.json(
+        { error: 'Invalid webhook subscription', message: error.message, issues: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('❌ Error creating webhook subscription:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create webhook subscription',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
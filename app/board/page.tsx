@@ -0,0 +1,359 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import {
+  ArrowLeft,
+  CheckCircle,
+  Hourglass,
+  RefreshCw,
+  Timer,
+  TrendingDown,
+  TrendingUp,
+  XCircle
+} from 'lucide-react';
+import { AssetSwitcher } from '@/components/AssetSwitcher';
+import { useLiveUpdates } from '@/hooks/useLiveUpdates';
+import { DEFAULT_ASSET, withAsset } from '@/lib/assets';
+import { getTimeframeLabel, isBullishDirection, provisionalResult } from '@/types';
+import type { Asset, LiveConnectionState, LiveEvent, Prediction, PriceQuote, UpcomingPredictions } from '@/types';
+
+// ============================================================================
+// CONSTANTS & UTILITY FUNCTIONS
+// ============================================================================
+
+const TICK_MS = 1000;
+const POLL_MS = 30000;
+
+const LIVE_STATE_CONFIG: Record<LiveConnectionState, { label: string; dot: string; text: string }> = {
+  live: { label: 'Live', dot: 'bg-green-400 animate-pulse', text: 'text-green-400' },
+  connecting: { label: 'Connecting', dot: 'bg-yellow-400', text: 'text-yellow-400' },
+  reconnecting: { label: 'Reconnecting', dot: 'bg-yellow-400 animate-pulse', text: 'text-yellow-400' },
+  polling: { label: 'Polling (30s)', dot: 'bg-orange-400', text: 'text-orange-400' },
+  off: { label: 'Paused', dot: 'bg-gray-500', text: 'text-gray-400' }
+};
+
+const formatPrice = (price: number): string =>
+  `$${price.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatCountdown = (ms: number): string => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(total / 86400);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const clock = `${pad(Math.floor((total % 86400) / 3600))}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+  return days > 0 ? `${days}d ${clock}` : clock;
+};
+
+interface BoardState {
+  predictions: Prediction[];
+  quote: PriceQuote | null;
+  skewMs: number; // server clock minus client clock at the last fetch
+  truncated: boolean;
+}
+
+// Merges a stream event into the board; validated predictions leave it
+const applyLiveEvent = (board: BoardState, event: LiveEvent): BoardState => {
+  switch (event.type) {
+    case 'prediction': {
+      const prediction = event.prediction;
+      if (prediction.validated) return board;
+      const predictions = [...board.predictions.filter(p => p.id !== prediction.id), prediction]
+        .sort((a, b) => new Date(a.target_time).getTime() - new Date(b.target_time).getTime());
+      return { ...board, predictions };
+    }
+    case 'validation':
+      return { ...board, predictions: board.predictions.filter(p => p.id !== event.prediction.id) };
+    case 'price':
+      return { ...board, quote: event.quote };
+    case 'heartbeat':
+      return board;
+  }
+};
+
+// ============================================================================
+// COMPONENTS
+// ============================================================================
+
+// Range band with the entry, target and live price marked on one scale
+function PriceBand({ prediction, price }: { prediction: Prediction; price: number | null }) {
+  const values = [prediction.price_range_low, prediction.price_range_high, prediction.current_price, prediction.predicted_price];
+  if (price !== null) values.push(price);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const position = (value: number) => `${((value - min) / span) * 100}%`;
+  const inRange = price !== null && price >= prediction.price_range_low && price <= prediction.price_range_high;
+
+  return (
+    <div className="relative h-4 w-full min-w-[120px]">
+      <div className="absolute top-1.5 left-0 right-0 h-1 rounded-full bg-gray-700" />
+      <div
+        className="absolute top-1 h-2 rounded-full bg-blue-500/40"
+        style={{
+          left: position(prediction.price_range_low),
+          width: `${((prediction.price_range_high - prediction.price_range_low) / span) * 100}%`
+        }}
+        title={`Range ${formatPrice(prediction.price_range_low)} – ${formatPrice(prediction.price_range_high)}`}
+      />
+      <div
+        className="absolute top-0.5 h-3 w-0.5 bg-gray-400"
+        style={{ left: position(prediction.current_price) }}
+        title={`Entry ${formatPrice(prediction.current_price)}`}
+      />
+      <div
+        className="absolute top-0.5 h-3 w-0.5 bg-blue-300"
+        style={{ left: position(prediction.predicted_price) }}
+        title={`Predicted ${formatPrice(prediction.predicted_price)}`}
+      />
+      {price !== null && (
+        <div
+          className={`absolute top-0 h-4 w-1 -ml-0.5 rounded-sm ${inRange ? 'bg-green-400' : 'bg-yellow-400'}`}
+          style={{ left: position(price) }}
+          title={`Live ${formatPrice(price)}${inRange ? ' (in range)' : ''}`}
+        />
+      )}
+    </div>
+  );
+}
+
+function BoardRow({ prediction, price, now }: { prediction: Prediction; price: number | null; now: number }) {
+  const remaining = new Date(prediction.target_time).getTime() - now;
+  const result = price !== null ? provisionalResult(prediction, price) : null;
+  const bullish = isBullishDirection(prediction.trend);
+  const toTarget = price !== null ? prediction.predicted_price - price : null;
+
+  return (
+    <tr className="border-b border-gray-700/50">
+      <td className="py-2 px-2">
+        {remaining > 0 ? (
+          <span className={`font-mono ${remaining < 60000 ? 'text-yellow-400' : 'text-white'}`}>
+            {formatCountdown(remaining)}
+          </span>
+        ) : (
+          <span className="flex items-center gap-1 text-gray-400">
+            <Hourglass className="w-3 h-3" />
+            Settling
+          </span>
+        )}
+      </td>
+      <td className="py-2 px-2">
+        <span className={`flex items-center gap-1 ${bullish ? 'text-green-400' : 'text-red-400'}`}>
+          {bullish ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />}
+          {prediction.trend}
+        </span>
+      </td>
+      <td className="py-2 px-2 text-right text-gray-300">{formatPrice(prediction.current_price)}</td>
+      <td className="py-2 px-2 text-right text-white">
+        {formatPrice(prediction.predicted_price)}
+        {toTarget !== null && (
+          <div className="text-[10px] md:text-xs text-gray-500">
+            {toTarget >= 0 ? '+' : '-'}{formatPrice(Math.abs(toTarget))} to go
+          </div>
+        )}
+      </td>
+      <td className="py-2 px-2">
+        <PriceBand prediction={prediction} price={price} />
+      </td>
+      <td className="py-2 px-2 text-right text-gray-300">{prediction.confidence.toFixed(0)}%</td>
+      <td className="py-2 px-2 text-right">
+        {result === null ? (
+          <span className="text-gray-500">—</span>
+        ) : (
+          <span
+            className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-semibold ${
+              result === 'WIN' ? 'bg-green-900/30 text-green-400' : 'bg-red-900/30 text-red-400'
+            }`}
+          >
+            {result === 'WIN' ? <CheckCircle className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
+            {result === 'WIN' ? 'Winning' : 'Losing'}
+          </span>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export default function CountdownBoard() {
+  const [board, setBoard] = useState<BoardState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [clock, setClock] = useState(() => Date.now());
+  const [asset, setAsset] = useState<Asset>(DEFAULT_ASSET);
+
+  const fetchBoard = useCallback(async () => {
+    try {
+      const response = await fetch(withAsset('/api/predictions/upcoming', asset), { cache: 'no-store' });
+      const body = await response.json();
+      if (!response.ok || body.error) {
+        throw new Error(body.message || body.error || `HTTP error! status: ${response.status}`);
+      }
+      const upcoming = body as UpcomingPredictions;
+      setBoard({
+        predictions: upcoming.predictions,
+        quote: upcoming.priceQuote,
+        skewMs: new Date(upcoming.server_time).getTime() - Date.now(),
+        truncated: upcoming.truncated
+      });
+      setError(null);
+    } catch (error) {
+      console.error('Error fetching upcoming predictions:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load upcoming predictions');
+    }
+  }, [asset]);
+
+  const handleLiveEvent = useCallback((event: LiveEvent) => {
+    setBoard(prev => prev ? applyLiveEvent(prev, event) : prev);
+  }, []);
+
+  const liveState = useLiveUpdates(true, handleLiveEvent, asset);
+
+  // Another asset's predictions and price must not linger while the new ones load
+  const switchAsset = (next: Asset) => {
+    if (next === asset) return;
+    setBoard(null);
+    setAsset(next);
+  };
+
+  useEffect(() => {
+    fetchBoard();
+  }, [fetchBoard]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setClock(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Events sent while disconnected are lost, so resync after a reconnect
+  const previousLiveState = useRef<LiveConnectionState>(liveState);
+  useEffect(() => {
+    const previous = previousLiveState.current;
+    previousLiveState.current = liveState;
+    if (liveState === 'live' && (previous === 'reconnecting' || previous === 'polling')) {
+      fetchBoard();
+    }
+  }, [liveState, fetchBoard]);
+
+  // Fallback when the stream is unavailable
+  useEffect(() => {
+    if (liveState !== 'polling') return;
+    const interval = setInterval(fetchBoard, POLL_MS);
+    return () => clearInterval(interval);
+  }, [fetchBoard, liveState]);
+
+  const now = clock + (board?.skewMs ?? 0);
+  const price = board?.quote?.price ?? null;
+
+  const groups = useMemo(() => {
+    const byTimeframe = new Map<number, Prediction[]>();
+    (board?.predictions ?? []).forEach(prediction => {
+      byTimeframe.set(prediction.timeframe_minutes, [...(byTimeframe.get(prediction.timeframe_minutes) ?? []), prediction]);
+    });
+    return Array.from(byTimeframe.entries()).sort(([a], [b]) => a - b);
+  }, [board]);
+
+  const tally = (board?.predictions ?? []).reduce(
+    (counts, prediction) => {
+      const result = price !== null ? provisionalResult(prediction, price) : null;
+      if (result === 'WIN') counts.winning += 1;
+      if (result === 'LOSE') counts.losing += 1;
+      return counts;
+    },
+    { winning: 0, losing: 0 }
+  );
+  const liveConfig = LIVE_STATE_CONFIG[liveState];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 p-3 md:p-4 lg:p-6">
+      <div className="max-w-7xl mx-auto space-y-4 md:space-y-6">
+
+        {/* Header */}
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 md:p-6 border border-gray-700">
+          <Link href="/" className="inline-flex items-center gap-1 text-xs md:text-sm text-blue-400 hover:text-blue-300 mb-3">
+            <ArrowLeft className="w-4 h-4" />
+            Dashboard
+          </Link>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div>
+              <h1 className="text-xl md:text-2xl font-bold text-white flex items-center gap-2">
+                <Timer className="w-5 h-5 md:w-6 md:h-6 text-blue-500" />
+                Countdown Board
+              </h1>
+              <div className="flex flex-wrap items-center gap-3 mt-2">
+                <AssetSwitcher asset={asset} onChange={switchAsset} />
+                <div className={`flex items-center gap-2 text-xs md:text-sm ${liveConfig.text}`}>
+                  <span className={`w-2 h-2 rounded-full ${liveConfig.dot}`} />
+                  {liveConfig.label}
+                </div>
+              </div>
+            </div>
+            <div className="sm:text-right">
+              <div className="text-2xl md:text-3xl font-bold text-white">
+                {price !== null ? formatPrice(price) : 'Price unavailable'}
+              </div>
+              {board && (
+                <div className="text-xs md:text-sm text-gray-400">
+                  {board.predictions.length} in flight ·{' '}
+                  <span className="text-green-400">{tally.winning} winning</span> ·{' '}
+                  <span className="text-red-400">{tally.losing} losing</span>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-900/20 border border-red-700/50 rounded-lg p-3 text-xs md:text-sm text-red-400">
+            {error}
+          </div>
+        )}
+
+        {!board ? (
+          <div className="flex items-center justify-center py-16 text-gray-400 text-sm">
+            <RefreshCw className="w-5 h-5 animate-spin mr-2" />
+            Loading upcoming predictions...
+          </div>
+        ) : groups.length === 0 ? (
+          <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-8 border border-gray-700 text-center text-gray-400 text-sm">
+            No predictions are waiting for their target time
+          </div>
+        ) : (
+          groups.map(([timeframe, predictions]) => (
+            <div key={timeframe} className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 md:p-6 border border-gray-700">
+              <h2 className="text-lg md:text-xl font-semibold text-white mb-3">
+                {getTimeframeLabel(timeframe)}
+                <span className="text-xs md:text-sm text-gray-400 font-normal ml-2">({predictions.length})</span>
+              </h2>
+              <div className="overflow-x-auto -mx-4 md:mx-0">
+                <table className="w-full text-xs md:text-sm min-w-[720px]">
+                  <thead>
+                    <tr className="text-left text-gray-400 border-b border-gray-700">
+                      <th className="py-2 px-2">Countdown</th>
+                      <th className="py-2 px-2">Direction</th>
+                      <th className="py-2 px-2 text-right">Entry</th>
+                      <th className="py-2 px-2 text-right">Predicted</th>
+                      <th className="py-2 px-2">Range</th>
+                      <th className="py-2 px-2 text-right">Confidence</th>
+                      <th className="py-2 px-2 text-right">Now</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {predictions.map(prediction => (
+                      <BoardRow key={prediction.id} prediction={prediction} price={price} now={now} />
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ))
+        )}
+
+        {board?.truncated && (
+          <p className="text-xs text-gray-500 text-center">Showing the soonest predictions only.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { Brain, KeyRound, LogIn, RefreshCw, XCircle } from 'lucide-react';
+import { useSession } from '@/hooks/useSession';
+import { safeRedirectPath } from '@/lib/auth/session';
+
+const inputClass =
+  'w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500';
+
+function LoginForm() {
+  const params = useSearchParams();
+  const next = safeRedirectPath(params.get('next'));
+  const session = useSession();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(params.get('error'));
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password })
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || `HTTP error! status: ${response.status}`);
+      }
+      // A full load, so every component picks up the new session
+      window.location.assign(next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+      setSubmitting(false);
+    }
+  };
+
+  if (!session) {
+    return <RefreshCw className="w-8 h-8 text-blue-500 animate-spin mx-auto" />;
+  }
+
+  const { providers } = session;
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="flex items-start gap-2 text-xs md:text-sm text-red-400">
+          <XCircle className="w-4 h-4 mt-0.5 shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {!providers.credentials && (
+        <p className="text-sm text-gray-400">
+          Sign-in is not configured. Set <code className="text-gray-300">AUTH_SECRET</code>, or{' '}
+          <code className="text-gray-300">AUTH_DISABLED=true</code> for local development.
+        </p>
+      )}
+
+      {providers.credentials && (
+        <form onSubmit={submit} className="space-y-3">
+          <label className="block space-y-1">
+            <span className="text-xs text-gray-400">Email</span>
+            <input
+              type="email"
+              autoComplete="username"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className="block space-y-1">
+            <span className="text-xs text-gray-400">Password</span>
+            <input
+              type="password"
+              autoComplete="current-password"
+              required
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded text-sm"
+          >
+            <LogIn className="w-4 h-4" />
+            {submitting ? 'Signing in...' : 'Sign in'}
+          </button>
+        </form>
+      )}
+
+      {providers.oidc && (
+        <a
+          href={`/api/auth/oidc?next=${encodeURIComponent(next)}`}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm"
+        >
+          <KeyRound className="w-4 h-4" />
+          Sign in with SSO
+        </a>
+      )}
+    </div>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 flex items-center justify-center p-4">
+      <div className="w-full max-w-sm bg-gray-800/50 backdrop-blur-sm rounded-xl p-6 border border-gray-700 space-y-5">
+        <h1 className="text-xl font-bold text-white flex items-center gap-2">
+          <Brain className="w-6 h-6 text-blue-500" />
+          Predictor Sign-in
+        </h1>
+        <Suspense fallback={<RefreshCw className="w-8 h-8 text-blue-500 animate-spin mx-auto" />}>
+          <LoginForm />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
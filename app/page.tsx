@@ -1,6 +1,7 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import Link from 'next/link';
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -21,9 +22,37 @@ import {
   Calendar,
   Timer,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  Bell,
+  Webhook
 } from 'lucide-react';
+import { AssetSwitcher } from '../components/AssetSwitcher';
+import { BacktestPanel } from '../components/BacktestPanel';
+import { CalibrationChart } from '../components/CalibrationChart';
 import { EnhancedCharts } from '../components/EnhancedCharts';
+import { ExportButtons } from '../components/ExportButtons';
+import { ModelLeaderboard } from '../components/ModelLeaderboard';
+import { ModelPerformanceHistory } from '../components/ModelPerformanceHistory';
+import SystemStatusBadge from '../components/SystemStatus';
+import { SystemHistoryTimeline } from '../components/SystemHistoryTimeline';
+import { UserMenu } from '../components/UserMenu';
+import { ValidationLagMonitor } from '../components/ValidationLagMonitor';
+import { useHealthStatus } from '@/hooks/useHealthStatus';
+import { redirectToLogin, useSession } from '@/hooks/useSession';
+import { useLiveUpdates } from '@/hooks/useLiveUpdates';
+import { ASSETS, DEFAULT_ASSET, withAsset } from '@/lib/assets';
+import { hasRole } from '@/lib/auth/roles';
+import { getTimeframeLabel } from '@/types';
+import type {
+  Asset,
+  DashboardData,
+  DataWarning,
+  LiveConnectionState,
+  LiveEvent,
+  PriceSource,
+  StatsPeriodKey,
+  TimeframeCategoryStats
+} from '@/types';
 
 // ============================================================================
 // TYPES
@@ -37,109 +66,15 @@ declare global {
   }
 }
 
-interface Prediction {
-  id: string;
-  timestamp: string;
-  prediction_time: string;
-  timeframe_minutes: number;
-  current_price: number;
-  predicted_price: number;
-  price_change: number;
-  price_change_pct: number;
-  price_range_low: number;
-  price_range_high: number;
-  trend: string;
-  confidence: number;
-  method: string;
-  target_time: string;
-  validated: boolean;
-  validation_result?: 'WIN' | 'LOSE' | null;
-  validation_time?: string;
-  actual_price?: number;
-  price_error?: number;
-  price_error_pct?: number;
-  direction_correct?: boolean;
-  model_agreement?: number;
-  lstm_prediction?: number;
-  gb_prediction?: number;
-  rf_direction?: string;
-  rf_confidence?: number;
-}
-
-interface Statistics {
-  timeframe_minutes?: number;
-  period_days: number;
-  total_predictions: number;
-  wins: number;
-  losses: number;
-  win_rate: number;
-  avg_error: number;
-  avg_error_pct: number;
-  last_updated: string;
-}
-
-interface TimeframeCategoryStats {
-  category: 'ultra_short' | 'short' | 'medium' | 'long';
-  timeframes: number[];
-  total_predictions: number;
-  wins: number;
-  losses: number;
-  win_rate: number;
-  avg_error: number;
-  avg_error_pct: number;
-}
-
-interface ModelPerformance {
-  id: string;
-  timestamp: string;
-  metrics: {
-    lstm?: { mae: number; rmse: number };
-    rf?: { accuracy: number };
-    gb?: { mae: number; rmse: number };
-  };
-}
-
-interface SystemStatus {
-  status: 'online' | 'offline' | 'starting' | 'running' | 'stopping' | 'error';
-  timestamp: string;
-  uptime_hours?: number;
-  uptime_seconds?: number;
-  memory_mb?: number;
-  cpu_percent?: number;
-  message?: string;
-  heartbeat_count?: number;
-  last_heartbeat?: string;
-  last_activity?: string;
-  predictions_count?: number;
-  total_predictions?: number;
-  successful_predictions?: number;
-  failed_predictions?: number;
-  health_status?: string;
-  process_id?: number;
-  active_timeframes?: number;
-}
-
-interface DashboardData {
-  currentPrice: number;
-  overallStats: Statistics | null;
-  timeframeStats: Statistics[];
-  categoryStats?: TimeframeCategoryStats[];
-  recentPredictions: Prediction[];
-  pendingPredictions: Prediction[];
-  modelPerformance: ModelPerformance | null;
-  systemStatus: SystemStatus;
-  lastUpdate: string;
-}
-
 // ============================================================================
 // CONSTANTS
 // ============================================================================
 
-const TIMEFRAME_LABELS: Record<number, string> = {
-  1: '1m', 2: '2m', 3: '3m', 5: '5m', 10: '10m', 15: '15m', 20: '20m',
-  30: '30m', 45: '45m', 60: '1h', 120: '2h', 180: '3h', 240: '4h',
-  360: '6h', 480: '8h', 720: '12h', 1440: '1d', 2880: '2d', 
-  4320: '3d', 5760: '4d', 7200: '5d', 10080: '7d'
+const PRICE_SOURCE_LABELS: Record<PriceSource, string> = {
+  cryptocompare: 'CryptoCompare',
+  binance: 'Binance',
+  coinbase: 'Coinbase',
+  kraken: 'Kraken'
 };
 
 const CATEGORY_CONFIG = {
@@ -173,6 +108,32 @@ const CATEGORY_CONFIG = {
   }
 };
 
+const PERIOD_OPTIONS: { key: StatsPeriodKey; label: string }[] = [
+  { key: '1d', label: '24H' },
+  { key: '7d', label: '7D' },
+  { key: '30d', label: '30D' },
+  { key: '90d', label: '90D' },
+  { key: 'all', label: 'All' },
+  { key: 'custom', label: 'Custom' }
+];
+
+interface PeriodSelection {
+  key: StatsPeriodKey;
+  from?: string; // yyyy-mm-dd, custom only
+  to?: string; // yyyy-mm-dd, custom only
+}
+
+const RECENT_PREDICTIONS_LIMIT = 30;
+const LIVE_REFETCH_DEBOUNCE_MS = 5000;
+
+const LIVE_STATE_CONFIG: Record<LiveConnectionState, { label: string; dot: string; text: string }> = {
+  live: { label: 'Live', dot: 'bg-green-400 animate-pulse', text: 'text-green-400' },
+  connecting: { label: 'Connecting', dot: 'bg-yellow-400', text: 'text-yellow-400' },
+  reconnecting: { label: 'Reconnecting', dot: 'bg-yellow-400 animate-pulse', text: 'text-yellow-400' },
+  polling: { label: 'Polling (30s)', dot: 'bg-orange-400', text: 'text-orange-400' },
+  off: { label: 'Paused', dot: 'bg-gray-500', text: 'text-gray-400' }
+};
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
@@ -207,8 +168,51 @@ const formatPrice = (price: number | undefined | null): string => {
   return `$${price.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 };
 
-const getTimeframeLabel = (minutes: number): string => {
-  return TIMEFRAME_LABELS[minutes] || `${minutes}min`;
+// Query string for the stats window and asset, shared by every period-aware endpoint
+const buildPeriodQuery = (selection: PeriodSelection, asset: Asset): string => {
+  const params = new URLSearchParams();
+  if (asset !== DEFAULT_ASSET) params.set('asset', asset);
+  if (selection.key === 'custom' && selection.from) {
+    params.set('from', new Date(`${selection.from}T00:00:00`).toISOString());
+    if (selection.to) {
+      params.set('to', new Date(`${selection.to}T23:59:59.999`).toISOString());
+    }
+  } else if (selection.key !== 'custom') {
+    params.set('period', selection.key);
+  }
+  return params.toString();
+};
+
+// Merges a stream event into the dashboard without a full refetch
+const applyLiveEvent = (data: DashboardData, event: LiveEvent): DashboardData => {
+  switch (event.type) {
+    case 'prediction': {
+      const prediction = event.prediction;
+      return {
+        ...data,
+        recentPredictions: [
+          prediction,
+          ...data.recentPredictions.filter(p => p.id !== prediction.id)
+        ].slice(0, RECENT_PREDICTIONS_LIMIT),
+        // Pending means past its target time and awaiting validation, as the API reports it
+        pendingPredictions: prediction.validated || new Date(prediction.target_time) > new Date()
+          ? data.pendingPredictions
+          : [prediction, ...data.pendingPredictions.filter(p => p.id !== prediction.id)]
+      };
+    }
+    case 'validation': {
+      const prediction = event.prediction;
+      return {
+        ...data,
+        recentPredictions: data.recentPredictions.map(p => p.id === prediction.id ? prediction : p),
+        pendingPredictions: data.pendingPredictions.filter(p => p.id !== prediction.id)
+      };
+    }
+    case 'heartbeat':
+      return { ...data, systemStatus: event.systemStatus };
+    case 'price':
+      return { ...data, currentPrice: event.quote.price, priceQuote: event.quote };
+  }
 };
 
 const getWinRateColor = (winRate: number): string => {
@@ -225,11 +229,145 @@ const getWinRateBarColor = (winRate: number): string => {
   return 'from-red-500 to-rose-500';
 };
 
+// ============================================================================
+// PERIOD SELECTOR & DELTA COMPONENTS
+// ============================================================================
+
+function PeriodSelector({
+  selection,
+  onChange
+}: {
+  selection: PeriodSelection;
+  onChange: (selection: PeriodSelection) => void;
+}) {
+  const [customFrom, setCustomFrom] = useState(selection.from ?? '');
+  const [customTo, setCustomTo] = useState(selection.to ?? '');
+  const [showCustom, setShowCustom] = useState(selection.key === 'custom');
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1.5 lg:justify-end">
+        {PERIOD_OPTIONS.map(option => (
+          <button
+            key={option.key}
+            onClick={() => {
+              if (option.key === 'custom') {
+                setShowCustom(true);
+                return;
+              }
+              setShowCustom(false);
+              onChange({ key: option.key });
+            }}
+            className={`px-2 md:px-3 py-1 rounded text-xs md:text-sm transition-colors ${
+              (option.key === 'custom' ? showCustom : !showCustom && selection.key === option.key)
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {showCustom && (
+        <div className="flex flex-wrap items-center gap-1.5 lg:justify-end text-xs md:text-sm">
+          <input
+            type="date"
+            value={customFrom}
+            onChange={(e) => setCustomFrom(e.target.value)}
+            className="bg-gray-700 text-white px-2 py-1 rounded border border-gray-600"
+          />
+          <span className="text-gray-400">to</span>
+          <input
+            type="date"
+            value={customTo}
+            onChange={(e) => setCustomTo(e.target.value)}
+            className="bg-gray-700 text-white px-2 py-1 rounded border border-gray-600"
+          />
+          <button
+            onClick={() => onChange({ key: 'custom', from: customFrom, to: customTo || undefined })}
+            disabled={!customFrom || (!!customTo && customTo < customFrom)}
+            className="px-3 py-1 rounded bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white transition-colors"
+          >
+            Apply
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function DeltaBadge({
+  value,
+  suffix = '',
+  digits = 1,
+  lowerIsBetter = false
+}: {
+  value: number | undefined;
+  suffix?: string;
+  digits?: number;
+  lowerIsBetter?: boolean;
+}) {
+  if (value === undefined) return null;
+
+  const rounded = Number(value.toFixed(digits));
+  if (rounded === 0) {
+    return <div className="text-[10px] md:text-xs text-gray-500 mt-1">± 0{suffix} vs prev</div>;
+  }
+
+  const improved = lowerIsBetter ? rounded < 0 : rounded > 0;
+  return (
+    <div className={`text-[10px] md:text-xs mt-1 flex items-center gap-0.5 ${improved ? 'text-green-400' : 'text-red-400'}`}>
+      {rounded > 0 ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+      {rounded > 0 ? '+' : ''}{rounded.toFixed(digits)}{suffix} vs prev
+    </div>
+  );
+}
+
+function LiveStatusBadge({ state }: { state: LiveConnectionState }) {
+  const config = LIVE_STATE_CONFIG[state];
+  return (
+    <div className={`flex items-center gap-2 text-xs md:text-sm ${config.text}`}>
+      <span className={`w-2 h-2 rounded-full ${config.dot}`} />
+      {config.label}
+    </div>
+  );
+}
+
+function DataWarningsNotice({ warnings }: { warnings: DataWarning[] }) {
+  const [expanded, setExpanded] = useState(false);
+  if (warnings.length === 0) return null;
+
+  return (
+    <div className="bg-yellow-900/20 border border-yellow-700/50 rounded-xl p-3 md:p-4">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between gap-2 text-left text-xs md:text-sm text-yellow-300"
+      >
+        <span className="flex items-center gap-2">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {warnings.length} malformed {warnings.length === 1 ? 'document was' : 'documents were'} skipped
+        </span>
+        {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+      {expanded && (
+        <ul className="mt-3 space-y-2 text-xs text-gray-300">
+          {warnings.map(warning => (
+            <li key={`${warning.collection}/${warning.id}`}>
+              <span className="font-mono text-yellow-200">{warning.collection}/{warning.id}</span>
+              <span className="text-gray-400"> — {warning.issues.join('; ')}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 // ============================================================================
 // TRADINGVIEW CHART COMPONENT
 // ============================================================================
 
-function TradingViewChart() {
+function TradingViewChart({ asset }: { asset: Asset }) {
   useEffect(() => {
     const script = document.createElement('script');
     script.src = 'https://s3.tradingview.com/tv.js';
@@ -238,7 +376,7 @@ function TradingViewChart() {
       if (typeof window.TradingView !== 'undefined') {
         new window.TradingView.widget({
           autosize: true,
-          symbol: "BINANCE:BTCUSDT",
+          symbol: ASSETS[asset].tradingViewSymbol,
           interval: "15",
           timezone: "Asia/Jakarta",
           theme: "dark",
@@ -263,14 +401,14 @@ function TradingViewChart() {
         document.head.removeChild(existingScript);
       }
     };
-  }, []);
+  }, [asset]);
 
   return (
     <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700 overflow-hidden">
       <div className="p-4 border-b border-gray-700">
         <h2 className="text-lg md:text-xl font-semibold text-white flex items-center gap-2">
           <BarChart3 className="w-5 h-5 text-blue-500" />
-          Live Bitcoin Chart
+          Live {ASSETS[asset].name} Chart
         </h2>
       </div>
       <div id="tradingview_chart" className="w-full h-[400px] md:h-[500px]" />
@@ -282,87 +420,32 @@ function TradingViewChart() {
 // SYSTEM STATUS COMPONENT
 // ============================================================================
 
-function SystemStatusCard({ systemStatus }: { systemStatus?: SystemStatus }) {
-  const [minutesSince, setMinutesSince] = useState(0);
-  const [status, setStatus] = useState<'online' | 'warning' | 'offline' | 'unknown'>('unknown');
-
-  useEffect(() => {
-    if (!systemStatus?.timestamp) {
-      setStatus('unknown');
-      return;
-    }
-
-    const updateStatus = () => {
-      try {
-        const lastTime = new Date(systemStatus.timestamp);
-        const now = new Date();
-        const diffMinutes = Math.floor((now.getTime() - lastTime.getTime()) / 60000);
-        setMinutesSince(diffMinutes);
-
-        if (systemStatus.status === 'offline' || systemStatus.status === 'error') {
-          setStatus('offline');
-        } else if (diffMinutes < 2) {
-          setStatus('online');
-        } else if (diffMinutes < 10) {
-          setStatus('warning');
-        } else {
-          setStatus('offline');
-        }
-      } catch {
-        setStatus('unknown');
-      }
-    };
-
-    updateStatus();
-    const interval = setInterval(updateStatus, 10000);
-    return () => clearInterval(interval);
-  }, [systemStatus]);
-
-  const statusConfig = {
-    online: {
-      label: 'ONLINE', color: 'text-green-400', bgColor: 'bg-green-500/20',
-      borderColor: 'border-green-500/50', pulseColor: 'bg-green-500',
-      icon: <CheckCircle className="w-4 h-4" />
-    },
-    warning: {
-      label: 'DELAYED', color: 'text-yellow-400', bgColor: 'bg-yellow-500/20',
-      borderColor: 'border-yellow-500/50', pulseColor: 'bg-yellow-500',
-      icon: <Clock className="w-4 h-4" />
-    },
-    offline: {
-      label: 'OFFLINE', color: 'text-red-400', bgColor: 'bg-red-500/20',
-      borderColor: 'border-red-500/50', icon: <AlertCircle className="w-4 h-4" />
-    },
-    unknown: {
-      label: 'CHECKING', color: 'text-gray-400', bgColor: 'bg-gray-500/20',
-      borderColor: 'border-gray-500/50', icon: <Activity className="w-4 h-4 animate-pulse" />
-    }
-  }[status];
-
-  const getMessage = () => {
-    if (status === 'unknown') return 'Checking...';
-    if (status === 'online') return minutesSince === 0 ? 'Active now' : `${minutesSince}m ago`;
-    if (status === 'warning') return `${minutesSince}m ago`;
-    return `Inactive ${minutesSince}m`;
-  };
+// Uptime history is an operator view; viewers see the badge alone
+function SystemStatusCard({ data, showHistory }: { data: DashboardData; showHistory: boolean }) {
+  const [expanded, setExpanded] = useState(false);
+  const health = useHealthStatus(data);
+  const systemStatus = data.systemStatus;
+  // Degraded still means the predictor process is up, so its metrics are live
+  const healthy = health.state === 'online' || health.state === 'degraded';
 
   return (
     <div className="space-y-3 md:space-y-4">
       <div className="flex flex-col sm:flex-row items-start sm:items-center gap-2 sm:gap-3">
-        <div className={`flex items-center gap-2 px-3 py-1.5 md:px-4 md:py-2 rounded-lg border ${statusConfig.bgColor} ${statusConfig.borderColor} transition-all duration-300`}>
-          {status === 'online' && statusConfig.pulseColor && (
-            <div className="relative flex items-center justify-center">
-              <span className={`absolute inline-flex h-3 w-3 rounded-full ${statusConfig.pulseColor} opacity-75 animate-ping`} />
-              <span className={`relative inline-flex h-2 w-2 rounded-full ${statusConfig.pulseColor}`} />
-            </div>
-          )}
-          <span className={statusConfig.color}>{statusConfig.icon}</span>
-          <span className={`font-semibold text-xs md:text-sm tracking-wide ${statusConfig.color}`}>{statusConfig.label}</span>
-        </div>
-        <div className="text-xs md:text-sm text-gray-400">{getMessage()}</div>
+        <SystemStatusBadge health={health} />
+        {showHistory && (
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1 sm:ml-auto"
+          >
+            {expanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+            {expanded ? 'Hide history' : 'Uptime history'}
+          </button>
+        )}
       </div>
 
-      {status === 'online' && systemStatus && (
+      {showHistory && expanded && <SystemHistoryTimeline />}
+
+      {healthy && systemStatus && (
         <div className="grid grid-cols-2 md:grid-cols-3 gap-2 md:gap-3">
           {systemStatus.uptime_hours !== undefined && (
             <div className="bg-gray-900/50 rounded-lg p-2 md:p-3 border border-gray-700">
@@ -394,7 +477,7 @@ function SystemStatusCard({ systemStatus }: { systemStatus?: SystemStatus }) {
         </div>
       )}
 
-      {status === 'online' && systemStatus && (
+      {healthy && systemStatus && (
         <div className="flex flex-wrap items-center gap-3 md:gap-4 text-xs text-gray-500">
           {systemStatus.health_status && (
             <div className="flex items-center gap-1.5">
@@ -426,15 +509,26 @@ function SystemStatusCard({ systemStatus }: { systemStatus?: SystemStatus }) {
 // CATEGORY STATS COMPONENT
 // ============================================================================
 
-function CategoryStatsGrid({ categoryStats }: { categoryStats?: TimeframeCategoryStats[] }) {
+function CategoryStatsGrid({
+  categoryStats,
+  periodLabel,
+  periodQuery
+}: {
+  categoryStats?: TimeframeCategoryStats[];
+  periodLabel?: string;
+  periodQuery: string;
+}) {
   if (!categoryStats || categoryStats.length === 0) return null;
 
   return (
     <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 md:p-6 border border-gray-700">
-      <h2 className="text-lg md:text-xl font-semibold text-white mb-3 md:mb-4 flex items-center gap-2">
-        <TrendingUpDown className="w-4 h-4 md:w-5 md:h-5 text-blue-500" />
-        Performance by Category
-      </h2>
+      <div className="flex items-center justify-between gap-2 mb-3 md:mb-4">
+        <h2 className="text-lg md:text-xl font-semibold text-white flex items-center gap-2">
+          <TrendingUpDown className="w-4 h-4 md:w-5 md:h-5 text-blue-500" />
+          Performance by Category{periodLabel && ` (${periodLabel})`}
+        </h2>
+        <ExportButtons dataset="category-stats" query={periodQuery} />
+      </div>
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 md:gap-4">
         {categoryStats.map((cat) => {
           const config = CATEGORY_CONFIG[cat.category];
@@ -452,8 +546,11 @@ function CategoryStatsGrid({ categoryStats }: { categoryStats?: TimeframeCategor
                   </span>
                 </div>
                 {cat.total_predictions > 0 && (
-                  <div className={`text-base md:text-lg font-bold ${getWinRateColor(cat.win_rate)}`}>
-                    {cat.win_rate.toFixed(1)}%
+                  <div className="text-right">
+                    <div className={`text-base md:text-lg font-bold ${getWinRateColor(cat.win_rate)}`}>
+                      {cat.win_rate.toFixed(1)}%
+                    </div>
+                    <DeltaBadge value={cat.delta?.win_rate} suffix="pp" />
                   </div>
                 )}
               </div>
@@ -508,12 +605,18 @@ export default function Dashboard() {
   const [autoRefresh, setAutoRefresh] = useState(true);
   const [showAllTimeframes, setShowAllTimeframes] = useState(false);
   const [showAllPredictions, setShowAllPredictions] = useState(false);
+  const [periodSelection, setPeriodSelection] = useState<PeriodSelection>({ key: '7d' });
+  const [asset, setAsset] = useState<Asset>(DEFAULT_ASSET);
+  const session = useSession();
+  const canOperate = hasRole(session?.user, 'operator');
+  const periodQuery = buildPeriodQuery(periodSelection, asset);
 
   const fetchData = useCallback(async () => {
     try {
       setError(null);
-      const response = await fetch('/api/predictions', { cache: 'no-store' });
+      const response = await fetch(`/api/predictions?${periodQuery}`, { cache: 'no-store' });
       
+      if (response.status === 401) return redirectToLogin();
       if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
       
       const result = await response.json();
@@ -527,14 +630,51 @@ export default function Dashboard() {
     } finally {
       setLoading(false);
     }
+  }, [periodQuery]);
+
+  // Validations change the aggregate stats, which only the full endpoint
+  // computes; coalesce bursts of them into one refetch.
+  const refetchTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const scheduleRefetch = useCallback(() => {
+    if (refetchTimer.current) clearTimeout(refetchTimer.current);
+    refetchTimer.current = setTimeout(() => {
+      refetchTimer.current = null;
+      fetchData();
+    }, LIVE_REFETCH_DEBOUNCE_MS);
+  }, [fetchData]);
+
+  useEffect(() => () => {
+    if (refetchTimer.current) clearTimeout(refetchTimer.current);
   }, []);
 
+  const handleLiveEvent = useCallback((event: LiveEvent) => {
+    setData(prev => prev ? applyLiveEvent(prev, event) : prev);
+    setLastRefresh(new Date());
+    if (event.type === 'validation') scheduleRefetch();
+  }, [scheduleRefetch]);
+
+  const liveState = useLiveUpdates(autoRefresh, handleLiveEvent, asset);
+
   useEffect(() => {
     fetchData();
-    if (!autoRefresh) return;
+  }, [fetchData]);
+
+  // Events sent while disconnected are lost, so resync after a reconnect
+  const previousLiveState = useRef<LiveConnectionState>(liveState);
+  useEffect(() => {
+    const previous = previousLiveState.current;
+    previousLiveState.current = liveState;
+    if (liveState === 'live' && (previous === 'reconnecting' || previous === 'polling')) {
+      fetchData();
+    }
+  }, [liveState, fetchData]);
+
+  // Fallback when the stream is unavailable
+  useEffect(() => {
+    if (liveState !== 'polling') return;
     const interval = setInterval(fetchData, 30000);
     return () => clearInterval(interval);
-  }, [fetchData, autoRefresh]);
+  }, [fetchData, liveState]);
 
   const getTrendIcon = (trend: string) => {
     return trend.includes('CALL') || trend.includes('Bullish')
@@ -571,6 +711,7 @@ export default function Dashboard() {
     );
   }
 
+  const periodLabel = data.period?.label ?? 'Last 7 Days';
   const displayedTimeframes = showAllTimeframes ? data.timeframeStats : data.timeframeStats.slice(0, 6);
   const displayedPredictions = showAllPredictions ? data.recentPredictions : data.recentPredictions.slice(0, 5);
 
@@ -585,39 +726,82 @@ export default function Dashboard() {
               <div className="flex items-center gap-2 md:gap-3 mb-2">
                 <Brain className="w-6 h-6 md:w-8 md:h-8 text-blue-500" />
                 <h1 className="text-xl md:text-2xl lg:text-3xl font-bold text-white">
-                  Bitcoin Predictor
+                  {ASSETS[asset].name} Predictor
                 </h1>
+                <Link
+                  href="/board"
+                  className="ml-auto lg:ml-2 text-gray-400 hover:text-blue-400 transition-colors"
+                  title="Countdown board"
+                >
+                  <Timer className="w-4 h-4 md:w-5 md:h-5" />
+                </Link>
+                {hasRole(session?.user, 'admin') && (
+                  <>
+                    <Link
+                      href="/alerts"
+                      className="text-gray-400 hover:text-blue-400 transition-colors"
+                      title="Alert rules"
+                    >
+                      <Bell className="w-4 h-4 md:w-5 md:h-5" />
+                    </Link>
+                    <Link
+                      href="/webhooks"
+                      className="text-gray-400 hover:text-blue-400 transition-colors"
+                      title="Webhooks"
+                    >
+                      <Webhook className="w-4 h-4 md:w-5 md:h-5" />
+                    </Link>
+                  </>
+                )}
+                {session?.user && <UserMenu user={session.user} />}
               </div>
-              <p className="text-xs md:text-sm text-gray-400 mb-3 md:mb-4">Multi-timeframe ML predictions</p>
-              <SystemStatusCard systemStatus={data.systemStatus} />
+              <div className="flex flex-wrap items-center gap-2 mb-3 md:mb-4">
+                <AssetSwitcher asset={asset} onChange={setAsset} />
+                <p className="text-xs md:text-sm text-gray-400">Multi-timeframe ML predictions</p>
+              </div>
+              <SystemStatusCard data={data} showHistory={canOperate} />
             </div>
             
             <div className="w-full lg:w-auto lg:text-right">
               <div className="text-2xl md:text-3xl lg:text-4xl font-bold text-white mb-1">
-                {formatPrice(data.currentPrice)}
+                {data.priceQuote ? formatPrice(data.priceQuote.price) : 'Price unavailable'}
               </div>
               <div className="text-xs md:text-sm text-gray-400 flex items-center gap-2 lg:justify-end">
                 <Activity className="w-3 h-3 md:w-4 md:h-4" />
-                Current BTC Price
+                Current {data.asset ?? DEFAULT_ASSET} Price
+              </div>
+              <div className="text-xs text-gray-500 mb-3 md:mb-4 lg:text-right">
+                {data.priceQuote ? (
+                  <span className={data.priceQuote.stale ? 'text-yellow-500' : ''}>
+                    via {PRICE_SOURCE_LABELS[data.priceQuote.source]} · {formatDate(data.priceQuote.timestamp)}
+                    {data.priceQuote.stale && ' (stale)'}
+                  </span>
+                ) : (
+                  'All price providers failed'
+                )}
               </div>
+              <PeriodSelector selection={periodSelection} onChange={setPeriodSelection} />
             </div>
           </div>
         </div>
 
+        <DataWarningsNotice warnings={data.warnings ?? []} />
+
         {/* TradingView Chart */}
-        <TradingViewChart />
+        <TradingViewChart key={asset} asset={asset} />
 
         {/* Overall Statistics */}
         {data.overallStats && data.overallStats.total_predictions > 0 && (
           <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 md:p-6 border border-gray-700">
             <h2 className="text-lg md:text-xl font-semibold text-white mb-3 md:mb-4 flex items-center gap-2">
               <BarChart3 className="w-4 h-4 md:w-5 md:h-5 text-blue-500" />
-              Overall Performance (7 Days)
+              Overall Performance ({periodLabel})
             </h2>
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-2 md:gap-4">
               <div className="bg-gray-900/50 rounded-lg p-3 md:p-4 border border-gray-700">
                 <div className="text-gray-400 text-xs md:text-sm mb-1">Total</div>
                 <div className="text-xl md:text-2xl font-bold text-white">{data.overallStats.total_predictions}</div>
+                <DeltaBadge value={data.overallStats.delta?.total_predictions} digits={0} />
               </div>
               <div className="bg-gray-900/50 rounded-lg p-3 md:p-4 border border-gray-700">
                 <div className="text-gray-400 text-xs md:text-sm mb-1">Wins</div>
@@ -625,6 +809,7 @@ export default function Dashboard() {
                   <CheckCircle className="w-4 h-4 md:w-5 md:h-5" />
                   {data.overallStats.wins}
                 </div>
+                <DeltaBadge value={data.overallStats.delta?.wins} digits={0} />
               </div>
               <div className="bg-gray-900/50 rounded-lg p-3 md:p-4 border border-gray-700">
                 <div className="text-gray-400 text-xs md:text-sm mb-1">Losses</div>
@@ -632,27 +817,34 @@ export default function Dashboard() {
                   <XCircle className="w-4 h-4 md:w-5 md:h-5" />
                   {data.overallStats.losses}
                 </div>
+                <DeltaBadge value={data.overallStats.delta?.losses} digits={0} lowerIsBetter />
               </div>
               <div className="bg-gray-900/50 rounded-lg p-3 md:p-4 border border-gray-700">
                 <div className="text-gray-400 text-xs md:text-sm mb-1">Win Rate</div>
                 <div className={`text-xl md:text-2xl font-bold ${getWinRateColor(data.overallStats.win_rate)}`}>
                   {data.overallStats.win_rate.toFixed(1)}%
                 </div>
+                <DeltaBadge value={data.overallStats.delta?.win_rate} suffix="pp" />
               </div>
               <div className="bg-gray-900/50 rounded-lg p-3 md:p-4 border border-gray-700 col-span-2 md:col-span-3 lg:col-span-1">
                 <div className="text-gray-400 text-xs md:text-sm mb-1">Avg Error</div>
                 <div className="text-xl md:text-2xl font-bold text-blue-400">{data.overallStats.avg_error_pct.toFixed(2)}%</div>
+                <DeltaBadge value={data.overallStats.delta?.avg_error_pct} suffix="pp" digits={2} lowerIsBetter />
               </div>
             </div>
           </div>
         )}
 
         {/* Category Statistics */}
-        <CategoryStatsGrid categoryStats={data.categoryStats} />
+        <CategoryStatsGrid
+          categoryStats={data.categoryStats}
+          periodLabel={periodLabel}
+          periodQuery={periodQuery}
+        />
 
         {/* ENHANCED CHARTS */}
         {data.recentPredictions && data.recentPredictions.length > 0 && (
-          <EnhancedCharts predictions={data.recentPredictions} />
+          <EnhancedCharts key={asset} predictions={data.recentPredictions} asset={asset} />
         )}
 
         {/* Timeframe Performance */}
@@ -661,20 +853,23 @@ export default function Dashboard() {
             <div className="flex items-center justify-between mb-3 md:mb-4">
               <h2 className="text-lg md:text-xl font-semibold text-white flex items-center gap-2">
                 <Clock className="w-4 h-4 md:w-5 md:h-5 text-blue-500" />
-                Timeframe Performance
+                Timeframe Performance ({periodLabel})
               </h2>
-              {data.timeframeStats.length > 6 && (
-                <button
-                  onClick={() => setShowAllTimeframes(!showAllTimeframes)}
-                  className="text-xs md:text-sm text-blue-400 hover:text-blue-300 flex items-center gap-1"
-                >
-                  {showAllTimeframes ? (
-                    <>Show Less <ChevronUp className="w-4 h-4" /></>
-                  ) : (
-                    <>Show All <ChevronDown className="w-4 h-4" /></>
-                  )}
-                </button>
-              )}
+              <div className="flex items-center gap-3">
+                <ExportButtons dataset="timeframe-stats" query={periodQuery} />
+                {data.timeframeStats.length > 6 && (
+                  <button
+                    onClick={() => setShowAllTimeframes(!showAllTimeframes)}
+                    className="text-xs md:text-sm text-blue-400 hover:text-blue-300 flex items-center gap-1"
+                  >
+                    {showAllTimeframes ? (
+                      <>Show Less <ChevronUp className="w-4 h-4" /></>
+                    ) : (
+                      <>Show All <ChevronDown className="w-4 h-4" /></>
+                    )}
+                  </button>
+                )}
+              </div>
             </div>
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 md:gap-4">
               {displayedTimeframes.map((stat) => (
@@ -687,8 +882,11 @@ export default function Dashboard() {
                       {getTimeframeLabel(stat.timeframe_minutes!)}
                     </div>
                     {stat.total_predictions > 0 && (
-                      <div className={`text-base md:text-lg font-bold ${getWinRateColor(stat.win_rate)}`}>
-                        {stat.win_rate.toFixed(1)}%
+                      <div className="text-right">
+                        <div className={`text-base md:text-lg font-bold ${getWinRateColor(stat.win_rate)}`}>
+                          {stat.win_rate.toFixed(1)}%
+                        </div>
+                        <DeltaBadge value={stat.delta?.win_rate} suffix="pp" />
                       </div>
                     )}
                   </div>
@@ -766,7 +964,9 @@ export default function Dashboard() {
                         className="border-b border-gray-700/50 hover:bg-gray-700/30 transition-colors"
                       >
                         <td className="py-2 md:py-3 px-2 md:px-4 text-xs md:text-sm text-gray-300">
-                          {formatDate(pred.prediction_time)}
+                          <Link href={withAsset(`/predictions/${pred.id}`, asset)} className="hover:text-blue-400 hover:underline">
+                            {formatDate(pred.prediction_time)}
+                          </Link>
                         </td>
                         <td className="py-2 md:py-3 px-2 md:px-4 text-xs md:text-sm text-white font-medium">
                           {getTimeframeLabel(pred.timeframe_minutes)}
@@ -844,6 +1044,15 @@ export default function Dashboard() {
           </div>
         )}
 
+        {/* Validation Lag */}
+        {canOperate && (
+          <ValidationLagMonitor
+            refreshKey={data.lastUpdate}
+            stallMinutes={data.statusThresholds.validation_stall_minutes}
+            asset={asset}
+          />
+        )}
+
         {/* Model Performance */}
         {data.modelPerformance && (
           <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 md:p-6 border border-gray-700">
@@ -932,6 +1141,24 @@ export default function Dashboard() {
           </div>
         )}
 
+        {/* Model Performance History */}
+        <ModelPerformanceHistory periodQuery={periodQuery} />
+
+        {/* Model Leaderboard */}
+        <ModelLeaderboard periodQuery={periodQuery} />
+
+        {/* Confidence Calibration */}
+        <CalibrationChart
+          periodQuery={periodQuery}
+          timeframes={data.timeframeStats.map(stat => stat.timeframe_minutes).filter((tf): tf is number => tf !== undefined)}
+        />
+
+        {/* Backtest */}
+        <BacktestPanel
+          periodQuery={periodQuery}
+          timeframes={data.timeframeStats.map(stat => stat.timeframe_minutes).filter((tf): tf is number => tf !== undefined)}
+        />
+
         {/* No Data Message */}
         {(!data.overallStats || data.overallStats.total_predictions === 0) && (
           <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 md:p-6 border border-gray-700">
@@ -972,6 +1199,8 @@ export default function Dashboard() {
                 <Activity className="w-3 h-3 md:w-4 md:h-4" />
                 Auto-refresh: {autoRefresh ? 'ON' : 'OFF'}
               </button>
+
+              <LiveStatusBadge state={liveState} />
             </div>
 
             <div className="text-xs md:text-sm text-gray-400 flex items-center gap-2">
@@ -984,7 +1213,7 @@ export default function Dashboard() {
 
         {/* System Info Footer */}
         <div className="text-center text-xs text-gray-600 py-3 md:py-4 space-y-1">
-          <div>Bitcoin Predictor Dashboard v1.0 (Latest)</div>
+          <div>{ASSETS[asset].name} Predictor Dashboard v1.0 (Latest)</div>
           <div className="hidden sm:block">© {new Date().getFullYear()} Pintucuan. All Rights Reserved.</div>
           <div className="sm:hidden">© {new Date().getFullYear()} Pintucuan. All Rights Reserved.</div>
           <div className="hidden sm:block">Developer by Arya</div>
@@ -0,0 +1,455 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useSearchParams } from 'next/navigation';
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  ReferenceArea,
+  ReferenceDot,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import {
+  ArrowLeft,
+  Brain,
+  CheckCircle,
+  Clock,
+  Activity,
+  RefreshCw,
+  Target,
+  TrendingDown,
+  TrendingUp,
+  XCircle
+} from 'lucide-react';
+import { getTimeframeLabel, isBullishDirection } from '@/types';
+import type { PredictionDetail } from '@/types';
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+const formatPrice = (price: number | undefined | null): string => {
+  if (price === undefined || price === null || isNaN(price)) return '—';
+  return `$${price.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
+const formatSignedPrice = (value: number | null): string => {
+  if (value === null) return '—';
+  return `${value >= 0 ? '+' : '-'}${formatPrice(Math.abs(value))}`;
+};
+
+const formatDateTime = (dateString: string | undefined): string => {
+  if (!dateString) return '—';
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return 'Invalid date';
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+};
+
+const formatDuration = (seconds: number): string => {
+  const abs = Math.abs(seconds);
+  if (abs < 60) return `${abs.toFixed(0)}s`;
+  if (abs < 3600) return `${Math.floor(abs / 60)}m ${Math.round(abs % 60)}s`;
+  return `${Math.floor(abs / 3600)}h ${Math.round((abs % 3600) / 60)}m`;
+};
+
+// The predictor writes some confidences as fractions and some as percentages
+const formatPercent = (value: number | undefined): string => {
+  if (value === undefined) return '—';
+  return `${(value <= 1 ? value * 100 : value).toFixed(1)}%`;
+};
+
+const formatChartTime = (time: number) =>
+  new Date(time).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+
+// ============================================================================
+// SUB COMPONENTS
+// ============================================================================
+
+function Stat({ label, value, className = 'text-white' }: { label: string; value: string; className?: string }) {
+  return (
+    <div className="bg-gray-900/50 rounded-lg p-3">
+      <div className="text-xs text-gray-400 mb-1">{label}</div>
+      <div className={`text-sm md:text-base font-semibold font-mono ${className}`}>{value}</div>
+    </div>
+  );
+}
+
+function Verdict({ value }: { value: boolean | null }) {
+  if (value === null) return <span className="text-gray-500">—</span>;
+  return value
+    ? <CheckCircle className="w-4 h-4 text-green-400 inline" />
+    : <XCircle className="w-4 h-4 text-red-400 inline" />;
+}
+
+function PricePathChart({ detail }: { detail: PredictionDetail }) {
+  const { prediction, pricePath } = detail;
+
+  const data = useMemo(
+    () => (pricePath?.candles ?? []).map(candle => ({
+      time: new Date(candle.time).getTime(),
+      price: candle.close
+    })),
+    [pricePath]
+  );
+
+  if (data.length === 0) {
+    return (
+      <div className="h-[300px] flex items-center justify-center text-gray-400 text-xs md:text-sm text-center">
+        {detail.pricePathError ?? 'No price history for this window'}
+      </div>
+    );
+  }
+
+  const start = new Date(prediction.prediction_time).getTime();
+  const target = new Date(prediction.target_time).getTime();
+  const color = isBullishDirection(prediction.trend) ? '#10b981' : '#ef4444';
+  const domain: [number, number] = [Math.min(data[0].time, start), Math.max(data[data.length - 1].time, target)];
+
+  return (
+    <ResponsiveContainer width="100%" height={300} className="md:h-[400px]">
+      <ComposedChart data={data}>
+        <defs>
+          <linearGradient id="detailPrice" x1="0" y1="0" x2="0" y2="1">
+            <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.3}/>
+            <stop offset="95%" stopColor="#3b82f6" stopOpacity={0}/>
+          </linearGradient>
+        </defs>
+        <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+        <XAxis
+          dataKey="time"
+          type="number"
+          scale="time"
+          domain={domain}
+          tickFormatter={formatChartTime}
+          stroke="#9ca3af"
+          tick={{ fontSize: 10 }}
+        />
+        <YAxis
+          stroke="#9ca3af"
+          tick={{ fontSize: 10 }}
+          domain={['dataMin - 100', 'dataMax + 100']}
+          tickFormatter={(value: number) => value.toFixed(0)}
+          width={60}
+        />
+        <Tooltip
+          contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', borderRadius: '8px' }}
+          labelFormatter={(time) => formatChartTime(Number(time))}
+          formatter={(value) => [formatPrice(Number(value)), 'Price']}
+        />
+
+        <ReferenceArea
+          x1={start}
+          x2={target}
+          y1={prediction.price_range_low}
+          y2={prediction.price_range_high}
+          fill="#facc15"
+          fillOpacity={0.08}
+          stroke="#facc15"
+          strokeOpacity={0.3}
+          ifOverflow="extendDomain"
+        />
+        <ReferenceLine x={start} stroke="#9ca3af" strokeDasharray="3 3" />
+        <ReferenceLine x={target} stroke="#9ca3af" strokeDasharray="3 3" />
+        <ReferenceLine
+          segment={[
+            { x: start, y: prediction.current_price },
+            { x: target, y: prediction.predicted_price }
+          ]}
+          stroke={color}
+          strokeDasharray="5 5"
+          ifOverflow="extendDomain"
+        />
+
+        <Area
+          type="monotone"
+          dataKey="price"
+          stroke="#3b82f6"
+          strokeWidth={2}
+          fill="url(#detailPrice)"
+          isAnimationActive={false}
+        />
+
+        <ReferenceDot x={target} y={prediction.predicted_price} r={5} fill="#facc15" stroke="none" ifOverflow="extendDomain" />
+        {prediction.actual_price !== undefined && (
+          <ReferenceDot
+            x={target}
+            y={prediction.actual_price}
+            r={5}
+            fill={prediction.validation_result === 'WIN' ? '#10b981' : '#ef4444'}
+            stroke="#fff"
+            ifOverflow="extendDomain"
+          />
+        )}
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+}
+
+// ============================================================================
+// PAGE
+// ============================================================================
+
+export default function PredictionDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  // Predictions of other assets live in their own collection; ?asset= says which
+  const asset = useSearchParams().get('asset');
+  const [state, setState] = useState<{
+    id: string | null;
+    detail: PredictionDetail | null;
+    error: string | null;
+  }>({ id: null, detail: null, error: null });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const url = `/api/predictions/${encodeURIComponent(id)}`;
+        const response = await fetch(asset ? `${url}?asset=${encodeURIComponent(asset)}` : url, { cache: 'no-store' });
+        const result = await response.json();
+        if (!response.ok || result.error) {
+          throw new Error(result.message || result.error || `HTTP error! status: ${response.status}`);
+        }
+        if (!cancelled) setState({ id, detail: result, error: null });
+      } catch (error) {
+        console.error('Error fetching prediction:', error);
+        if (!cancelled) {
+          setState({ id, detail: null, error: error instanceof Error ? error.message : 'Failed to load prediction' });
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [id, asset]);
+
+  if (state.id !== id) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 flex items-center justify-center p-4">
+        <div className="text-center">
+          <RefreshCw className="w-10 h-10 md:w-12 md:h-12 text-blue-500 animate-spin mx-auto mb-4" />
+          <p className="text-gray-400 text-sm md:text-base">Loading prediction...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (state.error || !state.detail) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 flex items-center justify-center p-4">
+        <div className="text-center max-w-md mx-auto">
+          <XCircle className="w-10 h-10 md:w-12 md:h-12 text-red-500 mx-auto mb-4" />
+          <p className="text-gray-400 mb-2 text-sm md:text-base">Failed to load prediction</p>
+          {state.error && <p className="text-red-400 text-xs md:text-sm mb-4">{state.error}</p>}
+          <Link href="/" className="text-blue-400 hover:text-blue-300 text-sm">Back to dashboard</Link>
+        </div>
+      </div>
+    );
+  }
+
+  const { prediction, outcome, timing } = state.detail;
+  const bullish = isBullishDirection(prediction.trend);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 p-3 md:p-4 lg:p-6">
+      <div className="max-w-5xl mx-auto space-y-4 md:space-y-6">
+
+        {/* Header */}
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 md:p-6 border border-gray-700">
+          <Link href="/" className="inline-flex items-center gap-1 text-xs md:text-sm text-blue-400 hover:text-blue-300 mb-3">
+            <ArrowLeft className="w-4 h-4" />
+            Dashboard
+          </Link>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div>
+              <h1 className="text-xl md:text-2xl font-bold text-white flex items-center gap-2">
+                {bullish
+                  ? <TrendingUp className="w-5 h-5 md:w-6 md:h-6 text-green-400" />
+                  : <TrendingDown className="w-5 h-5 md:w-6 md:h-6 text-red-400" />}
+                {getTimeframeLabel(prediction.timeframe_minutes)} {prediction.trend}
+              </h1>
+              <p className="text-xs md:text-sm text-gray-400 mt-1 font-mono break-all">{prediction.id}</p>
+            </div>
+            {prediction.validated && prediction.validation_result ? (
+              <span className={`inline-flex items-center gap-2 px-3 py-1 rounded-lg text-sm font-semibold ${
+                prediction.validation_result === 'WIN'
+                  ? 'bg-green-900/30 text-green-400 border border-green-700'
+                  : 'bg-red-900/30 text-red-400 border border-red-700'
+              }`}>
+                {prediction.validation_result === 'WIN' ? <CheckCircle className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+                {prediction.validation_result}
+              </span>
+            ) : (
+              <span className="inline-flex items-center gap-2 px-3 py-1 rounded-lg text-sm font-semibold bg-yellow-900/30 text-yellow-400 border border-yellow-700">
+                <Clock className="w-4 h-4" />
+                Pending
+              </span>
+            )}
+          </div>
+        </div>
+
+        {/* Prediction vs Actual */}
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 md:p-6 border border-gray-700">
+          <h2 className="text-lg md:text-xl font-semibold text-white flex items-center gap-2 mb-3 md:mb-4">
+            <Target className="w-4 h-4 md:w-5 md:h-5 text-blue-500" />
+            Prediction vs Actual
+          </h2>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <Stat label="Price at Prediction" value={formatPrice(prediction.current_price)} />
+            <Stat label="Predicted Price" value={formatPrice(prediction.predicted_price)} className="text-yellow-400" />
+            <Stat
+              label="Predicted Range"
+              value={`${formatPrice(prediction.price_range_low)} – ${formatPrice(prediction.price_range_high)}`}
+            />
+            <Stat label="Confidence" value={formatPercent(prediction.confidence)} />
+            <Stat
+              label="Actual Price"
+              value={formatPrice(prediction.actual_price)}
+              className={prediction.validation_result === 'WIN' ? 'text-green-400' : prediction.validation_result === 'LOSE' ? 'text-red-400' : 'text-white'}
+            />
+            <Stat label="Price Error" value={formatPrice(prediction.price_error)} />
+            <Stat
+              label="Error %"
+              value={prediction.price_error_pct !== undefined ? `${prediction.price_error_pct.toFixed(3)}%` : '—'}
+            />
+            <div className="bg-gray-900/50 rounded-lg p-3">
+              <div className="text-xs text-gray-400 mb-1">Actual in Range</div>
+              <div className="text-sm md:text-base font-semibold"><Verdict value={outcome.in_range} /></div>
+            </div>
+          </div>
+        </div>
+
+        {/* Price Path */}
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-3 md:p-6 border border-gray-700">
+          <h2 className="text-base md:text-xl font-semibold text-white flex items-center gap-2 mb-3 md:mb-4">
+            <Activity className="w-4 h-4 md:w-5 md:h-5 text-blue-500" />
+            Price Path
+          </h2>
+          <PricePathChart detail={state.detail} />
+          <div className="flex flex-wrap items-center gap-3 md:gap-4 mt-3 text-xs md:text-sm">
+            <div className="flex items-center gap-1 md:gap-2">
+              <div className="w-2 h-2 md:w-3 md:h-3 bg-blue-500 rounded-full"></div>
+              <span className="text-gray-400">Price</span>
+            </div>
+            <div className="flex items-center gap-1 md:gap-2">
+              <div className="w-2 h-2 md:w-3 md:h-3 bg-yellow-400/30 border border-yellow-400/60"></div>
+              <span className="text-gray-400">Predicted range</span>
+            </div>
+            <div className="flex items-center gap-1 md:gap-2">
+              <div className="w-2 h-2 md:w-3 md:h-3 bg-yellow-400 rounded-full"></div>
+              <span className="text-gray-400">Predicted</span>
+            </div>
+            <div className="flex items-center gap-1 md:gap-2">
+              <div className={`w-2 h-2 md:w-3 md:h-3 rounded-full ${prediction.validation_result === 'WIN' ? 'bg-green-500' : 'bg-red-500'}`}></div>
+              <span className="text-gray-400">Actual</span>
+            </div>
+            {state.detail.pricePath && (
+              <span className="text-gray-500 text-xs sm:ml-auto">
+                {state.detail.pricePath.interval_minutes}m candles via {state.detail.pricePath.source}
+              </span>
+            )}
+          </div>
+        </div>
+
+        {/* Ensemble Breakdown */}
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 md:p-6 border border-gray-700">
+          <h2 className="text-lg md:text-xl font-semibold text-white flex items-center gap-2 mb-3 md:mb-4">
+            <Brain className="w-4 h-4 md:w-5 md:h-5 text-purple-500" />
+            Ensemble Breakdown
+          </h2>
+          <div className="overflow-x-auto -mx-4 md:mx-0">
+            <table className="w-full min-w-[480px]">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="text-left py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">Model</th>
+                  <th className="text-right py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">Output</th>
+                  <th className="text-right py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">vs Actual</th>
+                  <th className="text-center py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">Correct</th>
+                </tr>
+              </thead>
+              <tbody className="text-xs md:text-sm">
+                <tr className="border-b border-gray-700/50">
+                  <td className="py-2 px-4 text-blue-400 font-medium">LSTM</td>
+                  <td className="py-2 px-4 text-right text-white font-mono">{formatPrice(prediction.lstm_prediction)}</td>
+                  <td className="py-2 px-4 text-right text-gray-300 font-mono">{formatSignedPrice(outcome.lstm_error)}</td>
+                  <td className="py-2 px-4 text-center text-gray-500">—</td>
+                </tr>
+                <tr className="border-b border-gray-700/50">
+                  <td className="py-2 px-4 text-purple-400 font-medium">Gradient Boosting</td>
+                  <td className="py-2 px-4 text-right text-white font-mono">{formatPrice(prediction.gb_prediction)}</td>
+                  <td className="py-2 px-4 text-right text-gray-300 font-mono">{formatSignedPrice(outcome.gb_error)}</td>
+                  <td className="py-2 px-4 text-center text-gray-500">—</td>
+                </tr>
+                <tr className="border-b border-gray-700/50">
+                  <td className="py-2 px-4 text-green-400 font-medium">Random Forest</td>
+                  <td className="py-2 px-4 text-right text-white">
+                    {prediction.rf_direction ?? '—'}
+                    {prediction.rf_confidence !== undefined && (
+                      <span className="text-gray-400"> ({formatPercent(prediction.rf_confidence)})</span>
+                    )}
+                  </td>
+                  <td className="py-2 px-4 text-right text-gray-500">—</td>
+                  <td className="py-2 px-4 text-center"><Verdict value={outcome.rf_direction_correct} /></td>
+                </tr>
+                <tr>
+                  <td className="py-2 px-4 text-yellow-400 font-medium">Ensemble ({prediction.method})</td>
+                  <td className="py-2 px-4 text-right text-white font-mono">{formatPrice(prediction.predicted_price)}</td>
+                  <td className="py-2 px-4 text-right text-gray-300 font-mono">
+                    {prediction.actual_price !== undefined
+                      ? formatSignedPrice(prediction.actual_price - prediction.predicted_price)
+                      : '—'}
+                  </td>
+                  <td className="py-2 px-4 text-center">
+                    <Verdict value={prediction.direction_correct ?? null} />
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          <div className="mt-3 text-xs md:text-sm text-gray-400">
+            Model agreement: <span className="text-white font-semibold">{formatPercent(prediction.model_agreement)}</span>
+          </div>
+        </div>
+
+        {/* Timing */}
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 md:p-6 border border-gray-700">
+          <h2 className="text-lg md:text-xl font-semibold text-white flex items-center gap-2 mb-3 md:mb-4">
+            <Clock className="w-4 h-4 md:w-5 md:h-5 text-blue-500" />
+            Timing
+          </h2>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            <Stat label="Predicted At" value={formatDateTime(prediction.prediction_time)} />
+            <Stat label="Target Time" value={formatDateTime(prediction.target_time)} />
+            <Stat label="Validated At" value={formatDateTime(prediction.validation_time)} />
+            <Stat label="Horizon" value={getTimeframeLabel(timing.horizon_minutes)} />
+            <Stat
+              label={timing.minutes_to_target > 0 ? 'Target In' : 'Target Passed'}
+              value={formatDuration(timing.minutes_to_target * 60)}
+            />
+            <Stat
+              label="Validation Lag"
+              value={timing.validation_lag_seconds !== null
+                ? `${timing.validation_lag_seconds < 0 ? '-' : ''}${formatDuration(timing.validation_lag_seconds)}`
+                : '—'}
+              className={timing.validation_lag_seconds !== null && timing.validation_lag_seconds > 300 ? 'text-yellow-400' : 'text-white'}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,292 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, KeyRound, Plus, Trash2, Users } from 'lucide-react';
+import { ROLE_LABELS, ROLES } from '@/lib/auth/roles';
+import type { Role, User } from '@/types';
+
+// ============================================================================
+// CONSTANTS & UTILITY FUNCTIONS
+// ============================================================================
+
+const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  viewer: 'Signals and stats',
+  operator: 'Also system internals and exports',
+  admin: 'Also alert rules, users and settings'
+};
+
+const inputClass = 'w-full bg-gray-700 text-white text-xs md:text-sm rounded px-2 py-1 border border-gray-600';
+
+const formatTime = (timestamp?: string): string =>
+  timestamp
+    ? new Date(timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+    : 'Never';
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, { cache: 'no-store', ...init });
+  if (response.status === 204) return undefined as T;
+  const body = await response.json();
+  if (!response.ok || body.error) {
+    throw new Error(body.message || body.error || `HTTP error! status: ${response.status}`);
+  }
+  return body;
+}
+
+const jsonRequest = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body)
+});
+
+// ============================================================================
+// NEW USER FORM
+// ============================================================================
+
+function NewUserForm({ onSaved, onCancel }: { onSaved: () => void; onCancel: () => void }) {
+  const [form, setForm] = useState({ email: '', name: '', role: 'viewer' as Role, password: '' });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = <K extends keyof typeof form>(key: K, value: (typeof form)[K]) =>
+    setForm(prev => ({ ...prev, [key]: value }));
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await requestJson('/api/auth/users', jsonRequest('POST', {
+        email: form.email.trim(),
+        role: form.role,
+        ...(form.name.trim() && { name: form.name.trim() }),
+        // Left blank, the user signs in through SSO only
+        ...(form.password && { password: form.password })
+      }));
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create user');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-900/50 rounded-lg p-3 md:p-4 border border-gray-700 space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <label className="block">
+          <span className="text-xs text-gray-400">Email</span>
+          <input type="email" value={form.email} onChange={(e) => update('email', e.target.value)} className={`${inputClass} mt-1`} />
+        </label>
+        <label className="block">
+          <span className="text-xs text-gray-400">Name</span>
+          <input value={form.name} onChange={(e) => update('name', e.target.value)} className={`${inputClass} mt-1`} />
+        </label>
+        <label className="block">
+          <span className="text-xs text-gray-400">Role</span>
+          <select value={form.role} onChange={(e) => update('role', e.target.value as Role)} className={`${inputClass} mt-1`}>
+            {ROLES.map(role => (
+              <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-xs text-gray-400">Password (blank for SSO only)</span>
+          <input
+            type="password"
+            autoComplete="new-password"
+            value={form.password}
+            onChange={(e) => update('password', e.target.value)}
+            className={`${inputClass} mt-1`}
+          />
+        </label>
+      </div>
+
+      {error && <div className="text-xs md:text-sm text-red-400">{error}</div>}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={save}
+          disabled={saving}
+          className="px-4 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded text-xs md:text-sm"
+        >
+          {saving ? 'Saving...' : 'Create user'}
+        </button>
+        <button onClick={onCancel} className="px-4 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded text-xs md:text-sm">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// MAIN PAGE
+// ============================================================================
+
+export default function UsersPage() {
+  // Bumped after every change so the list refetches
+  const [version, setVersion] = useState(0);
+  const [result, setResult] = useState<{ version: number | null; users: User[]; error: string | null }>({
+    version: null,
+    users: [],
+    error: null
+  });
+  const [creating, setCreating] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const { users } = await requestJson<{ users: User[] }>('/api/auth/users');
+        if (!cancelled) setResult({ version, users, error: null });
+      } catch (error) {
+        console.error('Error fetching users:', error);
+        if (!cancelled) {
+          setResult(prev => ({
+            ...prev,
+            version,
+            error: error instanceof Error ? error.message : 'Failed to load users'
+          }));
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [version]);
+
+  const loading = result.version !== version;
+  const reload = () => setVersion(v => v + 1);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setActionError(null);
+    try {
+      await action();
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : 'Request failed');
+    }
+    reload();
+  };
+
+  const changeRole = (user: User, role: Role) =>
+    runAction(() => requestJson(`/api/auth/users/${user.id}`, jsonRequest('PATCH', { role })));
+
+  const resetPassword = (user: User) => {
+    const password = window.prompt(`New password for ${user.email} (at least 10 characters)`);
+    if (!password) return;
+    runAction(() => requestJson(`/api/auth/users/${user.id}`, jsonRequest('PATCH', { password })));
+  };
+
+  const deleteUser = (user: User) => {
+    if (!window.confirm(`Delete user ${user.email}?`)) return;
+    runAction(() => requestJson(`/api/auth/users/${user.id}`, { method: 'DELETE' }));
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 p-3 md:p-4 lg:p-6">
+      <div className="max-w-5xl mx-auto space-y-4 md:space-y-6">
+
+        {/* Header */}
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 md:p-6 border border-gray-700">
+          <Link href="/" className="inline-flex items-center gap-1 text-xs md:text-sm text-blue-400 hover:text-blue-300 mb-3">
+            <ArrowLeft className="w-4 h-4" />
+            Dashboard
+          </Link>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <h1 className="text-xl md:text-2xl font-bold text-white flex items-center gap-2">
+              <Users className="w-5 h-5 md:w-6 md:h-6 text-blue-500" />
+              Users
+            </h1>
+            {!creating && (
+              <button
+                onClick={() => setCreating(true)}
+                className="flex items-center gap-2 px-4 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded text-xs md:text-sm"
+              >
+                <Plus className="w-4 h-4" />
+                New user
+              </button>
+            )}
+          </div>
+          <div className="mt-3 grid grid-cols-1 sm:grid-cols-3 gap-2 text-xs text-gray-400">
+            {ROLES.map(role => (
+              <div key={role}>
+                <span className="text-gray-300 font-medium">{ROLE_LABELS[role]}:</span> {ROLE_DESCRIPTIONS[role]}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 md:p-6 border border-gray-700 space-y-3">
+          {creating && (
+            <NewUserForm
+              onSaved={() => {
+                setCreating(false);
+                reload();
+              }}
+              onCancel={() => setCreating(false)}
+            />
+          )}
+
+          {(result.error || actionError) && (
+            <div className="text-xs md:text-sm text-red-400">{actionError ?? result.error}</div>
+          )}
+
+          {result.version === null ? (
+            <div className="text-gray-400 text-xs md:text-sm py-4 text-center">Loading users...</div>
+          ) : result.users.length === 0 ? (
+            <div className="text-gray-400 text-xs md:text-sm py-4 text-center">No users yet</div>
+          ) : (
+            <div className={`overflow-x-auto -mx-4 md:mx-0 ${loading ? 'opacity-50' : ''}`}>
+              <table className="w-full min-w-[600px]">
+                <thead>
+                  <tr className="border-b border-gray-700">
+                    <th className="text-left py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">User</th>
+                    <th className="text-left py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">Role</th>
+                    <th className="text-left py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">Last sign-in</th>
+                    <th className="py-2 px-4" />
+                  </tr>
+                </thead>
+                <tbody className="text-xs md:text-sm">
+                  {result.users.map(user => (
+                    <tr key={user.id} className="border-b border-gray-700/50">
+                      <td className="py-2 px-4">
+                        <div className="text-white">{user.name ?? user.email}</div>
+                        {user.name && <div className="text-xs text-gray-500">{user.email}</div>}
+                      </td>
+                      <td className="py-2 px-4">
+                        <select
+                          value={user.role}
+                          onChange={(e) => changeRole(user, e.target.value as Role)}
+                          className="bg-gray-700 text-white text-xs md:text-sm rounded px-2 py-1 border border-gray-600"
+                        >
+                          {ROLES.map(role => (
+                            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-2 px-4 text-gray-300 whitespace-nowrap">{formatTime(user.last_login_at)}</td>
+                      <td className="py-2 px-4">
+                        <div className="flex items-center justify-end gap-3 text-gray-400">
+                          <button onClick={() => resetPassword(user)} className="hover:text-white" title="Set password">
+                            <KeyRound className="w-4 h-4" />
+                          </button>
+                          <button onClick={() => deleteUser(user)} className="hover:text-red-400" title="Delete">
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,435 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, CheckCircle, Copy, Pause, Play, Plus, RotateCcw, Trash2, Webhook, XCircle } from 'lucide-react';
+import { ASSET_SYMBOLS, DEFAULT_ASSET } from '@/lib/assets';
+import { getTimeframeLabel } from '@/types';
+import type {
+  Asset,
+  CreatedWebhookSubscription,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookSubscription,
+  WebhookSubscriptionInput
+} from '@/types';
+
+// ============================================================================
+// CONSTANTS & UTILITY FUNCTIONS
+// ============================================================================
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  'prediction.created': 'New predictions',
+  'prediction.validated': 'Validation results'
+};
+
+const STATUS_STYLES: Record<WebhookDelivery['status'], string> = {
+  pending: 'bg-yellow-900/30 text-yellow-400 border-yellow-700/50',
+  delivered: 'bg-green-900/30 text-green-400 border-green-700/50',
+  dead: 'bg-red-900/30 text-red-400 border-red-700/50'
+};
+
+type LogFilter = 'all' | 'dead';
+
+const inputClass = 'w-full bg-gray-700 text-white text-xs md:text-sm rounded px-2 py-1 border border-gray-600';
+
+const parseTimeframes = (value: string): number[] | null => {
+  const list = value.split(',').map(item => Number(item.trim())).filter(item => item > 0);
+  return list.length > 0 ? list : null;
+};
+
+const describeSubscription = (subscription: WebhookSubscription): string => [
+  subscription.asset,
+  subscription.events.map(event => EVENT_LABELS[event].toLowerCase()).join(' and '),
+  subscription.timeframes ? subscription.timeframes.map(getTimeframeLabel).join(', ') : 'all timeframes',
+  ...(subscription.min_confidence > 0 ? [`confidence ≥ ${subscription.min_confidence}%`] : [])
+].join(' · ');
+
+const formatTime = (timestamp: string): string =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, { cache: 'no-store', ...init });
+  if (response.status === 204) return undefined as T;
+  const body = await response.json();
+  if (!response.ok || body.error) {
+    throw new Error(body.message || body.error || `HTTP error! status: ${response.status}`);
+  }
+  return body;
+}
+
+// ============================================================================
+// NEW SUBSCRIPTION FORM
+// ============================================================================
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label className="block">
+      <span className="text-xs text-gray-400">{label}</span>
+      <div className="mt-1">{children}</div>
+    </label>
+  );
+}
+
+function NewSubscriptionForm({
+  onCreated,
+  onCancel
+}: {
+  onCreated: (subscription: CreatedWebhookSubscription) => void;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [asset, setAsset] = useState<Asset>(DEFAULT_ASSET);
+  const [events, setEvents] = useState<WebhookEvent[]>(['prediction.created', 'prediction.validated']);
+  const [timeframes, setTimeframes] = useState('');
+  const [minConfidence, setMinConfidence] = useState('0');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleEvent = (event: WebhookEvent) =>
+    setEvents(events.includes(event) ? events.filter(item => item !== event) : [...events, event]);
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const input: WebhookSubscriptionInput = {
+        name,
+        url: url.trim(),
+        asset,
+        events,
+        timeframes: parseTimeframes(timeframes),
+        min_confidence: Number(minConfidence)
+      };
+      const subscription = await requestJson<CreatedWebhookSubscription>('/api/webhooks/subscriptions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input)
+      });
+      onCreated(subscription);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create subscription');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-900/50 rounded-lg p-3 md:p-4 border border-gray-700 space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <Field label="Name">
+          <input value={name} placeholder="Execution bot" onChange={(e) => setName(e.target.value)} className={inputClass} />
+        </Field>
+        <Field label="URL">
+          <input value={url} placeholder="https://bot.example.com/signals" onChange={(e) => setUrl(e.target.value)} className={inputClass} />
+        </Field>
+        <Field label="Asset">
+          <select value={asset} onChange={(e) => setAsset(e.target.value as Asset)} className={inputClass}>
+            {ASSET_SYMBOLS.map(symbol => <option key={symbol} value={symbol}>{symbol}</option>)}
+          </select>
+        </Field>
+        <Field label="Timeframes in minutes (blank for all)">
+          <input value={timeframes} placeholder="5, 15, 60" onChange={(e) => setTimeframes(e.target.value)} className={inputClass} />
+        </Field>
+        <Field label="Minimum confidence (%)">
+          <input type="number" min={0} max={100} value={minConfidence} onChange={(e) => setMinConfidence(e.target.value)} className={inputClass} />
+        </Field>
+        <div>
+          <span className="text-xs text-gray-400">Events</span>
+          <div className="mt-1 flex flex-wrap gap-3">
+            {(Object.keys(EVENT_LABELS) as WebhookEvent[]).map(event => (
+              <label key={event} className="flex items-center gap-1 text-xs md:text-sm text-gray-300">
+                <input type="checkbox" checked={events.includes(event)} onChange={() => toggleEvent(event)} />
+                {EVENT_LABELS[event]}
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {error && <div className="text-xs md:text-sm text-red-400">{error}</div>}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={save}
+          disabled={saving}
+          className="px-4 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded text-xs md:text-sm"
+        >
+          {saving ? 'Creating...' : 'Create subscription'}
+        </button>
+        <button onClick={onCancel} className="px-4 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded text-xs md:text-sm">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// MAIN PAGE
+// ============================================================================
+
+export default function WebhooksPage() {
+  // Bumped after every change so both lists refetch
+  const [version, setVersion] = useState(0);
+  const [filter, setFilter] = useState<LogFilter>('all');
+  const [result, setResult] = useState<{
+    version: number | null;
+    subscriptions: WebhookSubscription[];
+    deliveries: WebhookDelivery[];
+    error: string | null;
+  }>({ version: null, subscriptions: [], deliveries: [], error: null });
+  const [creating, setCreating] = useState(false);
+  const [created, setCreated] = useState<CreatedWebhookSubscription | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const [subscriptions, log] = await Promise.all([
+          requestJson<{ subscriptions: WebhookSubscription[] }>('/api/webhooks/subscriptions'),
+          requestJson<{ deliveries: WebhookDelivery[] }>(`/api/webhooks/deliveries${filter === 'dead' ? '?status=dead' : ''}`)
+        ]);
+        if (!cancelled) {
+          setResult({ version, subscriptions: subscriptions.subscriptions, deliveries: log.deliveries, error: null });
+        }
+      } catch (error) {
+        console.error('Error fetching webhooks:', error);
+        if (!cancelled) {
+          setResult(prev => ({
+            ...prev,
+            version,
+            error: error instanceof Error ? error.message : 'Failed to load webhooks'
+          }));
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [version, filter]);
+
+  const loading = result.version !== version;
+  const reload = () => setVersion(v => v + 1);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setActionError(null);
+    try {
+      await action();
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : 'Request failed');
+    }
+    reload();
+  };
+
+  const toggleSubscription = (subscription: WebhookSubscription) => runAction(() => {
+    const input: WebhookSubscriptionInput = {
+      name: subscription.name,
+      url: subscription.url,
+      enabled: !subscription.enabled,
+      asset: subscription.asset,
+      events: subscription.events,
+      timeframes: subscription.timeframes,
+      min_confidence: subscription.min_confidence
+    };
+    return requestJson(`/api/webhooks/subscriptions/${subscription.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input)
+    });
+  });
+
+  const deleteSubscription = (subscription: WebhookSubscription) => {
+    if (!window.confirm(`Delete webhook subscription "${subscription.name}"?`)) return;
+    runAction(() => requestJson(`/api/webhooks/subscriptions/${subscription.id}`, { method: 'DELETE' }));
+  };
+
+  const retryDelivery = (delivery: WebhookDelivery) =>
+    runAction(() => requestJson(`/api/webhooks/deliveries/${delivery.id}/retry`, { method: 'POST' }));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 p-3 md:p-4 lg:p-6">
+      <div className="max-w-5xl mx-auto space-y-4 md:space-y-6">
+
+        {/* Header */}
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 md:p-6 border border-gray-700">
+          <Link href="/" className="inline-flex items-center gap-1 text-xs md:text-sm text-blue-400 hover:text-blue-300 mb-3">
+            <ArrowLeft className="w-4 h-4" />
+            Dashboard
+          </Link>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <h1 className="text-xl md:text-2xl font-bold text-white flex items-center gap-2">
+              <Webhook className="w-5 h-5 md:w-6 md:h-6 text-blue-500" />
+              Webhooks
+            </h1>
+            {!creating && (
+              <button
+                onClick={() => {
+                  setCreating(true);
+                  setCreated(null);
+                }}
+                className="flex items-center gap-2 px-4 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded text-xs md:text-sm"
+              >
+                <Plus className="w-4 h-4" />
+                New subscription
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Subscriptions */}
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 md:p-6 border border-gray-700 space-y-3">
+          <h2 className="text-lg md:text-xl font-semibold text-white">Subscriptions</h2>
+
+          {creating && (
+            <NewSubscriptionForm
+              onCreated={(subscription) => {
+                setCreating(false);
+                setCreated(subscription);
+                reload();
+              }}
+              onCancel={() => setCreating(false)}
+            />
+          )}
+
+          {created && (
+            <div className="bg-green-900/30 border border-green-700/50 rounded-lg p-3 space-y-2">
+              <div className="text-xs md:text-sm text-green-400">
+                Signing secret for &quot;{created.name}&quot;. Copy it now; it won&apos;t be shown again.
+              </div>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 text-xs md:text-sm text-white bg-gray-900 rounded px-2 py-1 break-all">{created.secret}</code>
+                <button
+                  onClick={() => navigator.clipboard.writeText(created.secret)}
+                  className="text-gray-400 hover:text-white"
+                  title="Copy"
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          )}
+
+          {(result.error || actionError) && (
+            <div className="text-xs md:text-sm text-red-400">{actionError ?? result.error}</div>
+          )}
+
+          {result.version === null ? (
+            <div className="text-gray-400 text-xs md:text-sm py-4 text-center">Loading subscriptions...</div>
+          ) : result.subscriptions.length === 0 ? (
+            <div className="text-gray-400 text-xs md:text-sm py-4 text-center">No webhook subscriptions yet</div>
+          ) : (
+            <div className={`space-y-2 ${loading ? 'opacity-50' : ''}`}>
+              {result.subscriptions.map(subscription => (
+                <div
+                  key={subscription.id}
+                  className={`flex flex-col md:flex-row md:items-center justify-between gap-2 bg-gray-900/50 rounded-lg px-3 py-2 border border-gray-700 ${
+                    subscription.enabled ? '' : 'opacity-60'
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <div className="text-white text-sm md:text-base font-medium">{subscription.name}</div>
+                    <div className="text-xs text-gray-400 break-all">{subscription.url}</div>
+                    <div className="text-xs text-gray-400">{describeSubscription(subscription)}</div>
+                  </div>
+                  <div className="flex items-center gap-3 text-gray-400">
+                    <button
+                      onClick={() => toggleSubscription(subscription)}
+                      className="hover:text-white"
+                      title={subscription.enabled ? 'Pause' : 'Resume'}
+                    >
+                      {subscription.enabled ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4 text-green-400" />}
+                    </button>
+                    <button onClick={() => deleteSubscription(subscription)} className="hover:text-red-400" title="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Delivery Log */}
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 md:p-6 border border-gray-700">
+          <div className="flex items-center justify-between gap-3 mb-3 md:mb-4">
+            <h2 className="text-lg md:text-xl font-semibold text-white">Delivery Log</h2>
+            <select value={filter} onChange={(e) => setFilter(e.target.value as LogFilter)} className="bg-gray-700 text-white text-xs md:text-sm rounded px-2 py-1 border border-gray-600">
+              <option value="all">All deliveries</option>
+              <option value="dead">Dead letters</option>
+            </select>
+          </div>
+          {result.deliveries.length === 0 ? (
+            <div className="text-gray-400 text-xs md:text-sm py-4 text-center">
+              {filter === 'dead' ? 'No dead letters' : 'No webhooks delivered yet'}
+            </div>
+          ) : (
+            <div className="overflow-x-auto -mx-4 md:mx-0">
+              <table className="w-full min-w-[600px]">
+                <thead>
+                  <tr className="border-b border-gray-700">
+                    <th className="text-left py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">Time</th>
+                    <th className="text-left py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">Subscription</th>
+                    <th className="text-left py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">Event</th>
+                    <th className="text-left py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">Attempts</th>
+                    <th className="text-left py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="text-xs md:text-sm">
+                  {result.deliveries.map(delivery => (
+                    <tr key={delivery.id} className="border-b border-gray-700/50 align-top">
+                      <td className="py-2 px-4 text-gray-300 whitespace-nowrap">{formatTime(delivery.created_at)}</td>
+                      <td className="py-2 px-4 text-white">
+                        {delivery.subscription_name}
+                        <div className="text-xs text-gray-500">{delivery.target}</div>
+                      </td>
+                      <td className="py-2 px-4 text-gray-300">
+                        {delivery.event}
+                        <div className="text-xs text-gray-500">{delivery.prediction_id}</div>
+                      </td>
+                      <td className="py-2 px-4 text-gray-300">
+                        {delivery.attempts}
+                        {delivery.last_attempt_at && <div className="text-xs text-gray-500">last {formatTime(delivery.last_attempt_at)}</div>}
+                      </td>
+                      <td className="py-2 px-4">
+                        <div className="flex items-center gap-2">
+                          <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded border text-xs ${STATUS_STYLES[delivery.status]}`}>
+                            {delivery.status === 'delivered' && <CheckCircle className="w-3 h-3" />}
+                            {delivery.status === 'dead' && <XCircle className="w-3 h-3" />}
+                            {delivery.status}
+                          </span>
+                          {delivery.status === 'dead' && (
+                            <button onClick={() => retryDelivery(delivery)} className="text-gray-400 hover:text-white" title="Retry">
+                              <RotateCcw className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                        {delivery.status === 'pending' && delivery.attempts > 0 && (
+                          <div className="text-xs text-gray-500 mt-1">retry at {formatTime(delivery.next_attempt_at)}</div>
+                        )}
+                        {delivery.last_error && delivery.status !== 'delivered' && (
+                          <div className="text-xs text-gray-500 mt-1">{delivery.last_error}</div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
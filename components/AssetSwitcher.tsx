@@ -0,0 +1,24 @@
+// components/AssetSwitcher.tsx - Pick which coin's predictions the page shows
+'use client';
+
+import { ASSET_SYMBOLS, ASSETS } from '@/lib/assets';
+import type { Asset } from '@/types';
+
+export function AssetSwitcher({ asset, onChange }: { asset: Asset; onChange: (asset: Asset) => void }) {
+  return (
+    <div className="flex gap-1" role="group" aria-label="Asset">
+      {ASSET_SYMBOLS.map(symbol => (
+        <button
+          key={symbol}
+          onClick={() => onChange(symbol)}
+          className={`px-2 md:px-3 py-1 rounded text-xs md:text-sm font-semibold transition-colors ${
+            asset === symbol ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+          }`}
+          title={ASSETS[symbol].name}
+        >
+          {symbol}
+        </button>
+      ))}
+    </div>
+  );
+}
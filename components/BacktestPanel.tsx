@@ -0,0 +1,351 @@
+// components/BacktestPanel.tsx - "What if we had traded these signals" simulator
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { Play, Wallet } from 'lucide-react';
+import { getTimeframeLabel } from '@/types';
+import type { BacktestMode, BacktestResult, BacktestStake } from '@/types';
+
+// Mirrors DEFAULT_BACKTEST_CONFIG in lib/backtest.ts; kept as strings for the inputs
+interface BacktestForm {
+  mode: BacktestMode;
+  stake: BacktestStake;
+  stake_amount: string;
+  initial_capital: string;
+  min_confidence: string;
+  payout_pct: string;
+  fee_pct: string;
+  slippage_pct: string;
+  timeframes: number[]; // empty trades every timeframe
+}
+
+const DEFAULT_FORM: BacktestForm = {
+  mode: 'binary',
+  stake: 'fixed',
+  stake_amount: '100',
+  initial_capital: '10000',
+  min_confidence: '0',
+  payout_pct: '80',
+  fee_pct: '0',
+  slippage_pct: '0',
+  timeframes: []
+};
+
+const formatUsd = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatAxisDate = (time: number) =>
+  new Date(time).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const formatTooltipDate = (time: number) =>
+  new Date(time).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const pnlColor = (value: number) => (value > 0 ? 'text-green-400' : value < 0 ? 'text-red-400' : 'text-gray-300');
+
+const buildBacktestQuery = (form: BacktestForm): string => {
+  const params = new URLSearchParams({
+    mode: form.mode,
+    stake: form.stake,
+    stake_amount: form.stake_amount,
+    initial_capital: form.initial_capital,
+    min_confidence: form.min_confidence,
+    fee_pct: form.fee_pct
+  });
+  if (form.mode === 'binary') params.set('payout_pct', form.payout_pct);
+  if (form.mode === 'spot') params.set('slippage_pct', form.slippage_pct);
+  if (form.timeframes.length > 0) params.set('timeframes', form.timeframes.join(','));
+  return params.toString();
+};
+
+// ==================== Form Field ====================
+function NumberField({
+  label,
+  value,
+  onChange,
+  suffix
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  suffix?: string;
+}) {
+  return (
+    <label className="block">
+      <span className="text-xs text-gray-400">{label}</span>
+      <div className="mt-1 flex items-center bg-gray-700 rounded border border-gray-600">
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-full bg-transparent text-white text-xs md:text-sm px-2 py-1 outline-none"
+        />
+        {suffix && <span className="pr-2 text-xs text-gray-400">{suffix}</span>}
+      </div>
+    </label>
+  );
+}
+
+// ==================== Main Component ====================
+export function BacktestPanel({ periodQuery, timeframes }: { periodQuery: string; timeframes: number[] }) {
+  // Edits stay in the draft until "Run" so typing doesn't refetch
+  const [draft, setDraft] = useState<BacktestForm>(DEFAULT_FORM);
+  const [applied, setApplied] = useState<BacktestForm>(DEFAULT_FORM);
+  const [result, setResult] = useState<{
+    url: string | null;
+    data: BacktestResult | null;
+    error: string | null;
+  }>({ url: null, data: null, error: null });
+
+  const url = `/api/backtest?${periodQuery}&${buildBacktestQuery(applied)}`;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const response = await fetch(url, { cache: 'no-store' });
+        const body = await response.json();
+        if (!response.ok || body.error) {
+          throw new Error(body.message || body.error || `HTTP error! status: ${response.status}`);
+        }
+        if (!cancelled) setResult({ url, data: body, error: null });
+      } catch (error) {
+        console.error('Error running backtest:', error);
+        if (!cancelled) {
+          setResult(prev => ({
+            url,
+            data: prev.data,
+            error: error instanceof Error ? error.message : 'Failed to run backtest'
+          }));
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  const data = result.data;
+  const loading = result.url !== url;
+
+  const chartData = useMemo(
+    () => (data?.equity_curve ?? []).map(point => ({ ...point, time: new Date(point.time).getTime() })),
+    [data]
+  );
+
+  const update = <K extends keyof BacktestForm>(key: K, value: BacktestForm[K]) =>
+    setDraft(prev => ({ ...prev, [key]: value }));
+
+  const toggleTimeframe = (tf: number) =>
+    update('timeframes', draft.timeframes.includes(tf)
+      ? draft.timeframes.filter(selected => selected !== tf)
+      : [...draft.timeframes, tf].sort((a, b) => a - b));
+
+  const tiles = data ? [
+    { label: 'Total PnL', value: formatUsd(data.total_pnl), sub: `${data.return_pct >= 0 ? '+' : ''}${data.return_pct.toFixed(2)}%`, color: pnlColor(data.total_pnl) },
+    { label: 'Final Equity', value: formatUsd(data.final_equity), sub: `fees ${formatUsd(data.fees)}`, color: 'text-white' },
+    { label: 'Trades', value: data.trades.toLocaleString(), sub: `${data.win_rate.toFixed(1)}% win rate`, color: 'text-white' },
+    { label: 'Max Drawdown', value: `${data.max_drawdown_pct.toFixed(1)}%`, sub: formatUsd(-data.max_drawdown), color: 'text-red-400' },
+    { label: 'Sharpe', value: data.sharpe !== null ? data.sharpe.toFixed(2) : '—', sub: 'annualized, daily', color: 'text-white' },
+    { label: 'Losing Streak', value: data.longest_losing_streak.toString(), sub: 'longest', color: 'text-white' }
+  ] : [];
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 md:p-6 border border-gray-700">
+      <h2 className="text-lg md:text-xl font-semibold text-white flex items-center gap-2 mb-3 md:mb-4">
+        <Wallet className="w-4 h-4 md:w-5 md:h-5 text-blue-500" />
+        Backtest
+        {data && <span className="text-xs md:text-sm text-gray-400 font-normal">({data.period.label})</span>}
+      </h2>
+
+      {/* Configuration */}
+      <div className="bg-gray-900/50 rounded-lg p-3 md:p-4 mb-4 space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {(['binary', 'spot'] as BacktestMode[]).map(mode => (
+            <button
+              key={mode}
+              onClick={() => update('mode', mode)}
+              className={`px-3 py-1 rounded text-xs md:text-sm transition-colors ${
+                draft.mode === mode ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {mode === 'binary' ? 'Binary payout' : 'Spot PnL'}
+            </button>
+          ))}
+          <span className="w-px bg-gray-700 mx-1" />
+          {(['fixed', 'percent'] as BacktestStake[]).map(stake => (
+            <button
+              key={stake}
+              onClick={() => update('stake', stake)}
+              className={`px-3 py-1 rounded text-xs md:text-sm transition-colors ${
+                draft.stake === stake ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {stake === 'fixed' ? 'Fixed stake' : '% of equity'}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          <NumberField label="Starting capital" value={draft.initial_capital} onChange={(v) => update('initial_capital', v)} suffix="$" />
+          <NumberField
+            label="Stake"
+            value={draft.stake_amount}
+            onChange={(v) => update('stake_amount', v)}
+            suffix={draft.stake === 'fixed' ? '$' : '%'}
+          />
+          <NumberField label="Min confidence" value={draft.min_confidence} onChange={(v) => update('min_confidence', v)} suffix="%" />
+          {draft.mode === 'binary' ? (
+            <NumberField label="Payout on win" value={draft.payout_pct} onChange={(v) => update('payout_pct', v)} suffix="%" />
+          ) : (
+            <NumberField label="Slippage" value={draft.slippage_pct} onChange={(v) => update('slippage_pct', v)} suffix="%" />
+          )}
+          <NumberField label="Fee per trade" value={draft.fee_pct} onChange={(v) => update('fee_pct', v)} suffix="%" />
+        </div>
+
+        {timeframes.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-gray-400">Timeframes</span>
+            {timeframes.map(tf => (
+              <button
+                key={tf}
+                onClick={() => toggleTimeframe(tf)}
+                className={`px-2 py-0.5 rounded text-xs transition-colors ${
+                  draft.timeframes.includes(tf) ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                {getTimeframeLabel(tf)}
+              </button>
+            ))}
+            {draft.timeframes.length === 0 && <span className="text-xs text-gray-500">all</span>}
+          </div>
+        )}
+
+        <button
+          onClick={() => setApplied(draft)}
+          disabled={loading}
+          className="flex items-center gap-2 px-4 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded text-xs md:text-sm"
+        >
+          <Play className="w-3 h-3 md:w-4 md:h-4" />
+          {loading ? 'Running...' : 'Run backtest'}
+        </button>
+      </div>
+
+      {result.error && <div className="mb-3 text-xs md:text-sm text-red-400">{result.error}</div>}
+
+      {!data ? (
+        <div className="h-[200px] flex items-center justify-center text-gray-400 text-xs md:text-sm">
+          {!result.error && 'Running backtest...'}
+        </div>
+      ) : data.trades === 0 ? (
+        <div className="h-[200px] flex items-center justify-center text-gray-400 text-xs md:text-sm">
+          No validated predictions match these settings
+        </div>
+      ) : (
+        <div className={`space-y-4 md:space-y-6 ${loading ? 'opacity-50' : ''}`}>
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+            {tiles.map(tile => (
+              <div key={tile.label} className="bg-gray-900/50 rounded-lg p-3">
+                <div className="text-xs text-gray-400 mb-1">{tile.label}</div>
+                <div className={`text-base md:text-xl font-bold ${tile.color}`}>{tile.value}</div>
+                <div className="text-[10px] md:text-xs text-gray-500">{tile.sub}</div>
+              </div>
+            ))}
+          </div>
+
+          {/* Equity curve */}
+          <ResponsiveContainer width="100%" height={260}>
+            <AreaChart data={chartData}>
+              <defs>
+                <linearGradient id="equityFill" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.4} />
+                  <stop offset="95%" stopColor="#3b82f6" stopOpacity={0} />
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={formatAxisDate}
+                stroke="#9ca3af"
+                tick={{ fontSize: 10 }}
+              />
+              <YAxis
+                stroke="#9ca3af"
+                tick={{ fontSize: 10 }}
+                width={70}
+                domain={['auto', 'auto']}
+                tickFormatter={(value: number) => formatUsd(value)}
+              />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', borderRadius: '8px' }}
+                labelFormatter={(time) => formatTooltipDate(Number(time))}
+                formatter={(value, name) => (
+                  name === 'equity'
+                    ? [formatUsd(Number(value)), 'Equity']
+                    : [`${Number(value).toFixed(1)}%`, 'Drawdown']
+                )}
+              />
+              <ReferenceLine y={data.config.initial_capital} stroke="#6b7280" strokeDasharray="4 4" />
+              <Area
+                type="monotone"
+                dataKey="equity"
+                stroke="#3b82f6"
+                strokeWidth={2}
+                fill="url(#equityFill)"
+                isAnimationActive={false}
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+
+          {/* Per-timeframe PnL */}
+          <div className="overflow-x-auto -mx-4 md:mx-0">
+            <table className="w-full min-w-[400px]">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="text-left py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">Timeframe</th>
+                  <th className="text-right py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">Trades</th>
+                  <th className="text-right py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">Win Rate</th>
+                  <th className="text-right py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">PnL</th>
+                </tr>
+              </thead>
+              <tbody className="text-xs md:text-sm">
+                {data.by_timeframe.map(row => (
+                  <tr key={row.timeframe_minutes} className="border-b border-gray-700/50">
+                    <td className="py-2 px-4 text-white font-medium">{getTimeframeLabel(row.timeframe_minutes)}</td>
+                    <td className="py-2 px-4 text-right text-gray-300">{row.trades.toLocaleString()}</td>
+                    <td className="py-2 px-4 text-right text-gray-300">{row.win_rate.toFixed(1)}%</td>
+                    <td className={`py-2 px-4 text-right font-semibold ${pnlColor(row.pnl)}`}>{formatUsd(row.pnl)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {(data.ruined || data.truncated) && (
+            <div className="text-xs text-gray-500 space-y-1">
+              {data.ruined && <p className="text-red-400">Equity ran out before the last signal; remaining trades were skipped.</p>}
+              {data.truncated && <p>The period holds more predictions than one run simulates; only the oldest were traded.</p>}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+// components/CalibrationChart.tsx - Reliability diagram and confidence threshold table
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { Crosshair } from 'lucide-react';
+import { CATEGORY_LABELS, getTimeframeLabel, TIMEFRAME_CATEGORY_ORDER } from '@/types';
+import type { CalibrationReport } from '@/types';
+
+// Below this many predictions a bucket's win rate is mostly noise
+const MIN_BUCKET_SAMPLES = 20;
+
+const getWinRateColor = (winRate: number): string => {
+  if (winRate >= 70) return 'text-green-400';
+  if (winRate >= 60) return 'text-blue-400';
+  if (winRate >= 50) return 'text-yellow-400';
+  return 'text-red-400';
+};
+
+// "tf:5" or "cat:short", empty for everything
+const parseSlice = (value: string) => {
+  const [kind, key] = value.split(':');
+  if (kind === 'tf') return `&timeframe=${key}`;
+  if (kind === 'cat') return `&category=${key}`;
+  return '';
+};
+
+export function CalibrationChart({ periodQuery, timeframes }: { periodQuery: string; timeframes: number[] }) {
+  const [slice, setSlice] = useState('');
+  const [result, setResult] = useState<{
+    url: string | null;
+    data: CalibrationReport | null;
+    error: string | null;
+  }>({ url: null, data: null, error: null });
+
+  const url = `/api/calibration?${periodQuery}${parseSlice(slice)}`;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const response = await fetch(url, { cache: 'no-store' });
+        const body = await response.json();
+        if (!response.ok || body.error) {
+          throw new Error(body.message || body.error || `HTTP error! status: ${response.status}`);
+        }
+        if (!cancelled) setResult({ url, data: body, error: null });
+      } catch (error) {
+        console.error('Error fetching calibration:', error);
+        if (!cancelled) {
+          setResult(prev => ({
+            url,
+            data: prev.data,
+            error: error instanceof Error ? error.message : 'Failed to load calibration'
+          }));
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  const data = result.data;
+  const loading = result.url !== url;
+
+  const chartData = useMemo(
+    () => (data?.buckets ?? []).map(bucket => ({
+      label: `${bucket.lower}-${bucket.upper}`,
+      mid: (bucket.lower + bucket.upper) / 2,
+      count: bucket.count,
+      observed: bucket.win_rate,
+      predicted: bucket.avg_confidence
+    })),
+    [data]
+  );
+
+  const thresholds = (data?.thresholds ?? []).filter(row => row.count > 0);
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 md:p-6 border border-gray-700">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 mb-3 md:mb-4">
+        <h2 className="text-lg md:text-xl font-semibold text-white flex items-center gap-2">
+          <Crosshair className="w-4 h-4 md:w-5 md:h-5 text-blue-500" />
+          Confidence Calibration
+          {data && <span className="text-xs md:text-sm text-gray-400 font-normal">({data.period.label})</span>}
+        </h2>
+        <select
+          value={slice}
+          onChange={(e) => setSlice(e.target.value)}
+          className="w-full sm:w-auto bg-gray-700 text-white text-xs md:text-sm rounded px-2 py-1 border border-gray-600"
+        >
+          <option value="">All predictions</option>
+          <optgroup label="Category">
+            {TIMEFRAME_CATEGORY_ORDER.map(category => (
+              <option key={category} value={`cat:${category}`}>{CATEGORY_LABELS[category]}</option>
+            ))}
+          </optgroup>
+          <optgroup label="Timeframe">
+            {timeframes.map(tf => (
+              <option key={tf} value={`tf:${tf}`}>{getTimeframeLabel(tf)}</option>
+            ))}
+          </optgroup>
+        </select>
+      </div>
+
+      {!data ? (
+        <div className="h-[200px] flex items-center justify-center text-xs md:text-sm text-center">
+          {result.error
+            ? <span className="text-red-400">{result.error}</span>
+            : <span className="text-gray-400">Loading calibration...</span>}
+        </div>
+      ) : data.samples === 0 ? (
+        <div className="h-[200px] flex items-center justify-center text-gray-400 text-xs md:text-sm">
+          No validated predictions for this slice
+        </div>
+      ) : (
+        <div className={`space-y-4 md:space-y-6 ${loading ? 'opacity-50' : ''}`}>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="bg-gray-900/50 rounded-lg p-3">
+              <div className="text-xs text-gray-400 mb-1">Samples</div>
+              <div className="text-base md:text-xl font-bold text-white">{data.samples.toLocaleString()}</div>
+            </div>
+            <div className="bg-gray-900/50 rounded-lg p-3">
+              <div className="text-xs text-gray-400 mb-1">Brier Score</div>
+              <div className="text-base md:text-xl font-bold text-white">{data.brier_score?.toFixed(3) ?? '—'}</div>
+              <div className="text-[10px] md:text-xs text-gray-500">lower is better, 0.25 = coin flip</div>
+            </div>
+            <div className="bg-gray-900/50 rounded-lg p-3">
+              <div className="text-xs text-gray-400 mb-1">Calibration Error</div>
+              <div className="text-base md:text-xl font-bold text-white">{data.ece !== null ? `${data.ece.toFixed(1)} pts` : '—'}</div>
+              <div className="text-[10px] md:text-xs text-gray-500">avg gap, confidence vs wins</div>
+            </div>
+          </div>
+
+          {/* Reliability diagram */}
+          <ResponsiveContainer width="100%" height={280}>
+            <ComposedChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis
+                dataKey="mid"
+                type="number"
+                domain={[0, 100]}
+                ticks={[0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100]}
+                tickFormatter={(value: number) => `${value}%`}
+                stroke="#9ca3af"
+                tick={{ fontSize: 10 }}
+              />
+              <YAxis
+                yAxisId="rate"
+                domain={[0, 100]}
+                tickFormatter={(value: number) => `${value}%`}
+                stroke="#9ca3af"
+                tick={{ fontSize: 10 }}
+                width={45}
+              />
+              <YAxis yAxisId="count" orientation="right" stroke="#4b5563" tick={{ fontSize: 10 }} width={40} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', borderRadius: '8px' }}
+                labelFormatter={(_, payload) => `Confidence ${payload?.[0]?.payload?.label ?? ''}%`}
+                formatter={(value, name) => {
+                  if (name === 'count') return [Number(value).toLocaleString(), 'Predictions'];
+                  return [value === null ? '—' : `${Number(value).toFixed(1)}%`, name === 'observed' ? 'Win rate' : 'Avg confidence'];
+                }}
+              />
+              <ReferenceLine
+                yAxisId="rate"
+                segment={[{ x: 0, y: 0 }, { x: 100, y: 100 }]}
+                stroke="#6b7280"
+                strokeDasharray="4 4"
+              />
+              <Bar yAxisId="count" dataKey="count" fill="#3b82f6" fillOpacity={0.25} barSize={24} isAnimationActive={false} />
+              <Line
+                yAxisId="rate"
+                dataKey="observed"
+                stroke="#facc15"
+                strokeWidth={2}
+                connectNulls
+                dot={false}
+                isAnimationActive={false}
+              />
+              <Scatter yAxisId="rate" dataKey="observed" fill="#facc15" isAnimationActive={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+          <div className="flex flex-wrap items-center gap-3 md:gap-4 text-xs md:text-sm">
+            <div className="flex items-center gap-1 md:gap-2">
+              <div className="w-2 h-2 md:w-3 md:h-3 bg-yellow-400 rounded-full"></div>
+              <span className="text-gray-400">Observed win rate</span>
+            </div>
+            <div className="flex items-center gap-1 md:gap-2">
+              <div className="w-3 h-0.5 border-t border-dashed border-gray-500"></div>
+              <span className="text-gray-400">Perfect calibration</span>
+            </div>
+            <div className="flex items-center gap-1 md:gap-2">
+              <div className="w-2 h-2 md:w-3 md:h-3 bg-blue-500/30"></div>
+              <span className="text-gray-400">Predictions per bucket</span>
+            </div>
+          </div>
+
+          {/* Threshold table */}
+          <div>
+            <h3 className="text-sm md:text-base font-semibold text-white mb-2">Acting on a confidence threshold</h3>
+            <div className="overflow-x-auto -mx-4 md:mx-0">
+              <table className="w-full min-w-[400px]">
+                <thead>
+                  <tr className="border-b border-gray-700">
+                    <th className="text-left py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">Confidence ≥</th>
+                    <th className="text-right py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">Predictions</th>
+                    <th className="text-right py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">Coverage</th>
+                    <th className="text-right py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">Win Rate</th>
+                  </tr>
+                </thead>
+                <tbody className="text-xs md:text-sm">
+                  {thresholds.map(row => (
+                    <tr
+                      key={row.min_confidence}
+                      className={`border-b border-gray-700/50 ${row.count < MIN_BUCKET_SAMPLES ? 'opacity-50' : ''}`}
+                    >
+                      <td className="py-2 px-4 text-white font-medium">{row.min_confidence}%</td>
+                      <td className="py-2 px-4 text-right text-gray-300">{row.count.toLocaleString()}</td>
+                      <td className="py-2 px-4 text-right text-gray-300">{row.coverage.toFixed(1)}%</td>
+                      <td className={`py-2 px-4 text-right font-semibold ${row.win_rate !== null ? getWinRateColor(row.win_rate) : 'text-gray-500'}`}>
+                        {row.win_rate !== null ? `${row.win_rate.toFixed(1)}%` : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+              Faded rows have fewer than {MIN_BUCKET_SAMPLES} predictions.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
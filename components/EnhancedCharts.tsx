@@ -1,132 +1,192 @@
 import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { 
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, 
-  ResponsiveContainer, Area, AreaChart, ReferenceLine, Scatter, ScatterChart, ZAxis
+  ResponsiveContainer, Area, ComposedChart, ReferenceLine, Scatter, ScatterChart, ZAxis,
+  ErrorBar, Cell
 } from 'recharts';
 import { 
   TrendingUp, TrendingDown, Clock, CheckCircle, XCircle, 
   Calendar, Filter, Download, ChevronLeft, ChevronRight,
   Activity, Target, Zap, X
 } from 'lucide-react';
+import { buildHistoryParams, usePredictionHistory } from '@/hooks/usePredictionHistory';
+import { DEFAULT_ASSET, withAsset } from '@/lib/assets';
+import { getTimeframeLabel } from '@/types';
+import type {
+  Asset,
+  Prediction,
+  PredictionHistoryFilters,
+  PriceHistory,
+  PriceHistoryRange,
+  ValidationFilter
+} from '@/types';
+import { ExportButtons } from './ExportButtons';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-interface Prediction {
+interface PricePoint {
+  time: number;
+  price: number;
+}
+
+interface PredictionMarker {
   id: string;
-  timestamp: string;
-  prediction_time: string;
-  timeframe_minutes: number;
-  current_price: number;
-  predicted_price: number;
-  price_change_pct: number;
+  time: number; // target_time
+  predicted: number;
+  range: [number, number]; // distance below/above predicted, for ErrorBar
   trend: string;
   confidence: number;
-  validated: boolean;
-  validation_result?: 'WIN' | 'LOSE' | null;  
-  actual_price?: number;
-  target_time: string;
+  startTime: number; // prediction_time
+  startPrice: number;
 }
 
-interface PriceData {
-  timestamp: string;
-  price: number;
-  prediction?: {
-    id: string;
-    predicted_price: number;
-    trend: string;
-    confidence: number;
-  };
+interface OutcomeMarker {
+  id: string;
+  time: number;
+  actual: number;
+  result: 'WIN' | 'LOSE';
 }
 
+const PRICE_RANGE_LABELS: Record<PriceHistoryRange, string> = {
+  '1h': '1m candles',
+  '6h': '5m candles',
+  '24h': '15m candles'
+};
+
+const formatChartTime = (time: number) =>
+  new Date(time).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+
 // ============================================================================
 // 1. REAL-TIME PRICE CHART WITH PREDICTIONS OVERLAY
 // ============================================================================
 
-const RealTimePriceChart = ({ predictions }: { predictions: Prediction[] }) => {
-  const [priceData, setPriceData] = useState<PriceData[]>([]);
-  const [timeRange, setTimeRange] = useState<'1h' | '6h' | '24h'>('6h');
+interface TooltipEntry {
+  dataKey?: string | number;
+  payload?: Partial<PricePoint & PredictionMarker & OutcomeMarker>;
+}
+
+const PriceTooltip = ({ active, payload }: { active?: boolean; payload?: TooltipEntry[] }) => {
+  if (!active || !payload?.[0]?.payload) return null;
+
+  const point = payload[0].payload;
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg p-2 md:p-3 shadow-xl">
+      {point.time !== undefined && (
+        <p className="text-white font-semibold mb-1 md:mb-2 text-xs md:text-sm">{formatChartTime(point.time)}</p>
+      )}
+      {point.price !== undefined && (
+        <p className="text-blue-400 text-xs md:text-sm">Price: ${point.price.toFixed(2)}</p>
+      )}
+      {point.predicted !== undefined && point.range && (
+        <div className="space-y-0.5">
+          <p className={`text-xs ${point.trend?.includes('CALL') ? 'text-green-400' : 'text-red-400'}`}>
+            {point.trend}
+          </p>
+          <p className="text-yellow-400 text-xs">Predicted: ${point.predicted.toFixed(2)}</p>
+          <p className="text-gray-400 text-xs">
+            Range: ${(point.predicted - point.range[0]).toFixed(2)} – ${(point.predicted + point.range[1]).toFixed(2)}
+          </p>
+          <p className="text-gray-400 text-xs">Confidence: {point.confidence?.toFixed(0)}%</p>
+        </div>
+      )}
+      {point.actual !== undefined && (
+        <p className={`text-xs font-semibold ${point.result === 'WIN' ? 'text-green-400' : 'text-red-400'}`}>
+          Actual: ${point.actual.toFixed(2)} ({point.result})
+        </p>
+      )}
+    </div>
+  );
+};
+
+const RealTimePriceChart = ({ predictions, asset = DEFAULT_ASSET }: { predictions: Prediction[]; asset?: Asset }) => {
+  const [timeRange, setTimeRange] = useState<PriceHistoryRange>('6h');
+  const [history, setHistory] = useState<{
+    range: PriceHistoryRange | null;
+    data: PriceHistory | null;
+    error: string | null;
+  }>({ range: null, data: null, error: null });
 
-  // Simulate real-time price updates
   useEffect(() => {
-    const generatePriceData = () => {
-      const now = Date.now();
-      const ranges = { '1h': 60, '6h': 360, '24h': 1440 };
-      const minutes = ranges[timeRange];
-      
-      const data: PriceData[] = [];
-      const basePrice = 95000;
-      
-      for (let i = minutes; i >= 0; i -= 5) {
-        const time = new Date(now - i * 60000);
-        const randomWalk = (Math.random() - 0.5) * 500;
-        const price = basePrice + randomWalk;
-        
-        // Check if there's a prediction at this time
-        const prediction = predictions.find(p => {
-          const predTime = new Date(p.prediction_time).getTime();
-          return Math.abs(predTime - time.getTime()) < 5 * 60000; // Within 5 min
-        });
-        
-        data.push({
-          timestamp: time.toLocaleTimeString('en-US', { 
-            hour: '2-digit', 
-            minute: '2-digit' 
-          }),
-          price,
-          prediction: prediction ? {
-            id: prediction.id,
-            predicted_price: prediction.predicted_price,
-            trend: prediction.trend,
-            confidence: prediction.confidence
-          } : undefined
-        });
+    let cancelled = false;
+
+    const loadHistory = async () => {
+      try {
+        const response = await fetch(withAsset(`/api/price/history?range=${timeRange}`, asset), { cache: 'no-store' });
+        const result = await response.json();
+        if (!response.ok || result.error) {
+          throw new Error(result.message || result.error || `HTTP error! status: ${response.status}`);
+        }
+        if (!cancelled) setHistory({ range: timeRange, data: result, error: null });
+      } catch (error) {
+        console.error('Error fetching price history:', error);
+        if (!cancelled) {
+          setHistory(prev => ({
+            range: timeRange,
+            data: prev.range === timeRange ? prev.data : null,
+            error: error instanceof Error ? error.message : 'Failed to load price history'
+          }));
+        }
       }
-      
-      return data;
     };
 
-    setPriceData(generatePriceData());
-    const interval = setInterval(() => {
-      setPriceData(generatePriceData());
-    }, 30000); // Update every 30s
+    loadHistory();
+    const interval = setInterval(loadHistory, 60000);
 
-    return () => clearInterval(interval);
-  }, [timeRange, predictions]);
-
-  const CustomTooltip = ({ active, payload }: any) => {
-    if (!active || !payload?.[0]) return null;
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [timeRange, asset]);
+
+  const priceData = React.useMemo<PricePoint[]>(
+    () => (history.data?.candles ?? []).map(candle => ({
+      time: new Date(candle.time).getTime(),
+      price: candle.close
+    })),
+    [history.data]
+  );
 
-    const data = payload[0].payload;
-    return (
-      <div className="bg-gray-800 border border-gray-700 rounded-lg p-2 md:p-3 shadow-xl">
-        <p className="text-white font-semibold mb-1 md:mb-2 text-xs md:text-sm">{data.timestamp}</p>
-        <p className="text-blue-400 text-xs md:text-sm">
-          Price: ${data.price.toFixed(2)}
-        </p>
-        {data.prediction && (
-          <div className="mt-1 md:mt-2 pt-1 md:pt-2 border-t border-gray-700">
-            <p className={`text-xs ${
-              data.prediction.trend.includes('CALL') 
-                ? 'text-green-400' 
-                : 'text-red-400'
-            }`}>
-              {data.prediction.trend}
-            </p>
-            <p className="text-yellow-400 text-xs">
-              Predicted: ${data.prediction.predicted_price.toFixed(2)}
-            </p>
-            <p className="text-gray-400 text-xs">
-              Confidence: {data.prediction.confidence.toFixed(0)}%
-            </p>
-          </div>
-        )}
-      </div>
-    );
-  };
+  const { markers, outcomes, domain } = React.useMemo(() => {
+    if (priceData.length === 0) {
+      return { markers: [] as PredictionMarker[], outcomes: [] as OutcomeMarker[], domain: [0, 0] as [number, number] };
+    }
 
-  const predictionPoints = priceData.filter(d => d.prediction);
+    const start = priceData[0].time;
+    let end = priceData[priceData.length - 1].time;
+
+    const visible = predictions.filter(p => new Date(p.prediction_time).getTime() >= start);
+    const markers: PredictionMarker[] = visible.map(p => ({
+      id: p.id,
+      time: new Date(p.target_time).getTime(),
+      predicted: p.predicted_price,
+      range: [
+        Math.max(0, p.predicted_price - (p.price_range_low ?? p.predicted_price)),
+        Math.max(0, (p.price_range_high ?? p.predicted_price) - p.predicted_price)
+      ],
+      trend: p.trend,
+      confidence: p.confidence,
+      startTime: new Date(p.prediction_time).getTime(),
+      startPrice: p.current_price
+    }));
+    const outcomes: OutcomeMarker[] = visible
+      .filter(p => p.validated && p.validation_result && p.actual_price !== undefined)
+      .map(p => ({
+        id: p.id,
+        time: new Date(p.target_time).getTime(),
+        actual: p.actual_price as number,
+        result: p.validation_result as 'WIN' | 'LOSE'
+      }));
+
+    // Stretch the axis so predictions still in flight stay on screen
+    markers.forEach(marker => { end = Math.max(end, marker.time); });
+
+    return { markers, outcomes, domain: [start, end] as [number, number] };
+  }, [priceData, predictions]);
+
+  const loading = history.range !== timeRange;
 
   return (
     <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-3 md:p-6 border border-gray-700">
@@ -152,56 +212,88 @@ const RealTimePriceChart = ({ predictions }: { predictions: Prediction[] }) => {
         </div>
       </div>
 
-      <ResponsiveContainer width="100%" height={300} className="md:h-[400px]">
-        <AreaChart data={priceData}>
-          <defs>
-            <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
-              <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.3}/>
-              <stop offset="95%" stopColor="#3b82f6" stopOpacity={0}/>
-            </linearGradient>
-          </defs>
-          <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
-          <XAxis 
-            dataKey="timestamp" 
-            stroke="#9ca3af"
-            style={{ fontSize: '10px' }}
-            tick={{ fontSize: 10 }}
-            interval="preserveStartEnd"
-          />
-          <YAxis 
-            stroke="#9ca3af"
-            style={{ fontSize: '10px' }}
-            tick={{ fontSize: 10 }}
-            domain={['dataMin - 200', 'dataMax + 200']}
-            width={60}
-          />
-          <Tooltip content={<CustomTooltip />} />
-          <Area
-            type="monotone"
-            dataKey="price"
-            stroke="#3b82f6"
-            strokeWidth={2}
-            fill="url(#colorPrice)"
-          />
-          
-          {/* Scatter plot for predictions */}
-          {predictionPoints.map((point, i) => (
-            <ReferenceLine
-              key={i}
-              x={point.timestamp}
-              stroke={point.prediction?.trend.includes('CALL') ? '#10b981' : '#ef4444'}
-              strokeDasharray="5 5"
+      {history.error && !history.data ? (
+        <div className="h-[300px] md:h-[400px] flex items-center justify-center text-red-400 text-xs md:text-sm text-center">
+          {history.error}
+        </div>
+      ) : priceData.length === 0 ? (
+        <div className="h-[300px] md:h-[400px] flex items-center justify-center text-gray-400 text-xs md:text-sm">
+          Loading price history...
+        </div>
+      ) : (
+        <ResponsiveContainer width="100%" height={300} className={`md:h-[400px] ${loading ? 'opacity-50' : ''}`}>
+          <ComposedChart data={priceData}>
+            <defs>
+              <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.3}/>
+                <stop offset="95%" stopColor="#3b82f6" stopOpacity={0}/>
+              </linearGradient>
+            </defs>
+            <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+            <XAxis 
+              dataKey="time" 
+              type="number"
+              scale="time"
+              domain={domain}
+              tickFormatter={formatChartTime}
+              stroke="#9ca3af"
+              style={{ fontSize: '10px' }}
+              tick={{ fontSize: 10 }}
+            />
+            <YAxis 
+              stroke="#9ca3af"
+              style={{ fontSize: '10px' }}
+              tick={{ fontSize: 10 }}
+              domain={['dataMin - 200', 'dataMax + 200']}
+              tickFormatter={(value: number) => value.toFixed(0)}
+              width={60}
+            />
+            <Tooltip content={<PriceTooltip />} />
+            <Area
+              type="monotone"
+              dataKey="price"
+              stroke="#3b82f6"
               strokeWidth={2}
+              fill="url(#colorPrice)"
+              isAnimationActive={false}
             />
-          ))}
-        </AreaChart>
-      </ResponsiveContainer>
+
+            {/* Projection from price at prediction time to predicted target */}
+            {markers.map(marker => (
+              <ReferenceLine
+                key={`projection-${marker.id}`}
+                segment={[
+                  { x: marker.startTime, y: marker.startPrice },
+                  { x: marker.time, y: marker.predicted }
+                ]}
+                stroke={marker.trend.includes('CALL') ? '#10b981' : '#ef4444'}
+                strokeDasharray="5 5"
+                strokeOpacity={0.6}
+                ifOverflow="extendDomain"
+              />
+            ))}
+
+            <Scatter data={markers} dataKey="predicted" fill="#facc15" isAnimationActive={false}>
+              <ErrorBar dataKey="range" direction="y" stroke="#facc15" strokeOpacity={0.6} width={4} />
+            </Scatter>
+            <Scatter data={outcomes} dataKey="actual" shape="diamond" isAnimationActive={false}>
+              {outcomes.map(outcome => (
+                <Cell key={outcome.id} fill={outcome.result === 'WIN' ? '#10b981' : '#ef4444'} />
+              ))}
+            </Scatter>
+          </ComposedChart>
+        </ResponsiveContainer>
+      )}
 
       <div className="flex flex-wrap items-center gap-3 md:gap-4 mt-3 md:mt-4 text-xs md:text-sm">
         <div className="flex items-center gap-1 md:gap-2">
           <div className="w-2 h-2 md:w-3 md:h-3 bg-blue-500 rounded-full"></div>
           <span className="text-gray-400">Actual Price</span>
         </div>
+        <div className="flex items-center gap-1 md:gap-2">
+          <div className="w-2 h-2 md:w-3 md:h-3 bg-yellow-400 rounded-full"></div>
+          <span className="text-gray-400">Predicted ± Range</span>
+        </div>
         <div className="flex items-center gap-1 md:gap-2">
           <div className="w-2 h-0.5 md:w-3 md:h-0.5 bg-green-500"></div>
           <span className="text-gray-400">CALL</span>
@@ -210,6 +302,15 @@ const RealTimePriceChart = ({ predictions }: { predictions: Prediction[] }) => {
           <div className="w-2 h-0.5 md:w-3 md:h-0.5 bg-red-500"></div>
           <span className="text-gray-400">PUT</span>
         </div>
+        <div className="flex items-center gap-1 md:gap-2">
+          <div className="w-2 h-2 md:w-3 md:h-3 bg-green-500 rotate-45"></div>
+          <span className="text-gray-400">Win / Loss outcome</span>
+        </div>
+        {history.data && (
+          <span className="text-gray-500 text-xs sm:ml-auto">
+            {PRICE_RANGE_LABELS[timeRange]} via {history.data.source}
+          </span>
+        )}
       </div>
     </div>
   );
@@ -219,31 +320,33 @@ const RealTimePriceChart = ({ predictions }: { predictions: Prediction[] }) => {
 // 2. TRADE HISTORY TIMELINE
 // ============================================================================
 
-const TradeHistoryTimeline = ({ predictions }: { predictions: Prediction[] }) => {
+const TIME_VIEW_MS = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000
+};
+
+const TradeHistoryTimeline = ({ asset = DEFAULT_ASSET }: { asset?: Asset }) => {
   const [selectedPrediction, setSelectedPrediction] = useState<Prediction | null>(null);
   const [filter, setFilter] = useState<'all' | 'win' | 'lose' | 'pending'>('all');
   const [timeView, setTimeView] = useState<'24h' | '7d' | '30d'>('24h');
 
+  const historyFilters = React.useMemo<PredictionHistoryFilters>(
+    () => ({
+      ...(asset !== DEFAULT_ASSET && { asset }),
+      ...(filter !== 'all' && { validation_result: filter.toUpperCase() as ValidationFilter })
+    }),
+    [filter, asset]
+  );
+  const { predictions, loading, loadingMore, error, filters: sentFilters, hasMore, loadMore } = usePredictionHistory(
+    historyFilters,
+    { lookbackMs: TIME_VIEW_MS[timeView], pageSize: 200 }
+  );
+
   // Group predictions by hour
   const groupedPredictions = React.useMemo(() => {
-    const now = new Date();
-    const cutoff = new Date(now.getTime() - (
-      timeView === '24h' ? 24 * 60 * 60 * 1000 :
-      timeView === '7d' ? 7 * 24 * 60 * 60 * 1000 :
-      30 * 24 * 60 * 60 * 1000
-    ));
-
-    const filtered = predictions
-      .filter(p => new Date(p.prediction_time) > cutoff)
-      .filter(p => {
-        if (filter === 'all') return true;
-        if (filter === 'pending') return !p.validated;
-        return p.validation_result?.toLowerCase() === filter;
-      });
-
-    // Group by hour
     const grouped: { [key: string]: Prediction[] } = {};
-    filtered.forEach(pred => {
+    predictions.forEach(pred => {
       const hour = new Date(pred.prediction_time).toLocaleString('en-US', {
         month: 'short',
         day: 'numeric',
@@ -256,7 +359,7 @@ const TradeHistoryTimeline = ({ predictions }: { predictions: Prediction[] }) =>
 
     return Object.entries(grouped)
       .sort((a, b) => new Date(b[0]).getTime() - new Date(a[0]).getTime());
-  }, [predictions, filter, timeView]);
+  }, [predictions]);
 
   const getStats = (preds: Prediction[]) => {
     const validated = preds.filter(p => p.validated);
@@ -302,10 +405,18 @@ const TradeHistoryTimeline = ({ predictions }: { predictions: Prediction[] }) =>
             <option value="lose">Losses</option>
             <option value="pending">Pending</option>
           </select>
+
+          <ExportButtons dataset="predictions" query={buildHistoryParams(sentFilters).toString()} />
         </div>
       </div>
 
-      <div className="space-y-4 md:space-y-6 max-h-[500px] md:max-h-[600px] overflow-y-auto pr-1 md:pr-2">
+      <div className={`space-y-4 md:space-y-6 max-h-[500px] md:max-h-[600px] overflow-y-auto pr-1 md:pr-2 ${loading ? 'opacity-50' : ''}`}>
+        {error && (
+          <div className="text-red-400 text-xs md:text-sm text-center py-2">{error}</div>
+        )}
+        {!loading && !error && groupedPredictions.length === 0 && (
+          <div className="text-gray-500 text-xs md:text-sm text-center py-4">No predictions in this period</div>
+        )}
         {groupedPredictions.map(([hour, preds]) => {
           const stats = getStats(preds);
           
@@ -388,7 +499,7 @@ const TradeHistoryTimeline = ({ predictions }: { predictions: Prediction[] }) =>
                       
                       <div className="flex items-center justify-between">
                         <span className="text-xs text-gray-400">
-                          {pred.timeframe_minutes}m
+                          {getTimeframeLabel(pred.timeframe_minutes)}
                         </span>
                         {isPending ? (
                           <Clock className="w-3 h-3 text-yellow-400" />
@@ -405,6 +516,15 @@ const TradeHistoryTimeline = ({ predictions }: { predictions: Prediction[] }) =>
             </div>
           );
         })}
+        {hasMore && (
+          <button
+            onClick={loadMore}
+            disabled={loadingMore}
+            className="w-full py-2 rounded-lg bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-xs md:text-sm text-gray-300 transition-colors"
+          >
+            {loadingMore ? 'Loading...' : 'Load older predictions'}
+          </button>
+        )}
       </div>
 
       {/* Selected Prediction Detail Modal */}
@@ -441,7 +561,7 @@ const TradeHistoryTimeline = ({ predictions }: { predictions: Prediction[] }) =>
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-400">Timeframe:</span>
-                <span className="text-white">{selectedPrediction.timeframe_minutes}m</span>
+                <span className="text-white">{getTimeframeLabel(selectedPrediction.timeframe_minutes)}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-400">Current Price:</span>
@@ -484,6 +604,13 @@ const TradeHistoryTimeline = ({ predictions }: { predictions: Prediction[] }) =>
                 </>
               )}
             </div>
+
+            <Link
+              href={withAsset(`/predictions/${selectedPrediction.id}`, asset)}
+              className="mt-4 block w-full text-center px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors text-xs md:text-sm text-white"
+            >
+              View full details
+            </Link>
           </div>
         </div>
       )}
@@ -495,14 +622,24 @@ const TradeHistoryTimeline = ({ predictions }: { predictions: Prediction[] }) =>
 // 3. PERFORMANCE HEATMAP
 // ============================================================================
 
-const PerformanceHeatmap = ({ predictions }: { predictions: Prediction[] }) => {
+const PerformanceHeatmap = ({ asset = DEFAULT_ASSET }: { asset?: Asset }) => {
   const [selectedMonth, setSelectedMonth] = useState(new Date());
   const [hoveredDay, setHoveredDay] = useState<string | null>(null);
 
+  const monthFilters = React.useMemo<PredictionHistoryFilters>(() => ({
+    ...(asset !== DEFAULT_ASSET && { asset }),
+    from: new Date(selectedMonth.getFullYear(), selectedMonth.getMonth(), 1).toISOString(),
+    to: new Date(selectedMonth.getFullYear(), selectedMonth.getMonth() + 1, 1, 0, 0, 0, -1).toISOString()
+  }), [selectedMonth, asset]);
+  const { predictions, loading } = usePredictionHistory(monthFilters, {
+    pageSize: 200,
+    initialPages: 10
+  });
+
   // Calculate heatmap data
   const heatmapData = React.useMemo(() => {
     const startOfMonth = new Date(selectedMonth.getFullYear(), selectedMonth.getMonth(), 1);
-    const endOfMonth = new Date(selectedMonth.getFullYear(), selectedMonth.getMonth() + 1, 0);
+    const endOfMonth = new Date(selectedMonth.getFullYear(), selectedMonth.getMonth() + 1, 1, 0, 0, 0, -1);
     
     const dailyStats: { [key: string]: {
       total: number;
@@ -640,7 +777,7 @@ const PerformanceHeatmap = ({ predictions }: { predictions: Prediction[] }) => {
         </div>
 
         {/* Calendar Days */}
-        <div className="grid grid-cols-7 gap-1 md:gap-2">
+        <div className={`grid grid-cols-7 gap-1 md:gap-2 ${loading ? 'opacity-50' : ''}`}>
           {calendarDays.map((day, i) => {
             if (!day.date || !day.dateKey) {
               return <div key={i} className="aspect-square" />;
@@ -760,9 +897,10 @@ const PerformanceHeatmap = ({ predictions }: { predictions: Prediction[] }) => {
 
 interface EnhancedChartsProps {
   predictions: Prediction[];
+  asset?: Asset;
 }
 
-export function EnhancedCharts({ predictions }: EnhancedChartsProps) {
+export function EnhancedCharts({ predictions, asset = DEFAULT_ASSET }: EnhancedChartsProps) {
   const [activeSlide, setActiveSlide] = useState(0);
   const [touchStart, setTouchStart] = useState(0);
   const [touchEnd, setTouchEnd] = useState(0);
@@ -776,9 +914,9 @@ export function EnhancedCharts({ predictions }: EnhancedChartsProps) {
   }
 
   const charts = [
-    { id: 0, name: 'Live Price', component: <RealTimePriceChart predictions={predictions} /> },
-    { id: 1, name: 'Trade History', component: <TradeHistoryTimeline predictions={predictions} /> },
-    { id: 2, name: 'Performance', component: <PerformanceHeatmap predictions={predictions} /> }
+    { id: 0, name: 'Live Price', component: <RealTimePriceChart predictions={predictions} asset={asset} /> },
+    { id: 1, name: 'Trade History', component: <TradeHistoryTimeline asset={asset} /> },
+    { id: 2, name: 'Performance', component: <PerformanceHeatmap asset={asset} /> }
   ];
 
   const handleTouchStart = (e: React.TouchEvent) => {
@@ -890,13 +1028,13 @@ export function EnhancedCharts({ predictions }: EnhancedChartsProps) {
       {/* Desktop Stacked View */}
       <div className="hidden md:block space-y-4 md:space-y-6">
         {/* Real-time Price Chart */}
-        <RealTimePriceChart predictions={predictions} />
+        <RealTimePriceChart predictions={predictions} asset={asset} />
 
         {/* Trade History Timeline */}
-        <TradeHistoryTimeline predictions={predictions} />
+        <TradeHistoryTimeline asset={asset} />
 
         {/* Performance Heatmap */}
-        <PerformanceHeatmap predictions={predictions} />
+        <PerformanceHeatmap asset={asset} />
       </div>
     </>
   );
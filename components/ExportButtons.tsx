@@ -0,0 +1,37 @@
+// components/ExportButtons.tsx - CSV / NDJSON download links for /api/export
+'use client';
+
+import { Download } from 'lucide-react';
+import { useSession } from '@/hooks/useSession';
+import { hasRole } from '@/lib/auth/roles';
+import type { ExportDataset, ExportFormat } from '@/types';
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  ndjson: 'NDJSON'
+};
+
+// `query` is the same query string the view itself fetches with, so the
+// download matches what is on screen. Exports are for operators, so
+// viewers don't get the buttons.
+export function ExportButtons({ dataset, query = '' }: { dataset: ExportDataset; query?: string }) {
+  const session = useSession();
+  if (!hasRole(session?.user, 'operator')) return null;
+
+  return (
+    <div className="flex items-center gap-1 text-xs text-gray-400">
+      <Download className="w-3 h-3 md:w-4 md:h-4" />
+      {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(format => (
+        <a
+          key={format}
+          href={`/api/export/${dataset}?${query}${query ? '&' : ''}format=${format}`}
+          download
+          className="px-1.5 py-0.5 rounded bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white transition-colors"
+          title={`Download ${dataset.replace('-', ' ')} as ${FORMAT_LABELS[format]}`}
+        >
+          {FORMAT_LABELS[format]}
+        </a>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+// components/ModelLeaderboard.tsx - Ensemble members scored against actual outcomes
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { Trophy } from 'lucide-react';
+import { getTimeframeLabel } from '@/types';
+import type { EnsembleModel, ModelLeaderboard as Leaderboard, ModelScore } from '@/types';
+
+type Metric = 'hit_rate' | 'mae';
+
+const MODEL_CONFIG: Record<EnsembleModel, { label: string; color: string; text: string }> = {
+  ensemble: { label: 'Ensemble', color: '#facc15', text: 'text-yellow-400' },
+  lstm: { label: 'LSTM', color: '#60a5fa', text: 'text-blue-400' },
+  gb: { label: 'Gradient Boosting', color: '#c084fc', text: 'text-purple-400' },
+  rf: { label: 'Random Forest', color: '#4ade80', text: 'text-green-400' }
+};
+
+const MODELS: EnsembleModel[] = ['ensemble', 'lstm', 'gb', 'rf'];
+
+const METRIC_LABELS: Record<Metric, string> = {
+  hit_rate: 'Hit Rate',
+  mae: 'MAE'
+};
+
+const formatMetric = (metric: Metric, value: number | null | undefined): string => {
+  if (value === null || value === undefined) return '—';
+  return metric === 'hit_rate' ? `${value.toFixed(1)}%` : `$${value.toFixed(2)}`;
+};
+
+// Higher hit rate wins; lower error wins
+const findLeader = (scores: ModelScore[], metric: Metric): EnsembleModel | null => {
+  const candidates = scores.filter(score => score[metric] !== null);
+  if (candidates.length === 0) return null;
+  return candidates.reduce((best, score) => {
+    const better = metric === 'hit_rate'
+      ? (score[metric] as number) > (best[metric] as number)
+      : (score[metric] as number) < (best[metric] as number);
+    return better ? score : best;
+  }).model;
+};
+
+const scoreFor = (scores: ModelScore[], model: EnsembleModel) => scores.find(score => score.model === model);
+
+export function ModelLeaderboard({ periodQuery }: { periodQuery: string }) {
+  const [timeframe, setTimeframe] = useState<number | null>(null);
+  const [metric, setMetric] = useState<Metric>('hit_rate');
+  const [result, setResult] = useState<{
+    url: string | null;
+    data: Leaderboard | null;
+    error: string | null;
+  }>({ url: null, data: null, error: null });
+
+  const url = `/api/models/leaderboard?${periodQuery}${timeframe ? `&timeframe=${timeframe}` : ''}`;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const response = await fetch(url, { cache: 'no-store' });
+        const body = await response.json();
+        if (!response.ok || body.error) {
+          throw new Error(body.message || body.error || `HTTP error! status: ${response.status}`);
+        }
+        if (!cancelled) setResult({ url, data: body, error: null });
+      } catch (error) {
+        console.error('Error fetching model leaderboard:', error);
+        if (!cancelled) {
+          setResult(prev => ({
+            url,
+            data: prev.data,
+            error: error instanceof Error ? error.message : 'Failed to load leaderboard'
+          }));
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  const data = result.data;
+  const loading = result.url !== url;
+
+  const chartData = useMemo(
+    () => (data?.daily ?? []).map(day => ({
+      date: day.date.slice(5),
+      ...Object.fromEntries(MODELS.map(model => [model, scoreFor(day.scores, model)?.[metric] ?? null]))
+    })),
+    [data, metric]
+  );
+
+  // RF only calls direction, so it has no error to chart
+  const chartModels = metric === 'mae' ? MODELS.filter(model => model !== 'rf') : MODELS;
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 md:p-6 border border-gray-700">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 mb-3 md:mb-4">
+        <h2 className="text-lg md:text-xl font-semibold text-white flex items-center gap-2">
+          <Trophy className="w-4 h-4 md:w-5 md:h-5 text-yellow-500" />
+          Model Leaderboard
+          {data && <span className="text-xs md:text-sm text-gray-400 font-normal">({data.period.label})</span>}
+        </h2>
+        <div className="flex gap-2 w-full sm:w-auto">
+          <select
+            value={timeframe ?? ''}
+            onChange={(e) => setTimeframe(e.target.value ? Number(e.target.value) : null)}
+            className="flex-1 sm:flex-none bg-gray-700 text-white text-xs md:text-sm rounded px-2 py-1 border border-gray-600"
+          >
+            <option value="">All timeframes</option>
+            {data?.byTimeframe.map(row => (
+              <option key={row.timeframe_minutes} value={row.timeframe_minutes}>
+                {getTimeframeLabel(row.timeframe_minutes)}
+              </option>
+            ))}
+          </select>
+          {(Object.keys(METRIC_LABELS) as Metric[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setMetric(key)}
+              className={`flex-1 sm:flex-none px-2 md:px-3 py-1 rounded text-xs md:text-sm transition-colors ${
+                metric === key ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {METRIC_LABELS[key]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!data ? (
+        <div className="h-[200px] flex items-center justify-center text-xs md:text-sm text-center">
+          {result.error
+            ? <span className="text-red-400">{result.error}</span>
+            : <span className="text-gray-400">Loading leaderboard...</span>}
+        </div>
+      ) : (
+        <div className={`space-y-4 md:space-y-6 ${loading ? 'opacity-50' : ''}`}>
+          {/* Overall ranking */}
+          <div className="overflow-x-auto -mx-4 md:mx-0">
+            <table className="w-full min-w-[480px]">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="text-left py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">#</th>
+                  <th className="text-left py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">Model</th>
+                  <th className="text-right py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">Samples</th>
+                  <th className="text-right py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">Hit Rate</th>
+                  <th className="text-right py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">MAE</th>
+                  <th className="text-right py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">RMSE</th>
+                </tr>
+              </thead>
+              <tbody className="text-xs md:text-sm">
+                {data.overall.map((score, index) => (
+                  <tr key={score.model} className="border-b border-gray-700/50">
+                    <td className="py-2 px-4 text-gray-400">{score.samples > 0 ? index + 1 : '—'}</td>
+                    <td className={`py-2 px-4 font-medium ${MODEL_CONFIG[score.model].text}`}>
+                      {MODEL_CONFIG[score.model].label}
+                    </td>
+                    <td className="py-2 px-4 text-right text-gray-300">{score.samples.toLocaleString()}</td>
+                    <td className="py-2 px-4 text-right text-white font-semibold">{formatMetric('hit_rate', score.hit_rate)}</td>
+                    <td className="py-2 px-4 text-right text-gray-300 font-mono">{formatMetric('mae', score.mae)}</td>
+                    <td className="py-2 px-4 text-right text-gray-300 font-mono">{formatMetric('mae', score.rmse)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Over time */}
+          {chartData.length > 1 && (
+            <div>
+              <h3 className="text-sm md:text-base font-semibold text-white mb-2">Daily {METRIC_LABELS[metric]}</h3>
+              <ResponsiveContainer width="100%" height={250}>
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis dataKey="date" stroke="#9ca3af" tick={{ fontSize: 10 }} />
+                  <YAxis
+                    stroke="#9ca3af"
+                    tick={{ fontSize: 10 }}
+                    width={50}
+                    domain={metric === 'hit_rate' ? [0, 100] : ['auto', 'auto']}
+                    tickFormatter={(value: number) => (metric === 'hit_rate' ? `${value}%` : `$${value.toFixed(0)}`)}
+                  />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', borderRadius: '8px' }}
+                    formatter={(value, name) => [
+                      formatMetric(metric, value as number | null),
+                      MODEL_CONFIG[name as EnsembleModel]?.label ?? name
+                    ]}
+                  />
+                  <Legend formatter={(value) => MODEL_CONFIG[value as EnsembleModel]?.label ?? value} />
+                  {chartModels.map(model => (
+                    <Line
+                      key={model}
+                      type="monotone"
+                      dataKey={model}
+                      stroke={MODEL_CONFIG[model].color}
+                      strokeWidth={model === 'ensemble' ? 2.5 : 1.5}
+                      dot={false}
+                      connectNulls
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          {/* Per timeframe */}
+          {data.byTimeframe.length > 0 && (
+            <div>
+              <h3 className="text-sm md:text-base font-semibold text-white mb-2">{METRIC_LABELS[metric]} by Timeframe</h3>
+              <div className="overflow-x-auto -mx-4 md:mx-0">
+                <table className="w-full min-w-[480px]">
+                  <thead>
+                    <tr className="border-b border-gray-700">
+                      <th className="text-left py-2 px-4 text-gray-400 font-medium text-xs md:text-sm">TF</th>
+                      {chartModels.map(model => (
+                        <th key={model} className={`text-right py-2 px-4 font-medium text-xs md:text-sm ${MODEL_CONFIG[model].text}`}>
+                          {MODEL_CONFIG[model].label}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="text-xs md:text-sm">
+                    {data.byTimeframe.map(row => {
+                      const leader = findLeader(row.scores, metric);
+                      return (
+                        <tr key={row.timeframe_minutes} className="border-b border-gray-700/50">
+                          <td className="py-2 px-4 text-white font-medium">{getTimeframeLabel(row.timeframe_minutes)}</td>
+                          {chartModels.map(model => (
+                            <td
+                              key={model}
+                              className={`py-2 px-4 text-right font-mono ${
+                                model === leader ? 'text-white font-bold' : 'text-gray-400'
+                              }`}
+                            >
+                              {formatMetric(metric, scoreFor(row.scores, model)?.[metric])}
+                            </td>
+                          ))}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+// components/ModelPerformanceHistory.tsx - Training metrics over time with retrain and regression markers
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceDot,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { AlertTriangle, LineChart as LineChartIcon } from 'lucide-react';
+import type { ModelMetricKey, ModelPerformanceHistory as History } from '@/types';
+import { ExportButtons } from './ExportButtons';
+
+const METRIC_CONFIG: Record<ModelMetricKey, { label: string; color: string }> = {
+  lstm_mae: { label: 'LSTM MAE', color: '#60a5fa' },
+  lstm_rmse: { label: 'LSTM RMSE', color: '#1d4ed8' },
+  gb_mae: { label: 'GB MAE', color: '#c084fc' },
+  gb_rmse: { label: 'GB RMSE', color: '#7e22ce' },
+  rf_accuracy: { label: 'RF Accuracy', color: '#4ade80' }
+};
+
+const CHARTS: { title: string; metrics: ModelMetricKey[]; format: (value: number) => string }[] = [
+  { title: 'MAE', metrics: ['lstm_mae', 'gb_mae'], format: value => `$${value.toFixed(2)}` },
+  { title: 'RMSE', metrics: ['lstm_rmse', 'gb_rmse'], format: value => `$${value.toFixed(2)}` },
+  { title: 'RF Accuracy', metrics: ['rf_accuracy'], format: value => `${(value * 100).toFixed(1)}%` }
+];
+
+const THRESHOLD_OPTIONS = [5, 10, 20, 30];
+
+const formatAxisDate = (time: number) =>
+  new Date(time).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const formatTooltipDate = (time: number) =>
+  new Date(time).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export function ModelPerformanceHistory({ periodQuery }: { periodQuery: string }) {
+  // null until the user picks one, so the server's configured default applies
+  const [threshold, setThreshold] = useState<number | null>(null);
+  const [result, setResult] = useState<{
+    url: string | null;
+    data: History | null;
+    error: string | null;
+  }>({ url: null, data: null, error: null });
+
+  const url = `/api/models/performance?${periodQuery}${threshold !== null ? `&threshold=${threshold}` : ''}`;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const response = await fetch(url, { cache: 'no-store' });
+        const body = await response.json();
+        if (!response.ok || body.error) {
+          throw new Error(body.message || body.error || `HTTP error! status: ${response.status}`);
+        }
+        if (!cancelled) setResult({ url, data: body, error: null });
+      } catch (error) {
+        console.error('Error fetching model performance history:', error);
+        if (!cancelled) {
+          setResult(prev => ({
+            url,
+            data: prev.data,
+            error: error instanceof Error ? error.message : 'Failed to load model performance'
+          }));
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  const data = result.data;
+  const loading = result.url !== url;
+  const selectedThreshold = threshold ?? data?.threshold_pct ?? THRESHOLD_OPTIONS[1];
+  const thresholdOptions = THRESHOLD_OPTIONS.includes(selectedThreshold)
+    ? THRESHOLD_OPTIONS
+    : [...THRESHOLD_OPTIONS, selectedThreshold].sort((a, b) => a - b);
+
+  const chartData = useMemo(
+    () => (data?.points ?? []).map(point => ({ time: new Date(point.timestamp).getTime(), ...point.metrics })),
+    [data]
+  );
+  const retrains = useMemo(
+    () => (data?.points ?? []).filter(point => point.retrained).map(point => new Date(point.timestamp).getTime()),
+    [data]
+  );
+  const regressions = useMemo(
+    () => (data?.points ?? []).flatMap(point => point.regressions.map(regression => ({
+      ...regression,
+      time: new Date(point.timestamp).getTime(),
+      timestamp: point.timestamp
+    }))),
+    [data]
+  );
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 md:p-6 border border-gray-700">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 mb-3 md:mb-4">
+        <h2 className="text-lg md:text-xl font-semibold text-white flex items-center gap-2">
+          <LineChartIcon className="w-4 h-4 md:w-5 md:h-5 text-blue-500" />
+          Model Performance History
+          {data && <span className="text-xs md:text-sm text-gray-400 font-normal">({data.period.label})</span>}
+        </h2>
+        <div className="flex items-center gap-3">
+          <ExportButtons dataset="model-performance" query={periodQuery} />
+          <div className="flex items-center gap-2 text-xs md:text-sm text-gray-400">
+            Regression threshold
+            <select
+              value={selectedThreshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              className="bg-gray-700 text-white rounded px-2 py-1 border border-gray-600"
+            >
+              {thresholdOptions.map(option => (
+                <option key={option} value={option}>{option}%</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {!data ? (
+        <div className="h-[200px] flex items-center justify-center text-xs md:text-sm text-center">
+          {result.error
+            ? <span className="text-red-400">{result.error}</span>
+            : <span className="text-gray-400">Loading model performance...</span>}
+        </div>
+      ) : data.points.length === 0 ? (
+        <div className="h-[200px] flex items-center justify-center text-gray-400 text-xs md:text-sm">
+          No model performance snapshots in this period
+        </div>
+      ) : (
+        <div className={`space-y-4 md:space-y-6 ${loading ? 'opacity-50' : ''}`}>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            {CHARTS.map(chart => (
+              <div key={chart.title} className="bg-gray-900/50 rounded-lg p-3 border border-gray-700">
+                <h3 className="text-sm font-semibold text-white mb-2">{chart.title}</h3>
+                <ResponsiveContainer width="100%" height={200}>
+                  <LineChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    <XAxis
+                      dataKey="time"
+                      type="number"
+                      scale="time"
+                      domain={['dataMin', 'dataMax']}
+                      tickFormatter={formatAxisDate}
+                      stroke="#9ca3af"
+                      tick={{ fontSize: 10 }}
+                    />
+                    <YAxis
+                      stroke="#9ca3af"
+                      tick={{ fontSize: 10 }}
+                      width={55}
+                      domain={['auto', 'auto']}
+                      tickFormatter={chart.format}
+                    />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', borderRadius: '8px' }}
+                      labelFormatter={(time) => formatTooltipDate(Number(time))}
+                      formatter={(value, name) => [
+                        chart.format(Number(value)),
+                        METRIC_CONFIG[name as ModelMetricKey]?.label ?? name
+                      ]}
+                    />
+                    <Legend formatter={(value) => METRIC_CONFIG[value as ModelMetricKey]?.label ?? value} />
+                    {retrains.map(time => (
+                      <ReferenceLine key={time} x={time} stroke="#4b5563" strokeDasharray="2 4" />
+                    ))}
+                    {chart.metrics.map(metric => (
+                      <Line
+                        key={metric}
+                        type="stepAfter"
+                        dataKey={metric}
+                        stroke={METRIC_CONFIG[metric].color}
+                        strokeWidth={2}
+                        dot={false}
+                        connectNulls
+                        isAnimationActive={false}
+                      />
+                    ))}
+                    {regressions
+                      .filter(regression => chart.metrics.includes(regression.metric))
+                      .map(regression => (
+                        <ReferenceDot
+                          key={`${regression.time}-${regression.metric}`}
+                          x={regression.time}
+                          y={regression.value}
+                          r={4}
+                          fill="#ef4444"
+                          stroke="#fff"
+                        />
+                      ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 md:gap-4 text-xs md:text-sm">
+            <div className="flex items-center gap-1 md:gap-2">
+              <div className="w-3 h-0.5 border-t border-dashed border-gray-500"></div>
+              <span className="text-gray-400">Retraining ({retrains.length})</span>
+            </div>
+            <div className="flex items-center gap-1 md:gap-2">
+              <div className="w-2 h-2 md:w-3 md:h-3 bg-red-500 rounded-full"></div>
+              <span className="text-gray-400">
+                Worse than the trailing {data.window}-run average by more than {data.threshold_pct}%
+              </span>
+            </div>
+            {data.truncated && (
+              <span className="text-gray-500 text-xs sm:ml-auto">Showing the most recent {data.points.length} snapshots</span>
+            )}
+          </div>
+
+          {regressions.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-red-400 flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4" />
+                Regressions
+              </h3>
+              {regressions.slice().reverse().map(regression => {
+                const format = CHARTS.find(chart => chart.metrics.includes(regression.metric))?.format ?? String;
+                return (
+                  <div
+                    key={`${regression.time}-${regression.metric}`}
+                    className="flex flex-wrap items-center justify-between gap-2 bg-red-900/20 border border-red-700/50 rounded-lg px-3 py-2 text-xs md:text-sm"
+                  >
+                    <span className="text-white font-medium">{METRIC_CONFIG[regression.metric].label}</span>
+                    <span className="text-gray-300 font-mono">
+                      {format(regression.value)} vs avg {format(regression.trailing_average)}
+                      <span className="text-red-400"> ({regression.change_pct > 0 ? '+' : ''}{regression.change_pct.toFixed(1)}%)</span>
+                    </span>
+                    <span className="text-gray-500">{formatTooltipDate(regression.time)}</span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
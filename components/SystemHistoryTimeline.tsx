@@ -0,0 +1,228 @@
+// components/SystemHistoryTimeline.tsx - Daily uptime bars, incidents and resource sparklines
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Line, LineChart, ResponsiveContainer, Tooltip, YAxis } from 'recharts';
+import { AlertCircle, Cpu, HardDrive, WifiOff } from 'lucide-react';
+import type { SystemHistory } from '@/types';
+
+const PERIOD_OPTIONS = [
+  { value: '1d', label: '24h' },
+  { value: '7d', label: '7d' },
+  { value: '30d', label: '30d' },
+  { value: '90d', label: '90d' }
+];
+
+const getUptimeColor = (uptime: number | null): string => {
+  if (uptime === null) return 'bg-gray-700';
+  if (uptime >= 99.5) return 'bg-green-500';
+  if (uptime >= 95) return 'bg-yellow-500';
+  return 'bg-red-500';
+};
+
+const formatDuration = (minutes: number): string => {
+  if (minutes < 1) return '<1m';
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+};
+
+const formatTime = (timestamp: string): string =>
+  new Date(timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+function Sparkline({
+  data,
+  dataKey,
+  color,
+  format
+}: {
+  data: { time: number; cpu_percent?: number; memory_mb?: number }[];
+  dataKey: 'cpu_percent' | 'memory_mb';
+  color: string;
+  format: (value: number) => string;
+}) {
+  return (
+    <ResponsiveContainer width="100%" height={50}>
+      <LineChart data={data}>
+        <YAxis hide domain={['auto', 'auto']} />
+        <Tooltip
+          contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', borderRadius: '8px', fontSize: 12 }}
+          labelFormatter={(_, payload) => {
+            const time = payload?.[0]?.payload?.time;
+            return time ? formatTime(new Date(time).toISOString()) : '';
+          }}
+          formatter={(value) => [format(Number(value)), '']}
+          separator=""
+        />
+        <Line type="monotone" dataKey={dataKey} stroke={color} strokeWidth={1.5} dot={false} connectNulls isAnimationActive={false} />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
+
+export function SystemHistoryTimeline() {
+  const [period, setPeriod] = useState('7d');
+  const [result, setResult] = useState<{
+    url: string | null;
+    data: SystemHistory | null;
+    error: string | null;
+  }>({ url: null, data: null, error: null });
+
+  const url = `/api/system/history?period=${period}`;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const response = await fetch(url, { cache: 'no-store' });
+        const body = await response.json();
+        if (!response.ok || body.error) {
+          throw new Error(body.message || body.error || `HTTP error! status: ${response.status}`);
+        }
+        if (!cancelled) setResult({ url, data: body, error: null });
+      } catch (error) {
+        console.error('Error fetching system history:', error);
+        if (!cancelled) {
+          setResult(prev => ({
+            url,
+            data: prev.data,
+            error: error instanceof Error ? error.message : 'Failed to load system history'
+          }));
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  const data = result.data;
+  const loading = result.url !== url;
+
+  const samples = useMemo(
+    () => (data?.samples ?? []).map(sample => ({ ...sample, time: new Date(sample.timestamp).getTime() })),
+    [data]
+  );
+  const latest = data?.samples[data.samples.length - 1];
+  const downtime = (data?.days ?? []).reduce((sum, day) => sum + day.down_minutes, 0);
+
+  return (
+    <div className="bg-gray-900/50 rounded-lg p-3 md:p-4 border border-gray-700 space-y-3 md:space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm md:text-base font-semibold text-white">Uptime &amp; Incidents</h3>
+        <div className="flex gap-1">
+          {PERIOD_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setPeriod(option.value)}
+              className={`px-2 py-0.5 rounded text-xs transition-colors ${
+                period === option.value ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!data ? (
+        <div className="h-[120px] flex items-center justify-center text-xs md:text-sm text-center">
+          {result.error
+            ? <span className="text-red-400">{result.error}</span>
+            : <span className="text-gray-400">Loading history...</span>}
+        </div>
+      ) : data.days.length === 0 ? (
+        <div className="h-[120px] flex items-center justify-center text-gray-400 text-xs md:text-sm text-center">
+          No heartbeat history recorded yet
+        </div>
+      ) : (
+        <div className={`space-y-3 md:space-y-4 ${loading ? 'opacity-50' : ''}`}>
+          <div className="grid grid-cols-3 gap-2 md:gap-3">
+            <div>
+              <div className="text-xs text-gray-400">Uptime</div>
+              <div className="text-base md:text-lg font-bold text-white">
+                {data.uptime_pct !== null ? `${data.uptime_pct.toFixed(2)}%` : '—'}
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-400">Incidents</div>
+              <div className="text-base md:text-lg font-bold text-white">{data.incidents.length}</div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-400">Downtime</div>
+              <div className="text-base md:text-lg font-bold text-white">{formatDuration(downtime)}</div>
+            </div>
+          </div>
+
+          {/* One bar per WIB day */}
+          <div>
+            <div className="flex gap-0.5 h-8 items-stretch">
+              {data.days.map(day => (
+                <div
+                  key={day.date}
+                  className={`flex-1 rounded-sm ${getUptimeColor(day.uptime_pct)}`}
+                  title={`${day.date}: ${day.uptime_pct !== null ? `${day.uptime_pct.toFixed(2)}% up` : 'no data'}${
+                    day.down_minutes > 0 ? `, ${formatDuration(day.down_minutes)} down` : ''
+                  }`}
+                />
+              ))}
+            </div>
+            <div className="flex justify-between text-[10px] md:text-xs text-gray-500 mt-1">
+              <span>{data.days[0].date}</span>
+              <span>{data.days[data.days.length - 1].date}</span>
+            </div>
+          </div>
+
+          {samples.length > 1 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <div className="flex items-center justify-between text-xs text-gray-400">
+                  <span className="flex items-center gap-1"><Cpu className="w-3 h-3" />CPU</span>
+                  {latest?.cpu_percent !== undefined && <span className="text-white">{latest.cpu_percent.toFixed(1)}%</span>}
+                </div>
+                <Sparkline data={samples} dataKey="cpu_percent" color="#60a5fa" format={value => `${value.toFixed(1)}%`} />
+              </div>
+              <div>
+                <div className="flex items-center justify-between text-xs text-gray-400">
+                  <span className="flex items-center gap-1"><HardDrive className="w-3 h-3" />Memory</span>
+                  {latest?.memory_mb !== undefined && <span className="text-white">{latest.memory_mb.toFixed(0)} MB</span>}
+                </div>
+                <Sparkline data={samples} dataKey="memory_mb" color="#c084fc" format={value => `${value.toFixed(0)} MB`} />
+              </div>
+            </div>
+          )}
+
+          {data.incidents.length > 0 && (
+            <div className="space-y-1.5 max-h-48 overflow-y-auto">
+              {data.incidents.map(incident => (
+                <div
+                  key={incident.start}
+                  className="flex flex-wrap items-center justify-between gap-2 bg-red-900/20 border border-red-700/50 rounded px-2 py-1.5 text-xs"
+                >
+                  <span className="flex items-center gap-1.5 text-red-400 font-medium">
+                    {incident.kind === 'error' ? <AlertCircle className="w-3 h-3" /> : <WifiOff className="w-3 h-3" />}
+                    {incident.kind === 'error' ? 'Error' : 'Offline'}
+                    {incident.end === null && <span className="text-red-300">(ongoing)</span>}
+                  </span>
+                  <span className="text-gray-300">
+                    {formatTime(incident.start)} – {incident.end ? formatTime(incident.end) : 'now'}
+                  </span>
+                  <span className="text-gray-400">{formatDuration(incident.duration_minutes)}</span>
+                  {incident.message && <span className="w-full text-gray-500 truncate">{incident.message}</span>}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {data.truncated && (
+            <p className="text-xs text-gray-500">Showing the most recent part of this period only.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+// components/UserMenu.tsx - Who is signed in, with their role and a sign-out button
+'use client';
+
+import Link from 'next/link';
+import { Key, LogOut, Users } from 'lucide-react';
+import { signOut } from '@/hooks/useSession';
+import { hasRole, ROLE_LABELS } from '@/lib/auth/roles';
+import type { SessionUser } from '@/types';
+
+export function UserMenu({ user }: { user: SessionUser }) {
+  if (user.provider === 'local') {
+    return (
+      <span className="text-xs text-yellow-500" title="AUTH_DISABLED=true: everyone is an admin">
+        Auth disabled
+      </span>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-gray-400">
+      <span className="hidden sm:inline truncate max-w-[160px]" title={user.email ?? user.id}>
+        {user.name ?? user.email ?? user.id}
+      </span>
+      <span className="px-1.5 py-0.5 rounded bg-gray-700 text-gray-300">{ROLE_LABELS[user.role]}</span>
+      {hasRole(user, 'admin') && (
+        <>
+          <Link href="/users" className="hover:text-blue-400 transition-colors" title="Users">
+            <Users className="w-4 h-4" />
+          </Link>
+          <Link href="/api-keys" className="hover:text-blue-400 transition-colors" title="API keys">
+            <Key className="w-4 h-4" />
+          </Link>
+        </>
+      )}
+      {user.provider !== 'api_key' && (
+        <button onClick={() => signOut()} className="hover:text-blue-400 transition-colors" title="Sign out">
+          <LogOut className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+}
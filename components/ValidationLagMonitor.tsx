@@ -0,0 +1,279 @@
+// components/ValidationLagMonitor.tsx - Overdue validations, lag per timeframe and backlog trend
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { Hourglass } from 'lucide-react';
+import { DEFAULT_ASSET, withAsset } from '@/lib/assets';
+import { getTimeframeLabel } from '@/types';
+import type { Asset, ValidationLagReport } from '@/types';
+
+const PERIOD_OPTIONS = [
+  { value: '1d', label: '24h' },
+  { value: '7d', label: '7d' },
+  { value: '30d', label: '30d' }
+];
+
+const BUCKET_COLORS = ['bg-green-500', 'bg-blue-500', 'bg-yellow-500', 'bg-orange-500', 'bg-red-500'];
+
+const formatDuration = (minutes: number): string => {
+  if (minutes < 1) return '<1m';
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  if (minutes < 1440) {
+    const hours = Math.floor(minutes / 60);
+    const rest = Math.round(minutes % 60);
+    return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+  }
+  return `${(minutes / 1440).toFixed(1)}d`;
+};
+
+const formatTime = (timestamp: string): string =>
+  new Date(timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// `refreshKey` changes whenever the dashboard refetches, so the backlog
+// follows validations as they land; `stallMinutes` is the health threshold
+export function ValidationLagMonitor({
+  refreshKey,
+  stallMinutes,
+  asset = DEFAULT_ASSET
+}: {
+  refreshKey: string;
+  stallMinutes: number;
+  asset?: Asset;
+}) {
+  const [period, setPeriod] = useState('1d');
+  const [result, setResult] = useState<{
+    url: string | null;
+    data: ValidationLagReport | null;
+    error: string | null;
+  }>({ url: null, data: null, error: null });
+
+  const url = withAsset(`/api/validation/lag?period=${period}`, asset);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const response = await fetch(url, { cache: 'no-store' });
+        const body = await response.json();
+        if (!response.ok || body.error) {
+          throw new Error(body.message || body.error || `HTTP error! status: ${response.status}`);
+        }
+        if (!cancelled) setResult({ url, data: body, error: null });
+      } catch (error) {
+        console.error('Error fetching validation lag:', error);
+        if (!cancelled) {
+          setResult(prev => ({
+            url,
+            data: prev.data,
+            error: error instanceof Error ? error.message : 'Failed to load validation lag'
+          }));
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [url, refreshKey]);
+
+  const data = result.data;
+  const loading = result.url !== url;
+
+  const trend = useMemo(
+    () => (data?.trend ?? []).map(point => ({ ...point, time: new Date(point.time).getTime() })),
+    [data]
+  );
+  const totalLagged = (data?.buckets ?? []).reduce((sum, bucket) => sum + bucket.count, 0);
+  const stalled = data?.oldest_overdue_minutes != null && data.oldest_overdue_minutes >= stallMinutes;
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 md:p-6 border border-gray-700">
+      <div className="flex items-center justify-between gap-2 mb-3 md:mb-4">
+        <h2 className="text-lg md:text-xl font-semibold text-white flex items-center gap-2">
+          <Hourglass className="w-4 h-4 md:w-5 md:h-5 text-orange-500" />
+          Validation Lag
+        </h2>
+        <div className="flex gap-1">
+          {PERIOD_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setPeriod(option.value)}
+              className={`px-2 py-0.5 rounded text-xs transition-colors ${
+                period === option.value ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!data ? (
+        <div className="h-[160px] flex items-center justify-center text-xs md:text-sm text-center">
+          {result.error
+            ? <span className="text-red-400">{result.error}</span>
+            : <span className="text-gray-400">Loading validation lag...</span>}
+        </div>
+      ) : (
+        <div className={`space-y-4 md:space-y-6 ${loading ? 'opacity-50' : ''}`}>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="bg-gray-900/50 rounded-lg p-3">
+              <div className="text-xs text-gray-400 mb-1">Overdue</div>
+              <div className={`text-base md:text-xl font-bold ${data.overdue > 0 ? 'text-yellow-400' : 'text-white'}`}>
+                {data.overdue.toLocaleString()}
+              </div>
+              <div className="text-[10px] md:text-xs text-gray-500">past target, not validated</div>
+            </div>
+            <div className="bg-gray-900/50 rounded-lg p-3">
+              <div className="text-xs text-gray-400 mb-1">Oldest Overdue</div>
+              <div className={`text-base md:text-xl font-bold ${stalled ? 'text-red-400' : 'text-white'}`}>
+                {data.oldest_overdue_minutes !== null ? formatDuration(data.oldest_overdue_minutes) : '—'}
+              </div>
+              <div className="text-[10px] md:text-xs text-gray-500">stalled after {formatDuration(stallMinutes)}</div>
+            </div>
+            <div className="bg-gray-900/50 rounded-lg p-3">
+              <div className="text-xs text-gray-400 mb-1">Validated</div>
+              <div className="text-base md:text-xl font-bold text-white">
+                {trend.reduce((sum, point) => sum + point.validated, 0).toLocaleString()}
+              </div>
+              <div className="text-[10px] md:text-xs text-gray-500">{data.period.label.toLowerCase()}</div>
+            </div>
+          </div>
+
+          {/* Lag of every prediction due in the period: validation delay, or age while overdue */}
+          {totalLagged > 0 && (
+            <div>
+              <div className="flex h-3 rounded-full overflow-hidden bg-gray-700">
+                {data.buckets.map((bucket, index) => bucket.count > 0 && (
+                  <div
+                    key={bucket.label}
+                    className={BUCKET_COLORS[index]}
+                    style={{ width: `${(bucket.count / totalLagged) * 100}%` }}
+                    title={`${bucket.label}: ${bucket.count.toLocaleString()}`}
+                  />
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-3 mt-2 text-xs text-gray-400">
+                {data.buckets.map((bucket, index) => (
+                  <span key={bucket.label} className="flex items-center gap-1">
+                    <span className={`w-2 h-2 rounded-full ${BUCKET_COLORS[index]}`} />
+                    {bucket.label} ({bucket.count.toLocaleString()})
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {trend.length > 1 && (
+            <ResponsiveContainer width="100%" height={200}>
+              <ComposedChart data={trend}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={(value: number) => formatTime(new Date(value).toISOString())}
+                  stroke="#9ca3af"
+                  tick={{ fontSize: 10 }}
+                />
+                <YAxis yAxisId="overdue" allowDecimals={false} stroke="#9ca3af" tick={{ fontSize: 10 }} width={35} />
+                <YAxis
+                  yAxisId="delay"
+                  orientation="right"
+                  tickFormatter={(value: number) => formatDuration(value)}
+                  stroke="#4b5563"
+                  tick={{ fontSize: 10 }}
+                  width={45}
+                />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', borderRadius: '8px' }}
+                  labelFormatter={(value) => formatTime(new Date(Number(value)).toISOString())}
+                  formatter={(value, name) => {
+                    if (name === 'overdue') return [Number(value).toLocaleString(), 'Overdue'];
+                    return [value === null ? '—' : formatDuration(Number(value)), 'Avg delay'];
+                  }}
+                />
+                <Line yAxisId="overdue" type="stepAfter" dataKey="overdue" stroke="#f97316" strokeWidth={2} dot={false} isAnimationActive={false} />
+                <Line
+                  yAxisId="delay"
+                  type="monotone"
+                  dataKey="avg_delay_minutes"
+                  stroke="#60a5fa"
+                  strokeWidth={1.5}
+                  dot={false}
+                  connectNulls
+                  isAnimationActive={false}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          )}
+
+          {data.timeframes.length > 0 && (
+            <div className="overflow-x-auto -mx-4 md:mx-0">
+              <table className="w-full text-xs md:text-sm min-w-[480px]">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-gray-700">
+                    <th className="py-2 px-2">Timeframe</th>
+                    <th className="py-2 px-2 text-right">Overdue</th>
+                    <th className="py-2 px-2 text-right">Oldest</th>
+                    <th className="py-2 px-2 text-right">Median Lag</th>
+                    <th className="py-2 px-2">Distribution</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.timeframes.map(row => {
+                    const total = row.buckets.reduce((sum, count) => sum + count, 0);
+                    return (
+                      <tr key={row.timeframe_minutes} className="border-b border-gray-700/50">
+                        <td className="py-2 px-2 text-white font-medium">{getTimeframeLabel(row.timeframe_minutes)}</td>
+                        <td className={`py-2 px-2 text-right ${row.overdue > 0 ? 'text-yellow-400' : 'text-gray-300'}`}>
+                          {row.overdue}
+                        </td>
+                        <td className="py-2 px-2 text-right text-gray-300">
+                          {row.oldest_overdue_minutes !== null ? formatDuration(row.oldest_overdue_minutes) : '—'}
+                        </td>
+                        <td className="py-2 px-2 text-right text-gray-300">
+                          {row.median_lag_minutes !== null ? formatDuration(row.median_lag_minutes) : '—'}
+                        </td>
+                        <td className="py-2 px-2">
+                          <div className="flex h-2 w-32 rounded-full overflow-hidden bg-gray-700">
+                            {row.buckets.map((count, index) => count > 0 && (
+                              <div
+                                key={index}
+                                className={BUCKET_COLORS[index]}
+                                style={{ width: `${(count / total) * 100}%` }}
+                                title={`${data.buckets[index].label}: ${count}`}
+                              />
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {data.oldest_overdue_target && (
+            <p className="text-xs text-gray-500">Oldest overdue prediction targeted {formatTime(data.oldest_overdue_target)}.</p>
+          )}
+          {data.truncated && (
+            <p className="text-xs text-gray-500">Based on the most recent predictions only.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
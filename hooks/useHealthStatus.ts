@@ -0,0 +1,25 @@
+// hooks/useHealthStatus.ts - Re-derive predictor health as time passes
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DEFAULT_STATUS_THRESHOLDS, deriveStatus, statusSignals } from '@/lib/status';
+import type { DashboardData, HealthStatus } from '@/types';
+
+const TICK_MS = 10000;
+
+// Same inputs and thresholds as the server, so a heartbeat that goes quiet
+// turns delayed, then offline, without waiting for the next fetch
+export function useHealthStatus(
+  data: Pick<DashboardData, 'systemStatus' | 'recentPredictions' | 'pendingPredictions' | 'validationLag'> & {
+    statusThresholds?: DashboardData['statusThresholds'];
+  }
+): HealthStatus {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  return deriveStatus(statusSignals(data, now), data.statusThresholds ?? DEFAULT_STATUS_THRESHOLDS, now);
+}
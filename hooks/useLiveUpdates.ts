@@ -0,0 +1,81 @@
+// hooks/useLiveUpdates.ts - Subscribe to /api/stream with backoff and polling fallback
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { DEFAULT_ASSET, withAsset } from '@/lib/assets';
+import type { Asset, LiveConnectionState, LiveEvent } from '@/types';
+
+const LIVE_EVENT_TYPES: LiveEvent['type'][] = ['prediction', 'validation', 'heartbeat', 'price'];
+const BASE_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+// After this many failed attempts in a row the caller should poll instead;
+// the stream is still retried at MAX_RETRY_MS in the background.
+const MAX_ATTEMPTS_BEFORE_POLLING = 4;
+
+export function useLiveUpdates(
+  enabled: boolean,
+  onEvent: (event: LiveEvent) => void,
+  asset: Asset = DEFAULT_ASSET
+): LiveConnectionState {
+  const [state, setState] = useState<LiveConnectionState>('connecting');
+  const onEventRef = useRef(onEvent);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === 'undefined') return;
+
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempts = 0;
+    let disposed = false;
+
+    const connect = () => {
+      if (disposed) return;
+      source = new EventSource(withAsset('/api/stream', asset));
+
+      source.onopen = () => {
+        attempts = 0;
+        setState('live');
+      };
+
+      LIVE_EVENT_TYPES.forEach(type => {
+        source?.addEventListener(type, (message) => {
+          try {
+            onEventRef.current(JSON.parse((message as MessageEvent<string>).data) as LiveEvent);
+          } catch (error) {
+            console.error('Error handling live event:', error);
+          }
+        });
+      });
+
+      // EventSource retries on its own, but without backoff and forever;
+      // take over so a dead endpoint degrades to polling.
+      source.onerror = () => {
+        source?.close();
+        source = null;
+        attempts += 1;
+
+        setState(attempts >= MAX_ATTEMPTS_BEFORE_POLLING ? 'polling' : 'reconnecting');
+
+        const backoff = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** (attempts - 1));
+        const jitter = Math.random() * backoff * 0.2;
+        retryTimer = setTimeout(connect, backoff + jitter);
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      source?.close();
+    };
+  }, [enabled, asset]);
+
+  if (!enabled) return 'off';
+  if (typeof EventSource === 'undefined') return 'polling';
+  return state;
+}
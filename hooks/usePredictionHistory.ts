@@ -0,0 +1,137 @@
+// hooks/usePredictionHistory.ts - Client-side loader for /api/predictions/history
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { Prediction, PredictionHistoryFilters, PredictionHistoryPage } from '@/types';
+
+interface HistoryOptions {
+  // Relative window ending now, resolved when the request is made
+  lookbackMs?: number;
+  pageSize?: number;
+  // Pages fetched up front; further pages come from loadMore()
+  initialPages?: number;
+}
+
+interface HistoryState {
+  key: string;
+  predictions: Prediction[];
+  nextCursor: string | null;
+  error: string | null;
+}
+
+// Also the query for /api/export/predictions, which takes the same filters
+export function buildHistoryParams(filters: PredictionHistoryFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([name, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      params.set(name, String(value));
+    }
+  });
+  return params;
+}
+
+export function buildHistoryUrl(
+  filters: PredictionHistoryFilters,
+  cursor: string | null,
+  limit: number
+): string {
+  const params = buildHistoryParams(filters);
+  if (cursor) params.set('cursor', cursor);
+  params.set('limit', String(limit));
+  return `/api/predictions/history?${params.toString()}`;
+}
+
+async function fetchHistoryPage(
+  filters: PredictionHistoryFilters,
+  cursor: string | null,
+  limit: number
+): Promise<PredictionHistoryPage> {
+  const response = await fetch(buildHistoryUrl(filters, cursor, limit), { cache: 'no-store' });
+  const result = await response.json();
+  if (!response.ok || result.error) {
+    throw new Error(result.message || result.error || `HTTP error! status: ${response.status}`);
+  }
+  return result;
+}
+
+export function usePredictionHistory(
+  filters: PredictionHistoryFilters,
+  { lookbackMs, pageSize = 200, initialPages = 1 }: HistoryOptions = {}
+) {
+  const key = JSON.stringify({ filters, lookbackMs, pageSize, initialPages });
+  const [state, setState] = useState<HistoryState>({
+    key: '',
+    predictions: [],
+    nextCursor: null,
+    error: null
+  });
+  const [resolvedFilters, setResolvedFilters] = useState<PredictionHistoryFilters>(filters);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const request: PredictionHistoryFilters = { ...JSON.parse(key).filters };
+    if (lookbackMs !== undefined) {
+      request.from = new Date(Date.now() - lookbackMs).toISOString();
+    }
+
+    const load = async () => {
+      const predictions: Prediction[] = [];
+      let cursor: string | null = null;
+      for (let page = 0; page < initialPages; page++) {
+        const result = await fetchHistoryPage(request, cursor, pageSize);
+        predictions.push(...result.predictions);
+        cursor = result.nextCursor;
+        if (!cursor) break;
+      }
+      return { predictions, nextCursor: cursor };
+    };
+
+    load()
+      .then(result => {
+        if (cancelled) return;
+        setResolvedFilters(request);
+        setState({ key, ...result, error: null });
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Error fetching prediction history:', error);
+        setState({
+          key,
+          predictions: [],
+          nextCursor: null,
+          error: error instanceof Error ? error.message : 'Failed to fetch history'
+        });
+      });
+
+    return () => { cancelled = true; };
+  }, [key, lookbackMs, pageSize, initialPages]);
+
+  const loadMore = useCallback(async () => {
+    if (!state.nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const result = await fetchHistoryPage(resolvedFilters, state.nextCursor, pageSize);
+      setState(prev => prev.key !== state.key ? prev : {
+        ...prev,
+        predictions: [...prev.predictions, ...result.predictions],
+        nextCursor: result.nextCursor
+      });
+    } catch (error) {
+      console.error('Error fetching prediction history:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [state.nextCursor, state.key, loadingMore, resolvedFilters, pageSize]);
+
+  return {
+    predictions: state.predictions,
+    loading: state.key !== key,
+    loadingMore,
+    error: state.error,
+    // As sent, with the lookback resolved to a `from` date
+    filters: resolvedFilters,
+    hasMore: state.nextCursor !== null,
+    loadMore
+  };
+}
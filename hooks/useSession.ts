@@ -0,0 +1,55 @@
+// hooks/useSession.ts - The signed-in user, fetched once per page load
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { AuthSessionInfo } from '@/types';
+
+const SIGNED_OUT: AuthSessionInfo = { user: null, providers: { credentials: false, oidc: false } };
+
+// Shared by every component on the page, so the dashboard's many export
+// buttons cost one request between them
+let sessionRequest: Promise<AuthSessionInfo> | null = null;
+
+function loadSession(): Promise<AuthSessionInfo> {
+  sessionRequest ??= fetch('/api/auth/session', { cache: 'no-store' })
+    .then(async response => {
+      if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+      return (await response.json()) as AuthSessionInfo;
+    })
+    .catch(error => {
+      console.error('Error fetching session:', error);
+      sessionRequest = null;
+      return SIGNED_OUT;
+    });
+  return sessionRequest;
+}
+
+// Null until the session has loaded
+export function useSession(): AuthSessionInfo | null {
+  const [session, setSession] = useState<AuthSessionInfo | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSession().then(result => {
+      if (!cancelled) setSession(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return session;
+}
+
+// For when a request comes back 401: the session expired or was revoked
+export function redirectToLogin(): void {
+  sessionRequest = null;
+  const next = `${window.location.pathname}${window.location.search}`;
+  window.location.assign(`/login?next=${encodeURIComponent(next)}`);
+}
+
+export async function signOut(): Promise<void> {
+  await fetch('/api/auth/logout', { method: 'POST' });
+  sessionRequest = null;
+  window.location.assign('/login');
+}
@@ -0,0 +1,469 @@
+// lib/aggregates.ts - Incremental daily/per-timeframe prediction aggregates
+//
+// One document per (WIB day of prediction_time, timeframe) in
+// `prediction_aggregates` holds running wins/losses/error sums. A watermark
+// in `sync_state/aggregates` records the last validated prediction folded in,
+// so each sync only reads predictions validated since then. What each
+// prediction added is kept in `aggregate_contributions` under its document
+// id, so a prediction validated again replaces its earlier counts instead
+// of adding to them. Assets other than BTC have their own collections and
+// watermark.
+import { DOCUMENT_ID } from '@/lib/datastore';
+import type { DataStore, StoreQueryDocumentSnapshot, StoreQuerySnapshot } from '@/lib/datastore';
+import { envNumber } from '@/lib/env';
+import { assetCollections, COLLECTIONS } from '@/lib/firebase';
+import { addWibDays, toWibDate, toWibIso, wibDayStart } from '@/lib/time';
+import { parseDocs } from '@/lib/validation';
+import { PredictionSchema } from '@/types/schemas';
+import { isBullishDirection } from '@/types';
+import type { Asset, Prediction, StatsPeriod } from '@/types';
+
+// Each synced prediction writes its contribution too, so a batch stays
+// under Firestore's 500 writes per transaction
+const SYNC_BATCH_SIZE = 200;
+const DEFAULT_SYNC_INTERVAL_SECONDS = 30;
+const MAX_SYNC_BATCHES = 50;
+const OPEN_END_SLACK_MS = 60 * 1000;
+
+// Every aggregate field is a plain running sum, so docs can be merged by
+// adding them together across syncs, days and timeframes.
+// Per-model fields score each ensemble member against actual_price: a hit
+// is a correct up/down call relative to current_price.
+const COUNT_FIELDS = [
+  'total',
+  'wins',
+  'losses',
+  'error_sum',
+  'error_pct_sum',
+  'sq_error_sum',
+  'lstm_count',
+  'lstm_hits',
+  'lstm_abs_error_sum',
+  'lstm_sq_error_sum',
+  'gb_count',
+  'gb_hits',
+  'gb_abs_error_sum',
+  'gb_sq_error_sum',
+  'rf_count',
+  'rf_hits',
+  'brier_sum'
+] as const;
+
+// Calibration: predictions bucketed by confidence in steps of 10 points,
+// each bucket with its count, wins and confidence sum (as a 0-1 probability)
+export const CALIBRATION_BUCKETS = 10;
+type BucketIndex = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+export type BucketField = `conf${BucketIndex}_${'count' | 'wins' | 'sum'}`;
+
+export const bucketField = (index: number, kind: 'count' | 'wins' | 'sum') =>
+  `conf${index}_${kind}` as BucketField;
+
+const BUCKET_FIELDS: BucketField[] = Array.from({ length: CALIBRATION_BUCKETS }, (_, index) =>
+  (['count', 'wins', 'sum'] as const).map(kind => bucketField(index, kind))
+).flat();
+
+const AGGREGATE_FIELDS = [...COUNT_FIELDS, ...BUCKET_FIELDS];
+
+export type AggregateCounts = Record<(typeof COUNT_FIELDS)[number] | BucketField, number>;
+
+export interface AggregateDoc extends AggregateCounts {
+  date: string; // WIB yyyy-MM-dd of prediction_time
+  timeframe_minutes: number;
+  updated_at: string;
+}
+
+export interface WindowTotals {
+  byTimeframe: Map<number, AggregateCounts>;
+  byDay: Map<string, Map<number, AggregateCounts>>; // WIB date -> timeframe
+  earliest?: string; // ISO, earliest day with data
+}
+
+interface Watermark {
+  validation_time: string;
+  id: string;
+}
+
+// aggregate_contributions/{prediction id}: the aggregate a prediction was
+// counted in and what it added there, zero fields left out
+interface Contribution {
+  aggregate_id: string;
+  date: string;
+  timeframe_minutes: number;
+  counts: Partial<AggregateCounts>;
+}
+
+export function emptyCounts(): AggregateCounts {
+  return Object.fromEntries(AGGREGATE_FIELDS.map(field => [field, 0])) as AggregateCounts;
+}
+
+// Confidence is written as a percentage, but tolerate 0-1 fractions
+export function confidenceProbability(confidence: number): number {
+  return Math.min(1, Math.max(0, confidence > 1 ? confidence / 100 : confidence));
+}
+
+function addRegressor(
+  counts: AggregateCounts,
+  model: 'lstm' | 'gb',
+  predicted: number | undefined,
+  prediction: Prediction
+): void {
+  const actual = prediction.actual_price;
+  if (predicted === undefined || actual === undefined) return;
+
+  const error = actual - predicted;
+  counts[`${model}_count`] += 1;
+  counts[`${model}_abs_error_sum`] += Math.abs(error);
+  counts[`${model}_sq_error_sum`] += error * error;
+  if ((predicted > prediction.current_price) === (actual > prediction.current_price)) {
+    counts[`${model}_hits`] += 1;
+  }
+}
+
+export function addPrediction(counts: AggregateCounts, prediction: Prediction): void {
+  counts.total += 1;
+  if (prediction.validation_result === 'WIN') counts.wins += 1;
+  if (prediction.validation_result === 'LOSE') counts.losses += 1;
+  counts.error_sum += prediction.price_error || 0;
+  counts.error_pct_sum += prediction.price_error_pct || 0;
+  counts.sq_error_sum += (prediction.price_error || 0) ** 2;
+
+  addRegressor(counts, 'lstm', prediction.lstm_prediction, prediction);
+  addRegressor(counts, 'gb', prediction.gb_prediction, prediction);
+
+  if (prediction.rf_direction && prediction.actual_price !== undefined) {
+    counts.rf_count += 1;
+    if (isBullishDirection(prediction.rf_direction) === prediction.actual_price > prediction.current_price) {
+      counts.rf_hits += 1;
+    }
+  }
+
+  if (prediction.validation_result === 'WIN' || prediction.validation_result === 'LOSE') {
+    const probability = confidenceProbability(prediction.confidence);
+    const won = prediction.validation_result === 'WIN' ? 1 : 0;
+    const bucket = Math.min(CALIBRATION_BUCKETS - 1, Math.floor(probability * CALIBRATION_BUCKETS));
+
+    counts.brier_sum += (probability - won) ** 2;
+    counts[bucketField(bucket, 'count')] += 1;
+    counts[bucketField(bucket, 'wins')] += won;
+    counts[bucketField(bucket, 'sum')] += probability;
+  }
+}
+
+// Aggregate docs written before a field existed simply lack it
+export function mergeCounts(target: AggregateCounts, source: Partial<AggregateCounts>): void {
+  AGGREGATE_FIELDS.forEach(field => {
+    target[field] += source[field] || 0;
+  });
+}
+
+function subtractCounts(target: AggregateCounts, source: Partial<AggregateCounts>): void {
+  AGGREGATE_FIELDS.forEach(field => {
+    target[field] -= source[field] || 0;
+  });
+}
+
+function aggregateKey(prediction: Prediction): { id: string; date: string } | null {
+  const time = new Date(prediction.prediction_time);
+  if (isNaN(time.getTime()) || typeof prediction.timeframe_minutes !== 'number') return null;
+  const date = toWibDate(time);
+  return { id: `${date}_${prediction.timeframe_minutes}`, date };
+}
+
+function contributionOf(prediction: Prediction): Contribution | null {
+  const key = aggregateKey(prediction);
+  if (!key) return null;
+
+  const counts = emptyCounts();
+  addPrediction(counts, prediction);
+  return {
+    aggregate_id: key.id,
+    date: key.date,
+    timeframe_minutes: prediction.timeframe_minutes,
+    counts: Object.fromEntries(Object.entries(counts).filter(([, value]) => value !== 0))
+  };
+}
+
+function groupByAggregate(predictions: Prediction[]): Map<string, AggregateDoc> {
+  const grouped = new Map<string, AggregateDoc>();
+  const now = new Date().toISOString();
+
+  predictions.forEach(prediction => {
+    const key = aggregateKey(prediction);
+    if (!key) return;
+    let doc = grouped.get(key.id);
+    if (!doc) {
+      doc = { date: key.date, timeframe_minutes: prediction.timeframe_minutes, updated_at: now, ...emptyCounts() };
+      grouped.set(key.id, doc);
+    }
+    addPrediction(doc, prediction);
+  });
+
+  return grouped;
+}
+
+function validatedSince(db: DataStore, watermark: Watermark | null, asset: Asset) {
+  let query = db
+    .collection(assetCollections(asset).predictions)
+    .where('validated', '==', true)
+    .orderBy('validation_time', 'asc')
+    .orderBy(DOCUMENT_ID, 'asc');
+
+  if (watermark) {
+    query = query.startAfter(watermark.validation_time, watermark.id);
+  }
+  return query;
+}
+
+// Malformed predictions are logged and left out of the aggregates, the same
+// as they are left out of the dashboard lists
+function toPredictions(docs: StoreQueryDocumentSnapshot[], asset: Asset): Prediction[] {
+  return parseDocs(PredictionSchema, assetCollections(asset).predictions, docs, []);
+}
+
+// Folds predictions validated since the watermark into the aggregates. Each
+// batch runs in a transaction that also advances the watermark, so
+// concurrent syncs cannot count a prediction twice. A prediction counted
+// before has its earlier contribution taken back out first.
+export async function syncAggregates(db: DataStore, asset?: Asset): Promise<number> {
+  const collections = assetCollections(asset);
+  const stateRef = db.collection(COLLECTIONS.syncState).doc(collections.aggregatesState);
+  const aggregates = db.collection(collections.aggregates);
+  const contributions = db.collection(collections.aggregateContributions);
+  let processed = 0;
+
+  for (let batch = 0; batch < MAX_SYNC_BATCHES; batch++) {
+    const count = await db.runTransaction(async transaction => {
+      const state = await transaction.get(stateRef);
+      const watermark = (state.exists ? state.data()?.watermark : null) as Watermark | null;
+
+      const snapshot = await transaction.get(validatedSince(db, watermark, collections.asset).limit(SYNC_BATCH_SIZE));
+      if (snapshot.empty) return 0;
+
+      const predictions = toPredictions(snapshot.docs, collections.asset);
+      const previous = await Promise.all(predictions.map(prediction => transaction.get(contributions.doc(prediction.id))));
+
+      // The change to each aggregate: new contributions in, replaced ones out
+      const now = new Date().toISOString();
+      const deltas = new Map<string, AggregateDoc>();
+      const deltaFor = ({ aggregate_id, date, timeframe_minutes }: Contribution) => {
+        let delta = deltas.get(aggregate_id);
+        if (!delta) {
+          delta = { date, timeframe_minutes, updated_at: now, ...emptyCounts() };
+          deltas.set(aggregate_id, delta);
+        }
+        return delta;
+      };
+
+      const next = predictions.map((prediction, index) => {
+        const old = previous[index].data() as Contribution | undefined;
+        if (old) subtractCounts(deltaFor(old), old.counts);
+        const contribution = contributionOf(prediction);
+        if (contribution) mergeCounts(deltaFor(contribution), contribution.counts);
+        return contribution;
+      });
+
+      // Read inside the transaction, so the sums can't lose a concurrent write
+      const grouped = Array.from(deltas.entries());
+      const existing = await Promise.all(grouped.map(([id]) => transaction.get(aggregates.doc(id))));
+
+      grouped.forEach(([id, doc], index) => {
+        mergeCounts(doc, (existing[index].data() ?? {}) as Partial<AggregateCounts>);
+        transaction.set(aggregates.doc(id), doc);
+      });
+
+      predictions.forEach((prediction, index) => {
+        const contribution = next[index];
+        if (contribution) {
+          transaction.set(contributions.doc(prediction.id), contribution);
+        } else if (previous[index].exists) {
+          transaction.delete(contributions.doc(prediction.id));
+        }
+      });
+
+      const last = snapshot.docs[snapshot.docs.length - 1];
+      transaction.set(stateRef, {
+        watermark: { validation_time: last.get('validation_time'), id: last.id },
+        updated_at: now
+      });
+
+      return snapshot.size;
+    });
+
+    processed += count;
+    if (count < SYNC_BATCH_SIZE) break;
+  }
+
+  return processed;
+}
+
+// Per store and asset: when each was last synced by syncAggregatesThrottled
+const lastSyncs = new WeakMap<DataStore, Map<Asset, number>>();
+
+// For read routes. Syncs at most once per AGGREGATES_SYNC_INTERVAL_SECONDS
+// (default 30) per asset and server instance, so dashboard polling doesn't
+// run a transaction on every request; stats trail new validations by up to
+// that long.
+export async function syncAggregatesThrottled(db: DataStore, asset?: Asset, now = new Date()): Promise<number> {
+  const key = assetCollections(asset).asset;
+  let syncs = lastSyncs.get(db);
+  if (!syncs) {
+    syncs = new Map();
+    lastSyncs.set(db, syncs);
+  }
+
+  const last = syncs.get(key);
+  const intervalMs = envNumber('AGGREGATES_SYNC_INTERVAL_SECONDS', DEFAULT_SYNC_INTERVAL_SECONDS) * 1000;
+  if (last !== undefined && now.getTime() - last < intervalMs) return 0;
+
+  syncs.set(key, now.getTime());
+  try {
+    return await syncAggregates(db, asset);
+  } catch (error) {
+    // Let the next request try again rather than wait out the interval
+    syncs.delete(key);
+    throw error;
+  }
+}
+
+// Recomputes every aggregate from raw predictions. Run while the dashboard
+// is quiet: a sync racing the rebuild would be overwritten.
+export async function rebuildAggregates(db: DataStore, asset?: Asset): Promise<{ predictions: number; aggregates: number }> {
+  const collections = assetCollections(asset);
+  const aggregates = db.collection(collections.aggregates);
+  const contributions = db.collection(collections.aggregateContributions);
+  const stateRef = db.collection(COLLECTIONS.syncState).doc(collections.aggregatesState);
+
+  const all: Prediction[] = [];
+  let watermark: Watermark | null = null;
+  for (;;) {
+    const snapshot: StoreQuerySnapshot = await validatedSince(db, watermark, collections.asset).limit(1000).get();
+    if (snapshot.empty) break;
+    all.push(...toPredictions(snapshot.docs, collections.asset));
+    const last: StoreQueryDocumentSnapshot = snapshot.docs[snapshot.docs.length - 1];
+    watermark = { validation_time: last.get('validation_time'), id: last.id };
+  }
+
+  const existing = [...await aggregates.listDocuments(), ...await contributions.listDocuments()];
+  for (let i = 0; i < existing.length; i += SYNC_BATCH_SIZE) {
+    const batch = db.batch();
+    existing.slice(i, i + SYNC_BATCH_SIZE).forEach(ref => batch.delete(ref));
+    await batch.commit();
+  }
+
+  const entries = Array.from(groupByAggregate(all).entries());
+  for (let i = 0; i < entries.length; i += SYNC_BATCH_SIZE) {
+    const batch = db.batch();
+    entries.slice(i, i + SYNC_BATCH_SIZE).forEach(([id, doc]) => batch.set(aggregates.doc(id), doc));
+    await batch.commit();
+  }
+
+  for (let i = 0; i < all.length; i += SYNC_BATCH_SIZE) {
+    const batch = db.batch();
+    all.slice(i, i + SYNC_BATCH_SIZE).forEach(prediction => {
+      const contribution = contributionOf(prediction);
+      if (contribution) batch.set(contributions.doc(prediction.id), contribution);
+    });
+    await batch.commit();
+  }
+
+  await stateRef.set({ watermark, updated_at: new Date().toISOString() });
+
+  return { predictions: all.length, aggregates: entries.length };
+}
+
+interface RangePlan {
+  // Whole WIB days served from aggregates; first is null for all-time
+  fullDays: { first: string | null; last: string } | null;
+  // Partial days read from raw predictions
+  raw: Array<{ from: Date; to: Date }>;
+}
+
+export function planRange(from: Date | null, to: Date, now: Date = new Date()): RangePlan {
+  const raw: RangePlan['raw'] = [];
+  // Preset periods end at request time, a few ms before we get here
+  const openEnded = to.getTime() >= now.getTime() - OPEN_END_SLACK_MS;
+  const toDay = toWibDate(to);
+  const tailStart = wibDayStart(toDay);
+  // Nothing exists after now, so an open-ended window can take today whole
+  const lastFull = openEnded ? toDay : addWibDays(toDay, -1);
+  const hasTail = !openEnded && tailStart < to;
+
+  if (!from) {
+    if (hasTail) raw.push({ from: tailStart, to });
+    return { fullDays: { first: null, last: lastFull }, raw };
+  }
+
+  const fromDay = toWibDate(from);
+  const fromAligned = from.getTime() === wibDayStart(fromDay).getTime();
+  const firstFull = fromAligned ? fromDay : addWibDays(fromDay, 1);
+
+  if (firstFull > lastFull) {
+    return { fullDays: null, raw: [{ from, to }] };
+  }
+
+  if (!fromAligned) raw.push({ from, to: wibDayStart(firstFull) });
+  if (hasTail) raw.push({ from: tailStart, to });
+
+  return { fullDays: { first: firstFull, last: lastFull }, raw };
+}
+
+function addToTotals(totals: WindowTotals, date: string, timeframe: number, counts: Partial<AggregateCounts>): void {
+  let existing = totals.byTimeframe.get(timeframe);
+  if (!existing) {
+    existing = emptyCounts();
+    totals.byTimeframe.set(timeframe, existing);
+  }
+  mergeCounts(existing, counts);
+
+  let day = totals.byDay.get(date);
+  if (!day) {
+    day = new Map();
+    totals.byDay.set(date, day);
+  }
+  let daily = day.get(timeframe);
+  if (!daily) {
+    daily = emptyCounts();
+    day.set(timeframe, daily);
+  }
+  mergeCounts(daily, counts);
+}
+
+// Totals per timeframe for validated predictions whose prediction_time falls
+// in the period. Reads aggregate docs for whole days and raw predictions only
+// for the partial days at either edge.
+export async function loadWindowTotals(db: DataStore, period: StatsPeriod, asset?: Asset): Promise<WindowTotals> {
+  const collections = assetCollections(asset);
+  const plan = planRange(period.from ? new Date(period.from) : null, new Date(period.to));
+  const totals: WindowTotals = { byTimeframe: new Map(), byDay: new Map() };
+
+  if (plan.fullDays) {
+    let query = db.collection(collections.aggregates).where('date', '<=', plan.fullDays.last);
+    if (plan.fullDays.first) query = query.where('date', '>=', plan.fullDays.first);
+
+    const snapshot = await query.get();
+    snapshot.docs.forEach(doc => {
+      const data = doc.data() as AggregateDoc;
+      addToTotals(totals, data.date, data.timeframe_minutes, data);
+      if (!totals.earliest || data.date < totals.earliest) totals.earliest = data.date;
+    });
+    if (totals.earliest) totals.earliest = wibDayStart(totals.earliest).toISOString();
+  }
+
+  for (const range of plan.raw) {
+    const snapshot = await db
+      .collection(collections.predictions)
+      .where('prediction_time', '>=', toWibIso(range.from))
+      .where('prediction_time', '<', toWibIso(range.to))
+      .get();
+
+    toPredictions(snapshot.docs, collections.asset)
+      .filter(p => p.validated)
+      .forEach(p => {
+        const counts = emptyCounts();
+        addPrediction(counts, p);
+        addToTotals(totals, toWibDate(new Date(p.prediction_time)), p.timeframe_minutes, counts);
+      });
+  }
+
+  return totals;
+}
@@ -0,0 +1,134 @@
+// lib/alerts/channels.ts - Deliver a notification to a webhook, Telegram, Discord or email
+import nodemailer from 'nodemailer';
+import { envNumber } from '@/lib/env';
+import type { AlertChannel, AlertNotification } from '@/types';
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DISCORD_MAX_CONTENT = 2000;
+
+// The subset of a nodemailer transport this module uses, so tests can pass
+// a fake or a transport pointed at a local SMTP sink
+export interface Mailer {
+  sendMail(message: { from: string; to: string; subject: string; text: string }): Promise<unknown>;
+}
+
+export interface DeliveryOptions {
+  fetchImpl?: typeof fetch;
+  mailer?: Mailer;
+  timeoutMs?: number;
+}
+
+export class ChannelConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChannelConfigError';
+  }
+}
+
+let defaultMailer: Mailer | null = null;
+
+// SMTP_HOST, SMTP_PORT (default 587), SMTP_SECURE=true for implicit TLS,
+// and SMTP_USER/SMTP_PASS when the server wants auth
+function getDefaultMailer(): Mailer {
+  if (defaultMailer) return defaultMailer;
+  if (!process.env.SMTP_HOST) {
+    throw new ChannelConfigError('SMTP_HOST is not set');
+  }
+
+  defaultMailer = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: envNumber('SMTP_PORT', 587),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined
+  });
+  return defaultMailer;
+}
+
+async function postJson(
+  url: string,
+  body: unknown,
+  timeoutMs: number,
+  fetchImpl: typeof fetch
+): Promise<void> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetchImpl(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+      cache: 'no-store'
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`HTTP ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`timed out after ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Where a channel points, without the secret parts, for the delivery log
+export function describeTarget(channel: AlertChannel): string {
+  switch (channel.type) {
+    case 'webhook':
+      return new URL(channel.url).host;
+    case 'telegram':
+      return `chat ${channel.chat_id}`;
+    case 'discord':
+      return 'discord webhook';
+    case 'email':
+      return channel.to;
+  }
+}
+
+// Resolves once the destination accepted the notification; throws otherwise
+export async function deliver(
+  channel: AlertChannel,
+  notification: AlertNotification,
+  options: DeliveryOptions = {}
+): Promise<void> {
+  const {
+    fetchImpl = fetch,
+    timeoutMs = envNumber('ALERT_DELIVERY_TIMEOUT_MS', DEFAULT_TIMEOUT_MS)
+  } = options;
+  const text = `${notification.title}\n\n${notification.message}`;
+
+  switch (channel.type) {
+    case 'webhook':
+      return postJson(channel.url, notification, timeoutMs, fetchImpl);
+
+    case 'telegram': {
+      const token = process.env.TELEGRAM_BOT_TOKEN;
+      if (!token) throw new ChannelConfigError('TELEGRAM_BOT_TOKEN is not set');
+      // TELEGRAM_API_URL points at a proxy or a local sink instead of the Bot API
+      const base = process.env.TELEGRAM_API_URL || 'https://api.telegram.org';
+      return postJson(`${base}/bot${token}/sendMessage`, { chat_id: channel.chat_id, text }, timeoutMs, fetchImpl);
+    }
+
+    case 'discord':
+      return postJson(
+        channel.webhook_url,
+        { content: `**${notification.title}**\n${notification.message}`.slice(0, DISCORD_MAX_CONTENT) },
+        timeoutMs,
+        fetchImpl
+      );
+
+    case 'email': {
+      const from = process.env.ALERT_EMAIL_FROM;
+      if (!from) throw new ChannelConfigError('ALERT_EMAIL_FROM is not set');
+      const mailer = options.mailer ?? getDefaultMailer();
+      await mailer.sendMail({ from, to: channel.to, subject: notification.title, text: notification.message });
+      return;
+    }
+  }
+}
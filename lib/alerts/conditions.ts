@@ -0,0 +1,170 @@
+// lib/alerts/conditions.ts - Check one rule's condition against current data
+import { DOCUMENT_ID } from '@/lib/datastore';
+import type { DataStore } from '@/lib/datastore';
+import { assetCollections } from '@/lib/firebase';
+import { readSystemStatus } from '@/lib/systemStatus';
+import { toWibIso } from '@/lib/time';
+import { parseDocs } from '@/lib/validation';
+import { PredictionSchema } from '@/types/schemas';
+import { getTimeframeLabel } from '@/types';
+import type { AlertCondition, Prediction } from '@/types';
+
+const MAX_NEW_PREDICTIONS = 200;
+const MAX_LISTED_PREDICTIONS = 5;
+
+// The last prediction seen. Predictions can share a timestamp, so the id
+// breaks ties the same way the query orders them.
+export interface EventCursor {
+  timestamp: string;
+  id: string;
+}
+
+export interface ConditionResult {
+  // null when the condition does not hold
+  trigger: { title: string; message: string; dedup_key: string } | null;
+  // Where high_confidence resumes on the next evaluation
+  cursor?: EventCursor;
+}
+
+type ConditionOf<K extends AlertCondition['kind']> = Extract<AlertCondition, { kind: K }>;
+
+const formatPrice = (price: number) =>
+  `$${price.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const describePrediction = (prediction: Prediction) =>
+  `${getTimeframeLabel(prediction.timeframe_minutes)} ${prediction.trend} ` +
+  `${formatPrice(prediction.current_price)} → ${formatPrice(prediction.predicted_price)} ` +
+  `(${prediction.confidence.toFixed(1)}% confidence)`;
+
+// Predictions written after the cursor; the first evaluation starts from now
+// so enabling a rule doesn't replay history
+async function checkHighConfidence(
+  db: DataStore,
+  condition: ConditionOf<'high_confidence'>,
+  cursor: EventCursor | null,
+  now: Date
+): Promise<ConditionResult> {
+  if (!cursor) return { trigger: null, cursor: { timestamp: toWibIso(now), id: '' } };
+
+  const collections = assetCollections(condition.asset);
+  const snapshot = await db
+    .collection(collections.predictions)
+    .orderBy('timestamp', 'asc')
+    .orderBy(DOCUMENT_ID, 'asc')
+    .startAfter(cursor.timestamp, cursor.id)
+    .limit(MAX_NEW_PREDICTIONS)
+    .get();
+  // Taken from the raw documents so a malformed one is still stepped over
+  const lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  const nextCursor = lastDoc ? { timestamp: lastDoc.get('timestamp'), id: lastDoc.id } : cursor;
+  const predictions = parseDocs(PredictionSchema, collections.predictions, snapshot.docs, []);
+
+  const matches = predictions.filter(prediction =>
+    prediction.confidence >= condition.min_confidence
+    && (condition.timeframes === null || condition.timeframes.includes(prediction.timeframe_minutes))
+  );
+  if (matches.length === 0) return { trigger: null, cursor: nextCursor };
+
+  const listed = matches.slice(-MAX_LISTED_PREDICTIONS).map(describePrediction);
+  if (matches.length > listed.length) listed.unshift(`…and ${matches.length - listed.length} earlier`);
+
+  return {
+    trigger: {
+      title: matches.length === 1
+        ? `High-confidence ${condition.asset} prediction`
+        : `${matches.length} high-confidence ${condition.asset} predictions`,
+      message: listed.join('\n'),
+      dedup_key: `prediction:${matches[matches.length - 1].id}`
+    },
+    cursor: nextCursor
+  };
+}
+
+async function checkWinRate(db: DataStore, condition: ConditionOf<'win_rate_drop'>): Promise<ConditionResult> {
+  const collections = assetCollections(condition.asset);
+  let query = db.collection(collections.predictions).where('validated', '==', true);
+  if (condition.timeframes !== null) query = query.where('timeframe_minutes', 'in', condition.timeframes);
+
+  const snapshot = await query.orderBy('validation_time', 'desc').limit(condition.window).get();
+  const predictions = parseDocs(PredictionSchema, collections.predictions, snapshot.docs, []);
+
+  // Too little history to judge yet
+  if (predictions.length < condition.window) return { trigger: null };
+
+  const wins = predictions.filter(prediction => prediction.validation_result === 'WIN').length;
+  const winRate = (wins / predictions.length) * 100;
+  if (winRate >= condition.min_win_rate) return { trigger: null };
+
+  const scope = condition.timeframes === null
+    ? 'all timeframes'
+    : condition.timeframes.map(getTimeframeLabel).join(', ');
+  return {
+    trigger: {
+      title: `${condition.asset} win rate dropped to ${winRate.toFixed(1)}%`,
+      message: `${wins}/${predictions.length} of the last ${condition.window} validated predictions won (${scope}), ` +
+        `below the ${condition.min_win_rate}% threshold.`,
+      dedup_key: 'win_rate_drop'
+    }
+  };
+}
+
+async function checkHeartbeatStale(
+  db: DataStore,
+  condition: ConditionOf<'heartbeat_stale'>,
+  now: Date
+): Promise<ConditionResult> {
+  const status = await readSystemStatus(db, now);
+  // No heartbeat document at all: the predictor never reported, or it was removed
+  if (status.heartbeat_missing) {
+    return {
+      trigger: {
+        title: 'Predictor heartbeat is stale',
+        message: 'No heartbeat has been recorded.',
+        dedup_key: 'heartbeat_stale:missing'
+      }
+    };
+  }
+
+  const minutes = (now.getTime() - new Date(status.timestamp).getTime()) / 60000;
+  if (!(minutes > condition.stale_minutes)) return { trigger: null };
+
+  return {
+    trigger: {
+      title: 'Predictor heartbeat is stale',
+      message: `No heartbeat for ${Math.floor(minutes)} minutes (last at ${status.timestamp}, threshold ${condition.stale_minutes} min).`,
+      // One alert per outage: a new heartbeat followed by another gap is a new key
+      dedup_key: `heartbeat_stale:${status.timestamp}`
+    }
+  };
+}
+
+async function checkSystemError(db: DataStore, now: Date): Promise<ConditionResult> {
+  const status = await readSystemStatus(db, now);
+  if (status.status !== 'error') return { trigger: null };
+
+  return {
+    trigger: {
+      title: 'Predictor reported an error',
+      message: status.message || 'System status is error',
+      dedup_key: 'system_error'
+    }
+  };
+}
+
+export function checkCondition(
+  db: DataStore,
+  condition: AlertCondition,
+  cursor: EventCursor | null,
+  now: Date
+): Promise<ConditionResult> {
+  switch (condition.kind) {
+    case 'high_confidence':
+      return checkHighConfidence(db, condition, cursor, now);
+    case 'win_rate_drop':
+      return checkWinRate(db, condition);
+    case 'heartbeat_stale':
+      return checkHeartbeatStale(db, condition, now);
+    case 'system_error':
+      return checkSystemError(db, now);
+  }
+}
@@ -0,0 +1,223 @@
+// lib/alerts/index.ts - Evaluate alert rules and deliver what they trigger
+import { describeTarget, deliver } from '@/lib/alerts/channels';
+import type { DeliveryOptions } from '@/lib/alerts/channels';
+import { checkCondition } from '@/lib/alerts/conditions';
+import type { EventCursor } from '@/lib/alerts/conditions';
+import { listAlertRules } from '@/lib/alerts/rules';
+import type { DataStore } from '@/lib/datastore';
+import { COLLECTIONS } from '@/lib/firebase';
+import { toWibIso } from '@/lib/time';
+import { parseDocs } from '@/lib/validation';
+import { AlertDeliverySchema } from '@/types/schemas';
+import type {
+  AlertDelivery,
+  AlertEvaluationSummary,
+  AlertNotification,
+  AlertRule,
+  DataWarning
+} from '@/types';
+
+export { ChannelConfigError, deliver, describeTarget } from '@/lib/alerts/channels';
+export type { DeliveryOptions, Mailer } from '@/lib/alerts/channels';
+export {
+  AlertRuleInputError,
+  AlertRuleNotFoundError,
+  createAlertRule,
+  deleteAlertRule,
+  getAlertRule,
+  listAlertRules,
+  updateAlertRule
+} from '@/lib/alerts/rules';
+
+export const MAX_DELIVERY_LOG = 200;
+
+// alert_state/{rule id}
+interface AlertState {
+  active: boolean; // the condition held on the last evaluation
+  last_key: string | null; // dedup key of the last notification sent
+  last_fired_at: string | null; // ISO
+  suppressed_key: string | null; // last key held back by the cooldown, logged once
+  cursor: EventCursor | null; // high_confidence: last prediction seen
+}
+
+const EMPTY_STATE: AlertState = {
+  active: false,
+  last_key: null,
+  last_fired_at: null,
+  suppressed_key: null,
+  cursor: null
+};
+
+type Decision = 'send' | 'suppress' | 'skip';
+
+// Sends when the key is new, unless the rule fired within its cooldown.
+// A held-back key is retried on later evaluations, so a condition that is
+// still true when the cooldown ends is reported then.
+function decide(state: AlertState, rule: AlertRule, key: string, now: Date): Decision {
+  if (state.active && state.last_key === key) return 'skip';
+
+  const cooldownMs = rule.cooldown_minutes * 60000;
+  if (state.last_fired_at && now.getTime() - new Date(state.last_fired_at).getTime() < cooldownMs) {
+    return state.suppressed_key === key ? 'skip' : 'suppress';
+  }
+  return 'send';
+}
+
+// Sends to every channel of the rule and logs each attempt. Failures are
+// recorded, not thrown, so one bad channel doesn't block the others.
+export async function sendNotification(
+  db: DataStore,
+  rule: AlertRule,
+  notification: AlertNotification,
+  options: DeliveryOptions = {}
+): Promise<AlertDelivery[]> {
+  const log = db.collection(COLLECTIONS.alertDeliveries);
+
+  const deliveries = await Promise.all(rule.channels.map(async channel => {
+    const ref = log.doc();
+    const base = {
+      rule_id: rule.id,
+      rule_name: rule.name,
+      channel: channel.type,
+      target: describeTarget(channel),
+      title: notification.title,
+      message: notification.message,
+      dedup_key: notification.dedup_key,
+      created_at: toWibIso(new Date())
+    };
+
+    try {
+      await deliver(channel, notification, options);
+      return { ...base, id: ref.id, status: 'sent' as const };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Alert "${rule.name}" to ${channel.type} (${base.target}) failed: ${message}`);
+      return { ...base, id: ref.id, status: 'failed' as const, error: message };
+    }
+  }));
+
+  await logDeliveries(db, deliveries);
+  return deliveries;
+}
+
+async function logDeliveries(db: DataStore, deliveries: AlertDelivery[]): Promise<void> {
+  const batch = db.batch();
+  deliveries.forEach(({ id, ...delivery }) => {
+    batch.set(db.collection(COLLECTIONS.alertDeliveries).doc(id), delivery);
+  });
+  await batch.commit();
+}
+
+function suppressedDeliveries(db: DataStore, rule: AlertRule, notification: AlertNotification): AlertDelivery[] {
+  return rule.channels.map(channel => ({
+    id: db.collection(COLLECTIONS.alertDeliveries).doc().id,
+    rule_id: rule.id,
+    rule_name: rule.name,
+    channel: channel.type,
+    target: describeTarget(channel),
+    status: 'suppressed',
+    title: notification.title,
+    message: notification.message,
+    dedup_key: notification.dedup_key,
+    error: `within ${rule.cooldown_minutes} min cooldown`,
+    created_at: notification.triggered_at
+  }));
+}
+
+async function evaluateRule(
+  db: DataStore,
+  rule: AlertRule,
+  now: Date,
+  summary: AlertEvaluationSummary,
+  options: DeliveryOptions
+): Promise<void> {
+  const stateRef = db.collection(COLLECTIONS.alertState).doc(rule.id);
+  const stored = await stateRef.get();
+  const cursor = stored.exists ? (stored.data() as AlertState).cursor : null;
+
+  const { trigger, cursor: nextCursor } = await checkCondition(db, rule.condition, cursor, now);
+
+  // Decided in a transaction so overlapping evaluations can't both send
+  const decision = await db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(stateRef);
+    const state: AlertState = { ...EMPTY_STATE, ...(snapshot.data() as Partial<AlertState> | undefined) };
+    if (nextCursor !== undefined) state.cursor = nextCursor;
+
+    if (!trigger) {
+      transaction.set(stateRef, { ...state, active: false, suppressed_key: null });
+      return 'skip';
+    }
+
+    const result = decide(state, rule, trigger.dedup_key, now);
+    if (result === 'send') {
+      transaction.set(stateRef, {
+        ...state,
+        active: true,
+        last_key: trigger.dedup_key,
+        last_fired_at: now.toISOString(),
+        suppressed_key: null
+      });
+    } else if (result === 'suppress') {
+      transaction.set(stateRef, { ...state, suppressed_key: trigger.dedup_key });
+    } else {
+      transaction.set(stateRef, state);
+    }
+    return result;
+  });
+
+  if (!trigger || decision === 'skip') return;
+  summary.triggered += 1;
+
+  const notification: AlertNotification = {
+    rule_id: rule.id,
+    rule_name: rule.name,
+    ...trigger,
+    triggered_at: toWibIso(now)
+  };
+
+  if (decision === 'suppress') {
+    const deliveries = suppressedDeliveries(db, rule, notification);
+    await logDeliveries(db, deliveries);
+    summary.suppressed += deliveries.length;
+    return;
+  }
+
+  const deliveries = await sendNotification(db, rule, notification, options);
+  summary.sent += deliveries.filter(delivery => delivery.status === 'sent').length;
+  summary.failed += deliveries.filter(delivery => delivery.status === 'failed').length;
+}
+
+// One pass over every enabled rule. A rule whose check throws is logged and
+// skipped; the rest still run.
+export async function evaluateAlerts(
+  db: DataStore,
+  options: DeliveryOptions & { now?: Date } = {}
+): Promise<AlertEvaluationSummary> {
+  const { now = new Date(), ...deliveryOptions } = options;
+  const rules = (await listAlertRules(db)).filter(rule => rule.enabled);
+  const summary: AlertEvaluationSummary = { evaluated: 0, triggered: 0, sent: 0, failed: 0, suppressed: 0 };
+
+  for (const rule of rules) {
+    try {
+      await evaluateRule(db, rule, now, summary, deliveryOptions);
+      summary.evaluated += 1;
+    } catch (error) {
+      console.error(`❌ Error evaluating alert rule "${rule.name}" (${rule.id}):`, error);
+    }
+  }
+
+  return summary;
+}
+
+export async function listDeliveries(
+  db: DataStore,
+  limit: number,
+  warnings: DataWarning[] = []
+): Promise<AlertDelivery[]> {
+  const snapshot = await db
+    .collection(COLLECTIONS.alertDeliveries)
+    .orderBy('created_at', 'desc')
+    .limit(Math.min(limit, MAX_DELIVERY_LOG))
+    .get();
+  return parseDocs(AlertDeliverySchema, COLLECTIONS.alertDeliveries, snapshot.docs, warnings);
+}
@@ -0,0 +1,77 @@
+// lib/alerts/rules.ts - CRUD for alert rules in Firestore
+import type { z } from 'zod';
+import type { DataStore } from '@/lib/datastore';
+import { COLLECTIONS } from '@/lib/firebase';
+import { toWibIso } from '@/lib/time';
+import { parseDoc, parseDocs } from '@/lib/validation';
+import { AlertRuleInputSchema, AlertRuleSchema } from '@/types/schemas';
+import type { AlertRule, DataWarning } from '@/types';
+
+export class AlertRuleNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Alert rule ${id} not found`);
+    this.name = 'AlertRuleNotFoundError';
+  }
+}
+
+export class AlertRuleInputError extends Error {
+  issues: string[];
+
+  constructor(error: z.ZodError) {
+    const issues = error.issues.map(issue => `${issue.path.join('.') || '(body)'}: ${issue.message}`);
+    super(issues.join('; '));
+    this.name = 'AlertRuleInputError';
+    this.issues = issues;
+  }
+}
+
+function parseInput(body: unknown) {
+  const result = AlertRuleInputSchema.safeParse(body);
+  if (!result.success) throw new AlertRuleInputError(result.error);
+  return result.data;
+}
+
+export async function listAlertRules(db: DataStore, warnings: DataWarning[] = []): Promise<AlertRule[]> {
+  const snapshot = await db.collection(COLLECTIONS.alertRules).orderBy('created_at', 'asc').get();
+  return parseDocs(AlertRuleSchema, COLLECTIONS.alertRules, snapshot.docs, warnings);
+}
+
+export async function getAlertRule(db: DataStore, id: string): Promise<AlertRule> {
+  const doc = await db.collection(COLLECTIONS.alertRules).doc(id).get();
+  const rule = doc.exists ? parseDoc(AlertRuleSchema, COLLECTIONS.alertRules, doc, []) : null;
+  if (!rule) throw new AlertRuleNotFoundError(id);
+  return rule;
+}
+
+export async function createAlertRule(db: DataStore, body: unknown): Promise<AlertRule> {
+  const input = parseInput(body);
+  const now = toWibIso(new Date());
+  const ref = db.collection(COLLECTIONS.alertRules).doc();
+  const data = { ...input, created_at: now, updated_at: now };
+
+  await ref.set(data);
+  return { ...data, id: ref.id };
+}
+
+// Replaces the rule's settings; the evaluation state is reset so a changed
+// condition starts from a clean slate
+export async function updateAlertRule(db: DataStore, id: string, body: unknown): Promise<AlertRule> {
+  const existing = await getAlertRule(db, id);
+  const input = parseInput(body);
+  const data = { ...input, created_at: existing.created_at, updated_at: toWibIso(new Date()) };
+
+  const batch = db.batch();
+  batch.set(db.collection(COLLECTIONS.alertRules).doc(id), data);
+  batch.delete(db.collection(COLLECTIONS.alertState).doc(id));
+  await batch.commit();
+  return { ...data, id };
+}
+
+export async function deleteAlertRule(db: DataStore, id: string): Promise<void> {
+  await getAlertRule(db, id);
+
+  const batch = db.batch();
+  batch.delete(db.collection(COLLECTIONS.alertRules).doc(id));
+  batch.delete(db.collection(COLLECTIONS.alertState).doc(id));
+  await batch.commit();
+}
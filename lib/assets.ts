@@ -0,0 +1,68 @@
+// lib/assets.ts - Assets the dashboard can show and where their data lives
+//
+// Client-safe: the dashboard imports this for the asset switcher. BTC keeps
+// the original collection names, so data written before other assets
+// existed is still read as BTC.
+import type { Asset, AssetConfig } from '@/types';
+
+export const DEFAULT_ASSET: Asset = 'BTC';
+
+export const ASSETS: Record<Asset, AssetConfig> = {
+  BTC: {
+    symbol: 'BTC',
+    name: 'Bitcoin',
+    collection: 'bitcoin_predictions',
+    tradingViewSymbol: 'BINANCE:BTCUSDT',
+    krakenPair: 'XBTUSD'
+  },
+  ETH: {
+    symbol: 'ETH',
+    name: 'Ethereum',
+    collection: 'ethereum_predictions',
+    tradingViewSymbol: 'BINANCE:ETHUSDT',
+    krakenPair: 'ETHUSD'
+  },
+  SOL: {
+    symbol: 'SOL',
+    name: 'Solana',
+    collection: 'solana_predictions',
+    tradingViewSymbol: 'BINANCE:SOLUSDT',
+    krakenPair: 'SOLUSD'
+  }
+};
+
+export const ASSET_SYMBOLS = Object.keys(ASSETS) as Asset[];
+
+export class AssetQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AssetQueryError';
+  }
+}
+
+export function isAsset(value: string): value is Asset {
+  return ASSET_SYMBOLS.includes(value as Asset);
+}
+
+// ?asset=eth, case-insensitive, BTC when absent
+export function parseAsset(params: URLSearchParams): Asset {
+  const raw = params.get('asset');
+  if (!raw) return DEFAULT_ASSET;
+  const asset = raw.toUpperCase();
+  if (!isAsset(asset)) {
+    throw new AssetQueryError(`asset must be one of ${ASSET_SYMBOLS.join(', ')}`);
+  }
+  return asset;
+}
+
+// Empty for the default asset, so BTC URLs stay as they were
+export function assetQuery(asset: Asset): string {
+  return asset === DEFAULT_ASSET ? '' : `asset=${asset}`;
+}
+
+// `path` with ?asset= appended when the asset isn't the default
+export function withAsset(path: string, asset: Asset): string {
+  const query = assetQuery(asset);
+  if (!query) return path;
+  return `${path}${path.includes('?') ? '&' : '?'}${query}`;
+}
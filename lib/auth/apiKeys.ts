@@ -0,0 +1,172 @@
+// lib/auth/apiKeys.ts - Per-consumer API keys for /api/v1, with rate limits and usage
+//
+// Keys are random, shown once when created, and stored as a SHA-256 hash.
+// Each key gets API_RATE_LIMIT_PER_MINUTE requests (default 60) per
+// calendar minute unless it has its own limit. The count lives on the key's
+// document, so every server instance enforces the same limit; requests and
+// rejections are also tallied per key per WIB day.
+import { createHash, randomBytes } from 'crypto';
+import type { z } from 'zod';
+import type { DataStore, DocumentData } from '@/lib/datastore';
+import { envNumber } from '@/lib/env';
+import { COLLECTIONS } from '@/lib/firebase';
+import { addWibDays, toWibDate, toWibIso } from '@/lib/time';
+import { omit, parseDoc, parseDocs } from '@/lib/validation';
+import { ApiKeyInputSchema, ApiKeySchema, ApiKeyUsageSchema } from '@/types/schemas';
+import type { ApiKey, ApiKeyUsage, CreatedApiKey, DataWarning } from '@/types';
+
+type StoredApiKey = z.infer<typeof ApiKeySchema>;
+
+export const API_KEY_PREFIX = 'bpk_';
+const DISPLAYED_KEY_CHARS = 12;
+const WINDOW_MS = 60000;
+
+export class ApiKeyNotFoundError extends Error {
+  constructor(id: string) {
+    super(`API key ${id} not found`);
+    this.name = 'ApiKeyNotFoundError';
+  }
+}
+
+export class ApiKeyInputError extends Error {
+  issues: string[];
+
+  constructor(error: z.ZodError) {
+    const issues = error.issues.map(issue => `${issue.path.join('.') || '(body)'}: ${issue.message}`);
+    super(issues.join('; '));
+    this.name = 'ApiKeyInputError';
+    this.issues = issues;
+  }
+}
+
+export interface RateLimitState {
+  limit: number;
+  remaining: number;
+  reset: Date; // when the current window ends
+}
+
+export type ApiKeyCheck =
+  | { status: 'unknown' }
+  | { status: 'revoked'; key: ApiKey }
+  | { status: 'limited' | 'ok'; key: ApiKey; rate: RateLimitState };
+
+export function getDefaultRateLimit(): number {
+  return envNumber('API_RATE_LIMIT_PER_MINUTE', 60);
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function toApiKey(key: StoredApiKey): ApiKey {
+  return omit(key, 'key_hash', 'window_start', 'window_count');
+}
+
+function apiKeys(db: DataStore) {
+  return db.collection(COLLECTIONS.apiKeys);
+}
+
+export async function listApiKeys(db: DataStore, warnings: DataWarning[] = []): Promise<ApiKey[]> {
+  const snapshot = await apiKeys(db).orderBy('created_at', 'asc').get();
+  return parseDocs(ApiKeySchema, COLLECTIONS.apiKeys, snapshot.docs, warnings).map(toApiKey);
+}
+
+export async function getApiKey(db: DataStore, id: string): Promise<ApiKey> {
+  const doc = await apiKeys(db).doc(id).get();
+  const key = doc.exists ? parseDoc(ApiKeySchema, COLLECTIONS.apiKeys, doc, []) : null;
+  if (!key) throw new ApiKeyNotFoundError(id);
+  return toApiKey(key);
+}
+
+// The response is the only place the key itself ever appears
+export async function createApiKey(db: DataStore, body: unknown, createdBy?: string): Promise<CreatedApiKey> {
+  const result = ApiKeyInputSchema.safeParse(body);
+  if (!result.success) throw new ApiKeyInputError(result.error);
+
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  const ref = apiKeys(db).doc();
+  const data = {
+    ...result.data,
+    prefix: key.slice(0, DISPLAYED_KEY_CHARS),
+    key_hash: hashApiKey(key),
+    created_at: toWibIso(new Date()),
+    ...(createdBy && { created_by: createdBy }),
+    request_count: 0,
+    rejected_count: 0
+  };
+
+  await ref.set(data);
+  return { ...toApiKey({ ...data, id: ref.id }), key };
+}
+
+// Revoked keys are kept, with their usage, but stop working at once
+export async function revokeApiKey(db: DataStore, id: string): Promise<ApiKey> {
+  const key = await getApiKey(db, id);
+  if (key.revoked_at) return key;
+
+  const revoked_at = toWibIso(new Date());
+  await apiKeys(db).doc(id).update({ revoked_at });
+  return { ...key, revoked_at };
+}
+
+// Daily tallies for the last `days` WIB days with any requests, oldest first
+export async function listApiKeyUsage(db: DataStore, id: string, days = 30, now = new Date()): Promise<ApiKeyUsage[]> {
+  const since = addWibDays(toWibDate(now), -(days - 1));
+  const snapshot = await db
+    .collection(COLLECTIONS.apiKeyUsage)
+    .where('key_id', '==', id)
+    .where('date', '>=', since)
+    .orderBy('date', 'asc')
+    .get();
+  return parseDocs(ApiKeyUsageSchema, COLLECTIONS.apiKeyUsage, snapshot.docs, []);
+}
+
+// Counts a request made with `key` against its rate limit. Unknown and
+// revoked keys are not counted; rejected requests are.
+export async function consumeApiKey(db: DataStore, key: string, now = new Date()): Promise<ApiKeyCheck> {
+  const windowStart = new Date(Math.floor(now.getTime() / WINDOW_MS) * WINDOW_MS);
+  const window = toWibIso(windowStart);
+
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(apiKeys(db).where('key_hash', '==', hashApiKey(key)).limit(1));
+    const stored = snapshot.empty ? null : parseDoc(ApiKeySchema, COLLECTIONS.apiKeys, snapshot.docs[0], []);
+    if (!stored) return { status: 'unknown' };
+    if (stored.revoked_at) return { status: 'revoked', key: toApiKey(stored) };
+
+    const usageRef = db.collection(COLLECTIONS.apiKeyUsage).doc(`${stored.id}_${toWibDate(now)}`);
+    const usage = await transaction.get(usageRef);
+
+    const limit = stored.rate_limit_per_minute ?? getDefaultRateLimit();
+    const used = stored.window_start === window ? stored.window_count ?? 0 : 0;
+    const allowed = used < limit;
+
+    const changes: DocumentData = allowed
+      ? { window_start: window, window_count: used + 1, request_count: stored.request_count + 1, last_used_at: toWibIso(now) }
+      : { rejected_count: stored.rejected_count + 1 };
+    transaction.update(snapshot.docs[0].ref, changes);
+    transaction.set(usageRef, {
+      key_id: stored.id,
+      date: toWibDate(now),
+      requests: (usage.get('requests') ?? 0) + (allowed ? 1 : 0),
+      rejected: (usage.get('rejected') ?? 0) + (allowed ? 0 : 1)
+    });
+
+    return {
+      status: allowed ? 'ok' : 'limited',
+      key: toApiKey({ ...stored, ...changes }),
+      rate: {
+        limit,
+        remaining: allowed ? limit - used - 1 : 0,
+        reset: new Date(windowStart.getTime() + WINDOW_MS)
+      }
+    };
+  });
+}
+
+export function rateLimitHeaders(rate: RateLimitState): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(rate.limit),
+    'X-RateLimit-Remaining': String(rate.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(rate.reset.getTime() / 1000))
+  };
+}
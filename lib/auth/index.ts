@@ -0,0 +1,194 @@
+// lib/auth/index.ts - Who is making a request and what they may see
+//
+// A request is authenticated by a session cookie (signed with AUTH_SECRET)
+// or by an API key from API_KEYS, sent as `Authorization: Bearer <key>` or
+// `X-API-Key`. API_KEYS is a comma-separated list of `role:key` pairs.
+// AUTH_DISABLED=true lets everyone in as an admin, for local development.
+// /api/v1 is separate: it takes only consumer keys from lib/auth/apiKeys,
+// rate limited, and AUTH_DISABLED doesn't apply to it.
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { consumeApiKey, rateLimitHeaders } from '@/lib/auth/apiKeys';
+import { hasRole, isRole, ROLE_LABELS } from '@/lib/auth/roles';
+import { SESSION_COOKIE, SESSION_TTL_SECONDS, signSession, verifySession } from '@/lib/auth/session';
+import { getUser, UserNotFoundError } from '@/lib/auth/users';
+import { getDataStore } from '@/lib/datastore';
+import type { ApiKey, AuthProvider, Role, SessionUser, User } from '@/types';
+
+export * from '@/lib/auth/apiKeys';
+export * from '@/lib/auth/roles';
+export * from '@/lib/auth/session';
+export * from '@/lib/auth/users';
+
+export const LOCAL_USER: SessionUser = {
+  id: 'local',
+  email: null,
+  name: 'Local',
+  role: 'admin',
+  provider: 'local'
+};
+
+export function isAuthDisabled(): boolean {
+  return process.env.AUTH_DISABLED === 'true';
+}
+
+export function getAuthSecret(): string | null {
+  return process.env.AUTH_SECRET || null;
+}
+
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+// A service key from API_KEYS, as opposed to a consumer key
+interface ServiceKey {
+  id: string;
+  role: Role;
+  hash: Buffer;
+}
+
+function parseServiceKeys(): ServiceKey[] {
+  return (process.env.API_KEYS ?? '').split(',').flatMap(entry => {
+    const separator = entry.indexOf(':');
+    const role = entry.slice(0, separator).trim();
+    const key = entry.slice(separator + 1).trim();
+    if (separator < 0 || !key) return [];
+    if (!isRole(role)) {
+      console.warn(`⚠️ Ignoring API key with unknown role "${role}"`);
+      return [];
+    }
+    const hash = sha256(key);
+    return [{ id: `key_${hash.toString('hex').slice(0, 8)}`, role, hash }];
+  });
+}
+
+function requestApiKey(request: NextRequest): string | null {
+  const header = request.headers.get('authorization');
+  if (header?.startsWith('Bearer ')) return header.slice('Bearer '.length).trim();
+  return request.headers.get('x-api-key');
+}
+
+// Keys are compared by hash, so every comparison takes the same time
+function findServiceKey(key: string): SessionUser | null {
+  const hash = sha256(key);
+  const match = parseServiceKeys().find(serviceKey => timingSafeEqual(serviceKey.hash, hash));
+  return match ? { id: match.id, email: null, role: match.role, provider: 'api_key' } : null;
+}
+
+// The session's user as stored now, so a changed role or a deleted user
+// takes effect without waiting for the cookie to expire
+async function sessionUser(token: string, secret: string): Promise<SessionUser | null> {
+  const claims = await verifySession(token, secret);
+  if (!claims) return null;
+
+  try {
+    const user = await getUser(getDataStore(), claims.sub);
+    return { id: user.id, email: user.email, name: user.name, role: user.role, provider: claims.provider };
+  } catch (error) {
+    if (error instanceof UserNotFoundError) return null;
+    throw error;
+  }
+}
+
+export async function getSessionUser(request: NextRequest): Promise<SessionUser | null> {
+  if (isAuthDisabled()) return LOCAL_USER;
+
+  const key = requestApiKey(request);
+  if (key) return findServiceKey(key);
+
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  const secret = getAuthSecret();
+  return token && secret ? sessionUser(token, secret) : null;
+}
+
+export type AuthResult = { user: SessionUser; response?: undefined } | { user?: undefined; response: NextResponse };
+
+// The caller if they hold `role`, else the 401, 403 or 503 to send back
+export async function authorize(request: NextRequest, role: Role): Promise<AuthResult> {
+  const user = await getSessionUser(request);
+
+  if (!user) {
+    if (!getAuthSecret() && !process.env.API_KEYS) {
+      return {
+        response: NextResponse.json(
+          { error: 'Authentication not configured', message: 'Set AUTH_SECRET, or AUTH_DISABLED=true for local development' },
+          { status: 503 }
+        )
+      };
+    }
+    return {
+      response: NextResponse.json(
+        { error: 'Unauthorized', message: 'Sign in or send an API key' },
+        { status: 401 }
+      )
+    };
+  }
+
+  if (!hasRole(user, role)) {
+    return {
+      response: NextResponse.json(
+        { error: 'Forbidden', message: `Requires the ${ROLE_LABELS[role]} role` },
+        { status: 403 }
+      )
+    };
+  }
+
+  return { user };
+}
+
+export type ConsumerAuthResult =
+  | { key: ApiKey; headers: Record<string, string>; response?: undefined }
+  | { key?: undefined; headers?: undefined; response: NextResponse };
+
+// For /api/v1: the consumer's key and the rate limit headers to send with
+// the answer, else the 401 or 429 to send back
+export async function authorizeConsumer(request: NextRequest): Promise<ConsumerAuthResult> {
+  const token = requestApiKey(request);
+  const check = token ? await consumeApiKey(getDataStore(), token) : { status: 'unknown' as const };
+
+  if (check.status === 'unknown' || check.status === 'revoked') {
+    return {
+      response: NextResponse.json(
+        {
+          error: 'Unauthorized',
+          message: check.status === 'revoked'
+            ? 'This API key has been revoked'
+            : 'Send a valid API key as `Authorization: Bearer <key>` or `X-API-Key`'
+        },
+        { status: 401 }
+      )
+    };
+  }
+
+  const headers = rateLimitHeaders(check.rate);
+  if (check.status === 'limited') {
+    const retryAfter = Math.max(1, Math.ceil((check.rate.reset.getTime() - Date.now()) / 1000));
+    return {
+      response: NextResponse.json(
+        { error: 'Too many requests', message: `Rate limit of ${check.rate.limit} requests per minute exceeded` },
+        { status: 429, headers: { ...headers, 'Retry-After': String(retryAfter) } }
+      )
+    };
+  }
+
+  return { key: check.key, headers };
+}
+
+// Signs `user` in on `response`
+export async function startSession(response: NextResponse, user: User, provider: AuthProvider): Promise<void> {
+  const secret = getAuthSecret();
+  if (!secret) throw new Error('AUTH_SECRET is not set');
+
+  const token = await signSession({ sub: user.id, role: user.role, provider }, secret);
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS
+  });
+}
+
+export function endSession(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+}
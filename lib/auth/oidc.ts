@@ -0,0 +1,235 @@
+// lib/auth/oidc.ts - Single sign-on through an OpenID Connect provider
+//
+// The authorization code flow with PKCE. The provider is found through
+// OIDC_ISSUER's discovery document, and the ID token is checked against
+// its published keys. OIDC_ROLE_CLAIM names a claim holding the user's
+// role (a role name or a list containing one); without it, new users get
+// OIDC_DEFAULT_ROLE (viewer) and keep whatever role an admin gives them.
+import { createHash, createPublicKey, randomBytes, verify } from 'crypto';
+import type { JsonWebKey } from 'crypto';
+import { isRole } from '@/lib/auth/roles';
+import type { Role } from '@/types';
+
+export const OIDC_STATE_COOKIE = 'btc_oidc';
+export const OIDC_STATE_TTL_SECONDS = 10 * 60;
+export const OIDC_CALLBACK_PATH = '/api/auth/oidc/callback';
+
+const CLOCK_SKEW_SECONDS = 60;
+
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string;
+  defaultRole: Role;
+  roleClaim?: string;
+}
+
+// Kept in a short-lived cookie between the redirect and the callback
+export interface OidcLoginState {
+  state: string;
+  nonce: string;
+  verifier: string;
+  next: string;
+}
+
+export interface OidcIdentity {
+  email: string;
+  email_verified: boolean;
+  name?: string;
+  role?: Role;
+}
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+type Jwk = JsonWebKey & { kid?: string };
+
+// Null when single sign-on isn't configured
+export function getOidcConfig(): OidcConfig | null {
+  const issuer = process.env.OIDC_ISSUER?.replace(/\/+$/, '');
+  const clientId = process.env.OIDC_CLIENT_ID;
+  if (!issuer || !clientId) return null;
+
+  const defaultRole = process.env.OIDC_DEFAULT_ROLE || 'viewer';
+  if (!isRole(defaultRole)) throw new Error(`OIDC_DEFAULT_ROLE must be a role, got "${defaultRole}"`);
+
+  return {
+    issuer,
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    scopes: process.env.OIDC_SCOPES || 'openid email profile',
+    defaultRole,
+    roleClaim: process.env.OIDC_ROLE_CLAIM || undefined
+  };
+}
+
+// AUTH_URL overrides the request's origin behind a proxy that rewrites it;
+// the result must be registered with the provider as a redirect URI
+export function oidcRedirectUri(origin: string): string {
+  return `${(process.env.AUTH_URL || origin).replace(/\/+$/, '')}${OIDC_CALLBACK_PATH}`;
+}
+
+export function encodeLoginState(state: OidcLoginState): string {
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+export function decodeLoginState(value: string | undefined): OidcLoginState | null {
+  if (!value) return null;
+  try {
+    const state = JSON.parse(Buffer.from(value, 'base64url').toString('utf8')) as OidcLoginState;
+    return typeof state.state === 'string' && typeof state.verifier === 'string' ? state : null;
+  } catch {
+    return null;
+  }
+}
+
+const discoveryCache = new Map<string, DiscoveryDocument>();
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, { ...init, cache: 'no-store' });
+  if (!response.ok) throw new OidcError(`${url} returned HTTP ${response.status}`);
+  return (await response.json()) as T;
+}
+
+async function discover(issuer: string): Promise<DiscoveryDocument> {
+  const cached = discoveryCache.get(issuer);
+  if (cached) return cached;
+
+  const document = await fetchJson<DiscoveryDocument>(`${issuer}/.well-known/openid-configuration`);
+  if (document.issuer?.replace(/\/+$/, '') !== issuer) {
+    throw new OidcError(`Discovery document is for issuer ${document.issuer}, expected ${issuer}`);
+  }
+  discoveryCache.set(issuer, document);
+  return document;
+}
+
+function randomToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export async function createAuthorizationRequest(
+  config: OidcConfig,
+  redirectUri: string,
+  next: string
+): Promise<{ url: string; state: OidcLoginState }> {
+  const { authorization_endpoint } = await discover(config.issuer);
+  const state: OidcLoginState = { state: randomToken(), nonce: randomToken(), verifier: randomToken(), next };
+
+  const url = new URL(authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', config.clientId);
+  url.searchParams.set('redirect_uri', redirectUri);
+  url.searchParams.set('scope', config.scopes);
+  url.searchParams.set('state', state.state);
+  url.searchParams.set('nonce', state.nonce);
+  url.searchParams.set('code_challenge', createHash('sha256').update(state.verifier).digest('base64url'));
+  url.searchParams.set('code_challenge_method', 'S256');
+
+  return { url: url.toString(), state };
+}
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+}
+
+// The claims of an ID token signed by one of `keys` (RS256 or ES256),
+// issued by `issuer` for `audience` with `nonce`, and not expired
+export function verifyIdToken(
+  token: string,
+  keys: Jwk[],
+  expected: { issuer: string; audience: string; nonce: string },
+  now = new Date()
+): Record<string, unknown> {
+  const [header, payload, signature, extra] = token.split('.');
+  if (!header || !payload || !signature || extra !== undefined) throw new OidcError('ID token is not a JWT');
+
+  const { alg, kid } = decodeSegment<{ alg?: string; kid?: string }>(header);
+  if (alg !== 'RS256' && alg !== 'ES256') throw new OidcError(`Unsupported ID token algorithm ${alg}`);
+
+  const jwk = keys.find(key => (kid ? key.kid === kid : true) && key.kty === (alg === 'RS256' ? 'RSA' : 'EC'));
+  if (!jwk) throw new OidcError(`No signing key ${kid ?? ''} for the ID token`);
+
+  const key = createPublicKey({ key: jwk, format: 'jwk' });
+  const data = Buffer.from(`${header}.${payload}`);
+  const valid = verify(
+    'sha256',
+    data,
+    alg === 'ES256' ? { key, dsaEncoding: 'ieee-p1363' } : key,
+    Buffer.from(signature, 'base64url')
+  );
+  if (!valid) throw new OidcError('ID token signature is invalid');
+
+  const claims = decodeSegment<Record<string, unknown>>(payload);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const seconds = now.getTime() / 1000;
+
+  if (claims.iss !== expected.issuer) throw new OidcError(`ID token issuer ${claims.iss} is not ${expected.issuer}`);
+  if (!audiences.includes(expected.audience)) throw new OidcError('ID token is for another client');
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < seconds) throw new OidcError('ID token has expired');
+  if (claims.nonce !== expected.nonce) throw new OidcError('ID token nonce does not match');
+  return claims;
+}
+
+function roleFromClaim(value: unknown): Role | undefined {
+  const values = Array.isArray(value) ? value : [value];
+  // The highest role listed, for providers that send every group
+  return ['admin', 'operator', 'viewer'].find(role => values.includes(role)) as Role | undefined;
+}
+
+export function identityFromClaims(claims: Record<string, unknown>, config: OidcConfig): OidcIdentity {
+  const email = typeof claims.email === 'string' ? claims.email : null;
+  if (!email) throw new OidcError('ID token has no email claim; add the "email" scope');
+  if (claims.email_verified === false) throw new OidcError(`Email ${email} is not verified`);
+
+  const name = typeof claims.name === 'string' ? claims.name.trim().slice(0, 100) : '';
+  return {
+    email,
+    // Only an explicit true counts; a provider that omits the claim can't link accounts
+    email_verified: claims.email_verified === true,
+    name: name || undefined,
+    role: config.roleClaim ? roleFromClaim(claims[config.roleClaim]) : undefined
+  };
+}
+
+// Trades the callback's code for tokens and returns who signed in
+export async function completeAuthorization(
+  config: OidcConfig,
+  { code, redirectUri, state }: { code: string; redirectUri: string; state: OidcLoginState }
+): Promise<OidcIdentity> {
+  const discovery = await discover(config.issuer);
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    code_verifier: state.verifier,
+    client_id: config.clientId
+  });
+  if (config.clientSecret) {
+    const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  const tokens = await fetchJson<{ id_token?: string }>(discovery.token_endpoint, { method: 'POST', headers, body });
+  if (!tokens.id_token) throw new OidcError('Token response has no ID token');
+
+  const { keys } = await fetchJson<{ keys: Jwk[] }>(discovery.jwks_uri);
+  const claims = verifyIdToken(tokens.id_token, keys, {
+    issuer: discovery.issuer,
+    audience: config.clientId,
+    nonce: state.nonce
+  });
+  return identityFromClaims(claims, config);
+}
@@ -0,0 +1,35 @@
+// lib/auth/passwords.ts - Password hashing with scrypt
+//
+// Stored as `scrypt$<salt>$<hash>`, both base64url, so the parameters can
+// change later without breaking existing hashes.
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+const PREFIX = 'scrypt';
+
+function derive(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await derive(password, salt);
+  return [PREFIX, salt.toString('base64url'), key.toString('base64url')].join('$');
+}
+
+// Hashed against a throwaway salt when there is no hash to compare with, so
+// an unknown email takes as long to reject as a wrong password
+export async function verifyPassword(password: string, stored: string | undefined): Promise<boolean> {
+  const [prefix, salt, hash] = stored?.split('$') ?? [];
+  if (prefix !== PREFIX || !salt || !hash) {
+    await derive(password, randomBytes(SALT_BYTES));
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'base64url');
+  const key = await derive(password, Buffer.from(salt, 'base64url'));
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
@@ -0,0 +1,25 @@
+// lib/auth/roles.ts - Roles and what each one may do
+//
+// Each role includes everything the ones before it can do: viewers see
+// signals and stats, operators also see system internals and exports, and
+// admins also manage alert rules, users and settings. Safe to import from
+// client components.
+import { ROLE_VALUES } from '@/types/schemas';
+import type { Role } from '@/types';
+
+export const ROLES: readonly Role[] = ROLE_VALUES;
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: 'Viewer',
+  operator: 'Operator',
+  admin: 'Admin'
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && ROLES.includes(value as Role);
+}
+
+// Whether `user` may do what `required` may; no user may do nothing
+export function hasRole(user: { role: Role } | null | undefined, required: Role): boolean {
+  return !!user && ROLES.indexOf(user.role) >= ROLES.indexOf(required);
+}
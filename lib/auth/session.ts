@@ -0,0 +1,68 @@
+// lib/auth/session.ts - Signed session cookies
+//
+// A session is a small JSON payload and its HMAC-SHA256 signature, both
+// base64url encoded and joined with a dot. Only Web Crypto is used, so the
+// proxy can check a cookie without touching the data store.
+import type { AuthProvider, Role } from '@/types';
+
+export const SESSION_COOKIE = 'btc_session';
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export interface SessionClaims {
+  sub: string; // user id
+  role: Role;
+  provider: AuthProvider;
+  iat: number; // seconds since epoch
+  exp: number; // seconds since epoch
+}
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+function hmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+export async function signSession(
+  claims: Omit<SessionClaims, 'iat' | 'exp'>,
+  secret: string,
+  now = new Date()
+): Promise<string> {
+  const iat = Math.floor(now.getTime() / 1000);
+  const payload = toBase64Url(encoder.encode(JSON.stringify({ ...claims, iat, exp: iat + SESSION_TTL_SECONDS })));
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret), encoder.encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// The claims of a token signed with `secret` that hasn't expired, else null
+export async function verifySession(token: string | undefined, secret: string, now = new Date()): Promise<SessionClaims | null> {
+  const [payload, signature, extra] = token?.split('.') ?? [];
+  if (!payload || !signature || extra !== undefined) return null;
+
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await hmacKey(secret), fromBase64Url(signature), encoder.encode(payload));
+    if (!valid) return null;
+
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as SessionClaims;
+    if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number') return null;
+    return claims.exp > now.getTime() / 1000 ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+// Where to send someone after signing in: a path on this site, never an
+// absolute or protocol-relative URL
+export function safeRedirectPath(value: string | null | undefined): string {
+  return value && value.startsWith('/') && !value.startsWith('//') && !value.startsWith('/\\') ? value : '/';
+}
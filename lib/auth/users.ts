@@ -0,0 +1,189 @@
+// lib/auth/users.ts - CRUD for dashboard users in the data store
+import type { z } from 'zod';
+import { hashPassword, verifyPassword } from '@/lib/auth/passwords';
+import type { DataStore, DocumentData, StoreTransaction } from '@/lib/datastore';
+import { COLLECTIONS } from '@/lib/firebase';
+import { toWibIso } from '@/lib/time';
+import { omit, parseDoc, parseDocs } from '@/lib/validation';
+import { LoginInputSchema, UserInputSchema, UserSchema, UserUpdateSchema } from '@/types/schemas';
+import type { DataWarning, Role, User } from '@/types';
+
+type StoredUser = z.infer<typeof UserSchema>;
+
+export class UserNotFoundError extends Error {
+  constructor(id: string) {
+    super(`User ${id} not found`);
+    this.name = 'UserNotFoundError';
+  }
+}
+
+export class UserInputError extends Error {
+  issues: string[];
+
+  constructor(error: z.ZodError) {
+    const issues = error.issues.map(issue => `${issue.path.join('.') || '(body)'}: ${issue.message}`);
+    super(issues.join('; '));
+    this.name = 'UserInputError';
+    this.issues = issues;
+  }
+}
+
+// A second user with the same email, or a change that would leave no admin
+export class UserConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UserConflictError';
+  }
+}
+
+function parseInput<S extends z.ZodType>(schema: S, body: unknown): z.infer<S> {
+  const result = schema.safeParse(body);
+  if (!result.success) throw new UserInputError(result.error);
+  return result.data;
+}
+
+function toUser(user: StoredUser): User {
+  return omit(user, 'password_hash');
+}
+
+function users(db: DataStore) {
+  return db.collection(COLLECTIONS.users);
+}
+
+async function getStoredUser(db: DataStore, id: string): Promise<StoredUser> {
+  const doc = await users(db).doc(id).get();
+  const user = doc.exists ? parseDoc(UserSchema, COLLECTIONS.users, doc, []) : null;
+  if (!user) throw new UserNotFoundError(id);
+  return user;
+}
+
+async function findStoredUser(db: DataStore, email: string): Promise<StoredUser | null> {
+  const snapshot = await users(db).where('email', '==', email.toLowerCase()).limit(1).get();
+  return snapshot.empty ? null : parseDoc(UserSchema, COLLECTIONS.users, snapshot.docs[0], []);
+}
+
+// Checked inside the transaction that demotes or removes `id`
+async function hasOtherAdmin(transaction: StoreTransaction, db: DataStore, id: string): Promise<boolean> {
+  const admins = await transaction.get(users(db).where('role', '==', 'admin'));
+  return admins.docs.some(doc => doc.id !== id);
+}
+
+async function assertOtherAdmin(transaction: StoreTransaction, db: DataStore, id: string): Promise<void> {
+  if (!(await hasOtherAdmin(transaction, db, id))) {
+    throw new UserConflictError('At least one admin must remain');
+  }
+}
+
+export async function listUsers(db: DataStore, warnings: DataWarning[] = []): Promise<User[]> {
+  const snapshot = await users(db).orderBy('created_at', 'asc').get();
+  return parseDocs(UserSchema, COLLECTIONS.users, snapshot.docs, warnings).map(toUser);
+}
+
+export async function getUser(db: DataStore, id: string): Promise<User> {
+  return toUser(await getStoredUser(db, id));
+}
+
+export async function findUserByEmail(db: DataStore, email: string): Promise<User | null> {
+  const user = await findStoredUser(db, email);
+  return user && toUser(user);
+}
+
+export async function createUser(db: DataStore, body: unknown): Promise<User> {
+  const { password, ...input } = parseInput(UserInputSchema, body);
+  const now = toWibIso(new Date());
+  const ref = users(db).doc();
+  const data: DocumentData = { ...input, created_at: now, updated_at: now };
+  if (password) data.password_hash = await hashPassword(password);
+
+  await db.runTransaction(async transaction => {
+    const existing = await transaction.get(users(db).where('email', '==', input.email).limit(1));
+    if (!existing.empty) throw new UserConflictError(`A user with email ${input.email} already exists`);
+    transaction.set(ref, data);
+  });
+  return toUser({ ...(data as Omit<StoredUser, 'id'>), id: ref.id });
+}
+
+// Only the fields sent change; the last admin can't be demoted
+export async function updateUser(db: DataStore, id: string, body: unknown): Promise<User> {
+  const { password, ...input } = parseInput(UserUpdateSchema, body);
+  const changes: DocumentData = { ...input, updated_at: toWibIso(new Date()) };
+  if (password) changes.password_hash = await hashPassword(password);
+
+  await db.runTransaction(async transaction => {
+    const doc = await transaction.get(users(db).doc(id));
+    if (!doc.exists) throw new UserNotFoundError(id);
+    if (doc.get('role') === 'admin' && input.role && input.role !== 'admin') {
+      await assertOtherAdmin(transaction, db, id);
+    }
+    transaction.update(users(db).doc(id), changes);
+  });
+  return getUser(db, id);
+}
+
+export async function deleteUser(db: DataStore, id: string): Promise<void> {
+  await db.runTransaction(async transaction => {
+    const doc = await transaction.get(users(db).doc(id));
+    if (!doc.exists) throw new UserNotFoundError(id);
+    if (doc.get('role') === 'admin') await assertOtherAdmin(transaction, db, id);
+    transaction.delete(users(db).doc(id));
+  });
+}
+
+// The user a login form's email and password belong to, else null
+export async function verifyCredentials(db: DataStore, body: unknown): Promise<User | null> {
+  const result = LoginInputSchema.safeParse(body);
+  if (!result.success) return null;
+
+  const user = await findStoredUser(db, result.data.email);
+  const valid = await verifyPassword(result.data.password, user?.password_hash);
+  return valid && user ? toUser(user) : null;
+}
+
+export async function recordLogin(db: DataStore, id: string): Promise<void> {
+  const now = toWibIso(new Date());
+  await users(db).doc(id).update({ last_login_at: now });
+}
+
+// Signs in someone the identity provider vouched for. A new email becomes a
+// user with `role`; an existing one keeps its role unless the provider
+// states one, and the last admin keeps theirs whatever it states. Users are
+// matched by email, so the provider must have verified it.
+export async function upsertOidcUser(
+  db: DataStore,
+  identity: { email: string; email_verified: boolean; name?: string; role?: Role },
+  defaultRole: Role
+): Promise<User> {
+  const email = identity.email.toLowerCase();
+  if (!identity.email_verified) {
+    throw new UserConflictError(`Email ${email} is not verified by the identity provider`);
+  }
+  const now = toWibIso(new Date());
+  const existing = await findStoredUser(db, email);
+
+  if (existing) {
+    const changes = await db.runTransaction(async transaction => {
+      const ref = users(db).doc(existing.id);
+      const role = (await transaction.get(ref)).get('role') as Role;
+      const update: DocumentData = { last_login_at: now };
+      if (identity.role && identity.role !== role) {
+        if (role !== 'admin' || await hasOtherAdmin(transaction, db, existing.id)) {
+          update.role = identity.role;
+          update.updated_at = now;
+        } else {
+          console.warn(`⚠️ Kept ${email} as admin: the role claim says ${identity.role}, but no other admin remains`);
+        }
+      }
+      transaction.update(ref, update);
+      return update;
+    });
+    return toUser({ ...existing, ...changes });
+  }
+
+  const user = await createUser(db, {
+    email,
+    name: identity.name,
+    role: identity.role ?? defaultRole
+  });
+  await recordLogin(db, user.id);
+  return { ...user, last_login_at: now };
+}
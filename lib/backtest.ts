@@ -0,0 +1,258 @@
+// lib/backtest.ts - Simulate trading the validated prediction signals
+import { confidenceProbability } from '@/lib/aggregates';
+import type { DataStore } from '@/lib/datastore';
+import { assetCollections } from '@/lib/firebase';
+import { toWibDate, toWibIso } from '@/lib/time';
+import { parseDocs } from '@/lib/validation';
+import { PredictionSchema } from '@/types/schemas';
+import { isBullishDirection } from '@/types';
+import type {
+  Asset,
+  BacktestConfig,
+  BacktestEquityPoint,
+  BacktestResult,
+  BacktestTimeframeResult,
+  Prediction,
+  StatsPeriod
+} from '@/types';
+
+const MAX_PREDICTIONS = 20000;
+const MAX_CURVE_POINTS = 500;
+const TRADING_DAYS_PER_YEAR = 365;
+
+export const DEFAULT_BACKTEST_CONFIG: BacktestConfig = {
+  mode: 'binary',
+  stake: 'fixed',
+  stake_amount: 100,
+  initial_capital: 10000,
+  min_confidence: 0,
+  timeframes: null,
+  payout_pct: 80,
+  fee_pct: 0,
+  slippage_pct: 0
+};
+
+export class BacktestQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BacktestQueryError';
+  }
+}
+
+function numberParam(params: URLSearchParams, name: string, fallback: number, min: number, max: number): number {
+  const raw = params.get(name);
+  if (raw === null || raw === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < min || value > max) {
+    throw new BacktestQueryError(`${name} must be a number between ${min} and ${max}`);
+  }
+  return value;
+}
+
+// Every knob is optional and falls back to DEFAULT_BACKTEST_CONFIG;
+// ?timeframes= is a comma-separated list of minutes
+export function parseBacktestConfig(params: URLSearchParams): BacktestConfig {
+  const defaults = DEFAULT_BACKTEST_CONFIG;
+
+  const mode = params.get('mode') || defaults.mode;
+  if (mode !== 'binary' && mode !== 'spot') {
+    throw new BacktestQueryError('mode must be binary or spot');
+  }
+  const stake = params.get('stake') || defaults.stake;
+  if (stake !== 'fixed' && stake !== 'percent') {
+    throw new BacktestQueryError('stake must be fixed or percent');
+  }
+
+  let timeframes: number[] | null = null;
+  if (params.get('timeframes')) {
+    timeframes = params.get('timeframes')!.split(',').map(Number);
+    if (timeframes.some(tf => !Number.isInteger(tf) || tf <= 0)) {
+      throw new BacktestQueryError('timeframes must be a comma-separated list of minutes');
+    }
+  }
+
+  return {
+    mode,
+    stake,
+    stake_amount: numberParam(params, 'stake_amount', defaults.stake_amount, 0.01, stake === 'percent' ? 100 : 1e9),
+    initial_capital: numberParam(params, 'initial_capital', defaults.initial_capital, 1, 1e12),
+    min_confidence: numberParam(params, 'min_confidence', defaults.min_confidence, 0, 100),
+    timeframes,
+    payout_pct: numberParam(params, 'payout_pct', defaults.payout_pct, 0, 1000),
+    fee_pct: numberParam(params, 'fee_pct', defaults.fee_pct, 0, 100),
+    slippage_pct: numberParam(params, 'slippage_pct', defaults.slippage_pct, 0, 100)
+  };
+}
+
+interface Trade {
+  prediction: Prediction;
+  outcome: 'win' | 'loss' | 'push';
+  pnl: number;
+  fee: number;
+}
+
+// Profit of one signal before fees. Binary pays a fixed share of the stake
+// for a correct call and loses the stake otherwise; spot buys (CALL) or
+// shorts (PUT) at current_price and closes at actual_price.
+function settle(prediction: Prediction, stake: number, config: BacktestConfig): Omit<Trade, 'fee' | 'prediction'> {
+  const actual = prediction.actual_price as number;
+  const long = isBullishDirection(prediction.trend);
+  const move = actual - prediction.current_price;
+
+  if (move === 0 && config.mode === 'binary') return { outcome: 'push', pnl: 0 };
+
+  if (config.mode === 'binary') {
+    const won = long ? move > 0 : move < 0;
+    return { outcome: won ? 'win' : 'loss', pnl: won ? stake * (config.payout_pct / 100) : -stake };
+  }
+
+  const slip = config.slippage_pct / 100;
+  const entry = prediction.current_price * (long ? 1 + slip : 1 - slip);
+  const exit = actual * (long ? 1 - slip : 1 + slip);
+  const pnl = stake * (long ? exit - entry : entry - exit) / entry;
+  return { outcome: pnl > 0 ? 'win' : pnl < 0 ? 'loss' : 'push', pnl };
+}
+
+function eligible(prediction: Prediction, config: BacktestConfig): boolean {
+  return prediction.validated
+    && prediction.actual_price !== undefined
+    && confidenceProbability(prediction.confidence) * 100 >= config.min_confidence
+    && (config.timeframes === null || config.timeframes.includes(prediction.timeframe_minutes));
+}
+
+function downsample(points: BacktestEquityPoint[]): BacktestEquityPoint[] {
+  if (points.length <= MAX_CURVE_POINTS) return points;
+  const step = points.length / MAX_CURVE_POINTS;
+  const sampled = Array.from({ length: MAX_CURVE_POINTS - 1 }, (_, i) => points[Math.floor(i * step)]);
+  return [...sampled, points[points.length - 1]];
+}
+
+// Trades settle in target_time order and each one is sized from the equity
+// at that moment. Overlapping signals are all taken; margin is not modeled.
+export function runBacktest(
+  predictions: Prediction[],
+  config: BacktestConfig,
+  period: StatsPeriod,
+  truncated = false
+): BacktestResult {
+  const signals = predictions
+    .filter(prediction => eligible(prediction, config))
+    .sort((a, b) => new Date(a.target_time).getTime() - new Date(b.target_time).getTime());
+
+  let equity = config.initial_capital;
+  let peak = equity;
+  let maxDrawdown = 0;
+  let maxDrawdownPct = 0;
+  let streak = 0;
+  let longestStreak = 0;
+  let ruined = false;
+
+  const trades: Trade[] = [];
+  const curve: BacktestEquityPoint[] = [];
+  const dailyPnl = new Map<string, { start: number; pnl: number }>();
+
+  for (const prediction of signals) {
+    if (equity <= 0) {
+      ruined = true;
+      break;
+    }
+
+    const stake = Math.min(
+      equity,
+      config.stake === 'percent' ? equity * (config.stake_amount / 100) : config.stake_amount
+    );
+    const fee = stake * (config.fee_pct / 100);
+    const { outcome, pnl } = settle(prediction, stake, config);
+    const net = pnl - fee;
+
+    const day = toWibDate(new Date(prediction.target_time));
+    const daily = dailyPnl.get(day) ?? { start: equity, pnl: 0 };
+    daily.pnl += net;
+    dailyPnl.set(day, daily);
+
+    equity += net;
+    trades.push({ prediction, outcome, pnl: net, fee });
+
+    peak = Math.max(peak, equity);
+    const drawdown = peak - equity;
+    maxDrawdown = Math.max(maxDrawdown, drawdown);
+    maxDrawdownPct = Math.max(maxDrawdownPct, peak > 0 ? (drawdown / peak) * 100 : 0);
+
+    streak = outcome === 'loss' ? streak + 1 : outcome === 'win' ? 0 : streak;
+    longestStreak = Math.max(longestStreak, streak);
+
+    curve.push({
+      time: prediction.target_time,
+      equity,
+      drawdown_pct: peak > 0 ? (drawdown / peak) * 100 : 0
+    });
+  }
+
+  const dailyReturns = Array.from(dailyPnl.values())
+    .filter(day => day.start > 0)
+    .map(day => day.pnl / day.start);
+  let sharpe: number | null = null;
+  if (dailyReturns.length > 1) {
+    const mean = dailyReturns.reduce((sum, r) => sum + r, 0) / dailyReturns.length;
+    const variance = dailyReturns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (dailyReturns.length - 1);
+    sharpe = variance > 0 ? (mean / Math.sqrt(variance)) * Math.sqrt(TRADING_DAYS_PER_YEAR) : null;
+  }
+
+  const byTimeframe = new Map<number, BacktestTimeframeResult>();
+  trades.forEach(trade => {
+    const tf = trade.prediction.timeframe_minutes;
+    const row = byTimeframe.get(tf) ?? { timeframe_minutes: tf, trades: 0, wins: 0, win_rate: 0, pnl: 0 };
+    row.trades += 1;
+    if (trade.outcome === 'win') row.wins += 1;
+    row.pnl += trade.pnl;
+    row.win_rate = (row.wins / row.trades) * 100;
+    byTimeframe.set(tf, row);
+  });
+
+  const wins = trades.filter(trade => trade.outcome === 'win').length;
+  const losses = trades.filter(trade => trade.outcome === 'loss').length;
+
+  return {
+    period,
+    config,
+    trades: trades.length,
+    wins,
+    losses,
+    pushes: trades.length - wins - losses,
+    win_rate: wins + losses > 0 ? (wins / (wins + losses)) * 100 : 0,
+    total_pnl: equity - config.initial_capital,
+    fees: trades.reduce((sum, trade) => sum + trade.fee, 0),
+    final_equity: equity,
+    return_pct: ((equity - config.initial_capital) / config.initial_capital) * 100,
+    max_drawdown: maxDrawdown,
+    max_drawdown_pct: maxDrawdownPct,
+    sharpe,
+    longest_losing_streak: longestStreak,
+    ruined,
+    equity_curve: downsample(curve),
+    by_timeframe: Array.from(byTimeframe.values()).sort((a, b) => a.timeframe_minutes - b.timeframe_minutes),
+    truncated
+  };
+}
+
+// Validated predictions whose prediction_time falls in the period, oldest
+// first, capped at MAX_PREDICTIONS
+export async function loadBacktestPredictions(
+  db: DataStore,
+  period: StatsPeriod,
+  asset?: Asset
+): Promise<{ predictions: Prediction[]; truncated: boolean }> {
+  const collections = assetCollections(asset);
+  let query = db
+    .collection(collections.predictions)
+    .where('prediction_time', '<=', toWibIso(new Date(period.to)));
+  if (period.from) query = query.where('prediction_time', '>=', toWibIso(new Date(period.from)));
+
+  const snapshot = await query.orderBy('prediction_time', 'asc').limit(MAX_PREDICTIONS + 1).get();
+  const docs = snapshot.docs.slice(0, MAX_PREDICTIONS);
+
+  return {
+    predictions: parseDocs(PredictionSchema, collections.predictions, docs, []),
+    truncated: snapshot.docs.length > MAX_PREDICTIONS
+  };
+}
@@ -0,0 +1,121 @@
+// lib/calibration.ts - Does stated confidence match the observed win rate?
+import { bucketField, CALIBRATION_BUCKETS, emptyCounts, mergeCounts } from '@/lib/aggregates';
+import type { AggregateCounts, WindowTotals } from '@/lib/aggregates';
+import { getTimeframeCategory, TIMEFRAME_CATEGORY_ORDER } from '@/types';
+import type {
+  CalibrationBucket,
+  CalibrationReport,
+  CalibrationThreshold,
+  StatsPeriod,
+  TimeframeCategory
+} from '@/types';
+
+const BUCKET_WIDTH = 100 / CALIBRATION_BUCKETS;
+
+export class CalibrationQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalibrationQueryError';
+  }
+}
+
+export interface CalibrationSlice {
+  timeframe: number | null;
+  category: TimeframeCategory | null;
+}
+
+// ?timeframe= (minutes) or ?category=ultra_short|short|medium|long
+export function parseCalibrationSlice(params: URLSearchParams): CalibrationSlice {
+  const timeframeParam = params.get('timeframe');
+  const categoryParam = params.get('category');
+
+  if (timeframeParam && categoryParam) {
+    throw new CalibrationQueryError('use either timeframe or category, not both');
+  }
+
+  let timeframe: number | null = null;
+  if (timeframeParam) {
+    timeframe = Number(timeframeParam);
+    if (!Number.isInteger(timeframe) || timeframe <= 0) {
+      throw new CalibrationQueryError('timeframe must be a positive number of minutes');
+    }
+  }
+
+  let category: TimeframeCategory | null = null;
+  if (categoryParam) {
+    if (!TIMEFRAME_CATEGORY_ORDER.includes(categoryParam as TimeframeCategory)) {
+      throw new CalibrationQueryError(`category must be one of ${TIMEFRAME_CATEGORY_ORDER.join(', ')}`);
+    }
+    category = categoryParam as TimeframeCategory;
+  }
+
+  return { timeframe, category };
+}
+
+function sliceCounts(totals: WindowTotals, { timeframe, category }: CalibrationSlice): AggregateCounts {
+  const sum = emptyCounts();
+  totals.byTimeframe.forEach((counts, tf) => {
+    if (timeframe !== null && tf !== timeframe) return;
+    if (category !== null && getTimeframeCategory(tf) !== category) return;
+    mergeCounts(sum, counts);
+  });
+  return sum;
+}
+
+export function buildCalibration(
+  totals: WindowTotals,
+  period: StatsPeriod,
+  slice: CalibrationSlice
+): CalibrationReport {
+  const counts = sliceCounts(totals, slice);
+
+  const buckets: CalibrationBucket[] = Array.from({ length: CALIBRATION_BUCKETS }, (_, index) => {
+    const count = counts[bucketField(index, 'count')];
+    const wins = counts[bucketField(index, 'wins')];
+    return {
+      lower: index * BUCKET_WIDTH,
+      upper: (index + 1) * BUCKET_WIDTH,
+      count,
+      wins,
+      win_rate: count > 0 ? (wins / count) * 100 : null,
+      avg_confidence: count > 0 ? (counts[bucketField(index, 'sum')] / count) * 100 : null
+    };
+  });
+
+  const samples = buckets.reduce((sum, bucket) => sum + bucket.count, 0);
+
+  // Weighted gap between predicted and observed win rate across buckets
+  const ece = samples > 0
+    ? buckets.reduce((sum, bucket) => (
+        bucket.count > 0
+          ? sum + (bucket.count / samples) * Math.abs((bucket.win_rate as number) - (bucket.avg_confidence as number))
+          : sum
+      ), 0)
+    : null;
+
+  // Cumulative from the top bucket down: everything at or above each cut-off
+  const thresholds: CalibrationThreshold[] = [];
+  let count = 0;
+  let wins = 0;
+  for (let index = CALIBRATION_BUCKETS - 1; index >= 0; index--) {
+    count += buckets[index].count;
+    wins += buckets[index].wins;
+    thresholds.unshift({
+      min_confidence: buckets[index].lower,
+      count,
+      win_rate: count > 0 ? (wins / count) * 100 : null,
+      coverage: samples > 0 ? (count / samples) * 100 : 0
+    });
+  }
+
+  return {
+    period,
+    timeframe_minutes: slice.timeframe,
+    category: slice.category,
+    samples,
+    brier_score: samples > 0 ? counts.brier_sum / samples : null,
+    ece,
+    buckets,
+    thresholds
+  };
+}
@@ -0,0 +1,27 @@
+// lib/cron.ts - Shared guard for routes meant to be hit by a scheduler
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest();
+
+// When CRON_SECRET is set the caller must send it as a bearer token, which
+// is what Vercel Cron does. Without it only an admin may call the route.
+// Returns the 401, 403 or 503 response to send, or null.
+export async function rejectUnauthorizedCron(request: NextRequest): Promise<NextResponse | null> {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    const auth = await authorize(request, 'admin');
+    return auth.response ?? null;
+  }
+
+  // Compared by hash so the check takes the same time whatever was sent
+  const header = request.headers.get('authorization');
+  const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+  if (timingSafeEqual(sha256(token), sha256(secret))) return null;
+
+  return NextResponse.json(
+    { error: 'Unauthorized', message: 'Missing or invalid cron secret' },
+    { status: 401 }
+  );
+}
@@ -0,0 +1,46 @@
+// lib/datastore/file.ts - DataStore persisted to a single JSON file
+//
+// The in-memory store, loaded from the file on start and written back after
+// commits. Writes are coalesced, so a burst of small writes costs one file
+// write; the pending timer keeps a script alive until the file is saved.
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { createMemoryStore } from '@/lib/datastore/memory';
+import type { DataStore, StoreData } from '@/lib/datastore/types';
+
+const WRITE_DELAY_MS = 100;
+
+export function readStoreFile(path: string): StoreData | null {
+  if (!existsSync(path)) return null;
+  return JSON.parse(readFileSync(path, 'utf8')) as StoreData;
+}
+
+// Written to a temporary file first, so a crash never leaves half a store
+export function writeStoreFile(path: string, data: StoreData): void {
+  mkdirSync(dirname(path), { recursive: true });
+  const temporary = `${path}.tmp`;
+  writeFileSync(temporary, JSON.stringify(data));
+  renameSync(temporary, path);
+}
+
+// `seed` fills a file that doesn't exist yet
+export function createFileStore(path: string, seed?: () => StoreData): DataStore {
+  let initial = readStoreFile(path);
+  if (!initial && seed) {
+    initial = seed();
+    writeStoreFile(path, initial);
+  }
+
+  let pending: ReturnType<typeof setTimeout> | null = null;
+  return createMemoryStore(initial ?? {}, data => {
+    if (pending) return;
+    pending = setTimeout(() => {
+      pending = null;
+      try {
+        writeStoreFile(path, data);
+      } catch (error) {
+        console.error(`❌ Failed to write data file ${path}:`, error);
+      }
+    }, WRITE_DELAY_MS);
+  });
+}
@@ -0,0 +1,56 @@
+// lib/datastore/index.ts - Pick the backend the server reads and writes
+//
+// DATA_SOURCE=firestore (default) uses Firebase Admin. DATA_SOURCE=memory
+// starts from generated data every time the server starts, and
+// DATA_SOURCE=file keeps the data in DATA_FILE (.data/store.json), generating
+// it the first time. Generated data keeps moving on its own (new
+// predictions, validations, heartbeats) unless SEED_LIVE=false.
+import { join } from 'path';
+import { createFileStore } from '@/lib/datastore/file';
+import { createMemoryStore } from '@/lib/datastore/memory';
+import { DEFAULT_SEED_DAYS, generateSeedData, startSeedTicker } from '@/lib/datastore/seed';
+import { envNumber } from '@/lib/env';
+import { initFirebaseAdmin } from '@/lib/firebase';
+import type { DataSource, DataStore } from '@/lib/datastore/types';
+
+export * from '@/lib/datastore/types';
+
+export const DATA_SOURCES: DataSource[] = ['firestore', 'memory', 'file'];
+
+export function getDataSource(): DataSource {
+  const raw = (process.env.DATA_SOURCE || 'firestore').toLowerCase() as DataSource;
+  if (!DATA_SOURCES.includes(raw)) {
+    throw new Error(`DATA_SOURCE must be one of ${DATA_SOURCES.join(', ')}`);
+  }
+  return raw;
+}
+
+export function getDataFile(): string {
+  return process.env.DATA_FILE || join(process.cwd(), '.data', 'store.json');
+}
+
+function createDataStore(source: DataSource): DataStore {
+  if (source === 'firestore') return initFirebaseAdmin();
+
+  const seed = () => generateSeedData({ days: envNumber('SEED_DAYS', DEFAULT_SEED_DAYS) });
+  const store = source === 'memory' ? createMemoryStore(seed()) : createFileStore(getDataFile(), seed);
+  console.log(`✅ Using ${source === 'memory' ? 'in-memory data' : `data file ${getDataFile()}`}`);
+
+  if (process.env.SEED_LIVE !== 'false') startSeedTicker(store);
+  return store;
+}
+
+// Kept on globalThis: Next.js bundles routes separately and reloads
+// modules in dev, and every route must see the same memory store
+const globalStore = globalThis as typeof globalThis & { __dataStore?: DataStore };
+
+export function getDataStore(): DataStore {
+  globalStore.__dataStore ??= createDataStore(getDataSource());
+  return globalStore.__dataStore;
+}
+
+// For tests: route handlers then run against `store`; undefined goes back
+// to the DATA_SOURCE backend
+export function setDataStore(store: DataStore | undefined): void {
+  globalStore.__dataStore = store;
+}
@@ -0,0 +1,362 @@
+// lib/datastore/memory.ts - In-memory DataStore with Firestore's query semantics
+//
+// Good enough to run the dashboard offline and to test against: filters,
+// ordering (documents missing an ordered field drop out), cursors, limits,
+// counts, batches, serialized transactions and snapshot listeners all
+// behave as they do on Firestore. Like Firestore, undefined values are
+// rejected rather than silently dropped.
+import { DOCUMENT_ID } from '@/lib/datastore/types';
+import type {
+  DataStore,
+  DocumentData,
+  OrderDirection,
+  StoreCollectionReference,
+  StoreData,
+  StoreDocumentChange,
+  StoreDocumentReference,
+  StoreDocumentSnapshot,
+  StoreQuery,
+  StoreQueryDocumentSnapshot,
+  StoreQuerySnapshot,
+  StoreSetOptions,
+  StoreTransaction,
+  StoreWriteBatch,
+  WhereOp
+} from '@/lib/datastore/types';
+
+interface Filter {
+  field: string;
+  op: WhereOp;
+  value: unknown;
+}
+
+interface QueryState {
+  collection: string;
+  filters: Filter[];
+  orders: { field: string; direction: OrderDirection }[];
+  limit: number | null;
+  cursor: unknown[] | StoreDocumentSnapshot | null;
+}
+
+type Write =
+  | { kind: 'set'; collection: string; id: string; data: DocumentData; merge: boolean }
+  | { kind: 'update'; collection: string; id: string; data: DocumentData }
+  | { kind: 'delete'; collection: string; id: string };
+
+const ID_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+function randomId(): string {
+  return Array.from({ length: 20 }, () => ID_CHARS[Math.floor(Math.random() * ID_CHARS.length)]).join('');
+}
+
+function isPlainObject(value: unknown): value is DocumentData {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function assertDefined(value: unknown, path: string): void {
+  if (value === undefined) {
+    throw new Error(`Cannot use "undefined" as a Firestore value (found in field "${path}")`);
+  }
+  if (Array.isArray(value)) value.forEach((item, index) => assertDefined(item, `${path}.${index}`));
+  else if (isPlainObject(value)) Object.entries(value).forEach(([key, item]) => assertDefined(item, path ? `${path}.${key}` : key));
+}
+
+function readField(id: string, data: DocumentData, field: string): unknown {
+  if (field === DOCUMENT_ID) return id;
+  return field.split('.').reduce<unknown>((value, key) => (isPlainObject(value) ? value[key] : undefined), data);
+}
+
+// Firestore orders values of different types by type first
+function typeRank(value: unknown): number {
+  if (value === null) return 0;
+  if (typeof value === 'boolean') return 1;
+  if (typeof value === 'number') return 2;
+  if (typeof value === 'string') return 3;
+  return 4;
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  const rank = typeRank(a) - typeRank(b);
+  if (rank !== 0) return rank;
+  if (typeof a === 'number' || typeof a === 'string' || typeof a === 'boolean') {
+    return a < (b as typeof a) ? -1 : a > (b as typeof a) ? 1 : 0;
+  }
+  const left = JSON.stringify(a);
+  const right = JSON.stringify(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function matches(value: unknown, { op, value: operand }: Filter): boolean {
+  // A document without the field never matches, whatever the operator
+  if (value === undefined) return false;
+  switch (op) {
+    case '==': return compareValues(value, operand) === 0;
+    case '!=': return compareValues(value, operand) !== 0;
+    case '<': return typeRank(value) === typeRank(operand) && compareValues(value, operand) < 0;
+    case '<=': return typeRank(value) === typeRank(operand) && compareValues(value, operand) <= 0;
+    case '>': return typeRank(value) === typeRank(operand) && compareValues(value, operand) > 0;
+    case '>=': return typeRank(value) === typeRank(operand) && compareValues(value, operand) >= 0;
+    case 'in': return (operand as unknown[]).some(item => compareValues(value, item) === 0);
+    case 'not-in': return !(operand as unknown[]).some(item => compareValues(value, item) === 0);
+    case 'array-contains': return Array.isArray(value) && value.some(item => compareValues(item, operand) === 0);
+  }
+}
+
+function deepMerge(target: DocumentData, source: DocumentData): DocumentData {
+  const merged: DocumentData = { ...target };
+  Object.entries(source).forEach(([key, value]) => {
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key])
+      ? deepMerge(merged[key] as DocumentData, value)
+      : value;
+  });
+  return merged;
+}
+
+export function createMemoryStore(initial: StoreData = {}, onCommit?: (data: StoreData) => void): DataStore {
+  const data: StoreData = structuredClone(initial);
+  const listeners = new Set<() => void>();
+  // Transactions run one at a time, so a read-then-write can't interleave
+  let transactionQueue: Promise<unknown> = Promise.resolve();
+
+  const documents = (collection: string) => data[collection] ?? {};
+
+  // Every ref this store hands out, so batches and transactions can find
+  // where it points; Firestore's own refs would never reach this store
+  const refCollections = new WeakMap<StoreDocumentReference, string>();
+  const locate = (ref: StoreDocumentReference) => {
+    const collection = refCollections.get(ref);
+    if (!collection) throw new Error(`Document reference ${ref.id} does not belong to this store`);
+    return { collection, id: ref.id };
+  };
+
+  const applyWrites = (writes: Write[]) => {
+    if (writes.length === 0) return;
+    // All or nothing: an update of a missing document fails the whole commit
+    const exists = new Map<string, boolean>();
+    writes.forEach(write => {
+      const key = `${write.collection}/${write.id}`;
+      const present = exists.get(key) ?? documents(write.collection)[write.id] !== undefined;
+      if (write.kind === 'update' && !present) throw new Error(`No document to update: ${key}`);
+      exists.set(key, write.kind !== 'delete');
+    });
+
+    writes.forEach(write => {
+      const docs = (data[write.collection] ??= {});
+      if (write.kind === 'delete') {
+        delete docs[write.id];
+        return;
+      }
+      const incoming = structuredClone(write.data);
+      docs[write.id] = write.kind === 'set' && !write.merge ? incoming : deepMerge(docs[write.id] ?? {}, incoming);
+    });
+    onCommit?.(data);
+    // Delivered asynchronously, as Firestore does
+    setTimeout(() => listeners.forEach(listener => listener()), 0);
+  };
+
+  const validateWrite = (value: DocumentData) => {
+    if (!isPlainObject(value)) throw new Error('Document data must be an object');
+    assertDefined(value, '');
+  };
+
+  const documentSnapshot = (collection: string, id: string): StoreDocumentSnapshot => {
+    const stored = documents(collection)[id];
+    const snapshotData = stored ? structuredClone(stored) : undefined;
+    return {
+      id,
+      exists: stored !== undefined,
+      ref: documentRef(collection, id),
+      data: () => snapshotData,
+      get: (field: string) => (snapshotData ? readField(id, snapshotData, field) : undefined)
+    };
+  };
+
+  const runQuery = (state: QueryState): StoreQueryDocumentSnapshot[] => {
+    const orders = [...state.orders];
+    // Ties break on the document id, in the direction of the last order
+    if (!orders.some(order => order.field === DOCUMENT_ID)) {
+      orders.push({ field: DOCUMENT_ID, direction: orders[orders.length - 1]?.direction ?? 'asc' });
+    }
+
+    const keyOf = (id: string, doc: DocumentData) => orders.map(order => readField(id, doc, order.field));
+    const compareKeys = (a: unknown[], b: unknown[]) => {
+      for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        const result = compareValues(a[i], b[i]);
+        if (result !== 0) return orders[i].direction === 'desc' ? -result : result;
+      }
+      return 0;
+    };
+
+    let rows = Object.entries(documents(state.collection))
+      .filter(([id, doc]) => state.filters.every(filter => matches(readField(id, doc, filter.field), filter)))
+      .map(([id, doc]) => ({ id, key: keyOf(id, doc) }))
+      // Ordering by a field leaves out documents that don't have it
+      .filter(row => row.key.every(value => value !== undefined))
+      .sort((a, b) => compareKeys(a.key, b.key));
+
+    if (state.cursor) {
+      const cursor = Array.isArray(state.cursor)
+        ? state.cursor
+        : keyOf(state.cursor.id, state.cursor.data() ?? {});
+      rows = rows.filter(row => compareKeys(row.key, cursor) > 0);
+    }
+    if (state.limit !== null) rows = rows.slice(0, state.limit);
+
+    return rows.map(row => documentSnapshot(state.collection, row.id) as StoreQueryDocumentSnapshot);
+  };
+
+  const querySnapshot = (docs: StoreQueryDocumentSnapshot[], changes?: StoreDocumentChange[]): StoreQuerySnapshot => ({
+    docs,
+    empty: docs.length === 0,
+    size: docs.length,
+    docChanges: () => changes ?? docs.map(doc => ({ type: 'added' as const, doc }))
+  });
+
+  const listen = (check: () => void): (() => void) => {
+    listeners.add(check);
+    setTimeout(check, 0);
+    return () => {
+      listeners.delete(check);
+    };
+  };
+
+  const query = (state: QueryState): StoreQuery => ({
+    where: (field, op, value) => query({ ...state, filters: [...state.filters, { field, op, value }] }),
+    orderBy: (field, direction = 'asc') => query({ ...state, orders: [...state.orders, { field, direction }] }),
+    limit: limit => query({ ...state, limit }),
+    startAfter: (...values) => {
+      const [first] = values;
+      const isSnapshot = values.length === 1 && isPlainObject(first) && typeof first.data === 'function';
+      return query({ ...state, cursor: isSnapshot ? (first as unknown as StoreDocumentSnapshot) : values });
+    },
+    get: async () => querySnapshot(runQuery(state)),
+    count: () => ({
+      get: async () => {
+        const count = runQuery(state).length;
+        return { data: () => ({ count }) };
+      }
+    }),
+    onSnapshot: (onNext, onError) => {
+      let previous: Map<string, string> | null = null;
+      return listen(() => {
+        try {
+          const docs = runQuery(state);
+          const current = new Map(docs.map(doc => [doc.id, JSON.stringify(doc.data())]));
+          if (previous === null) {
+            previous = current;
+            onNext(querySnapshot(docs));
+            return;
+          }
+          const before = previous;
+          const changes: StoreDocumentChange[] = [
+            ...docs
+              .filter(doc => before.get(doc.id) !== current.get(doc.id))
+              .map(doc => ({ type: before.has(doc.id) ? 'modified' as const : 'added' as const, doc })),
+            ...Array.from(before.keys())
+              .filter(id => !current.has(id))
+              .map(id => ({ type: 'removed' as const, doc: documentSnapshot(state.collection, id) as StoreQueryDocumentSnapshot }))
+          ];
+          previous = current;
+          if (changes.length > 0) onNext(querySnapshot(docs, changes));
+        } catch (error) {
+          onError?.(error instanceof Error ? error : new Error(String(error)));
+        }
+      });
+    }
+  });
+
+  const documentRef = (collection: string, id: string): StoreDocumentReference => {
+    const ref: StoreDocumentReference = {
+      id,
+      get: async () => documentSnapshot(collection, id),
+      set: async (value: DocumentData, options?: StoreSetOptions) => {
+        validateWrite(value);
+        applyWrites([{ kind: 'set', collection, id, data: value, merge: options?.merge ?? false }]);
+      },
+      update: async (value: DocumentData) => {
+        validateWrite(value);
+        applyWrites([{ kind: 'update', collection, id, data: value }]);
+      },
+      delete: async () => {
+        applyWrites([{ kind: 'delete', collection, id }]);
+      },
+      onSnapshot: (onNext, onError) => {
+        let previous: string | null = null;
+        return listen(() => {
+          try {
+            const snapshot = documentSnapshot(collection, id);
+            const current = JSON.stringify(snapshot.data() ?? null);
+            if (current === previous) return;
+            previous = current;
+            onNext(snapshot);
+          } catch (error) {
+            onError?.(error instanceof Error ? error : new Error(String(error)));
+          }
+        });
+      }
+    };
+    refCollections.set(ref, collection);
+    return ref;
+  };
+
+  const collectionRef = (collection: string): StoreCollectionReference => ({
+    ...query({ collection, filters: [], orders: [], limit: null, cursor: null }),
+    id: collection,
+    doc: (id = randomId()) => documentRef(collection, id),
+    add: async (value: DocumentData) => {
+      const ref = documentRef(collection, randomId());
+      await ref.set(value);
+      return ref;
+    },
+    listDocuments: async () => Object.keys(documents(collection)).map(id => documentRef(collection, id))
+  });
+
+  const writeOps = <T>(writes: Write[], self: () => T) => ({
+    set: (ref: StoreDocumentReference, value: DocumentData, options?: StoreSetOptions) => {
+      validateWrite(value);
+      writes.push({ kind: 'set', ...locate(ref), data: value, merge: options?.merge ?? false });
+      return self();
+    },
+    update: (ref: StoreDocumentReference, value: DocumentData) => {
+      validateWrite(value);
+      writes.push({ kind: 'update', ...locate(ref), data: value });
+      return self();
+    },
+    delete: (ref: StoreDocumentReference) => {
+      writes.push({ kind: 'delete', ...locate(ref) });
+      return self();
+    }
+  });
+
+  return {
+    collection: collectionRef,
+
+    batch: () => {
+      const writes: Write[] = [];
+      const batch: StoreWriteBatch = {
+        ...writeOps(writes, () => batch),
+        commit: async () => applyWrites(writes)
+      };
+      return batch;
+    },
+
+    runTransaction: <T>(update: (transaction: StoreTransaction) => Promise<T>): Promise<T> => {
+      const run = async () => {
+        const writes: Write[] = [];
+        const transaction = {
+          ...writeOps(writes, () => transaction),
+          get: async (target: StoreQuery | StoreDocumentReference) => {
+            if (writes.length > 0) throw new Error('Firestore transactions require all reads to be executed before all writes');
+            return target.get();
+          }
+        } as StoreTransaction;
+        const result = await update(transaction);
+        applyWrites(writes);
+        return result;
+      };
+      const result = transactionQueue.then(run, run);
+      transactionQueue = result.catch(() => undefined);
+      return result;
+    }
+  };
+}
@@ -0,0 +1,345 @@
+// lib/datastore/seed.ts - Realistic generated data for running offline
+//
+// Prices are a deterministic function of time (layered smooth noise), and
+// every prediction is a deterministic function of its asset, timeframe and
+// slot. So the data as of any moment can be regenerated exactly, and the
+// ticker only has to write what appeared or settled since its last tick.
+// Predictions win more often the more confident they are, validations lag
+// their target by a few minutes with the odd one stuck for hours, and the
+// heartbeat history has one outage to show on the uptime charts.
+import { ASSET_SYMBOLS } from '@/lib/assets';
+import { assetCollections, COLLECTIONS } from '@/lib/firebase';
+import { toWibIso } from '@/lib/time';
+import type { DataStore, DocumentData, StoreData } from '@/lib/datastore/types';
+import type { Asset } from '@/types';
+
+export const SEED_TIMEFRAMES = [5, 15, 60, 240, 1440];
+export const DEFAULT_SEED_DAYS = 7;
+
+const MINUTE_MS = 60000;
+const BATCH_SIZE = 400;
+const HEARTBEAT_INTERVAL_MINUTES = 5;
+const MODEL_PERFORMANCE_INTERVAL_MINUTES = 60;
+// The longest a stuck validation waits, so the ticker knows how far back to look
+const MAX_VALIDATION_LAG_MINUTES = 4 * 60;
+
+// Starting price and volatility (log-price standard deviation per minute)
+const MARKETS: Record<Asset, { base: number; volatility: number }> = {
+  BTC: { base: 65000, volatility: 0.0007 },
+  ETH: { base: 3200, volatility: 0.0009 },
+  SOL: { base: 150, volatility: 0.0013 }
+};
+
+// Periods (minutes) of the noise layered into each price path
+const PRICE_OCTAVES = [5, 30, 180, 1440, 7200];
+
+export interface SeedOptions {
+  now?: Date;
+  days?: number;
+  assets?: Asset[];
+  timeframes?: number[];
+  seed?: number;
+}
+
+type ResolvedOptions = Required<SeedOptions>;
+
+function resolve(options: SeedOptions): ResolvedOptions {
+  return {
+    now: options.now ?? new Date(),
+    days: options.days ?? DEFAULT_SEED_DAYS,
+    assets: options.assets ?? ASSET_SYMBOLS,
+    timeframes: options.timeframes ?? SEED_TIMEFRAMES,
+    seed: options.seed ?? 1
+  };
+}
+
+// Uniform [0, 1) from integers; the same inputs always give the same value
+function hash(seed: number, ...values: number[]): number {
+  let h = 0x9e3779b9 ^ seed;
+  values.forEach(value => {
+    h = Math.imul(h ^ (value | 0), 0x85ebca6b);
+    h ^= h >>> 13;
+    h = Math.imul(h, 0xc2b2ae35);
+    h ^= h >>> 16;
+  });
+  return (h >>> 0) / 4294967296;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function compactTime(ms: number): string {
+  return toWibIso(new Date(ms)).replace(/[^0-9]/g, '').slice(0, 12);
+}
+
+function priceAt(asset: Asset, ms: number, seed: number): number {
+  const { base, volatility } = MARKETS[asset];
+  const minute = ms / MINUTE_MS;
+  const assetIndex = ASSET_SYMBOLS.indexOf(asset);
+
+  let logMove = 0;
+  PRICE_OCTAVES.forEach((period, octave) => {
+    const knot = Math.floor(minute / period);
+    const t = minute / period - knot;
+    const left = hash(seed, assetIndex, octave, knot) * 2 - 1;
+    const right = hash(seed, assetIndex, octave, knot + 1) * 2 - 1;
+    const eased = (1 - Math.cos(Math.PI * t)) / 2;
+    // Scaled like a random walk, so longer periods swing further
+    logMove += (left + (right - left) * eased) * volatility * Math.sqrt(period);
+  });
+  return round(base * Math.exp(logMove), base < 1000 ? 4 : 2);
+}
+
+interface PredictionSeed {
+  id: string;
+  predictionMs: number;
+  targetMs: number;
+  validationMs: number;
+  doc: DocumentData;
+}
+
+// The prediction made at the start of `slot`, as it stands at `now`
+function predictionAt(asset: Asset, timeframe: number, slot: number, now: number, seed: number): PredictionSeed | null {
+  const predictionMs = slot * timeframe * MINUTE_MS;
+  if (predictionMs > now) return null;
+
+  const random = (k: number) => hash(seed, ASSET_SYMBOLS.indexOf(asset), timeframe, slot, k);
+  const targetMs = predictionMs + timeframe * MINUTE_MS;
+  const stuck = random(1) < 0.002;
+  const lagMinutes = stuck ? 30 + random(2) * (MAX_VALIDATION_LAG_MINUTES - 30) : 0.5 + random(2) * 3;
+  const validationMs = targetMs + Math.round(lagMinutes * MINUTE_MS);
+
+  const current = priceAt(asset, predictionMs, seed);
+  const actual = priceAt(asset, targetMs, seed);
+  const confidence = round(50 + 45 * random(3) ** 1.5, 1);
+  // Calibrated-ish: a 50% call wins 45% of the time, a 95% call 70%
+  const correct = random(4) < 0.45 + 0.25 * ((confidence - 50) / 45);
+  const up = (actual >= current) === correct;
+
+  const { volatility } = MARKETS[asset];
+  const expectedMove = current * volatility * Math.sqrt(timeframe);
+  const predicted = round(current + (up ? 1 : -1) * expectedMove * (0.2 + random(5)), 2);
+  const band = expectedMove * (1 + random(6));
+  const agreeing = 1 + Math.floor(random(7) * 3);
+  const regressor = (k: number) => round(predicted + (random(k) - 0.5) * expectedMove, 2);
+
+  const doc: DocumentData = {
+    timestamp: toWibIso(new Date(predictionMs + Math.round(random(8) * 5000))),
+    prediction_time: toWibIso(new Date(predictionMs)),
+    timeframe_minutes: timeframe,
+    current_price: current,
+    predicted_price: predicted,
+    price_change: round(predicted - current, 2),
+    price_change_pct: round(((predicted - current) / current) * 100, 4),
+    price_range_low: round(predicted - band, 2),
+    price_range_high: round(predicted + band, 2),
+    trend: up ? 'CALL' : 'PUT',
+    confidence,
+    method: 'ensemble',
+    target_time: toWibIso(new Date(targetMs)),
+    validated: false,
+    validation_result: null,
+    model_agreement: round(agreeing / 3, 2),
+    lstm_prediction: regressor(9),
+    gb_prediction: regressor(10),
+    rf_direction: (random(11) < 0.7) === up ? 'UP' : 'DOWN',
+    rf_confidence: round(0.5 + random(12) * 0.4, 2)
+  };
+
+  if (validationMs <= now) {
+    const error = Math.abs(actual - predicted);
+    Object.assign(doc, {
+      validated: true,
+      validation_result: correct ? 'WIN' : 'LOSE',
+      validation_time: toWibIso(new Date(validationMs)),
+      actual_price: actual,
+      price_error: round(error, 2),
+      price_error_pct: round((error / actual) * 100, 4),
+      direction_correct: correct
+    });
+  }
+
+  const id = `${asset.toLowerCase()}_${timeframe}m_${compactTime(predictionMs)}`;
+  return { id, predictionMs, targetMs, validationMs, doc };
+}
+
+// One predictor outage, a little over two days before `now`
+function isOutage(ms: number, now: number): boolean {
+  const start = now - 2 * 24 * 60 * MINUTE_MS - 7 * 60 * MINUTE_MS;
+  return ms >= start && ms < start + 40 * MINUTE_MS;
+}
+
+function heartbeatSample(ms: number, seed: number) {
+  const slot = Math.floor(ms / MINUTE_MS);
+  return {
+    cpu_percent: round(12 + hash(seed, 101, slot) * 30, 1),
+    memory_mb: round(780 + hash(seed, 102, slot) * 180, 1)
+  };
+}
+
+function modelPerformanceDoc(ms: number, seed: number): DocumentData {
+  const slot = Math.floor(ms / MINUTE_MS);
+  const price = priceAt('BTC', ms, seed);
+  const mae = (k: number) => price * (0.0015 + hash(seed, k, slot) * 0.002);
+  const lstmMae = mae(201);
+  const gbMae = mae(202);
+  return {
+    timestamp: toWibIso(new Date(ms)),
+    metrics: {
+      lstm: { mae: round(lstmMae, 2), rmse: round(lstmMae * 1.3, 2) },
+      gb: { mae: round(gbMae, 2), rmse: round(gbMae * 1.25, 2) },
+      rf: { accuracy: round(0.52 + hash(seed, 203, slot) * 0.12, 4) }
+    }
+  };
+}
+
+function heartbeatDoc(options: ResolvedOptions): DocumentData {
+  const now = options.now.getTime();
+  const startedMs = now - 2 * 24 * 60 * MINUTE_MS;
+  const uptimeSeconds = Math.round((now - startedMs) / 1000);
+  return {
+    status: 'running',
+    timestamp: toWibIso(new Date(now - 20000)),
+    last_heartbeat: toWibIso(new Date(now - 20000)),
+    last_activity: toWibIso(new Date(now - 60000)),
+    message: 'Generated data (offline mode)',
+    uptime_seconds: uptimeSeconds,
+    uptime_hours: round(uptimeSeconds / 3600, 2),
+    heartbeat_count: Math.floor(uptimeSeconds / 30),
+    ...heartbeatSample(now, options.seed),
+    health_status: 'healthy',
+    process_id: 4242,
+    active_timeframes: options.timeframes
+  };
+}
+
+function slotsBetween(timeframe: number, fromMs: number, toMs: number): number[] {
+  const first = Math.ceil(fromMs / (timeframe * MINUTE_MS));
+  const last = Math.floor(toMs / (timeframe * MINUTE_MS));
+  return Array.from({ length: Math.max(0, last - first + 1) }, (_, index) => first + index);
+}
+
+// Every collection as it would look at `now` after `days` of running
+export function generateSeedData(seedOptions: SeedOptions = {}): StoreData {
+  const options = resolve(seedOptions);
+  const now = options.now.getTime();
+  const from = now - options.days * 24 * 60 * MINUTE_MS;
+  const data: StoreData = {};
+  let predictions = 0;
+
+  options.assets.forEach(asset => {
+    const docs: Record<string, DocumentData> = {};
+    options.timeframes.forEach(timeframe => {
+      slotsBetween(timeframe, from, now).forEach(slot => {
+        const prediction = predictionAt(asset, timeframe, slot, now, options.seed);
+        if (!prediction) return;
+        docs[prediction.id] = prediction.doc;
+        predictions += 1;
+      });
+    });
+    data[assetCollections(asset).predictions] = docs;
+  });
+
+  const performance: Record<string, DocumentData> = {};
+  slotsBetween(MODEL_PERFORMANCE_INTERVAL_MINUTES, from, now).forEach(slot => {
+    const ms = slot * MODEL_PERFORMANCE_INTERVAL_MINUTES * MINUTE_MS;
+    performance[`perf_${compactTime(ms)}`] = modelPerformanceDoc(ms, options.seed);
+  });
+  data[COLLECTIONS.modelPerformance] = performance;
+
+  // The snapshots recordHeartbeat would have kept, with a gap for the outage
+  const snapshots = slotsBetween(HEARTBEAT_INTERVAL_MINUTES, from, now - MINUTE_MS)
+    .map(slot => slot * HEARTBEAT_INTERVAL_MINUTES * MINUTE_MS)
+    .filter(ms => !isOutage(ms, now))
+    .map(ms => {
+      const timestamp = toWibIso(new Date(ms));
+      return { timestamp, status: 'running', ...heartbeatSample(ms, options.seed), recorded_at: timestamp };
+    });
+  data[COLLECTIONS.heartbeatHistory] = Object.fromEntries(
+    snapshots.map(snapshot => [snapshot.timestamp.replace(/[^0-9A-Za-z]/g, ''), snapshot])
+  );
+  const latest = snapshots[snapshots.length - 1];
+  if (latest) {
+    data[COLLECTIONS.syncState] = {
+      heartbeat_history: { last_timestamp: latest.timestamp, last_status: latest.status }
+    };
+  }
+
+  data[COLLECTIONS.systemStatus] = {
+    heartbeat: {
+      ...heartbeatDoc(options),
+      predictions_count: predictions,
+      total_predictions: predictions,
+      successful_predictions: predictions,
+      failed_predictions: 0
+    }
+  };
+  return data;
+}
+
+// Documents created or changed in (from, to]: new predictions, newly
+// validated ones, model performance entries and a fresh heartbeat
+export function seedUpdates(from: Date, seedOptions: SeedOptions = {}): StoreData {
+  const options = resolve(seedOptions);
+  const now = options.now.getTime();
+  const fromMs = from.getTime();
+  const data: StoreData = {};
+
+  options.assets.forEach(asset => {
+    const docs: Record<string, DocumentData> = {};
+    options.timeframes.forEach(timeframe => {
+      const earliest = fromMs - (timeframe + MAX_VALIDATION_LAG_MINUTES) * MINUTE_MS;
+      slotsBetween(timeframe, earliest, now).forEach(slot => {
+        const prediction = predictionAt(asset, timeframe, slot, now, options.seed);
+        if (!prediction) return;
+        const created = prediction.predictionMs > fromMs;
+        const settled = prediction.validationMs > fromMs && prediction.validationMs <= now;
+        if (created || settled) docs[prediction.id] = prediction.doc;
+      });
+    });
+    data[assetCollections(asset).predictions] = docs;
+  });
+
+  const performance: Record<string, DocumentData> = {};
+  slotsBetween(MODEL_PERFORMANCE_INTERVAL_MINUTES, fromMs + 1, now).forEach(slot => {
+    const ms = slot * MODEL_PERFORMANCE_INTERVAL_MINUTES * MINUTE_MS;
+    performance[`perf_${compactTime(ms)}`] = modelPerformanceDoc(ms, options.seed);
+  });
+  data[COLLECTIONS.modelPerformance] = performance;
+
+  data[COLLECTIONS.systemStatus] = { heartbeat: heartbeatDoc(options) };
+  return data;
+}
+
+// Writes every document of `data`, in batches within Firestore's limit.
+// With `merge`, a heartbeat update keeps the fields it doesn't mention.
+export async function writeStoreData(db: DataStore, data: StoreData, merge = false): Promise<number> {
+  const writes = Object.entries(data).flatMap(([collection, docs]) =>
+    Object.entries(docs).map(([id, doc]) => ({ ref: db.collection(collection).doc(id), doc }))
+  );
+  for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    writes.slice(i, i + BATCH_SIZE).forEach(({ ref, doc }) => batch.set(ref, doc, { merge }));
+    await batch.commit();
+  }
+  return writes.length;
+}
+
+// Keeps generated data moving: new predictions appear, pending ones get
+// validated and the heartbeat stays fresh. Returns a function that stops it.
+export function startSeedTicker(db: DataStore, seedOptions: SeedOptions = {}, intervalMs = MINUTE_MS): () => void {
+  let last = seedOptions.now ?? new Date();
+  const timer = setInterval(() => {
+    const now = new Date();
+    const updates = seedUpdates(last, { ...seedOptions, now });
+    last = now;
+    writeStoreData(db, updates, true).catch(error => {
+      console.error('❌ Failed to advance generated data:', error);
+    });
+  }, intervalMs);
+  // Never what keeps a script running
+  timer.unref?.();
+  return () => clearInterval(timer);
+}
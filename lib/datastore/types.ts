@@ -0,0 +1,106 @@
+// lib/datastore/types.ts - The slice of the Firestore API the app relies on
+//
+// Firestore satisfies these interfaces as-is, so lib/ code written against
+// them runs unchanged on Firestore, the in-memory store and the JSON file
+// store. Anything not listed here (field transforms, collection groups,
+// FieldPath objects) is deliberately out of bounds.
+
+// Loose on purpose, as in Firestore: callers cast reads to their own doc
+// types, and typed docs must be writable without an index signature
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type DocumentData = { [field: string]: any };
+
+export type WhereOp = '<' | '<=' | '==' | '!=' | '>=' | '>' | 'in' | 'not-in' | 'array-contains';
+
+export type OrderDirection = 'asc' | 'desc';
+
+// Order or filter by document id; Firestore reads the same path as FieldPath.documentId()
+export const DOCUMENT_ID = '__name__';
+
+export interface StoreSetOptions {
+  merge?: boolean;
+}
+
+export interface StoreDocumentSnapshot {
+  id: string;
+  exists: boolean;
+  ref: StoreDocumentReference;
+  data(): DocumentData | undefined;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  get(field: string): any;
+}
+
+export interface StoreQueryDocumentSnapshot extends StoreDocumentSnapshot {
+  data(): DocumentData;
+}
+
+export interface StoreDocumentChange {
+  type: 'added' | 'modified' | 'removed';
+  doc: StoreQueryDocumentSnapshot;
+}
+
+export interface StoreQuerySnapshot {
+  docs: StoreQueryDocumentSnapshot[];
+  empty: boolean;
+  size: number;
+  docChanges(): StoreDocumentChange[];
+}
+
+export interface StoreCountSnapshot {
+  data(): { count: number };
+}
+
+export interface StoreQuery {
+  where(field: string, op: WhereOp, value: unknown): StoreQuery;
+  orderBy(field: string, direction?: OrderDirection): StoreQuery;
+  limit(limit: number): StoreQuery;
+  // Either the values of the orderBy fields, or a snapshot to resume after
+  startAfter(...values: unknown[]): StoreQuery;
+  get(): Promise<StoreQuerySnapshot>;
+  count(): { get(): Promise<StoreCountSnapshot> };
+  onSnapshot(onNext: (snapshot: StoreQuerySnapshot) => void, onError?: (error: Error) => void): () => void;
+}
+
+export interface StoreDocumentReference {
+  id: string;
+  get(): Promise<StoreDocumentSnapshot>;
+  set(data: DocumentData, options?: StoreSetOptions): Promise<unknown>;
+  update(data: DocumentData): Promise<unknown>;
+  delete(): Promise<unknown>;
+  onSnapshot(onNext: (snapshot: StoreDocumentSnapshot) => void, onError?: (error: Error) => void): () => void;
+}
+
+export interface StoreCollectionReference extends StoreQuery {
+  id: string;
+  // No id means a fresh random one, as with Firestore
+  doc(id?: string): StoreDocumentReference;
+  add(data: DocumentData): Promise<StoreDocumentReference>;
+  listDocuments(): Promise<StoreDocumentReference[]>;
+}
+
+// Reads must all happen before the first write, as in Firestore
+export interface StoreTransaction {
+  get(query: StoreQuery): Promise<StoreQuerySnapshot>;
+  get(ref: StoreDocumentReference): Promise<StoreDocumentSnapshot>;
+  set(ref: StoreDocumentReference, data: DocumentData, options?: StoreSetOptions): StoreTransaction;
+  update(ref: StoreDocumentReference, data: DocumentData): StoreTransaction;
+  delete(ref: StoreDocumentReference): StoreTransaction;
+}
+
+export interface StoreWriteBatch {
+  set(ref: StoreDocumentReference, data: DocumentData, options?: StoreSetOptions): StoreWriteBatch;
+  update(ref: StoreDocumentReference, data: DocumentData): StoreWriteBatch;
+  delete(ref: StoreDocumentReference): StoreWriteBatch;
+  commit(): Promise<unknown>;
+}
+
+export interface DataStore {
+  collection(path: string): StoreCollectionReference;
+  batch(): StoreWriteBatch;
+  runTransaction<T>(update: (transaction: StoreTransaction) => Promise<T>): Promise<T>;
+}
+
+export type DataSource = 'firestore' | 'memory' | 'file';
+
+// Every document of every collection, as kept by the memory and file stores
+export type StoreData = Record<string, Record<string, DocumentData>>;
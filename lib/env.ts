@@ -0,0 +1,7 @@
+// lib/env.ts - Numeric settings read from the environment
+
+// The variable as a positive number, else `fallback`
+export function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
@@ -0,0 +1,302 @@
+// lib/export.ts - Streamed CSV / NDJSON dumps of predictions, stats and model metrics
+import { loadWindowTotals, syncAggregatesThrottled } from '@/lib/aggregates';
+import { parseAsset } from '@/lib/assets';
+import type { DataStore, StoreQueryDocumentSnapshot, StoreQuerySnapshot } from '@/lib/datastore';
+import { COLLECTIONS } from '@/lib/firebase';
+import { fetchPredictionHistory, parseHistoryQuery } from '@/lib/history';
+import { getPreviousPeriod, parseStatsPeriod } from '@/lib/period';
+import { calculateCategoryStats, calculateTimeframeStats } from '@/lib/stats';
+import { toWibIso } from '@/lib/time';
+import { resolveTimeframes } from '@/lib/timeframes';
+import { parseDocs } from '@/lib/validation';
+import { ModelPerformanceSchema } from '@/types/schemas';
+import type {
+  DataWarning,
+  ExportDataset,
+  ExportField,
+  ExportFormat,
+  ExportSchema,
+  StatisticsDelta
+} from '@/types';
+
+const PAGE_SIZE = 1000;
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'ndjson'];
+export const EXPORT_DATASETS: ExportDataset[] = ['predictions', 'timeframe-stats', 'category-stats', 'model-performance'];
+
+// The first line of a CSV file, so readers can restore column types
+export const CSV_SCHEMA_PREFIX = '#schema ';
+
+// Every export also carries its schema in this response header. NDJSON has
+// no schema line, so each line is a row for `read_json(lines=True)` and `jq`.
+export const EXPORT_SCHEMA_HEADER = 'X-Export-Schema';
+
+export class ExportQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportQueryError';
+  }
+}
+
+type ExportRow = Record<string, string | number | boolean | null | undefined>;
+
+const PREDICTION_FIELDS: ExportField[] = [
+  { name: 'id', type: 'string' },
+  { name: 'timestamp', type: 'datetime' },
+  { name: 'prediction_time', type: 'datetime' },
+  { name: 'timeframe_minutes', type: 'integer' },
+  { name: 'current_price', type: 'number' },
+  { name: 'predicted_price', type: 'number' },
+  { name: 'price_change', type: 'number' },
+  { name: 'price_change_pct', type: 'number' },
+  { name: 'price_range_low', type: 'number' },
+  { name: 'price_range_high', type: 'number' },
+  { name: 'trend', type: 'string' },
+  { name: 'confidence', type: 'number' },
+  { name: 'method', type: 'string' },
+  { name: 'target_time', type: 'datetime' },
+  { name: 'validated', type: 'boolean' },
+  { name: 'validation_result', type: 'string' },
+  { name: 'validation_time', type: 'datetime' },
+  { name: 'actual_price', type: 'number' },
+  { name: 'price_error', type: 'number' },
+  { name: 'price_error_pct', type: 'number' },
+  { name: 'direction_correct', type: 'boolean' },
+  { name: 'model_agreement', type: 'number' },
+  { name: 'lstm_prediction', type: 'number' },
+  { name: 'gb_prediction', type: 'number' },
+  { name: 'rf_direction', type: 'string' },
+  { name: 'rf_confidence', type: 'number' }
+];
+
+const SUMMARY_FIELDS: ExportField[] = [
+  { name: 'total_predictions', type: 'integer' },
+  { name: 'wins', type: 'integer' },
+  { name: 'losses', type: 'integer' },
+  { name: 'win_rate', type: 'number' },
+  { name: 'avg_error', type: 'number' },
+  { name: 'avg_error_pct', type: 'number' }
+];
+
+// Change vs the previous period of equal length, empty when there is none
+const DELTA_FIELDS: ExportField[] = SUMMARY_FIELDS.map(field => ({
+  name: `delta_${field.name}`,
+  type: field.type
+}));
+
+const TIMEFRAME_STATS_FIELDS: ExportField[] = [
+  { name: 'timeframe_minutes', type: 'integer' },
+  { name: 'period', type: 'string' },
+  { name: 'period_from', type: 'datetime' },
+  { name: 'period_to', type: 'datetime' },
+  { name: 'period_days', type: 'number' },
+  ...SUMMARY_FIELDS,
+  ...DELTA_FIELDS
+];
+
+const CATEGORY_STATS_FIELDS: ExportField[] = [
+  { name: 'category', type: 'string' },
+  { name: 'timeframes', type: 'string' }, // minutes, '|'-separated
+  { name: 'period', type: 'string' },
+  { name: 'period_from', type: 'datetime' },
+  { name: 'period_to', type: 'datetime' },
+  ...SUMMARY_FIELDS,
+  ...DELTA_FIELDS
+];
+
+const MODEL_PERFORMANCE_FIELDS: ExportField[] = [
+  { name: 'id', type: 'string' },
+  { name: 'timestamp', type: 'datetime' },
+  { name: 'lstm_mae', type: 'number' },
+  { name: 'lstm_rmse', type: 'number' },
+  { name: 'gb_mae', type: 'number' },
+  { name: 'gb_rmse', type: 'number' },
+  { name: 'rf_accuracy', type: 'number' }
+];
+
+function deltaColumns(delta: StatisticsDelta | null | undefined): ExportRow {
+  return Object.fromEntries(SUMMARY_FIELDS.map(field => [
+    `delta_${field.name}`,
+    delta ? delta[field.name as keyof StatisticsDelta] : null
+  ]));
+}
+
+// Every page of predictions matching the history view's filters, newest
+// first. Paging and cursor parameters are ignored: an export is everything.
+async function* predictionRows(db: DataStore, params: URLSearchParams, warnings: DataWarning[]): AsyncGenerator<ExportRow> {
+  const { filters } = parseHistoryQuery(params);
+  let cursor: string | null = null;
+
+  do {
+    const page = await fetchPredictionHistory(db, { filters, cursor, limit: PAGE_SIZE });
+    warnings.push(...page.warnings);
+    for (const prediction of page.predictions) yield prediction;
+    cursor = page.nextCursor;
+  } while (cursor);
+}
+
+async function* statsRows(
+  db: DataStore,
+  params: URLSearchParams,
+  dataset: 'timeframe-stats' | 'category-stats'
+): AsyncGenerator<ExportRow> {
+  const period = parseStatsPeriod(params);
+  const previousPeriod = getPreviousPeriod(period);
+  const asset = parseAsset(params);
+
+  await syncAggregatesThrottled(db, asset);
+  const [totals, previous] = await Promise.all([
+    loadWindowTotals(db, period, asset),
+    previousPeriod ? loadWindowTotals(db, previousPeriod, asset) : Promise.resolve(null)
+  ]);
+  const periodColumns = { period: period.key, period_from: period.from, period_to: period.to };
+  const timeframes = resolveTimeframes({ withData: totals.byTimeframe.keys() });
+
+  if (dataset === 'category-stats') {
+    for (const { delta, timeframes: listed, ...stats } of calculateCategoryStats(totals, previous, timeframes)) {
+      yield { ...stats, ...periodColumns, timeframes: listed.join('|'), ...deltaColumns(delta) };
+    }
+    return;
+  }
+
+  for (const { delta, ...stats } of calculateTimeframeStats(totals, timeframes, period, previous)) {
+    yield { ...stats, ...periodColumns, ...deltaColumns(delta) };
+  }
+}
+
+// Oldest first, read in pages so long periods stream rather than buffer
+async function* modelPerformanceRows(db: DataStore, params: URLSearchParams, warnings: DataWarning[]): AsyncGenerator<ExportRow> {
+  const period = parseStatsPeriod(params);
+  let query = db
+    .collection(COLLECTIONS.modelPerformance)
+    .where('timestamp', '<=', toWibIso(new Date(period.to)));
+  if (period.from) query = query.where('timestamp', '>=', toWibIso(new Date(period.from)));
+  query = query.orderBy('timestamp', 'asc');
+
+  let last: StoreQueryDocumentSnapshot | null = null;
+  for (;;) {
+    const snapshot: StoreQuerySnapshot = await (last ? query.startAfter(last) : query).limit(PAGE_SIZE).get();
+    if (snapshot.empty) break;
+    for (const doc of parseDocs(ModelPerformanceSchema, COLLECTIONS.modelPerformance, snapshot.docs, warnings)) {
+      yield {
+        id: doc.id,
+        timestamp: doc.timestamp,
+        lstm_mae: doc.metrics.lstm?.mae,
+        lstm_rmse: doc.metrics.lstm?.rmse,
+        gb_mae: doc.metrics.gb?.mae,
+        gb_rmse: doc.metrics.gb?.rmse,
+        rf_accuracy: doc.metrics.rf?.accuracy
+      };
+    }
+    last = snapshot.docs[snapshot.docs.length - 1];
+  }
+}
+
+export function parseExportFormat(params: URLSearchParams): ExportFormat {
+  const format = (params.get('format') || 'csv').toLowerCase() as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new ExportQueryError(`format must be one of ${EXPORT_FORMATS.join(', ')}`);
+  }
+  return format;
+}
+
+export interface PreparedExport {
+  schema: ExportSchema;
+  rows: AsyncIterable<ExportRow>;
+}
+
+// Validates the query up front, so a bad parameter is a 400 rather than a
+// stream that dies after its headers were sent. Throws ExportQueryError,
+// HistoryQueryError, PeriodQueryError or AssetQueryError. Model performance
+// is shared by every asset, so ?asset= only narrows the other datasets.
+export function prepareExport(
+  db: DataStore,
+  dataset: string,
+  params: URLSearchParams,
+  warnings: DataWarning[] = [],
+  now: Date = new Date()
+): PreparedExport {
+  const schema = (fields: ExportField[]): ExportSchema => ({
+    dataset: dataset as ExportDataset,
+    generated_at: now.toISOString(),
+    fields
+  });
+
+  switch (dataset) {
+    case 'predictions':
+      parseHistoryQuery(params);
+      return { schema: schema(PREDICTION_FIELDS), rows: predictionRows(db, params, warnings) };
+    case 'timeframe-stats':
+    case 'category-stats':
+      parseStatsPeriod(params, now);
+      parseAsset(params);
+      return {
+        schema: schema(dataset === 'timeframe-stats' ? TIMEFRAME_STATS_FIELDS : CATEGORY_STATS_FIELDS),
+        rows: statsRows(db, params, dataset)
+      };
+    case 'model-performance':
+      parseStatsPeriod(params, now);
+      return { schema: schema(MODEL_PERFORMANCE_FIELDS), rows: modelPerformanceRows(db, params, warnings) };
+    default:
+      throw new ExportQueryError(`dataset must be one of ${EXPORT_DATASETS.join(', ')}`);
+  }
+}
+
+function csvCell(value: ExportRow[string]): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One line per row. Missing values are empty cells in CSV and null in NDJSON.
+function formatRow(row: ExportRow, fields: ExportField[], format: ExportFormat): string {
+  if (format === 'csv') return fields.map(field => csvCell(row[field.name])).join(',') + '\n';
+  return JSON.stringify(Object.fromEntries(fields.map(field => [field.name, row[field.name] ?? null]))) + '\n';
+}
+
+// CSV starts with `#schema {...}` and the column header, and every later
+// line is one row. Every NDJSON line is one row.
+export function exportStream(
+  { schema, rows }: PreparedExport,
+  format: ExportFormat,
+  onDone?: (rows: number) => void
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = rows[Symbol.asyncIterator]();
+  let count = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (format !== 'csv') return;
+      const header = `${CSV_SCHEMA_PREFIX}${JSON.stringify(schema)}\n${schema.fields.map(field => field.name).join(',')}\n`;
+      controller.enqueue(encoder.encode(header));
+    },
+    // Pulled as the client reads, so a slow download never buffers the dataset
+    async pull(controller) {
+      try {
+        const lines: string[] = [];
+        while (lines.length < 100) {
+          const next = await iterator.next();
+          if (next.done) {
+            if (lines.length > 0) controller.enqueue(encoder.encode(lines.join('')));
+            controller.close();
+            onDone?.(count);
+            return;
+          }
+          lines.push(formatRow(next.value, schema.fields, format));
+          count += 1;
+        }
+        controller.enqueue(encoder.encode(lines.join('')));
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return?.(undefined);
+    }
+  });
+}
+
+export function exportFilename(dataset: ExportDataset, format: ExportFormat, now: Date = new Date()): string {
+  return `${dataset}-${toWibIso(now).slice(0, 10)}.${format === 'csv' ? 'csv' : 'ndjson'}`;
+}
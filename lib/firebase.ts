@@ -1,10 +1,54 @@
 // Firebase initialization for both client and server
 import { initializeApp, getApps, cert } from 'firebase-admin/app';
 import { getFirestore } from 'firebase-admin/firestore';
+import { ASSETS, DEFAULT_ASSET } from '@/lib/assets';
+import type { Asset } from '@/types';
+
+// Firestore collections. The first three are written by the Python
+// predictor; the rest are maintained by this app. `predictions` and
+// `aggregates` (with `aggregateContributions`) are BTC's; see
+// assetCollections() for other assets.
+export const COLLECTIONS = {
+  predictions: ASSETS[DEFAULT_ASSET].collection,
+  modelPerformance: 'model_performance',
+  systemStatus: 'system_status',
+  aggregates: 'prediction_aggregates',
+  aggregateContributions: 'aggregate_contributions',
+  syncState: 'sync_state',
+  heartbeatHistory: 'heartbeat_history',
+  alertRules: 'alert_rules',
+  alertState: 'alert_state',
+  alertDeliveries: 'alert_deliveries',
+  users: 'users',
+  apiKeys: 'api_keys',
+  apiKeyUsage: 'api_key_usage',
+  webhookSubscriptions: 'webhook_subscriptions',
+  webhookState: 'webhook_state',
+  webhookDeliveries: 'webhook_deliveries'
+} as const;
+
+// Predictions and their aggregates are kept apart per asset; heartbeat,
+// model performance and alerting collections are shared
+export function assetCollections(asset: Asset = DEFAULT_ASSET) {
+  const suffix = asset === DEFAULT_ASSET ? '' : `_${asset.toLowerCase()}`;
+  return {
+    asset,
+    predictions: ASSETS[asset].collection,
+    aggregates: `${COLLECTIONS.aggregates}${suffix}`,
+    aggregateContributions: `${COLLECTIONS.aggregateContributions}${suffix}`,
+    aggregatesState: `aggregates${suffix}` // doc id in sync_state
+  };
+}
 
 // Initialize Firebase Admin (Server-side only)
 function initFirebaseAdmin() {
   try {
+    if (getApps().length === 0 && process.env.FIRESTORE_EMULATOR_HOST) {
+      // The emulator takes any project id and needs no credentials
+      initializeApp({ projectId: process.env.FIREBASE_PROJECT_ID || 'demo-btc-predictor' });
+      console.log(`✅ Firebase Admin using the emulator at ${process.env.FIRESTORE_EMULATOR_HOST}`);
+    }
+
     if (getApps().length === 0) {
       // Check if required env vars exist
       if (!process.env.FIREBASE_PROJECT_ID) {
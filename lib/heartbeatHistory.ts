@@ -0,0 +1,239 @@
+// lib/heartbeatHistory.ts - Heartbeat snapshots, daily uptime and incidents
+import type { DataStore } from '@/lib/datastore';
+import { envNumber } from '@/lib/env';
+import { COLLECTIONS } from '@/lib/firebase';
+import { getStatusThresholds, heartbeatToStatus } from '@/lib/systemStatus';
+import { addWibDays, toWibDate, toWibIso, wibDayStart } from '@/lib/time';
+import { parseDoc, parseDocs } from '@/lib/validation';
+import { HeartbeatDocSchema, HeartbeatSnapshotSchema } from '@/types/schemas';
+import type {
+  DailyUptime,
+  HeartbeatIncident,
+  HeartbeatSnapshot,
+  ResourceSample,
+  StatsPeriod,
+  SystemHistory,
+  SystemStatus
+} from '@/types';
+
+const DEFAULT_INTERVAL_MINUTES = 5;
+const MAX_SNAPSHOTS = 10000;
+const MAX_SAMPLES = 200;
+const MINUTE_MS = 60000;
+
+const DOWN_STATUSES: SystemStatus['status'][] = ['offline', 'error', 'stopping'];
+
+// sync_state/heartbeat_history
+interface RecorderState {
+  last_timestamp: string;
+  last_status: SystemStatus['status'];
+}
+
+export function getRecordIntervalMinutes(): number {
+  return envNumber('HEARTBEAT_HISTORY_INTERVAL_MINUTES', DEFAULT_INTERVAL_MINUTES);
+}
+
+// Each snapshot vouches for the predictor until the next one is due, plus
+// slack for a late heartbeat, and never for less than the live status
+// allows before calling it offline. Beyond that a gap counts as downtime.
+function staleAfterMs(intervalMinutes: number): number {
+  return Math.max(getStatusThresholds().heartbeat_offline_minutes, 2 * intervalMinutes) * MINUTE_MS;
+}
+
+// Copies the current heartbeat into heartbeat_history when its status
+// changed or the interval has passed since the last copy. Safe to call as
+// often as you like: an unchanged heartbeat is never recorded twice.
+export async function recordHeartbeat(db: DataStore, now: Date = new Date()): Promise<HeartbeatSnapshot | null> {
+  const doc = await db.collection(COLLECTIONS.systemStatus).doc('heartbeat').get();
+  if (!doc.exists) return null;
+  const heartbeat = parseDoc(HeartbeatDocSchema, COLLECTIONS.systemStatus, doc, []);
+  if (!heartbeat) return null;
+
+  const { status } = heartbeatToStatus(heartbeat);
+  const intervalMs = getRecordIntervalMinutes() * MINUTE_MS;
+  const stateRef = db.collection(COLLECTIONS.syncState).doc('heartbeat_history');
+  // The heartbeat time is unique per beat, so retries overwrite rather than duplicate
+  const snapshotRef = db.collection(COLLECTIONS.heartbeatHistory).doc(heartbeat.timestamp.replace(/[^0-9A-Za-z]/g, ''));
+
+  return db.runTransaction(async transaction => {
+    const stateDoc = await transaction.get(stateRef);
+    const state = stateDoc.exists ? (stateDoc.data() as RecorderState) : null;
+
+    if (state) {
+      if (state.last_timestamp === heartbeat.timestamp) return null;
+      const elapsed = new Date(heartbeat.timestamp).getTime() - new Date(state.last_timestamp).getTime();
+      if (state.last_status === status && elapsed < intervalMs) return null;
+    }
+
+    // Firestore rejects undefined, so optional fields are only set when present
+    const data: Omit<HeartbeatSnapshot, 'id'> = {
+      timestamp: heartbeat.timestamp,
+      status,
+      recorded_at: toWibIso(now)
+    };
+    if (heartbeat.cpu_percent !== undefined) data.cpu_percent = heartbeat.cpu_percent;
+    if (heartbeat.memory_mb !== undefined) data.memory_mb = heartbeat.memory_mb;
+    if (heartbeat.message !== undefined) data.message = heartbeat.message;
+
+    transaction.set(snapshotRef, data);
+    transaction.set(stateRef, { last_timestamp: heartbeat.timestamp, last_status: status });
+    return { ...data, id: snapshotRef.id };
+  });
+}
+
+interface Segment {
+  start: number;
+  end: number;
+  down: boolean;
+  kind: HeartbeatIncident['kind'];
+  message?: string;
+}
+
+// Splits [start, end) into up and down stretches. Time before the first
+// snapshot is unknown and not covered by any segment.
+function buildSegments(snapshots: HeartbeatSnapshot[], end: number, staleMs: number): Segment[] {
+  const segments: Segment[] = [];
+
+  snapshots.forEach((snapshot, index) => {
+    const start = new Date(snapshot.timestamp).getTime();
+    const next = index + 1 < snapshots.length ? new Date(snapshots[index + 1].timestamp).getTime() : end;
+    const coveredUntil = Math.min(next, start + staleMs, end);
+    if (coveredUntil <= start) return;
+
+    const down = DOWN_STATUSES.includes(snapshot.status);
+    segments.push({
+      start,
+      end: coveredUntil,
+      down,
+      kind: snapshot.status === 'error' ? 'error' : 'offline',
+      message: snapshot.status === 'error' ? snapshot.message : undefined
+    });
+    // Nothing heard from the predictor until the next snapshot
+    if (coveredUntil < Math.min(next, end)) {
+      segments.push({ start: coveredUntil, end: Math.min(next, end), down: true, kind: 'offline' });
+    }
+  });
+
+  return segments;
+}
+
+function clip(segments: Segment[], from: number, to: number): Segment[] {
+  return segments
+    .map(segment => ({ ...segment, start: Math.max(segment.start, from), end: Math.min(segment.end, to) }))
+    .filter(segment => segment.end > segment.start);
+}
+
+// Back-to-back down segments of the same kind form one incident; silence
+// followed by an error report is two
+function toIncidents(segments: Segment[], end: number): HeartbeatIncident[] {
+  const incidents: { start: number; end: number; kind: HeartbeatIncident['kind']; message?: string }[] = [];
+
+  segments.filter(segment => segment.down).forEach(segment => {
+    const last = incidents[incidents.length - 1];
+    if (last && last.end === segment.start && last.kind === segment.kind) {
+      last.end = segment.end;
+      last.message = last.message ?? segment.message;
+    } else {
+      incidents.push({ start: segment.start, end: segment.end, kind: segment.kind, message: segment.message });
+    }
+  });
+
+  return incidents.reverse().map(incident => ({
+    kind: incident.kind,
+    start: new Date(incident.start).toISOString(),
+    end: incident.end >= end ? null : new Date(incident.end).toISOString(),
+    duration_minutes: (incident.end - incident.start) / MINUTE_MS,
+    ...(incident.message !== undefined && { message: incident.message })
+  }));
+}
+
+function dailyUptime(segments: Segment[], from: number, to: number): DailyUptime[] {
+  const days: DailyUptime[] = [];
+  const lastDay = toWibDate(new Date(to - 1));
+
+  for (let day = toWibDate(new Date(from)); day <= lastDay; day = addWibDays(day, 1)) {
+    const dayStart = Math.max(wibDayStart(day).getTime(), from);
+    const dayEnd = Math.min(wibDayStart(addWibDays(day, 1)).getTime(), to);
+    const inDay = clip(segments, dayStart, dayEnd);
+
+    const known = inDay.reduce((sum, segment) => sum + segment.end - segment.start, 0);
+    const down = inDay.filter(segment => segment.down).reduce((sum, segment) => sum + segment.end - segment.start, 0);
+    days.push({
+      date: day,
+      uptime_pct: known > 0 ? ((known - down) / known) * 100 : null,
+      down_minutes: down / MINUTE_MS
+    });
+  }
+
+  return days;
+}
+
+function downsample<T>(items: T[], max: number): T[] {
+  if (items.length <= max) return items;
+  const step = items.length / max;
+  return Array.from({ length: max }, (_, i) => items[Math.floor(i * step)]);
+}
+
+// `seed` is the last snapshot before the period, so the state at its start
+// is known. Snapshots must be oldest first.
+export function buildSystemHistory(
+  seed: HeartbeatSnapshot | null,
+  snapshots: HeartbeatSnapshot[],
+  period: StatsPeriod,
+  now: Date = new Date(),
+  intervalMinutes: number = getRecordIntervalMinutes(),
+  truncated = false
+): SystemHistory {
+  const end = Math.min(new Date(period.to).getTime(), now.getTime());
+  const all = seed ? [seed, ...snapshots] : snapshots;
+  const firstKnown = all.length > 0 ? new Date(all[0].timestamp).getTime() : end;
+  const start = Math.max(period.from ? new Date(period.from).getTime() : firstKnown, firstKnown);
+
+  const segments = clip(buildSegments(all, end, staleAfterMs(intervalMinutes)), start, end);
+  const known = segments.reduce((sum, segment) => sum + segment.end - segment.start, 0);
+  const down = segments.filter(segment => segment.down).reduce((sum, segment) => sum + segment.end - segment.start, 0);
+
+  const samples: ResourceSample[] = snapshots
+    .filter(snapshot => snapshot.cpu_percent !== undefined || snapshot.memory_mb !== undefined)
+    .map(({ timestamp, cpu_percent, memory_mb }) => ({ timestamp, cpu_percent, memory_mb }));
+
+  return {
+    period,
+    uptime_pct: known > 0 ? ((known - down) / known) * 100 : null,
+    days: start < end ? dailyUptime(segments, start, end) : [],
+    incidents: toIncidents(segments, now.getTime()),
+    samples: downsample(samples, MAX_SAMPLES),
+    interval_minutes: intervalMinutes,
+    truncated
+  };
+}
+
+export async function fetchSystemHistory(db: DataStore, period: StatsPeriod, now: Date = new Date()): Promise<SystemHistory> {
+  const collection = db.collection(COLLECTIONS.heartbeatHistory);
+
+  let query = collection.where('timestamp', '<=', toWibIso(new Date(period.to)));
+  if (period.from) query = query.where('timestamp', '>=', toWibIso(new Date(period.from)));
+
+  // Newest first so a long period keeps its most recent MAX_SNAPSHOTS
+  const snapshot = await query.orderBy('timestamp', 'desc').limit(MAX_SNAPSHOTS + 1).get();
+  const truncated = snapshot.docs.length > MAX_SNAPSHOTS;
+  const docs = snapshot.docs.slice(0, MAX_SNAPSHOTS).reverse();
+  const snapshots = parseDocs(HeartbeatSnapshotSchema, COLLECTIONS.heartbeatHistory, docs, []);
+
+  let seed: HeartbeatSnapshot | null = null;
+  if (period.from && !truncated) {
+    const seedSnapshot = await collection
+      .where('timestamp', '<', toWibIso(new Date(period.from)))
+      .orderBy('timestamp', 'desc')
+      .limit(1)
+      .get();
+    seed = parseDocs(HeartbeatSnapshotSchema, COLLECTIONS.heartbeatHistory, seedSnapshot.docs, [])[0] ?? null;
+  }
+
+  // A truncated read starts mid-period; only report from the oldest snapshot read
+  const effectivePeriod = truncated && snapshots.length > 0
+    ? { ...period, from: new Date(snapshots[0].timestamp).toISOString() }
+    : period;
+  const history = buildSystemHistory(seed, snapshots, effectivePeriod, now, getRecordIntervalMinutes(), truncated);
+  return { ...history, period };
+}
@@ -0,0 +1,167 @@
+// lib/history.ts - Cursor-paginated, filterable prediction history
+import { DEFAULT_ASSET, parseAsset } from '@/lib/assets';
+import type { DataStore, StoreQuery } from '@/lib/datastore';
+import { assetCollections } from '@/lib/firebase';
+import { parseDateParam, toWibIso } from '@/lib/time';
+import { parseDocs } from '@/lib/validation';
+import { PredictionSchema } from '@/types/schemas';
+import type {
+  DataWarning,
+  Prediction,
+  PredictionHistoryFilters,
+  PredictionHistoryPage,
+  ValidationFilter
+} from '@/types';
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+export const MAX_HISTORY_LIMIT = 200;
+
+const VALIDATION_FILTERS: ValidationFilter[] = ['WIN', 'LOSE', 'PENDING'];
+
+export class HistoryQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HistoryQueryError';
+  }
+}
+
+export interface HistoryQuery {
+  filters: PredictionHistoryFilters;
+  cursor: string | null;
+  limit: number;
+}
+
+function parseNumberParam(params: URLSearchParams, name: string): number | undefined {
+  const raw = params.get(name);
+  if (raw === null || raw === '') return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    throw new HistoryQueryError(`${name} must be a number`);
+  }
+  return value;
+}
+
+function parseIsoParam(params: URLSearchParams, name: string): string | undefined {
+  const raw = params.get(name);
+  if (!raw) return undefined;
+  const date = parseDateParam(raw);
+  if (!date) {
+    throw new HistoryQueryError(`${name} must be an ISO date`);
+  }
+  return date.toISOString();
+}
+
+// Throws HistoryQueryError, or AssetQueryError for an unknown ?asset=
+export function parseHistoryQuery(params: URLSearchParams): HistoryQuery {
+  const filters: PredictionHistoryFilters = {};
+
+  const asset = parseAsset(params);
+  if (asset !== DEFAULT_ASSET) filters.asset = asset;
+
+  const timeframe = parseNumberParam(params, 'timeframe_minutes');
+  if (timeframe !== undefined) filters.timeframe_minutes = timeframe;
+
+  const result = params.get('validation_result');
+  if (result) {
+    const normalized = result.toUpperCase() as ValidationFilter;
+    if (!VALIDATION_FILTERS.includes(normalized)) {
+      throw new HistoryQueryError(`validation_result must be one of ${VALIDATION_FILTERS.join(', ')}`);
+    }
+    filters.validation_result = normalized;
+  }
+
+  const trend = params.get('trend');
+  if (trend) filters.trend = trend;
+
+  const method = params.get('method');
+  if (method) filters.method = method;
+
+  const minConfidence = parseNumberParam(params, 'min_confidence');
+  if (minConfidence !== undefined) filters.min_confidence = minConfidence;
+
+  const maxConfidence = parseNumberParam(params, 'max_confidence');
+  if (maxConfidence !== undefined) filters.max_confidence = maxConfidence;
+
+  if (minConfidence !== undefined && maxConfidence !== undefined && minConfidence > maxConfidence) {
+    throw new HistoryQueryError('min_confidence must not exceed max_confidence');
+  }
+
+  const from = parseIsoParam(params, 'from');
+  if (from) filters.from = from;
+
+  const to = parseIsoParam(params, 'to');
+  if (to) filters.to = to;
+
+  if (from && to && from > to) {
+    throw new HistoryQueryError('from must be before to');
+  }
+
+  const limit = parseNumberParam(params, 'limit') ?? DEFAULT_HISTORY_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new HistoryQueryError('limit must be a positive integer');
+  }
+
+  return {
+    filters,
+    cursor: params.get('cursor') || null,
+    limit: Math.min(limit, MAX_HISTORY_LIMIT)
+  };
+}
+
+function applyFilters(query: StoreQuery, filters: PredictionHistoryFilters): StoreQuery {
+  let q = query;
+
+  if (filters.timeframe_minutes !== undefined) {
+    q = q.where('timeframe_minutes', '==', filters.timeframe_minutes);
+  }
+  if (filters.validation_result === 'PENDING') {
+    q = q.where('validated', '==', false);
+  } else if (filters.validation_result) {
+    q = q.where('validation_result', '==', filters.validation_result);
+  }
+  if (filters.trend) q = q.where('trend', '==', filters.trend);
+  if (filters.method) q = q.where('method', '==', filters.method);
+  if (filters.min_confidence !== undefined) {
+    q = q.where('confidence', '>=', filters.min_confidence);
+  }
+  if (filters.max_confidence !== undefined) {
+    q = q.where('confidence', '<=', filters.max_confidence);
+  }
+  if (filters.from) q = q.where('prediction_time', '>=', toWibIso(new Date(filters.from)));
+  if (filters.to) q = q.where('prediction_time', '<=', toWibIso(new Date(filters.to)));
+
+  return q;
+}
+
+export async function fetchPredictionHistory(
+  db: DataStore,
+  { filters, cursor, limit }: HistoryQuery
+): Promise<PredictionHistoryPage> {
+  const collections = assetCollections(filters.asset);
+  const collection = db.collection(collections.predictions);
+  let query = applyFilters(collection, filters).orderBy('prediction_time', 'desc');
+
+  if (cursor) {
+    const cursorDoc = await collection.doc(cursor).get();
+    if (!cursorDoc.exists) {
+      throw new HistoryQueryError('cursor does not match any prediction');
+    }
+    query = query.startAfter(cursorDoc);
+  }
+
+  // Fetch one extra doc to know whether another page exists
+  const snapshot = await query.limit(limit + 1).get();
+  const docs = snapshot.docs.slice(0, limit);
+
+  const warnings: DataWarning[] = [];
+  const predictions: Prediction[] = parseDocs(PredictionSchema, collections.predictions, docs, warnings);
+
+  // The cursor is the last doc read, even if that one was malformed
+  return {
+    predictions,
+    nextCursor: snapshot.docs.length > limit ? docs[docs.length - 1].id : null,
+    limit,
+    filters,
+    warnings
+  };
+}
@@ -0,0 +1,86 @@
+// lib/leaderboard.ts - Score each ensemble member against actual outcomes
+import { emptyCounts, mergeCounts } from '@/lib/aggregates';
+import type { AggregateCounts, WindowTotals } from '@/lib/aggregates';
+import type { EnsembleModel, ModelLeaderboard, ModelScore, StatsPeriod } from '@/types';
+
+const MODELS: EnsembleModel[] = ['ensemble', 'lstm', 'gb', 'rf'];
+
+const ratio = (value: number, samples: number) => (samples > 0 ? value / samples : null);
+
+function scoreModel(model: EnsembleModel, counts: AggregateCounts): ModelScore {
+  switch (model) {
+    case 'ensemble': {
+      const samples = counts.total;
+      const rmse = ratio(counts.sq_error_sum, samples);
+      return {
+        model,
+        samples,
+        hit_rate: samples > 0 ? (counts.wins / samples) * 100 : null,
+        mae: ratio(counts.error_sum, samples),
+        rmse: rmse === null ? null : Math.sqrt(rmse)
+      };
+    }
+    case 'lstm':
+    case 'gb': {
+      const samples = counts[`${model}_count`];
+      const rmse = ratio(counts[`${model}_sq_error_sum`], samples);
+      return {
+        model,
+        samples,
+        hit_rate: samples > 0 ? (counts[`${model}_hits`] / samples) * 100 : null,
+        mae: ratio(counts[`${model}_abs_error_sum`], samples),
+        rmse: rmse === null ? null : Math.sqrt(rmse)
+      };
+    }
+    case 'rf':
+      return {
+        model,
+        samples: counts.rf_count,
+        hit_rate: counts.rf_count > 0 ? (counts.rf_hits / counts.rf_count) * 100 : null,
+        mae: null,
+        rmse: null
+      };
+  }
+}
+
+// Models without samples sink to the bottom
+function rank(scores: ModelScore[]): ModelScore[] {
+  return [...scores].sort((a, b) => (b.hit_rate ?? -1) - (a.hit_rate ?? -1));
+}
+
+export function scoreModels(counts: AggregateCounts): ModelScore[] {
+  return rank(MODELS.map(model => scoreModel(model, counts)));
+}
+
+function sumTimeframes(byTimeframe: Map<number, AggregateCounts>, timeframe?: number): AggregateCounts {
+  const sum = emptyCounts();
+  byTimeframe.forEach((counts, tf) => {
+    if (timeframe === undefined || tf === timeframe) mergeCounts(sum, counts);
+  });
+  return sum;
+}
+
+// `timeframe` narrows the overall and daily scores to one timeframe; the
+// per-timeframe breakdown always covers every timeframe with data
+export function buildLeaderboard(
+  totals: WindowTotals,
+  period: StatsPeriod,
+  timeframe?: number
+): ModelLeaderboard {
+  const byTimeframe = Array.from(totals.byTimeframe.entries())
+    .filter(([, counts]) => counts.total > 0)
+    .sort(([a], [b]) => a - b)
+    .map(([timeframe_minutes, counts]) => ({ timeframe_minutes, scores: scoreModels(counts) }));
+
+  const daily = Array.from(totals.byDay.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, day]) => ({ date, scores: scoreModels(sumTimeframes(day, timeframe)) }))
+    .filter(day => day.scores.some(score => score.samples > 0));
+
+  return {
+    period,
+    overall: scoreModels(sumTimeframes(totals.byTimeframe, timeframe)),
+    byTimeframe,
+    daily
+  };
+}
@@ -0,0 +1,167 @@
+// lib/modelPerformance.ts - model_performance snapshots over time with regression flags
+import type { DataStore } from '@/lib/datastore';
+import { envNumber } from '@/lib/env';
+import { COLLECTIONS } from '@/lib/firebase';
+import { toWibIso } from '@/lib/time';
+import { parseDocs } from '@/lib/validation';
+import { ModelPerformanceSchema } from '@/types/schemas';
+import type {
+  DataWarning,
+  MetricRegression,
+  ModelMetricKey,
+  ModelPerformance,
+  ModelPerformanceHistory,
+  ModelPerformancePoint,
+  StatsPeriod
+} from '@/types';
+
+const MAX_POINTS = 1000;
+const DEFAULT_THRESHOLD_PCT = 10;
+const DEFAULT_WINDOW = 5;
+const MAX_WINDOW = 50;
+
+const METRIC_KEYS: ModelMetricKey[] = ['lstm_mae', 'lstm_rmse', 'gb_mae', 'gb_rmse', 'rf_accuracy'];
+
+// Accuracy regresses by going down; every error metric by going up
+const HIGHER_IS_BETTER: Record<ModelMetricKey, boolean> = {
+  lstm_mae: false,
+  lstm_rmse: false,
+  gb_mae: false,
+  gb_rmse: false,
+  rf_accuracy: true
+};
+
+export class RegressionQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RegressionQueryError';
+  }
+}
+
+export interface RegressionOptions {
+  thresholdPct: number;
+  window: number;
+}
+
+// ?threshold= (percent) and ?window= (retraining runs) override
+// MODEL_REGRESSION_THRESHOLD_PCT and MODEL_REGRESSION_WINDOW
+export function parseRegressionOptions(params: URLSearchParams): RegressionOptions {
+  const thresholdPct = params.get('threshold')
+    ? Number(params.get('threshold'))
+    : envNumber('MODEL_REGRESSION_THRESHOLD_PCT', DEFAULT_THRESHOLD_PCT);
+  const window = params.get('window')
+    ? Number(params.get('window'))
+    : envNumber('MODEL_REGRESSION_WINDOW', DEFAULT_WINDOW);
+
+  if (!Number.isFinite(thresholdPct) || thresholdPct <= 0) {
+    throw new RegressionQueryError('threshold must be a positive percentage');
+  }
+  if (!Number.isInteger(window) || window < 1 || window > MAX_WINDOW) {
+    throw new RegressionQueryError(`window must be an integer between 1 and ${MAX_WINDOW}`);
+  }
+  return { thresholdPct, window };
+}
+
+function flattenMetrics(snapshot: ModelPerformance): ModelPerformancePoint['metrics'] {
+  const { lstm, gb, rf } = snapshot.metrics;
+  const metrics: ModelPerformancePoint['metrics'] = {
+    lstm_mae: lstm?.mae,
+    lstm_rmse: lstm?.rmse,
+    gb_mae: gb?.mae,
+    gb_rmse: gb?.rmse,
+    rf_accuracy: rf?.accuracy
+  };
+  METRIC_KEYS.forEach(key => {
+    if (metrics[key] === undefined) delete metrics[key];
+  });
+  return metrics;
+}
+
+const sameMetrics = (a: ModelPerformancePoint['metrics'], b: ModelPerformancePoint['metrics']) =>
+  METRIC_KEYS.every(key => a[key] === b[key]);
+
+// The predictor may write a snapshot without retraining; only snapshots
+// whose metrics changed count as retraining runs. Each run is compared with
+// the average of the `window` runs before it. `seed` holds snapshots from
+// before the period so the first runs in it have a history too.
+export function buildPerformancePoints(
+  seed: ModelPerformance[],
+  snapshots: ModelPerformance[],
+  { thresholdPct, window }: RegressionOptions
+): ModelPerformancePoint[] {
+  const runs: ModelPerformancePoint['metrics'][] = [];
+  let previous: ModelPerformancePoint['metrics'] | null = null;
+
+  const record = (metrics: ModelPerformancePoint['metrics']): boolean => {
+    const retrained = previous === null || !sameMetrics(previous, metrics);
+    previous = metrics;
+    if (retrained) runs.push(metrics);
+    return retrained;
+  };
+
+  seed.forEach(snapshot => record(flattenMetrics(snapshot)));
+
+  return snapshots.map(snapshot => {
+    const metrics = flattenMetrics(snapshot);
+    const history = runs.slice(-window);
+    const retrained = record(metrics);
+    const regressions: MetricRegression[] = [];
+
+    if (retrained) {
+      METRIC_KEYS.forEach(metric => {
+        const value = metrics[metric];
+        const past = history.map(run => run[metric]).filter((v): v is number => v !== undefined);
+        if (value === undefined || past.length === 0) return;
+
+        const average = past.reduce((sum, v) => sum + v, 0) / past.length;
+        if (average === 0) return;
+
+        const changePct = ((value - average) / Math.abs(average)) * 100;
+        const worsening = HIGHER_IS_BETTER[metric] ? -changePct : changePct;
+        if (worsening > thresholdPct) {
+          regressions.push({ metric, value, trailing_average: average, change_pct: changePct });
+        }
+      });
+    }
+
+    return { id: snapshot.id, timestamp: snapshot.timestamp, metrics, retrained, regressions };
+  });
+}
+
+export async function fetchModelPerformanceHistory(
+  db: DataStore,
+  period: StatsPeriod,
+  options: RegressionOptions
+): Promise<ModelPerformanceHistory> {
+  const collection = db.collection(COLLECTIONS.modelPerformance);
+  const warnings: DataWarning[] = [];
+
+  let query = collection.where('timestamp', '<=', toWibIso(new Date(period.to)));
+  if (period.from) query = query.where('timestamp', '>=', toWibIso(new Date(period.from)));
+
+  // Newest first so a long period keeps its most recent MAX_POINTS
+  const snapshot = await query.orderBy('timestamp', 'desc').limit(MAX_POINTS + 1).get();
+  const docs = snapshot.docs.slice(0, MAX_POINTS).reverse();
+  const snapshots = parseDocs(ModelPerformanceSchema, COLLECTIONS.modelPerformance, docs, warnings);
+
+  let seed: ModelPerformance[] = [];
+  const first = snapshots[0];
+  if (first) {
+    // Snapshots repeat between retrains, so read generously to find `window` runs
+    const seedSnapshot = await collection
+      .where('timestamp', '<', first.timestamp)
+      .orderBy('timestamp', 'desc')
+      .limit(options.window * 10)
+      .get();
+    seed = parseDocs(ModelPerformanceSchema, COLLECTIONS.modelPerformance, seedSnapshot.docs, warnings).reverse();
+  }
+
+  return {
+    period,
+    threshold_pct: options.thresholdPct,
+    window: options.window,
+    points: buildPerformancePoints(seed, snapshots, options),
+    truncated: snapshot.docs.length > MAX_POINTS,
+    warnings
+  };
+}
@@ -0,0 +1,92 @@
+// lib/period.ts - Statistics window parsing
+import { parseDateParam } from '@/lib/time';
+import type { StatsPeriod, StatsPeriodKey } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_STATS_PERIOD: StatsPeriodKey = '7d';
+
+export const PERIOD_PRESETS: Record<Exclude<StatsPeriodKey, 'custom' | 'all'>, { days: number; label: string }> = {
+  '1d': { days: 1, label: 'Last 24 Hours' },
+  '7d': { days: 7, label: 'Last 7 Days' },
+  '30d': { days: 30, label: 'Last 30 Days' },
+  '90d': { days: 90, label: 'Last 90 Days' }
+};
+
+export class PeriodQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PeriodQueryError';
+  }
+}
+
+function formatRangeLabel(from: Date, to: Date): string {
+  const format = (date: Date) => date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+  return `${format(from)} – ${format(to)}`;
+}
+
+// Accepts ?period=1d|7d|30d|90d|all, or an explicit ?from=&to= range
+// (to defaults to now). Explicit ranges take precedence over presets.
+export function parseStatsPeriod(params: URLSearchParams, now: Date = new Date()): StatsPeriod {
+  const fromParam = params.get('from');
+  const toParam = params.get('to');
+
+  if (fromParam || toParam) {
+    const from = parseDateParam(fromParam);
+    const to = toParam ? parseDateParam(toParam) : now;
+    if (!from) throw new PeriodQueryError('from must be an ISO date');
+    if (!to) throw new PeriodQueryError('to must be an ISO date');
+    if (from >= to) throw new PeriodQueryError('from must be before to');
+
+    return {
+      key: 'custom',
+      label: formatRangeLabel(from, to),
+      from: from.toISOString(),
+      to: to.toISOString()
+    };
+  }
+
+  const key = (params.get('period') || DEFAULT_STATS_PERIOD) as StatsPeriodKey;
+
+  if (key === 'all') {
+    return { key, label: 'All Time', from: null, to: now.toISOString() };
+  }
+
+  const preset = PERIOD_PRESETS[key as keyof typeof PERIOD_PRESETS];
+  if (!preset) {
+    throw new PeriodQueryError(`period must be one of ${[...Object.keys(PERIOD_PRESETS), 'all'].join(', ')}`);
+  }
+
+  return {
+    key,
+    label: preset.label,
+    from: new Date(now.getTime() - preset.days * DAY_MS).toISOString(),
+    to: now.toISOString()
+  };
+}
+
+// The window of equal length that ends where this one starts. All-time
+// has nothing to compare against.
+export function getPreviousPeriod(period: StatsPeriod): StatsPeriod | null {
+  if (!period.from) return null;
+
+  const from = new Date(period.from).getTime();
+  const length = new Date(period.to).getTime() - from;
+
+  return {
+    key: period.key,
+    label: `Previous ${period.label}`,
+    from: new Date(from - length).toISOString(),
+    to: period.from
+  };
+}
+
+export function getPeriodDays(period: StatsPeriod, earliest?: string): number {
+  const to = new Date(period.to).getTime();
+  const from = period.from ? new Date(period.from).getTime() : earliest ? new Date(earliest).getTime() : to;
+  return Math.max(0, Math.round(((to - from) / DAY_MS) * 10) / 10);
+}
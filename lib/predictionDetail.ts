@@ -0,0 +1,92 @@
+// lib/predictionDetail.ts - Single prediction with ensemble outcome and price path
+import type { DataStore } from '@/lib/datastore';
+import { assetCollections } from '@/lib/firebase';
+import { getCandles, pickCandleInterval } from '@/lib/price/candles';
+import { parseDoc } from '@/lib/validation';
+import { PredictionSchema } from '@/types/schemas';
+import { isBullishDirection } from '@/types';
+import type {
+  Asset,
+  DataWarning,
+  Prediction,
+  PredictionDetail,
+  PredictionOutcome,
+  PredictionTiming
+} from '@/types';
+
+// Context shown either side of the prediction window, as a share of it
+const PRICE_PATH_PADDING = 0.2;
+
+export class PredictionNotFoundError extends Error {
+  constructor(id: string) {
+    super(`No prediction with id ${id}`);
+    this.name = 'PredictionNotFoundError';
+  }
+}
+
+export class MalformedPredictionError extends Error {
+  constructor(public readonly warning: DataWarning) {
+    super(`Prediction ${warning.id} is malformed`);
+    this.name = 'MalformedPredictionError';
+  }
+}
+
+function getOutcome(prediction: Prediction): PredictionOutcome {
+  const actual = prediction.actual_price;
+  if (actual === undefined) {
+    return { in_range: null, lstm_error: null, gb_error: null, rf_direction_correct: null };
+  }
+
+  return {
+    in_range: actual >= prediction.price_range_low && actual <= prediction.price_range_high,
+    lstm_error: prediction.lstm_prediction !== undefined ? actual - prediction.lstm_prediction : null,
+    gb_error: prediction.gb_prediction !== undefined ? actual - prediction.gb_prediction : null,
+    rf_direction_correct: prediction.rf_direction
+      ? isBullishDirection(prediction.rf_direction) === actual > prediction.current_price
+      : null
+  };
+}
+
+function getTiming(prediction: Prediction, now: Date): PredictionTiming {
+  const target = new Date(prediction.target_time).getTime();
+  const validated = prediction.validation_time ? new Date(prediction.validation_time).getTime() : NaN;
+
+  return {
+    horizon_minutes: prediction.timeframe_minutes,
+    minutes_to_target: (target - now.getTime()) / 60000,
+    validation_lag_seconds: isNaN(validated) ? null : (validated - target) / 1000
+  };
+}
+
+export async function getPredictionDetail(db: DataStore, id: string, asset?: Asset): Promise<PredictionDetail> {
+  const collections = assetCollections(asset);
+  const doc = await db.collection(collections.predictions).doc(id).get();
+  if (!doc.exists) throw new PredictionNotFoundError(id);
+
+  const warnings: DataWarning[] = [];
+  const prediction = parseDoc(PredictionSchema, collections.predictions, doc, warnings);
+  if (!prediction) throw new MalformedPredictionError(warnings[0]);
+
+  const now = new Date();
+  const windowStart = new Date(prediction.prediction_time).getTime();
+  const windowEnd = new Date(prediction.target_time).getTime();
+  const padding = (windowEnd - windowStart) * PRICE_PATH_PADDING;
+  const start = new Date(windowStart - padding);
+  const end = new Date(Math.min(windowEnd + padding, now.getTime()));
+
+  const detail: PredictionDetail = {
+    prediction,
+    outcome: getOutcome(prediction),
+    timing: getTiming(prediction, now),
+    pricePath: null
+  };
+
+  // The prediction is still worth showing when no provider has the candles
+  try {
+    detail.pricePath = await getCandles({ start, end, intervalMinutes: pickCandleInterval(start, end), asset: collections.asset });
+  } catch (error) {
+    detail.pricePathError = error instanceof Error ? error.message : 'Price history unavailable';
+  }
+
+  return detail;
+}
@@ -0,0 +1,249 @@
+// lib/price/candles.ts - OHLC price history with the same provider fallback as spot prices
+import { ASSETS, DEFAULT_ASSET } from '@/lib/assets';
+import { envNumber } from '@/lib/env';
+import { describeFailure, fetchJson } from '@/lib/price/http';
+import { getConfiguredProviders } from '@/lib/price';
+import { PriceParseError } from '@/lib/price/providers';
+import type { Asset, Candle, PriceHistory, PriceHistoryRange, PriceSource } from '@/types';
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const CACHE_TTL_MS = 30000;
+export const MAX_CANDLES = 300;
+
+// Candle sizes every chart request snaps to
+export const CANDLE_INTERVALS = [1, 5, 15, 60, 240, 1440];
+
+export const PRICE_HISTORY_RANGES: Record<PriceHistoryRange, { minutes: number; interval: number }> = {
+  '1h': { minutes: 60, interval: 1 },
+  '6h': { minutes: 360, interval: 5 },
+  '24h': { minutes: 1440, interval: 15 }
+};
+
+export interface CandleQuery {
+  start: Date;
+  end: Date;
+  intervalMinutes: number;
+  asset?: Asset;
+}
+
+export interface CandleProvider {
+  name: PriceSource;
+  intervals: number[];
+  url(query: CandleQuery): string;
+  parse(body: unknown): Candle[];
+}
+
+export class CandleQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CandleQueryError';
+  }
+}
+
+const assetOf = (query: CandleQuery) => query.asset ?? DEFAULT_ASSET;
+const seconds = (date: Date) => Math.floor(date.getTime() / 1000);
+const count = (query: CandleQuery) =>
+  Math.ceil((query.end.getTime() - query.start.getTime()) / (query.intervalMinutes * 60000)) + 1;
+
+function toNumber(source: PriceSource, value: unknown): number {
+  const number = typeof value === 'string' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number)) {
+    throw new PriceParseError(source, `unexpected candle value ${JSON.stringify(value)}`);
+  }
+  return number;
+}
+
+function rows(source: PriceSource, value: unknown): unknown[][] {
+  if (!Array.isArray(value) || value.some(row => !Array.isArray(row))) {
+    throw new PriceParseError(source, 'candles are not an array of rows');
+  }
+  return value as unknown[][];
+}
+
+// [[openTimeMs, "open", "high", "low", "close", "volume", closeTimeMs, ...], ...]
+export const binanceCandles: CandleProvider = {
+  name: 'binance',
+  intervals: [1, 5, 15, 60, 240, 1440],
+  url(query) {
+    const interval = query.intervalMinutes >= 1440 ? '1d'
+      : query.intervalMinutes >= 60 ? `${query.intervalMinutes / 60}h`
+      : `${query.intervalMinutes}m`;
+    return `https://api.binance.com/api/v3/klines?symbol=${assetOf(query)}USDT&interval=${interval}`
+      + `&startTime=${query.start.getTime()}&endTime=${query.end.getTime()}&limit=${Math.min(count(query), 1000)}`;
+  },
+  parse(body) {
+    return rows('binance', body).map(row => ({
+      time: new Date(toNumber('binance', row[0])).toISOString(),
+      open: toNumber('binance', row[1]),
+      high: toNumber('binance', row[2]),
+      low: toNumber('binance', row[3]),
+      close: toNumber('binance', row[4]),
+      volume: toNumber('binance', row[5])
+    }));
+  }
+};
+
+// { "Response": "Success", "Data": { "Data": [{ "time": 1700000000, "open": ..., "volumefrom": ... }] } }
+export const cryptoCompareCandles: CandleProvider = {
+  name: 'cryptocompare',
+  intervals: [1, 5, 15, 60, 240, 1440],
+  url(query) {
+    const [endpoint, aggregate] = query.intervalMinutes >= 1440 ? ['histoday', query.intervalMinutes / 1440]
+      : query.intervalMinutes >= 60 ? ['histohour', query.intervalMinutes / 60]
+      : ['histominute', query.intervalMinutes];
+    return `https://min-api.cryptocompare.com/data/v2/${endpoint}?fsym=${assetOf(query)}&tsym=USD`
+      + `&aggregate=${aggregate}&limit=${Math.min(count(query), 2000)}&toTs=${seconds(query.end)}`;
+  },
+  parse(body) {
+    const data = body as { Response?: string; Message?: string; Data?: { Data?: unknown } };
+    if (data?.Response !== 'Success') {
+      throw new PriceParseError('cryptocompare', data?.Message ?? 'API error');
+    }
+    const points = data.Data?.Data;
+    if (!Array.isArray(points)) {
+      throw new PriceParseError('cryptocompare', 'missing candle data');
+    }
+    return points.map((point: Record<string, unknown>) => ({
+      time: new Date(toNumber('cryptocompare', point.time) * 1000).toISOString(),
+      open: toNumber('cryptocompare', point.open),
+      high: toNumber('cryptocompare', point.high),
+      low: toNumber('cryptocompare', point.low),
+      close: toNumber('cryptocompare', point.close),
+      volume: toNumber('cryptocompare', point.volumefrom)
+    }));
+  }
+};
+
+// [[timeSec, low, high, open, close, volume], ...] newest first
+export const coinbaseCandles: CandleProvider = {
+  name: 'coinbase',
+  intervals: [1, 5, 15, 60, 1440],
+  url(query) {
+    return `https://api.exchange.coinbase.com/products/${assetOf(query)}-USD/candles?granularity=${query.intervalMinutes * 60}`
+      + `&start=${query.start.toISOString()}&end=${query.end.toISOString()}`;
+  },
+  parse(body) {
+    return rows('coinbase', body).map(row => ({
+      time: new Date(toNumber('coinbase', row[0]) * 1000).toISOString(),
+      low: toNumber('coinbase', row[1]),
+      high: toNumber('coinbase', row[2]),
+      open: toNumber('coinbase', row[3]),
+      close: toNumber('coinbase', row[4]),
+      volume: toNumber('coinbase', row[5])
+    }));
+  }
+};
+
+// { "error": [], "result": { "XXBTZUSD": [[timeSec, "open", "high", "low", "close", "vwap", "volume", count]], "last": ... } }
+export const krakenCandles: CandleProvider = {
+  name: 'kraken',
+  intervals: [1, 5, 15, 60, 240, 1440],
+  url(query) {
+    return `https://api.kraken.com/0/public/OHLC?pair=${ASSETS[assetOf(query)].krakenPair}&interval=${query.intervalMinutes}`
+      + `&since=${seconds(query.start) - 1}`;
+  },
+  parse(body) {
+    const data = body as { error?: string[]; result?: Record<string, unknown> };
+    if (data?.error && data.error.length > 0) {
+      throw new PriceParseError('kraken', data.error.join(', '));
+    }
+    const series = Object.entries(data?.result ?? {}).find(([key]) => key !== 'last')?.[1];
+    return rows('kraken', series).map(row => ({
+      time: new Date(toNumber('kraken', row[0]) * 1000).toISOString(),
+      open: toNumber('kraken', row[1]),
+      high: toNumber('kraken', row[2]),
+      low: toNumber('kraken', row[3]),
+      close: toNumber('kraken', row[4]),
+      volume: toNumber('kraken', row[6])
+    }));
+  }
+};
+
+export const CANDLE_PROVIDERS: Record<PriceSource, CandleProvider> = {
+  binance: binanceCandles,
+  cryptocompare: cryptoCompareCandles,
+  coinbase: coinbaseCandles,
+  kraken: krakenCandles
+};
+
+// Smallest standard interval that keeps the series under MAX_CANDLES
+export function pickCandleInterval(start: Date, end: Date): number {
+  const spanMinutes = (end.getTime() - start.getTime()) / 60000;
+  return CANDLE_INTERVALS.find(interval => spanMinutes / interval <= MAX_CANDLES)
+    ?? CANDLE_INTERVALS[CANDLE_INTERVALS.length - 1];
+}
+
+// Providers disagree on ordering and on how far past the window they
+// return, so normalize to ascending candles that overlap [start, end].
+function clip(candles: Candle[], query: CandleQuery): Candle[] {
+  const start = query.start.getTime() - query.intervalMinutes * 60000;
+  const end = query.end.getTime();
+  return candles
+    .filter(candle => {
+      const time = new Date(candle.time).getTime();
+      return time > start && time <= end;
+    })
+    .sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+}
+
+const cache = new Map<string, { history: PriceHistory; expiresAt: number }>();
+
+export interface CandleOptions {
+  providers?: CandleProvider[];
+  timeoutMs?: number;
+  fetchImpl?: typeof fetch;
+}
+
+export async function getCandles(query: CandleQuery, options: CandleOptions = {}): Promise<PriceHistory> {
+  const {
+    providers = getConfiguredProviders().map(provider => CANDLE_PROVIDERS[provider.name]),
+    timeoutMs = envNumber('PRICE_PROVIDER_TIMEOUT_MS', DEFAULT_TIMEOUT_MS),
+    fetchImpl = fetch
+  } = options;
+
+  if (query.start >= query.end) {
+    throw new CandleQueryError('start must be before end');
+  }
+  // An explicit interval can ask for far more candles than a chart needs
+  const spanMinutes = (query.end.getTime() - query.start.getTime()) / 60000;
+  if (spanMinutes / query.intervalMinutes > MAX_CANDLES) {
+    const fits = CANDLE_INTERVALS.find(interval => spanMinutes / interval <= MAX_CANDLES);
+    throw new CandleQueryError(fits
+      ? `interval ${query.intervalMinutes} gives more than ${MAX_CANDLES} candles for this range; use ${fits} or more`
+      : `range is too long for ${MAX_CANDLES} candles at any interval`);
+  }
+
+  // Snap to the interval so requests in the same minute share a cache entry
+  const step = query.intervalMinutes * 60000;
+  const key = `${assetOf(query)}:${query.intervalMinutes}:${Math.floor(query.start.getTime() / step)}:${Math.floor(query.end.getTime() / 60000)}`;
+  const hit = cache.get(key);
+  if (hit && hit.expiresAt > Date.now()) return hit.history;
+
+  const errors: string[] = [];
+  for (const provider of providers) {
+    if (!provider.intervals.includes(query.intervalMinutes)) continue;
+    try {
+      const candles = clip(provider.parse(await fetchJson(provider.url(query), timeoutMs, fetchImpl)), query);
+      if (candles.length === 0) throw new Error('no candles in range');
+
+      const history: PriceHistory = {
+        source: provider.name,
+        interval_minutes: query.intervalMinutes,
+        from: query.start.toISOString(),
+        to: query.end.toISOString(),
+        candles
+      };
+      cache.forEach((entry, cachedKey) => {
+        if (entry.expiresAt <= Date.now()) cache.delete(cachedKey);
+      });
+      cache.set(key, { history, expiresAt: Date.now() + CACHE_TTL_MS });
+      return history;
+    } catch (error) {
+      const reason = describeFailure(error, timeoutMs);
+      errors.push(`${provider.name}: ${reason}`);
+      console.warn(`⚠️ Candle provider ${provider.name} failed: ${reason}`);
+    }
+  }
+
+  throw new Error(`No price history available (${errors.join('; ') || 'no provider supports this interval'})`);
+}
@@ -0,0 +1,29 @@
+// lib/price/http.ts - JSON fetch with a hard timeout, shared by price adapters
+export async function fetchJson(
+  url: string,
+  timeoutMs: number,
+  fetchImpl: typeof fetch = fetch
+): Promise<unknown> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetchImpl(url, {
+      signal: controller.signal,
+      cache: 'no-store'
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return await response.json();
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export function describeFailure(error: unknown, timeoutMs: number): string {
+  if (error instanceof Error && error.name === 'AbortError') {
+    return `timed out after ${timeoutMs}ms`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,104 @@
+// lib/price/index.ts - Spot price lookup with ordered fallback and a short cache
+import { DEFAULT_ASSET } from '@/lib/assets';
+import { envNumber } from '@/lib/env';
+import { describeFailure, fetchJson } from '@/lib/price/http';
+import { PRICE_PROVIDERS } from '@/lib/price/providers';
+import type { PriceProvider } from '@/lib/price/providers';
+import type { Asset, PriceQuote, PriceSource } from '@/types';
+
+export { PRICE_PROVIDERS, PriceParseError } from '@/lib/price/providers';
+export type { PriceProvider } from '@/lib/price/providers';
+
+const DEFAULT_ORDER: PriceSource[] = ['cryptocompare', 'binance', 'coinbase', 'kraken'];
+const DEFAULT_TIMEOUT_MS = 3000;
+const DEFAULT_CACHE_TTL_MS = 10000;
+
+export interface SpotPriceOptions {
+  asset?: Asset;
+  providers?: PriceProvider[];
+  timeoutMs?: number;
+  cacheTtlMs?: number;
+  fetchImpl?: typeof fetch;
+}
+
+// Keyed by asset
+const cached = new Map<Asset, { quote: PriceQuote; expiresAt: number }>();
+const inFlight = new Map<Asset, Promise<PriceQuote | null>>();
+
+// PRICE_PROVIDERS=binance,kraken reorders or narrows the chain
+export function getConfiguredProviders(): PriceProvider[] {
+  const configured = process.env.PRICE_PROVIDERS
+    ?.split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter((name): name is PriceSource => name in PRICE_PROVIDERS);
+
+  const order = configured && configured.length > 0 ? configured : DEFAULT_ORDER;
+  return order.map(name => PRICE_PROVIDERS[name]);
+}
+
+export async function fetchFromProvider(
+  provider: PriceProvider,
+  timeoutMs: number,
+  fetchImpl: typeof fetch = fetch,
+  asset: Asset = DEFAULT_ASSET
+): Promise<PriceQuote> {
+  const price = provider.parse(await fetchJson(provider.url(asset), timeoutMs, fetchImpl));
+  return { price, source: provider.name, timestamp: new Date().toISOString() };
+}
+
+async function fetchWithFallback(
+  providers: PriceProvider[],
+  timeoutMs: number,
+  fetchImpl: typeof fetch,
+  asset: Asset
+): Promise<PriceQuote | null> {
+  for (const provider of providers) {
+    try {
+      return await fetchFromProvider(provider, timeoutMs, fetchImpl, asset);
+    } catch (error) {
+      console.warn(`⚠️ Price provider ${provider.name} failed for ${asset}: ${describeFailure(error, timeoutMs)}`);
+    }
+  }
+  return null;
+}
+
+// Tries each provider in order and caches the first good quote. When every
+// provider fails, the last cached quote is returned marked stale; null only
+// when nothing has ever succeeded.
+export async function getSpotPrice(options: SpotPriceOptions = {}): Promise<PriceQuote | null> {
+  const {
+    asset = DEFAULT_ASSET,
+    providers = getConfiguredProviders(),
+    timeoutMs = envNumber('PRICE_PROVIDER_TIMEOUT_MS', DEFAULT_TIMEOUT_MS),
+    cacheTtlMs = envNumber('PRICE_CACHE_TTL_MS', DEFAULT_CACHE_TTL_MS),
+    fetchImpl = fetch
+  } = options;
+
+  const hit = cached.get(asset);
+  if (hit && hit.expiresAt > Date.now()) {
+    return hit.quote;
+  }
+
+  // Concurrent requests share one round of provider calls
+  let pending = inFlight.get(asset);
+  if (!pending) {
+    pending = fetchWithFallback(providers, timeoutMs, fetchImpl, asset).finally(() => {
+      inFlight.delete(asset);
+    });
+    inFlight.set(asset, pending);
+  }
+  const quote = await pending;
+
+  if (quote) {
+    cached.set(asset, { quote, expiresAt: Date.now() + cacheTtlMs });
+    return quote;
+  }
+
+  const last = cached.get(asset);
+  return last ? { ...last.quote, stale: true } : null;
+}
+
+export function clearPriceCache(): void {
+  cached.clear();
+  inFlight.clear();
+}
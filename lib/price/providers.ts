@@ -0,0 +1,97 @@
+// lib/price/providers.ts - Spot price adapters
+//
+// Each adapter only knows its endpoint and how to read a price out of the
+// response body, so it can be exercised against recorded JSON without the
+// network.
+import { ASSETS } from '@/lib/assets';
+import type { Asset, PriceSource } from '@/types';
+
+export interface PriceProvider {
+  name: PriceSource;
+  url(asset: Asset): string;
+  parse(body: unknown): number;
+}
+
+export class PriceParseError extends Error {
+  constructor(source: PriceSource, message: string) {
+    super(`${source}: ${message}`);
+    this.name = 'PriceParseError';
+  }
+}
+
+function toPrice(source: PriceSource, value: unknown): number {
+  const price = typeof value === 'string' ? Number(value) : value;
+  if (typeof price !== 'number' || !Number.isFinite(price) || price <= 0) {
+    throw new PriceParseError(source, `unexpected price value ${JSON.stringify(value)}`);
+  }
+  return price;
+}
+
+function asRecord(source: PriceSource, value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== 'object') {
+    throw new PriceParseError(source, 'response is not an object');
+  }
+  return value as Record<string, unknown>;
+}
+
+// { "USD": 97123.45 }
+export const cryptoCompareProvider: PriceProvider = {
+  name: 'cryptocompare',
+  url: asset => `https://min-api.cryptocompare.com/data/price?fsym=${asset}&tsyms=USD`,
+  parse(body) {
+    const data = asRecord('cryptocompare', body);
+    if (data.Response === 'Error') {
+      throw new PriceParseError('cryptocompare', String(data.Message ?? 'API error'));
+    }
+    return toPrice('cryptocompare', data.USD);
+  }
+};
+
+// { "symbol": "BTCUSDT", "price": "97123.45000000" }
+export const binanceProvider: PriceProvider = {
+  name: 'binance',
+  url: asset => `https://api.binance.com/api/v3/ticker/price?symbol=${asset}USDT`,
+  parse(body) {
+    const data = asRecord('binance', body);
+    if (typeof data.code === 'number') {
+      throw new PriceParseError('binance', String(data.msg ?? `error ${data.code}`));
+    }
+    return toPrice('binance', data.price);
+  }
+};
+
+// { "data": { "amount": "97123.45", "base": "BTC", "currency": "USD" } }
+export const coinbaseProvider: PriceProvider = {
+  name: 'coinbase',
+  url: asset => `https://api.coinbase.com/v2/prices/${asset}-USD/spot`,
+  parse(body) {
+    const data = asRecord('coinbase', asRecord('coinbase', body).data);
+    return toPrice('coinbase', data.amount);
+  }
+};
+
+// { "error": [], "result": { "XXBTZUSD": { "c": ["97123.40000", "0.001"], ... } } }
+export const krakenProvider: PriceProvider = {
+  name: 'kraken',
+  url: asset => `https://api.kraken.com/0/public/Ticker?pair=${ASSETS[asset].krakenPair}`,
+  parse(body) {
+    const data = asRecord('kraken', body);
+    if (Array.isArray(data.error) && data.error.length > 0) {
+      throw new PriceParseError('kraken', data.error.join(', '));
+    }
+    const result = asRecord('kraken', data.result);
+    const ticker = asRecord('kraken', Object.values(result)[0]);
+    const lastTrade = ticker.c;
+    if (!Array.isArray(lastTrade)) {
+      throw new PriceParseError('kraken', 'missing last trade');
+    }
+    return toPrice('kraken', lastTrade[0]);
+  }
+};
+
+export const PRICE_PROVIDERS: Record<PriceSource, PriceProvider> = {
+  cryptocompare: cryptoCompareProvider,
+  binance: binanceProvider,
+  coinbase: coinbaseProvider,
+  kraken: krakenProvider
+};
@@ -0,0 +1,77 @@
+// lib/publicApi.ts - Payloads of the versioned public API (/api/v1)
+//
+// Maps the predictor's documents onto the ApiV1 types, which are the
+// contract with consumers; the documents themselves may change shape.
+import type { DataStore } from '@/lib/datastore';
+import { assetCollections } from '@/lib/firebase';
+import { getSystemStatus } from '@/lib/systemStatus';
+import { resolveTimeframes } from '@/lib/timeframes';
+import { parseDocs } from '@/lib/validation';
+import { PredictionSchema } from '@/types/schemas';
+import { isBullishDirection } from '@/types';
+import type { ApiV1Prediction, ApiV1Stats, Asset, DataWarning, Prediction, Statistics } from '@/types';
+
+const toUtc = (timestamp: string): string => new Date(timestamp).toISOString();
+
+export function toV1Prediction(prediction: Prediction, asset: Asset): ApiV1Prediction {
+  const result = prediction.validated ? prediction.validation_result : null;
+  return {
+    id: prediction.id,
+    asset,
+    timeframe_minutes: prediction.timeframe_minutes,
+    direction: isBullishDirection(prediction.trend) ? 'up' : 'down',
+    confidence: prediction.confidence,
+    price_at_prediction: prediction.current_price,
+    predicted_price: prediction.predicted_price,
+    predicted_range: { low: prediction.price_range_low, high: prediction.price_range_high },
+    predicted_at: toUtc(prediction.prediction_time),
+    target_time: toUtc(prediction.target_time),
+    status: result === 'WIN' ? 'win' : result === 'LOSE' ? 'lose' : 'pending',
+    actual_price: result ? prediction.actual_price ?? null : null,
+    validated_at: result && prediction.validation_time ? toUtc(prediction.validation_time) : null
+  };
+}
+
+export function toV1Stats(stats: Statistics): ApiV1Stats {
+  return {
+    timeframe_minutes: stats.timeframe_minutes ?? null,
+    total: stats.total_predictions,
+    wins: stats.wins,
+    losses: stats.losses,
+    win_rate: stats.win_rate,
+    avg_error: stats.avg_error,
+    avg_error_pct: stats.avg_error_pct
+  };
+}
+
+const RECENT_FOR_TIMEFRAMES = 100;
+
+// The newest prediction for each timeframe, shortest timeframe first. The
+// timeframes are found as on the dashboard: TIMEFRAMES, else whatever the
+// predictor reports as active or has predicted lately.
+export async function fetchLatestSignals(db: DataStore, asset: Asset, warnings: DataWarning[] = []): Promise<Prediction[]> {
+  const collections = assetCollections(asset);
+  const predictions = db.collection(collections.predictions);
+
+  const [systemStatus, recent] = await Promise.all([
+    getSystemStatus(db, warnings),
+    predictions.orderBy('prediction_time', 'desc').limit(RECENT_FOR_TIMEFRAMES).get()
+  ]);
+  const timeframes = resolveTimeframes({
+    withData: [],
+    systemStatus,
+    predictions: parseDocs(PredictionSchema, collections.predictions, recent.docs, [])
+  });
+
+  // One small query per timeframe, on the (timeframe_minutes,
+  // prediction_time) index the history view already uses
+  const latest = await Promise.all(timeframes.map(async timeframe => {
+    const snapshot = await predictions
+      .where('timeframe_minutes', '==', timeframe)
+      .orderBy('prediction_time', 'desc')
+      .limit(1)
+      .get();
+    return parseDocs(PredictionSchema, collections.predictions, snapshot.docs, warnings);
+  }));
+  return latest.flat();
+}
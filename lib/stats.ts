@@ -0,0 +1,112 @@
+// lib/stats.ts - Win/loss and error statistics built from aggregate totals
+import { emptyCounts, mergeCounts } from '@/lib/aggregates';
+import type { AggregateCounts, WindowTotals } from '@/lib/aggregates';
+import { getPeriodDays } from '@/lib/period';
+import type {
+  Statistics,
+  StatisticsDelta,
+  StatsPeriod,
+  TimeframeCategoryStats
+} from '@/types';
+import { getTimeframeCategory, TIMEFRAME_CATEGORY_ORDER } from '@/types';
+
+interface Summary {
+  total_predictions: number;
+  wins: number;
+  losses: number;
+  win_rate: number;
+  avg_error: number;
+  avg_error_pct: number;
+}
+
+function sumTimeframes(totals: WindowTotals, include: (timeframe: number) => boolean): AggregateCounts {
+  const sum = emptyCounts();
+  totals.byTimeframe.forEach((counts, timeframe) => {
+    if (include(timeframe)) mergeCounts(sum, counts);
+  });
+  return sum;
+}
+
+function summarize(counts: AggregateCounts): Summary {
+  const total = counts.total;
+
+  return {
+    total_predictions: total,
+    wins: counts.wins,
+    losses: counts.losses,
+    win_rate: total > 0 ? (counts.wins / total) * 100 : 0,
+    avg_error: total > 0 ? counts.error_sum / total : 0,
+    avg_error_pct: total > 0 ? counts.error_pct_sum / total : 0
+  };
+}
+
+// No delta when the previous window is empty: a jump from "no data" is noise
+export function computeDelta(current: Summary, previous: Summary | null): StatisticsDelta | null {
+  if (!previous || previous.total_predictions === 0) return null;
+
+  return {
+    total_predictions: current.total_predictions - previous.total_predictions,
+    wins: current.wins - previous.wins,
+    losses: current.losses - previous.losses,
+    win_rate: current.win_rate - previous.win_rate,
+    avg_error: current.avg_error - previous.avg_error,
+    avg_error_pct: current.avg_error_pct - previous.avg_error_pct
+  };
+}
+
+function summarizeWithDelta(
+  totals: WindowTotals,
+  previous: WindowTotals | null,
+  include: (timeframe: number) => boolean
+) {
+  const summary = summarize(sumTimeframes(totals, include));
+  const previousSummary = previous ? summarize(sumTimeframes(previous, include)) : null;
+  return { ...summary, delta: computeDelta(summary, previousSummary) };
+}
+
+export function calculateOverallStats(
+  totals: WindowTotals,
+  period: StatsPeriod,
+  previous: WindowTotals | null
+): Statistics {
+  return {
+    period_days: getPeriodDays(period, totals.earliest),
+    period: period.key,
+    ...summarizeWithDelta(totals, previous, () => true),
+    last_updated: new Date().toISOString()
+  };
+}
+
+export function calculateTimeframeStats(
+  totals: WindowTotals,
+  timeframes: number[],
+  period: StatsPeriod,
+  previous: WindowTotals | null
+): Statistics[] {
+  const periodDays = getPeriodDays(period, totals.earliest);
+
+  return timeframes.map(tf => ({
+    timeframe_minutes: tf,
+    period_days: periodDays,
+    period: period.key,
+    ...summarizeWithDelta(totals, previous, timeframe => timeframe === tf),
+    last_updated: new Date().toISOString()
+  }));
+}
+
+// `timeframes` only sets which timeframes each category lists; its totals
+// always cover every timeframe in that range
+export function calculateCategoryStats(
+  totals: WindowTotals,
+  previous: WindowTotals | null = null,
+  timeframes: number[] = Array.from(totals.byTimeframe.keys()).sort((a, b) => a - b)
+): TimeframeCategoryStats[] {
+  return TIMEFRAME_CATEGORY_ORDER.map(category => {
+    const inCategory = (timeframe: number) => getTimeframeCategory(timeframe) === category;
+    return {
+      category,
+      timeframes: timeframes.filter(inCategory),
+      ...summarizeWithDelta(totals, previous, inCategory)
+    };
+  });
+}
@@ -0,0 +1,122 @@
+// lib/status.ts - The one place predictor health is derived, on server and client
+//
+// Pure functions only: the API derives health with these and sends its
+// thresholds along, and the dashboard re-derives every few seconds from the
+// same inputs so the badge ages between fetches.
+import type {
+  HealthState,
+  HealthStatus,
+  Prediction,
+  StatusSignals,
+  StatusThresholds,
+  SystemStatus,
+  ValidationLagSummary
+} from '@/types';
+
+export const DEFAULT_STATUS_THRESHOLDS: StatusThresholds = {
+  heartbeat_delayed_minutes: 2,
+  heartbeat_offline_minutes: 10,
+  prediction_stall_minutes: 30,
+  validation_stall_minutes: 15
+};
+
+// Shown when there is no heartbeat doc; check `heartbeat_missing`, not this
+export const MISSING_HEARTBEAT_MESSAGE = 'No heartbeat data found';
+
+export const HEALTH_STATE_LABELS: Record<HealthState, string> = {
+  online: 'ONLINE',
+  delayed: 'DELAYED',
+  degraded: 'DEGRADED',
+  offline: 'OFFLINE',
+  error: 'ERROR',
+  unknown: 'CHECKING'
+};
+
+const minutesBetween = (from: string, now: Date) => (now.getTime() - new Date(from).getTime()) / 60000;
+
+const formatMinutes = (minutes: number) => {
+  const whole = Math.max(0, Math.floor(minutes));
+  return whole < 60 ? `${whole}m` : `${Math.floor(whole / 60)}h ${whole % 60}m`;
+};
+
+// The server's validation-lag summary covers every overdue prediction; the
+// pending list is only the newest 100, so it is the fallback
+export function statusSignals(
+  data: {
+    systemStatus?: SystemStatus | null;
+    recentPredictions: Prediction[];
+    pendingPredictions: Prediction[];
+    validationLag?: ValidationLagSummary | null;
+  },
+  now: Date = new Date()
+): StatusSignals {
+  const heartbeat = data.systemStatus && !data.systemStatus.heartbeat_missing ? data.systemStatus : null;
+  const overdue = data.pendingPredictions
+    .filter(prediction => !prediction.validated && new Date(prediction.target_time) <= now)
+    .map(prediction => prediction.target_time)
+    .sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+  const lastPrediction = data.recentPredictions
+    .map(prediction => prediction.timestamp)
+    .sort((a, b) => new Date(b).getTime() - new Date(a).getTime())[0];
+
+  return {
+    heartbeat_at: heartbeat?.timestamp ?? null,
+    reported_status: heartbeat?.status ?? null,
+    message: heartbeat?.message ?? null,
+    last_prediction_at: lastPrediction ?? null,
+    overdue_validations: data.validationLag?.overdue ?? overdue.length,
+    oldest_overdue_target: data.validationLag ? data.validationLag.oldest_overdue_target : overdue[0] ?? null
+  };
+}
+
+// Checked in order of severity; the first rule that matches wins:
+// no heartbeat, stale heartbeat, reported error/offline, late heartbeat,
+// then degraded when heartbeats arrive but predictions or validations stall
+export function deriveStatus(
+  signals: StatusSignals,
+  thresholds: StatusThresholds = DEFAULT_STATUS_THRESHOLDS,
+  now: Date = new Date()
+): HealthStatus {
+  const result = (state: HealthState, reason: string, age: number | null): HealthStatus => ({
+    state,
+    reason,
+    heartbeat_age_minutes: age,
+    checked_at: now.toISOString()
+  });
+
+  if (!signals.heartbeat_at) return result('unknown', 'No heartbeat received yet', null);
+
+  const age = minutesBetween(signals.heartbeat_at, now);
+  if (age >= thresholds.heartbeat_offline_minutes) {
+    return result('offline', `No heartbeat for ${formatMinutes(age)}`, age);
+  }
+  if (signals.reported_status === 'error') {
+    return result('error', signals.message || 'Predictor reported an error', age);
+  }
+  if (signals.reported_status === 'offline' || signals.reported_status === 'stopping') {
+    return result('offline', `Predictor reported ${signals.reported_status}`, age);
+  }
+  if (age >= thresholds.heartbeat_delayed_minutes) {
+    return result('delayed', `Last heartbeat ${formatMinutes(age)} ago`, age);
+  }
+
+  if (signals.last_prediction_at) {
+    const sincePrediction = minutesBetween(signals.last_prediction_at, now);
+    if (sincePrediction >= thresholds.prediction_stall_minutes) {
+      return result('degraded', `Heartbeat OK but no new prediction for ${formatMinutes(sincePrediction)}`, age);
+    }
+  }
+  if (signals.oldest_overdue_target) {
+    const overdueBy = minutesBetween(signals.oldest_overdue_target, now);
+    if (overdueBy >= thresholds.validation_stall_minutes) {
+      return result(
+        'degraded',
+        `${signals.overdue_validations} prediction${signals.overdue_validations === 1 ? '' : 's'} awaiting validation, oldest ${formatMinutes(overdueBy)} past target`,
+        age
+      );
+    }
+  }
+
+  if (signals.reported_status === 'starting') return result('online', 'Predictor is starting up', age);
+  return result('online', age < 1 ? 'Active now' : `Heartbeat ${formatMinutes(age)} ago`, age);
+}
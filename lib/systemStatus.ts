@@ -0,0 +1,110 @@
+// lib/systemStatus.ts - Predictor heartbeat status
+import type { z } from 'zod';
+import type { DataStore, StoreDocumentSnapshot } from '@/lib/datastore';
+import { envNumber } from '@/lib/env';
+import { COLLECTIONS } from '@/lib/firebase';
+import { DEFAULT_STATUS_THRESHOLDS, deriveStatus, MISSING_HEARTBEAT_MESSAGE } from '@/lib/status';
+import { parseDoc } from '@/lib/validation';
+import { HeartbeatDocSchema, SYSTEM_STATUS_VALUES } from '@/types/schemas';
+import type { DataWarning, StatusThresholds, SystemStatus } from '@/types';
+
+type HeartbeatDoc = z.infer<typeof HeartbeatDocSchema>;
+
+// STATUS_* env vars override the defaults, e.g. a slower staging predictor
+export function getStatusThresholds(): StatusThresholds {
+  const defaults = DEFAULT_STATUS_THRESHOLDS;
+  return {
+    heartbeat_delayed_minutes: envNumber('STATUS_HEARTBEAT_DELAYED_MINUTES', defaults.heartbeat_delayed_minutes),
+    heartbeat_offline_minutes: envNumber('STATUS_HEARTBEAT_OFFLINE_MINUTES', defaults.heartbeat_offline_minutes),
+    prediction_stall_minutes: envNumber('STATUS_PREDICTION_STALL_MINUTES', defaults.prediction_stall_minutes),
+    validation_stall_minutes: envNumber('STATUS_VALIDATION_STALL_MINUTES', defaults.validation_stall_minutes)
+  };
+}
+
+// Normalizes the predictor's free-form status. The reported value is kept
+// unless deriveStatus says otherwise: a stale heartbeat is offline even if
+// the last one said "running".
+export function heartbeatToStatus(data: HeartbeatDoc, now: Date = new Date()): SystemStatus {
+  const reported = SYSTEM_STATUS_VALUES.find(value => value === data.status);
+  const { state } = deriveStatus(
+    {
+      heartbeat_at: data.timestamp,
+      reported_status: reported ?? null,
+      message: data.message ?? null,
+      last_prediction_at: null,
+      overdue_validations: 0,
+      oldest_overdue_target: null
+    },
+    getStatusThresholds(),
+    now
+  );
+
+  let status: SystemStatus['status'];
+  if (state === 'error') status = 'error';
+  else if (state === 'offline') status = reported === 'stopping' ? 'stopping' : 'offline';
+  else status = reported ?? 'online';
+
+  return { ...data, status };
+}
+
+export function missingHeartbeatStatus(): SystemStatus {
+  return {
+    status: 'offline',
+    timestamp: new Date().toISOString(),
+    message: MISSING_HEARTBEAT_MESSAGE,
+    heartbeat_missing: true
+  };
+}
+
+// Status for a heartbeat snapshot; a malformed document is reported in
+// `warnings` and shown as an error rather than trusted field by field
+export function snapshotToStatus(doc: StoreDocumentSnapshot, warnings: DataWarning[]): SystemStatus {
+  if (!doc.exists) return missingHeartbeatStatus();
+
+  const heartbeat = parseDoc(HeartbeatDocSchema, COLLECTIONS.systemStatus, doc, warnings);
+  return heartbeat
+    ? heartbeatToStatus(heartbeat)
+    : { status: 'error', timestamp: new Date().toISOString(), message: 'Malformed heartbeat data' };
+}
+
+export class MalformedHeartbeatError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Malformed heartbeat data: ${issues.join('; ')}`);
+    this.name = 'MalformedHeartbeatError';
+    this.issues = issues;
+  }
+}
+
+// For checks that act on the heartbeat, such as alerts: a failed read and a
+// malformed document throw instead of standing in a status stamped now
+export async function readSystemStatus(db: DataStore, now: Date = new Date()): Promise<SystemStatus> {
+  const doc = await db.collection(COLLECTIONS.systemStatus).doc('heartbeat').get();
+  if (!doc.exists) return missingHeartbeatStatus();
+
+  const warnings: DataWarning[] = [];
+  const heartbeat = parseDoc(HeartbeatDocSchema, COLLECTIONS.systemStatus, doc, warnings);
+  if (!heartbeat) throw new MalformedHeartbeatError(warnings.flatMap(warning => warning.issues));
+  return heartbeatToStatus(heartbeat, now);
+}
+
+export async function getSystemStatus(db: DataStore, warnings: DataWarning[] = []): Promise<SystemStatus> {
+  try {
+    const statusDoc = await db.collection(COLLECTIONS.systemStatus).doc('heartbeat').get();
+    return snapshotToStatus(statusDoc, warnings);
+  } catch (error) {
+    console.error('Error fetching system status:', error);
+    return {
+      status: 'error',
+      timestamp: new Date().toISOString(),
+      message: 'Error fetching status'
+    };
+  }
+}
+
+// What viewers get: whether the predictor is up and what it covers, without
+// process details such as its pid, memory and CPU
+export function publicSystemStatus({ status, timestamp, message, active_timeframes, heartbeat_missing }: SystemStatus): SystemStatus {
+  return { status, timestamp, message, active_timeframes, heartbeat_missing };
+}
@@ -0,0 +1,31 @@
+// lib/time.ts - WIB timestamp helpers
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+
+// The Python predictor writes every timestamp as an ISO string in WIB
+// (Asia/Jakarta, +07:00). Firestore compares those strings lexicographically,
+// so query bounds must be formatted the same way.
+export const WIB_TIMEZONE = 'Asia/Jakarta';
+
+export function toWibIso(date: Date): string {
+  return formatInTimeZone(date, WIB_TIMEZONE, "yyyy-MM-dd'T'HH:mm:ss.SSSxxx");
+}
+
+// Calendar day (yyyy-MM-dd) in WIB
+export function toWibDate(date: Date): string {
+  return formatInTimeZone(date, WIB_TIMEZONE, 'yyyy-MM-dd');
+}
+
+export function wibDayStart(day: string): Date {
+  return fromZonedTime(`${day}T00:00:00`, WIB_TIMEZONE);
+}
+
+export function addWibDays(day: string, days: number): string {
+  // WIB has no DST, so a day is always 24h
+  return toWibDate(new Date(wibDayStart(day).getTime() + days * 24 * 60 * 60 * 1000));
+}
+
+export function parseDateParam(value: string | null): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
@@ -0,0 +1,34 @@
+// lib/timeframes.ts - Which timeframes the dashboard reports on
+import type { Prediction, SystemStatus } from '@/types';
+
+// TIMEFRAMES=5,15,60 pins the list; unset, it is discovered
+export function getConfiguredTimeframes(): number[] | null {
+  const raw = process.env.TIMEFRAMES;
+  if (!raw || raw.trim() === '') return null;
+
+  const timeframes = raw.split(',').map(item => Number(item.trim()));
+  if (timeframes.some(tf => !Number.isInteger(tf) || tf <= 0)) {
+    console.warn(`⚠️ Ignoring TIMEFRAMES="${raw}": expected a comma-separated list of minutes`);
+    return null;
+  }
+  return Array.from(new Set(timeframes)).sort((a, b) => a - b);
+}
+
+// Every timeframe with data in the window, plus any the predictor says it
+// is running or has predictions in flight for, so a new timeframe shows up
+// before its first validation
+export function resolveTimeframes(sources: {
+  withData: Iterable<number>;
+  systemStatus?: SystemStatus | null;
+  predictions?: Prediction[];
+}): number[] {
+  const configured = getConfiguredTimeframes();
+  if (configured) return configured;
+
+  const found = new Set<number>(sources.withData);
+  const active = sources.systemStatus?.active_timeframes;
+  if (Array.isArray(active)) active.forEach(tf => found.add(tf));
+  sources.predictions?.forEach(prediction => found.add(prediction.timeframe_minutes));
+
+  return Array.from(found).sort((a, b) => a - b);
+}
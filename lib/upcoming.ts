@@ -0,0 +1,32 @@
+// lib/upcoming.ts - Predictions still waiting for their target time
+import type { DataStore } from '@/lib/datastore';
+import { assetCollections } from '@/lib/firebase';
+import { toWibIso } from '@/lib/time';
+import { parseDocs } from '@/lib/validation';
+import { PredictionSchema } from '@/types/schemas';
+import type { Asset, DataWarning, Prediction } from '@/types';
+
+const MAX_UPCOMING = 500;
+
+// Unvalidated predictions whose target_time is still ahead, soonest first.
+// Shares the (validated, target_time) index with the validation-lag queries.
+export async function fetchUpcomingPredictions(
+  db: DataStore,
+  now: Date = new Date(),
+  warnings: DataWarning[] = [],
+  asset?: Asset
+): Promise<{ predictions: Prediction[]; truncated: boolean }> {
+  const collections = assetCollections(asset);
+  const snapshot = await db
+    .collection(collections.predictions)
+    .where('validated', '==', false)
+    .where('target_time', '>', toWibIso(now))
+    .orderBy('target_time', 'asc')
+    .limit(MAX_UPCOMING + 1)
+    .get();
+
+  return {
+    predictions: parseDocs(PredictionSchema, collections.predictions, snapshot.docs.slice(0, MAX_UPCOMING), warnings),
+    truncated: snapshot.docs.length > MAX_UPCOMING
+  };
+}
@@ -0,0 +1,50 @@
+// lib/validation.ts - Parse Firestore documents against their schemas
+import type { z } from 'zod';
+import type { DocumentData } from '@/lib/datastore';
+import type { DataWarning } from '@/types';
+
+interface DocLike {
+  id: string;
+  data(): DocumentData | undefined;
+}
+
+function describeIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || '(document)'}: ${issue.message}`);
+}
+
+// Returns the parsed document, or null after recording a warning. The doc
+// id is merged in before parsing so schemas can require it.
+export function parseDoc<S extends z.ZodType>(
+  schema: S,
+  collection: string,
+  doc: DocLike,
+  warnings: DataWarning[]
+): z.infer<S> | null {
+  const result = schema.safeParse({ id: doc.id, ...doc.data() });
+  if (result.success) return result.data;
+
+  const warning: DataWarning = { collection, id: doc.id, issues: describeIssues(result.error) };
+  console.warn(`⚠️ Skipping malformed ${collection}/${doc.id}: ${warning.issues.join('; ')}`);
+  warnings.push(warning);
+  return null;
+}
+
+export function parseDocs<S extends z.ZodType>(
+  schema: S,
+  collection: string,
+  docs: DocLike[],
+  warnings: DataWarning[]
+): z.infer<S>[] {
+  return docs.flatMap(doc => {
+    const parsed = parseDoc(schema, collection, doc, warnings);
+    return parsed === null ? [] : [parsed];
+  });
+}
+
+// A copy without the stored-only fields, such as hashes and secrets, that
+// must not leave the server
+export function omit<T extends object, K extends keyof T>(value: T, ...keys: K[]): Omit<T, K> {
+  const copy = { ...value };
+  keys.forEach(key => delete copy[key]);
+  return copy;
+}
@@ -0,0 +1,214 @@
+// lib/validationLag.ts - How far the validator is behind, now and over time
+import type { DataStore } from '@/lib/datastore';
+import { assetCollections } from '@/lib/firebase';
+import { toWibIso } from '@/lib/time';
+import { parseDocs } from '@/lib/validation';
+import { PredictionSchema } from '@/types/schemas';
+import type {
+  Asset,
+  DataWarning,
+  Prediction,
+  StatsPeriod,
+  ValidationLagBucket,
+  ValidationLagPoint,
+  ValidationLagReport,
+  ValidationLagSummary,
+  ValidationLagTimeframe
+} from '@/types';
+
+const MAX_OVERDUE = 1000;
+const MAX_PREDICTIONS = 10000;
+const TREND_POINTS = 48;
+const MINUTE_MS = 60000;
+
+// Upper bounds in minutes; the last bucket is open-ended
+export const LAG_BUCKETS: { label: string; max_minutes: number | null }[] = [
+  { label: '<5m', max_minutes: 5 },
+  { label: '5–15m', max_minutes: 15 },
+  { label: '15–60m', max_minutes: 60 },
+  { label: '1–6h', max_minutes: 360 },
+  { label: '>6h', max_minutes: null }
+];
+
+const time = (timestamp: string) => new Date(timestamp).getTime();
+
+function bucketIndex(minutes: number): number {
+  const index = LAG_BUCKETS.findIndex(bucket => bucket.max_minutes !== null && minutes < bucket.max_minutes);
+  return index === -1 ? LAG_BUCKETS.length - 1 : index;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Minutes between target_time and validation, or until `now` while still
+// unvalidated. null for validated predictions without a validation_time.
+function lagMinutes(prediction: Prediction, now: number): number | null {
+  if (!prediction.validated) return Math.max(0, (now - time(prediction.target_time)) / MINUTE_MS);
+  if (!prediction.validation_time) return null;
+  return Math.max(0, (time(prediction.validation_time) - time(prediction.target_time)) / MINUTE_MS);
+}
+
+// Unvalidated at `at`: due by then, and either still open or validated later
+function overdueAt(prediction: Prediction, at: number): boolean {
+  if (time(prediction.target_time) > at) return false;
+  if (!prediction.validated) return true;
+  return prediction.validation_time !== undefined && time(prediction.validation_time) > at;
+}
+
+function buildTrend(predictions: Prediction[], from: number, to: number): ValidationLagPoint[] {
+  if (to <= from) return [];
+  const step = (to - from) / TREND_POINTS;
+
+  return Array.from({ length: TREND_POINTS }, (_, i) => {
+    const start = from + i * step;
+    const end = start + step;
+    const delays = predictions
+      .filter(prediction => prediction.validated && prediction.validation_time)
+      .filter(prediction => time(prediction.validation_time!) > start && time(prediction.validation_time!) <= end)
+      .map(prediction => lagMinutes(prediction, end) as number);
+
+    return {
+      time: new Date(end).toISOString(),
+      overdue: predictions.filter(prediction => overdueAt(prediction, end)).length,
+      validated: delays.length,
+      avg_delay_minutes: delays.length > 0 ? delays.reduce((sum, d) => sum + d, 0) / delays.length : null
+    };
+  });
+}
+
+// `overdue` is every unvalidated prediction past its target (oldest first,
+// possibly a sample of `overdueTotal`); `predictions` are those targeting
+// inside the period, validated or not.
+export function buildValidationLagReport(
+  overdue: Prediction[],
+  overdueTotal: number,
+  predictions: Prediction[],
+  period: StatsPeriod,
+  now: Date = new Date(),
+  truncated = false
+): ValidationLagReport {
+  const nowMs = Math.min(time(period.to), now.getTime());
+  // Stuck predictions from before the period still count as overdue inside it
+  const byId = new Map(predictions.map(prediction => [prediction.id, prediction]));
+  overdue.forEach(prediction => byId.set(prediction.id, prediction));
+  const all = Array.from(byId.values());
+
+  const rows = new Map<number, { overdue: number[]; lags: number[] }>();
+  all.forEach(prediction => {
+    const lag = lagMinutes(prediction, now.getTime());
+    if (lag === null) return;
+    const row = rows.get(prediction.timeframe_minutes) ?? { overdue: [], lags: [] };
+    row.lags.push(lag);
+    if (!prediction.validated && time(prediction.target_time) <= now.getTime()) row.overdue.push(lag);
+    rows.set(prediction.timeframe_minutes, row);
+  });
+
+  const timeframes: ValidationLagTimeframe[] = Array.from(rows.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([timeframe_minutes, row]) => {
+      const buckets = LAG_BUCKETS.map(() => 0);
+      row.lags.forEach(lag => { buckets[bucketIndex(lag)] += 1; });
+      return {
+        timeframe_minutes,
+        overdue: row.overdue.length,
+        oldest_overdue_minutes: row.overdue.length > 0 ? Math.max(...row.overdue) : null,
+        median_lag_minutes: median(row.lags),
+        buckets
+      };
+    });
+
+  const buckets: ValidationLagBucket[] = LAG_BUCKETS.map((bucket, index) => ({
+    ...bucket,
+    count: timeframes.reduce((sum, row) => sum + row.buckets[index], 0)
+  }));
+
+  const oldest = overdue[0];
+  const firstTarget = all.length > 0 ? Math.min(...all.map(prediction => time(prediction.target_time))) : nowMs;
+  const trendFrom = period.from ? time(period.from) : firstTarget;
+
+  return {
+    period,
+    overdue: overdueTotal,
+    oldest_overdue_target: oldest?.target_time ?? null,
+    oldest_overdue_minutes: oldest ? (now.getTime() - time(oldest.target_time)) / MINUTE_MS : null,
+    buckets,
+    timeframes,
+    trend: buildTrend(all, trendFrom, nowMs),
+    truncated: truncated || overdueTotal > overdue.length
+  };
+}
+
+function overdueQuery(db: DataStore, now: Date, asset?: Asset) {
+  return db
+    .collection(assetCollections(asset).predictions)
+    .where('validated', '==', false)
+    .where('target_time', '<=', toWibIso(now));
+}
+
+// Just the numbers predictor health needs, cheap enough for every dashboard load
+export async function getValidationLagSummary(
+  db: DataStore,
+  now: Date = new Date(),
+  asset?: Asset
+): Promise<ValidationLagSummary> {
+  const query = overdueQuery(db, now, asset);
+  const [count, oldest] = await Promise.all([
+    query.count().get(),
+    query.orderBy('target_time', 'asc').limit(1).get()
+  ]);
+  const target = oldest.docs[0]?.get('target_time');
+
+  return {
+    overdue: count.data().count,
+    oldest_overdue_target: typeof target === 'string' ? target : null
+  };
+}
+
+export async function fetchValidationLagReport(
+  db: DataStore,
+  period: StatsPeriod,
+  warnings: DataWarning[] = [],
+  now: Date = new Date(),
+  asset?: Asset
+): Promise<ValidationLagReport> {
+  const collections = assetCollections(asset);
+  const overdue = overdueQuery(db, now, asset);
+
+  let inPeriod = db
+    .collection(collections.predictions)
+    .where('target_time', '<=', toWibIso(new Date(Math.min(time(period.to), now.getTime()))));
+  if (period.from) inPeriod = inPeriod.where('target_time', '>=', toWibIso(new Date(period.from)));
+
+  const [count, overdueSnapshot, periodSnapshot] = await Promise.all([
+    overdue.count().get(),
+    overdue.orderBy('target_time', 'asc').limit(MAX_OVERDUE).get(),
+    // Newest first so a long period keeps its most recent MAX_PREDICTIONS
+    inPeriod.orderBy('target_time', 'desc').limit(MAX_PREDICTIONS + 1).get()
+  ]);
+
+  const truncated = periodSnapshot.docs.length > MAX_PREDICTIONS;
+  const predictions = parseDocs(
+    PredictionSchema,
+    collections.predictions,
+    periodSnapshot.docs.slice(0, MAX_PREDICTIONS).reverse(),
+    warnings
+  );
+
+  // A truncated read starts mid-period; only chart from the oldest target read
+  const effectivePeriod = truncated && predictions.length > 0
+    ? { ...period, from: new Date(predictions[0].target_time).toISOString() }
+    : period;
+  const report = buildValidationLagReport(
+    parseDocs(PredictionSchema, collections.predictions, overdueSnapshot.docs, warnings),
+    count.data().count,
+    predictions,
+    effectivePeriod,
+    now,
+    truncated
+  );
+  return { ...report, period };
+}
@@ -0,0 +1,100 @@
+// lib/webhooks/delivery.ts - Sign and POST one webhook payload
+//
+// Each request carries X-Webhook-Timestamp (epoch seconds) and
+// X-Webhook-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">,
+// keyed with the subscription's secret. Receivers recompute it over the raw
+// body and reject stale timestamps to stop replays.
+import { createHmac, timingSafeEqual } from 'crypto';
+import { envNumber } from '@/lib/env';
+import type { WebhookEvent } from '@/types';
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_RETRY_BASE_SECONDS = 30;
+const MAX_RETRY_DELAY_SECONDS = 3600;
+const DEFAULT_MAX_ATTEMPTS = 8;
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export interface WebhookDeliveryOptions {
+  fetchImpl?: typeof fetch;
+  timeoutMs?: number;
+}
+
+export interface WebhookRequest {
+  url: string;
+  secret: string;
+  id: string;
+  event: WebhookEvent;
+  payload: string;
+}
+
+export function getMaxAttempts(): number {
+  return envNumber('WEBHOOK_MAX_ATTEMPTS', DEFAULT_MAX_ATTEMPTS);
+}
+
+// Doubles from WEBHOOK_RETRY_BASE_SECONDS after each failed attempt, up to
+// an hour; `attempts` counts the ones made so far
+export function retryDelayMs(attempts: number): number {
+  const base = envNumber('WEBHOOK_RETRY_BASE_SECONDS', DEFAULT_RETRY_BASE_SECONDS);
+  return Math.min(base * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_SECONDS) * 1000;
+}
+
+export function signPayload(secret: string, timestamp: number, payload: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex')}`;
+}
+
+// What a receiver does, for the local receiver script and tests
+export function verifySignature(
+  secret: string,
+  timestamp: string | null,
+  signature: string | null,
+  payload: string,
+  now = new Date()
+): boolean {
+  const seconds = Number(timestamp);
+  if (!timestamp || !signature || !Number.isInteger(seconds)) return false;
+  if (Math.abs(now.getTime() / 1000 - seconds) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(signPayload(secret, seconds, payload));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Resolves once the receiver answered 2xx; throws otherwise
+export async function sendWebhook(request: WebhookRequest, options: WebhookDeliveryOptions = {}): Promise<void> {
+  const {
+    fetchImpl = fetch,
+    timeoutMs = envNumber('WEBHOOK_TIMEOUT_MS', DEFAULT_TIMEOUT_MS)
+  } = options;
+  const timestamp = Math.floor(Date.now() / 1000);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetchImpl(request.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'btc-predictor-webhooks/1',
+        'X-Webhook-Id': request.id,
+        'X-Webhook-Event': request.event,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': signPayload(request.secret, timestamp, request.payload)
+      },
+      body: request.payload,
+      signal: controller.signal,
+      cache: 'no-store',
+      redirect: 'manual'
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`HTTP ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`timed out after ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
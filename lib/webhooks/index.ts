@@ -0,0 +1,307 @@
+// lib/webhooks/index.ts - Push new and validated predictions to subscribed URLs
+//
+// The predictor writes predictions straight to Firestore, so events are
+// found by polling: each dispatch scans every enabled subscription's asset
+// for predictions written or validated since its cursors and queues one
+// delivery per match in webhook_deliveries. Due deliveries are then sent;
+// a failed one is retried with exponential backoff until
+// WEBHOOK_MAX_ATTEMPTS, then left as dead for an admin to inspect and retry.
+import type { z } from 'zod';
+import { DOCUMENT_ID } from '@/lib/datastore';
+import type { DataStore } from '@/lib/datastore';
+import { assetCollections, COLLECTIONS } from '@/lib/firebase';
+import { toV1Prediction } from '@/lib/publicApi';
+import { toWibIso } from '@/lib/time';
+import { omit, parseDoc, parseDocs } from '@/lib/validation';
+import { getMaxAttempts, retryDelayMs, sendWebhook } from '@/lib/webhooks/delivery';
+import type { WebhookDeliveryOptions } from '@/lib/webhooks/delivery';
+import { listStoredSubscriptions } from '@/lib/webhooks/subscriptions';
+import type { StoredWebhookSubscription } from '@/lib/webhooks/subscriptions';
+import { PredictionSchema, WebhookDeliverySchema } from '@/types/schemas';
+import type {
+  ApiV1WebhookPayload,
+  DataWarning,
+  Prediction,
+  WebhookDelivery,
+  WebhookDispatchSummary,
+  WebhookEvent
+} from '@/types';
+
+export { signPayload, verifySignature } from '@/lib/webhooks/delivery';
+export type { WebhookDeliveryOptions } from '@/lib/webhooks/delivery';
+export {
+  createWebhookSubscription,
+  deleteWebhookSubscription,
+  getWebhookSubscription,
+  listWebhookSubscriptions,
+  updateWebhookSubscription,
+  WebhookSubscriptionInputError,
+  WebhookSubscriptionNotFoundError
+} from '@/lib/webhooks/subscriptions';
+
+type StoredDelivery = z.infer<typeof WebhookDeliverySchema>;
+
+export const MAX_DELIVERY_LOG = 200;
+const MAX_NEW_PREDICTIONS = 200;
+const MAX_DUE_DELIVERIES = 50;
+
+// The last prediction seen for an event: its timestamp or validation time,
+// and its id to break ties between predictions that share one
+interface EventCursor {
+  value: string;
+  id: string;
+}
+
+// webhook_state/{subscription id}: where each event's scan resumes. Missing
+// until the first dispatch after the subscription was created or edited,
+// which starts from that moment.
+interface WebhookState {
+  created_cursor: EventCursor;
+  validated_cursor: EventCursor;
+}
+
+export class WebhookDeliveryNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Webhook delivery ${id} not found`);
+    this.name = 'WebhookDeliveryNotFoundError';
+  }
+}
+
+export class WebhookDeliveryStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookDeliveryStateError';
+  }
+}
+
+function toWebhookDelivery(delivery: StoredDelivery): WebhookDelivery {
+  return omit(delivery, 'payload');
+}
+
+const matchesFilters = (subscription: StoredWebhookSubscription, prediction: Prediction) =>
+  prediction.confidence >= subscription.min_confidence
+  && (subscription.timeframes === null || subscription.timeframes.includes(prediction.timeframe_minutes));
+
+const startCursor = (at: string): EventCursor => ({ value: at, id: '' });
+
+const sameCursor = (a: EventCursor | undefined, b: EventCursor | undefined) =>
+  a?.value === b?.value && a?.id === b?.id;
+
+// Predictions past the cursor in (`field`, id) order, and where the cursor
+// moves to. An event the subscription doesn't take only moves the cursor.
+async function scanEvent(
+  db: DataStore,
+  subscription: StoredWebhookSubscription,
+  event: WebhookEvent,
+  cursor: EventCursor,
+  now: Date
+): Promise<{ matches: Prediction[]; cursor: EventCursor }> {
+  if (!subscription.events.includes(event)) return { matches: [], cursor: startCursor(toWibIso(now)) };
+
+  const collections = assetCollections(subscription.asset);
+  const field = event === 'prediction.created' ? 'timestamp' : 'validation_time';
+  // Unvalidated predictions have a null validation_time, which sorts before
+  // any cursor
+  const snapshot = await db
+    .collection(collections.predictions)
+    .orderBy(field, 'asc')
+    .orderBy(DOCUMENT_ID, 'asc')
+    .startAfter(cursor.value, cursor.id)
+    .limit(MAX_NEW_PREDICTIONS)
+    .get();
+  // Taken from the raw documents so a malformed one is still stepped over
+  const lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  const nextCursor = lastDoc ? { value: lastDoc.get(field), id: lastDoc.id } : cursor;
+  const predictions = parseDocs(PredictionSchema, collections.predictions, snapshot.docs, []);
+
+  const matches = predictions.filter(prediction =>
+    matchesFilters(subscription, prediction)
+    && (event === 'prediction.created' || (prediction.validated && !!prediction.validation_result))
+  );
+  return { matches, cursor: nextCursor };
+}
+
+function newDelivery(
+  subscription: StoredWebhookSubscription,
+  event: WebhookEvent,
+  prediction: Prediction,
+  now: Date
+): StoredDelivery {
+  const id = `${subscription.id}_${prediction.id}_${event === 'prediction.created' ? 'created' : 'validated'}`;
+  const payload: ApiV1WebhookPayload = {
+    id,
+    event,
+    created_at: now.toISOString(),
+    data: { prediction: toV1Prediction(prediction, subscription.asset) }
+  };
+  return {
+    id,
+    subscription_id: subscription.id,
+    subscription_name: subscription.name,
+    target: new URL(subscription.url).host,
+    event,
+    prediction_id: prediction.id,
+    payload: JSON.stringify(payload),
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: toWibIso(now),
+    created_at: toWibIso(now)
+  };
+}
+
+// Queues the subscription's new events and moves its cursors; returns how
+// many were queued
+async function enqueueEvents(db: DataStore, subscription: StoredWebhookSubscription, now: Date): Promise<number> {
+  const stateRef = db.collection(COLLECTIONS.webhookState).doc(subscription.id);
+  const stored = (await stateRef.get()).data() as WebhookState | undefined;
+
+  const createdCursor = stored?.created_cursor ?? startCursor(subscription.updated_at);
+  const validatedCursor = stored?.validated_cursor ?? startCursor(subscription.updated_at);
+
+  const created = await scanEvent(db, subscription, 'prediction.created', createdCursor, now);
+  const validated = await scanEvent(db, subscription, 'prediction.validated', validatedCursor, now);
+  const deliveries = [
+    ...created.matches.map(prediction => newDelivery(subscription, 'prediction.created', prediction, now)),
+    ...validated.matches.map(prediction => newDelivery(subscription, 'prediction.validated', prediction, now))
+  ];
+
+  // Committed only if no overlapping dispatch moved the cursors meanwhile,
+  // so the same events aren't queued twice
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(stateRef);
+    const current = snapshot.data() as WebhookState | undefined;
+    if (!sameCursor(current?.created_cursor, stored?.created_cursor)
+      || !sameCursor(current?.validated_cursor, stored?.validated_cursor)) {
+      return 0;
+    }
+
+    deliveries.forEach(({ id, ...delivery }) => {
+      transaction.set(db.collection(COLLECTIONS.webhookDeliveries).doc(id), delivery);
+    });
+    transaction.set(stateRef, { created_cursor: created.cursor, validated_cursor: validated.cursor });
+    return deliveries.length;
+  });
+}
+
+// Claims the delivery by counting the attempt and pushing its next attempt
+// out by the backoff, so an overlapping dispatch skips it and a crash
+// mid-send still gets it retried. Returns the attempt number, or null if
+// it was no longer due.
+async function claimDelivery(db: DataStore, id: string, now: Date): Promise<number | null> {
+  const ref = db.collection(COLLECTIONS.webhookDeliveries).doc(id);
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(ref);
+    const delivery = snapshot.data() as StoredDelivery | undefined;
+    if (!delivery || delivery.status !== 'pending' || delivery.next_attempt_at > toWibIso(now)) return null;
+
+    const attempts = delivery.attempts + 1;
+    transaction.update(ref, {
+      attempts,
+      next_attempt_at: toWibIso(new Date(now.getTime() + retryDelayMs(attempts))),
+      last_attempt_at: toWibIso(now)
+    });
+    return attempts;
+  });
+}
+
+async function attemptDelivery(
+  db: DataStore,
+  delivery: StoredDelivery,
+  subscriptions: Map<string, StoredWebhookSubscription>,
+  now: Date,
+  summary: WebhookDispatchSummary,
+  options: WebhookDeliveryOptions
+): Promise<void> {
+  const attempts = await claimDelivery(db, delivery.id, now);
+  if (attempts === null) return;
+
+  const ref = db.collection(COLLECTIONS.webhookDeliveries).doc(delivery.id);
+  const subscription = subscriptions.get(delivery.subscription_id);
+  if (!subscription || !subscription.enabled) {
+    await ref.update({
+      status: 'dead',
+      last_error: subscription ? 'Subscription is disabled' : 'Subscription was deleted'
+    });
+    summary.dead += 1;
+    return;
+  }
+
+  try {
+    await sendWebhook({
+      url: subscription.url,
+      secret: subscription.secret,
+      id: delivery.id,
+      event: delivery.event,
+      payload: delivery.payload
+    }, options);
+    await ref.update({ status: 'delivered', delivered_at: toWibIso(new Date()) });
+    summary.delivered += 1;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const dead = attempts >= getMaxAttempts();
+    console.error(`❌ Webhook ${delivery.event} to "${subscription.name}" (${delivery.target}) failed, attempt ${attempts}: ${message}`);
+    await ref.update({ last_error: message, ...(dead && { status: 'dead' }) });
+    summary[dead ? 'dead' : 'retrying'] += 1;
+  }
+}
+
+// One pass: queue new events for every enabled subscription, then send
+// whatever is due. A subscription whose scan throws is logged and skipped.
+export async function dispatchWebhooks(
+  db: DataStore,
+  options: WebhookDeliveryOptions & { now?: Date } = {}
+): Promise<WebhookDispatchSummary> {
+  const { now = new Date(), ...deliveryOptions } = options;
+  const subscriptions = await listStoredSubscriptions(db);
+  const enabled = subscriptions.filter(subscription => subscription.enabled);
+  const summary: WebhookDispatchSummary = { subscriptions: enabled.length, enqueued: 0, delivered: 0, retrying: 0, dead: 0 };
+
+  for (const subscription of enabled) {
+    try {
+      summary.enqueued += await enqueueEvents(db, subscription, now);
+    } catch (error) {
+      console.error(`❌ Error scanning webhook subscription "${subscription.name}" (${subscription.id}):`, error);
+    }
+  }
+
+  const snapshot = await db
+    .collection(COLLECTIONS.webhookDeliveries)
+    .where('status', '==', 'pending')
+    .where('next_attempt_at', '<=', toWibIso(now))
+    .orderBy('next_attempt_at', 'asc')
+    .limit(MAX_DUE_DELIVERIES)
+    .get();
+  const due = parseDocs(WebhookDeliverySchema, COLLECTIONS.webhookDeliveries, snapshot.docs, []);
+  const byId = new Map(subscriptions.map(subscription => [subscription.id, subscription]));
+
+  await Promise.all(due.map(delivery => attemptDelivery(db, delivery, byId, now, summary, deliveryOptions)));
+  return summary;
+}
+
+// Newest first; `status: 'dead'` is the dead-letter view
+export async function listWebhookDeliveries(
+  db: DataStore,
+  { status, limit }: { status?: WebhookDelivery['status']; limit: number },
+  warnings: DataWarning[] = []
+): Promise<WebhookDelivery[]> {
+  const log = db.collection(COLLECTIONS.webhookDeliveries);
+  const query = status ? log.where('status', '==', status) : log;
+  const snapshot = await query.orderBy('created_at', 'desc').limit(Math.min(limit, MAX_DELIVERY_LOG)).get();
+  return parseDocs(WebhookDeliverySchema, COLLECTIONS.webhookDeliveries, snapshot.docs, warnings).map(toWebhookDelivery);
+}
+
+// Puts a dead delivery back in the queue with a fresh set of attempts; the
+// next dispatch sends it
+export async function retryWebhookDelivery(db: DataStore, id: string, now = new Date()): Promise<WebhookDelivery> {
+  const ref = db.collection(COLLECTIONS.webhookDeliveries).doc(id);
+  const doc = await ref.get();
+  const delivery = doc.exists ? parseDoc(WebhookDeliverySchema, COLLECTIONS.webhookDeliveries, doc, []) : null;
+  if (!delivery) throw new WebhookDeliveryNotFoundError(id);
+  if (delivery.status !== 'dead') {
+    throw new WebhookDeliveryStateError(`Only dead deliveries can be retried; this one is ${delivery.status}`);
+  }
+
+  const update = { status: 'pending' as const, attempts: 0, next_attempt_at: toWibIso(now) };
+  await ref.update(update);
+  return toWebhookDelivery({ ...delivery, ...update });
+}
@@ -0,0 +1,102 @@
+// lib/webhooks/subscriptions.ts - CRUD for webhook subscriptions in Firestore
+import { randomBytes } from 'crypto';
+import type { z } from 'zod';
+import type { DataStore } from '@/lib/datastore';
+import { COLLECTIONS } from '@/lib/firebase';
+import { toWibIso } from '@/lib/time';
+import { omit, parseDoc, parseDocs } from '@/lib/validation';
+import { WebhookSubscriptionInputSchema, WebhookSubscriptionSchema } from '@/types/schemas';
+import type { CreatedWebhookSubscription, DataWarning, WebhookSubscription } from '@/types';
+
+export type StoredWebhookSubscription = z.infer<typeof WebhookSubscriptionSchema>;
+
+export const WEBHOOK_SECRET_PREFIX = 'whsec_';
+
+export class WebhookSubscriptionNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Webhook subscription ${id} not found`);
+    this.name = 'WebhookSubscriptionNotFoundError';
+  }
+}
+
+export class WebhookSubscriptionInputError extends Error {
+  issues: string[];
+
+  constructor(error: z.ZodError) {
+    const issues = error.issues.map(issue => `${issue.path.join('.') || '(body)'}: ${issue.message}`);
+    super(issues.join('; '));
+    this.name = 'WebhookSubscriptionInputError';
+    this.issues = issues;
+  }
+}
+
+function parseInput(body: unknown) {
+  const result = WebhookSubscriptionInputSchema.safeParse(body);
+  if (!result.success) throw new WebhookSubscriptionInputError(result.error);
+  return result.data;
+}
+
+export function toWebhookSubscription(subscription: StoredWebhookSubscription): WebhookSubscription {
+  return omit(subscription, 'secret');
+}
+
+// With their secrets, for signing; never send these to a client
+export async function listStoredSubscriptions(
+  db: DataStore,
+  warnings: DataWarning[] = []
+): Promise<StoredWebhookSubscription[]> {
+  const snapshot = await db.collection(COLLECTIONS.webhookSubscriptions).orderBy('created_at', 'asc').get();
+  return parseDocs(WebhookSubscriptionSchema, COLLECTIONS.webhookSubscriptions, snapshot.docs, warnings);
+}
+
+export async function listWebhookSubscriptions(db: DataStore, warnings: DataWarning[] = []): Promise<WebhookSubscription[]> {
+  return (await listStoredSubscriptions(db, warnings)).map(toWebhookSubscription);
+}
+
+async function getStoredSubscription(db: DataStore, id: string): Promise<StoredWebhookSubscription> {
+  const doc = await db.collection(COLLECTIONS.webhookSubscriptions).doc(id).get();
+  const subscription = doc.exists ? parseDoc(WebhookSubscriptionSchema, COLLECTIONS.webhookSubscriptions, doc, []) : null;
+  if (!subscription) throw new WebhookSubscriptionNotFoundError(id);
+  return subscription;
+}
+
+export async function getWebhookSubscription(db: DataStore, id: string): Promise<WebhookSubscription> {
+  return toWebhookSubscription(await getStoredSubscription(db, id));
+}
+
+// The response is the only place the secret is shown
+export async function createWebhookSubscription(db: DataStore, body: unknown): Promise<CreatedWebhookSubscription> {
+  const input = parseInput(body);
+  const now = toWibIso(new Date());
+  const ref = db.collection(COLLECTIONS.webhookSubscriptions).doc();
+  const secret = `${WEBHOOK_SECRET_PREFIX}${randomBytes(24).toString('base64url')}`;
+  const data = { ...input, secret, created_at: now, updated_at: now };
+
+  await ref.set(data);
+  return { ...toWebhookSubscription({ ...data, id: ref.id }), secret };
+}
+
+// Replaces the settings but keeps the secret. The cursors are reset, so the
+// subscription picks up from the edit rather than replaying whatever it
+// skipped while disabled or filtered out.
+export async function updateWebhookSubscription(db: DataStore, id: string, body: unknown): Promise<WebhookSubscription> {
+  const existing = await getStoredSubscription(db, id);
+  const input = parseInput(body);
+  const data = { ...input, secret: existing.secret, created_at: existing.created_at, updated_at: toWibIso(new Date()) };
+
+  const batch = db.batch();
+  batch.set(db.collection(COLLECTIONS.webhookSubscriptions).doc(id), data);
+  batch.delete(db.collection(COLLECTIONS.webhookState).doc(id));
+  await batch.commit();
+  return toWebhookSubscription({ ...data, id });
+}
+
+// Deliveries already queued stay in the log and go dead on their next attempt
+export async function deleteWebhookSubscription(db: DataStore, id: string): Promise<void> {
+  await getStoredSubscription(db, id);
+
+  const batch = db.batch();
+  batch.delete(db.collection(COLLECTIONS.webhookSubscriptions).doc(id));
+  batch.delete(db.collection(COLLECTIONS.webhookState).doc(id));
+  await batch.commit();
+}
@@ -0,0 +1,23 @@
+// proxy.ts - Send visitors without a session to the login page
+//
+// Only pages are covered: API routes answer 401 themselves, since they also
+// accept API keys and know which role each one needs. The cookie's
+// signature is checked here, the user's current role by the routes.
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, verifySession } from '@/lib/auth/session';
+
+export async function proxy(request: NextRequest) {
+  if (process.env.AUTH_DISABLED === 'true') return NextResponse.next();
+
+  const secret = process.env.AUTH_SECRET;
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (secret && (await verifySession(token, secret))) return NextResponse.next();
+
+  const url = new URL('/login', request.nextUrl.origin);
+  url.searchParams.set('next', `${request.nextUrl.pathname}${request.nextUrl.search}`);
+  return NextResponse.redirect(url);
+}
+
+export const config = {
+  matcher: ['/((?!api/|login|_next/|favicon.ico).*)']
+};
@@ -0,0 +1,51 @@
+// scripts/add-user.ts - Create a user, or reset an existing user's role and password
+//
+// Usage: npm run users:add -- <email> <role> [name]
+//
+// The password is read from USER_PASSWORD, or asked for when it isn't set;
+// an empty answer makes an SSO-only user. This is how the first admin is
+// created, since only admins can add users from the dashboard.
+import { createInterface } from 'readline/promises';
+import { loadEnvConfig } from '@next/env';
+
+loadEnvConfig(process.cwd());
+
+async function askPassword(): Promise<string> {
+  const prompt = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return await prompt.question('Password (blank for SSO only): ');
+  } finally {
+    prompt.close();
+  }
+}
+
+async function main() {
+  // Imported after the env is loaded so the data store sees its settings
+  const { createUser, findUserByEmail, isRole, updateUser } = await import('@/lib/auth');
+  const { getDataSource, getDataStore } = await import('@/lib/datastore');
+
+  const [email, role, name] = process.argv.slice(2);
+  if (!email || !isRole(role)) {
+    throw new Error('Usage: npm run users:add -- <email> <viewer|operator|admin> [name]');
+  }
+  if (getDataSource() === 'memory') {
+    throw new Error('DATA_SOURCE=memory starts empty on every run; use file or firestore');
+  }
+
+  const password = process.env.USER_PASSWORD ?? (await askPassword());
+  const db = getDataStore();
+  const existing = await findUserByEmail(db, email);
+
+  if (existing) {
+    await updateUser(db, existing.id, { role, ...(name && { name }), ...(password && { password }) });
+    console.log(`✅ Updated ${existing.email} (${role})`);
+  } else {
+    const user = await createUser(db, { email, role, ...(name && { name }), ...(password && { password }) });
+    console.log(`✅ Created ${user.email} (${role})`);
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Adding user failed:', error);
+  process.exit(1);
+});
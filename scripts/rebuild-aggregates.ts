@@ -0,0 +1,24 @@
+// scripts/rebuild-aggregates.ts - Recompute prediction aggregates from raw predictions
+//
+// Usage: npm run aggregates:rebuild [-- ETH]   (BTC when no asset is given)
+import { loadEnvConfig } from '@next/env';
+
+loadEnvConfig(process.cwd());
+
+async function main() {
+  // Imported after the env is loaded so the data store sees its settings
+  const { getDataStore } = await import('@/lib/datastore');
+  const { rebuildAggregates } = await import('@/lib/aggregates');
+  const { parseAsset } = await import('@/lib/assets');
+
+  const asset = parseAsset(new URLSearchParams(process.argv[2] ? { asset: process.argv[2] } : {}));
+  const db = getDataStore();
+  console.log(`🔄 Rebuilding ${asset} prediction aggregates...`);
+  const result = await rebuildAggregates(db, asset);
+  console.log(`✅ Rebuilt ${result.aggregates} aggregate docs from ${result.predictions} validated predictions`);
+}
+
+main().catch(error => {
+  console.error('❌ Rebuild failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,43 @@
+// scripts/seed.ts - Fill the configured data store with generated data
+//
+// Usage: npm run seed [-- 14]   (days of history, 7 when not given)
+//
+// Meant for DATA_SOURCE=file, to start over with fresh data. Writing to
+// Firestore is refused unless FIRESTORE_EMULATOR_HOST points at an emulator.
+import { loadEnvConfig } from '@next/env';
+
+loadEnvConfig(process.cwd());
+
+async function main() {
+  // Imported after the env is loaded so the data store sees its settings
+  const { getDataFile, getDataSource, getDataStore } = await import('@/lib/datastore');
+  const { writeStoreFile } = await import('@/lib/datastore/file');
+  const { DEFAULT_SEED_DAYS, generateSeedData, writeStoreData } = await import('@/lib/datastore/seed');
+
+  const days = process.argv[2] ? Number(process.argv[2]) : DEFAULT_SEED_DAYS;
+  if (!Number.isFinite(days) || days <= 0) throw new Error('days must be a positive number');
+
+  const source = getDataSource();
+  console.log(`🌱 Generating ${days} days of data...`);
+  const data = generateSeedData({ days });
+  const documents = Object.values(data).reduce((sum, docs) => sum + Object.keys(docs).length, 0);
+
+  if (source === 'file') {
+    // Replaces the file outright, so nothing from an older seed lingers
+    writeStoreFile(getDataFile(), data);
+    console.log(`✅ Wrote ${documents} documents to ${getDataFile()}`);
+  } else if (source === 'firestore') {
+    if (!process.env.FIRESTORE_EMULATOR_HOST) {
+      throw new Error('Refusing to seed a real Firestore project; set FIRESTORE_EMULATOR_HOST to use the emulator');
+    }
+    await writeStoreData(getDataStore(), data);
+    console.log(`✅ Wrote ${documents} documents to the Firestore emulator`);
+  } else {
+    console.log('ℹ️ DATA_SOURCE=memory generates its data on every start; nothing to write');
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Seed failed:', error);
+  process.exit(1);
+});
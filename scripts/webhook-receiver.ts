@@ -0,0 +1,50 @@
+// scripts/webhook-receiver.ts - Local HTTP receiver for trying out webhook subscriptions
+//
+// Usage: npm run webhooks:receive -- [port] [status]
+//
+// Listens on http://localhost:<port> (default 4000) and prints every
+// webhook it gets. With WEBHOOK_SECRET set to the subscription's secret
+// each signature is checked too. Answers `status` (default 204); a 5xx
+// shows the retries and, once they run out, the dead-letter view.
+import { createServer } from 'http';
+import { verifySignature } from '@/lib/webhooks/delivery';
+
+const DEFAULT_PORT = 4000;
+
+function main() {
+  const port = Number(process.argv[2] ?? DEFAULT_PORT);
+  const status = Number(process.argv[3] ?? 204);
+  const secret = process.env.WEBHOOK_SECRET;
+
+  const server = createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => {
+      const body = Buffer.concat(chunks).toString('utf8');
+      const header = (name: string) => {
+        const value = request.headers[name];
+        return Array.isArray(value) ? value[0] : value ?? null;
+      };
+
+      const signature = !secret
+        ? 'not checked (set WEBHOOK_SECRET)'
+        : verifySignature(secret, header('x-webhook-timestamp'), header('x-webhook-signature'), body)
+          ? 'valid'
+          : 'INVALID';
+      console.log(`\n🪝 ${header('x-webhook-event') ?? request.method} ${header('x-webhook-id') ?? request.url} (signature ${signature})`);
+      try {
+        console.log(JSON.stringify(JSON.parse(body), null, 2));
+      } catch {
+        console.log(body);
+      }
+
+      response.writeHead(status).end();
+    });
+  });
+
+  server.listen(port, () => {
+    console.log(`✅ Listening for webhooks on http://localhost:${port}, answering ${status}`);
+  });
+}
+
+main();
@@ -0,0 +1,132 @@
+// tests/api/auth.test.ts - Sign-in and what each role can reach
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST as login } from '@/app/api/auth/login/route';
+import { GET as session } from '@/app/api/auth/session/route';
+import { POST as createUserRoute } from '@/app/api/auth/users/route';
+import { GET as dashboard } from '@/app/api/predictions/route';
+import { GET as recordHistory } from '@/app/api/system/history/record/route';
+import { GET as systemHistory } from '@/app/api/system/history/route';
+import { createUser, SESSION_COOKIE, updateUser } from '@/lib/auth';
+import { getDataStore } from '@/lib/datastore';
+import { COLLECTIONS } from '@/lib/firebase';
+import type { AuthSessionInfo, DashboardData, Role, User } from '@/types';
+import { getJson, heartbeatDoc, loadFixtures, predictions, setupApiTests } from '../helpers';
+
+setupApiTests();
+
+const PASSWORD = 'correct horse battery';
+
+beforeEach(() => {
+  vi.stubEnv('AUTH_DISABLED', 'false');
+  vi.stubEnv('AUTH_SECRET', 'test-secret-of-reasonable-length');
+  vi.stubEnv('API_KEYS', 'viewer:view-key, operator:ops-key');
+});
+
+async function withUsers(...roles: Role[]): Promise<User[]> {
+  const db = await loadFixtures({
+    [COLLECTIONS.predictions]: predictions([{ timeframe: 5, madeMinutesAgo: 10, result: 'WIN' }]),
+    [COLLECTIONS.systemStatus]: { heartbeat: heartbeatDoc(30, 'running', { process_id: 4242 }) }
+  });
+  return Promise.all(roles.map(role => createUser(db, { email: `${role}@example.com`, role, password: PASSWORD })));
+}
+
+// The cookie header a successful sign-in hands back
+async function signIn(email: string, password = PASSWORD): Promise<{ status: number; cookie: string }> {
+  const response = await login(new NextRequest('http://localhost/api/auth/login', {
+    method: 'POST',
+    body: JSON.stringify({ email, password })
+  }));
+  const token = response.cookies.get(SESSION_COOKIE)?.value;
+  return { status: response.status, cookie: token ? `${SESSION_COOKIE}=${token}` : '' };
+}
+
+describe('authentication', () => {
+  it('turns away requests without a session or API key', async () => {
+    await withUsers('viewer');
+
+    expect((await getJson(dashboard, '/api/predictions')).status).toBe(401);
+    expect((await getJson(dashboard, '/api/predictions', { headers: { 'x-api-key': 'guess' } })).status).toBe(401);
+  });
+
+  it('answers 503 when neither a secret nor API keys are configured', async () => {
+    vi.stubEnv('AUTH_SECRET', '');
+    vi.stubEnv('API_KEYS', '');
+    await withUsers();
+
+    expect((await getJson(dashboard, '/api/predictions')).status).toBe(503);
+  });
+
+  it('signs in with the right password only and reports the session', async () => {
+    await withUsers('viewer');
+
+    expect((await signIn('viewer@example.com', 'wrong password')).status).toBe(401);
+
+    const { status, cookie } = await signIn('VIEWER@example.com');
+    expect(status).toBe(200);
+    const { body } = await getJson<AuthSessionInfo>(session, '/api/auth/session', { headers: { cookie } });
+    expect(body.user).toMatchObject({ email: 'viewer@example.com', role: 'viewer', provider: 'credentials' });
+    expect(body.providers).toEqual({ credentials: true, oidc: false });
+  });
+
+  it('shows viewers signals without process details, and operators everything', async () => {
+    await withUsers('viewer', 'operator');
+
+    const viewer = await getJson<DashboardData>(dashboard, '/api/predictions', { headers: { cookie: (await signIn('viewer@example.com')).cookie } });
+    expect(viewer.status).toBe(200);
+    expect(viewer.body.recentPredictions).toHaveLength(1);
+    expect(viewer.body.systemStatus).not.toHaveProperty('process_id');
+    expect(viewer.body.systemStatus).not.toHaveProperty('memory_mb');
+
+    const operator = await getJson<DashboardData>(dashboard, '/api/predictions', { headers: { cookie: (await signIn('operator@example.com')).cookie } });
+    expect(operator.body.systemStatus).toMatchObject({ process_id: 4242, memory_mb: 800 });
+  });
+
+  it('keeps system internals from viewers, by session or API key', async () => {
+    await withUsers('viewer');
+
+    const forbidden = await getJson<{ error: string }>(systemHistory, '/api/system/history', { headers: { cookie: (await signIn('viewer@example.com')).cookie } });
+    expect(forbidden).toMatchObject({ status: 403, body: { error: 'Forbidden' } });
+    expect((await getJson(systemHistory, '/api/system/history', { headers: { authorization: 'Bearer view-key' } })).status).toBe(403);
+    expect((await getJson(systemHistory, '/api/system/history', { headers: { 'x-api-key': 'ops-key' } })).status).toBe(200);
+  });
+
+  it('applies a role change to sessions already signed in', async () => {
+    const [viewer] = await withUsers('viewer', 'admin');
+    const { cookie } = await signIn('viewer@example.com');
+
+    await updateUser(getDataStore(), viewer.id, { role: 'operator' });
+
+    expect((await getJson(systemHistory, '/api/system/history', { headers: { cookie } })).status).toBe(200);
+  });
+
+  it('lets only admins manage users', async () => {
+    await withUsers('operator', 'admin');
+    const newUser = (cookie: string) => createUserRoute(new NextRequest('http://localhost/api/auth/users', {
+      method: 'POST',
+      headers: { cookie },
+      body: JSON.stringify({ email: 'new@example.com', role: 'viewer', password: PASSWORD })
+    }));
+
+    expect((await newUser((await signIn('operator@example.com')).cookie)).status).toBe(403);
+    const created = await newUser((await signIn('admin@example.com')).cookie);
+    expect(created.status).toBe(201);
+    expect(await created.json()).not.toHaveProperty('password_hash');
+    expect((await signIn('new@example.com')).status).toBe(200);
+  });
+
+  it('guards the scheduler routes with CRON_SECRET, or the admin role without it', async () => {
+    vi.stubEnv('API_KEYS', 'operator:ops-key, admin:admin-key');
+    await withUsers();
+    const record = (headers: Record<string, string>) => getJson(recordHistory, '/api/system/history/record', { headers });
+
+    expect((await record({})).status).toBe(401);
+    expect((await record({ authorization: 'Bearer ops-key' })).status).toBe(403);
+    expect((await record({ authorization: 'Bearer admin-key' })).status).toBe(200);
+
+    vi.stubEnv('CRON_SECRET', 'cron-secret');
+    expect((await record({ authorization: 'Bearer cron-secre' })).status).toBe(401);
+    expect((await record({ authorization: 'Bearer admin-key' })).status).toBe(401);
+    expect((await record({ authorization: 'Bearer cron-secret' })).status).toBe(200);
+  });
+});
@@ -0,0 +1,55 @@
+// tests/api/export.test.ts - File layout and schema of GET /api/export/[dataset]
+import { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { GET } from '@/app/api/export/[dataset]/route';
+import { CSV_SCHEMA_PREFIX, EXPORT_SCHEMA_HEADER } from '@/lib/export';
+import { COLLECTIONS } from '@/lib/firebase';
+import type { ExportSchema } from '@/types';
+import { loadFixtures, predictions, setupApiTests } from '../helpers';
+
+setupApiTests();
+
+const FIXTURES = predictions([
+  { timeframe: 5, madeMinutesAgo: 30, result: 'WIN', error: 10 },
+  { timeframe: 15, madeMinutesAgo: 40, result: 'LOSE', error: 30, trend: 'PUT' },
+  { timeframe: 5, madeMinutesAgo: 2 }
+]);
+
+async function download(query: string) {
+  await loadFixtures({ [COLLECTIONS.predictions]: FIXTURES });
+  return GET(
+    new NextRequest(`http://localhost/api/export/predictions?${query}`),
+    { params: Promise.resolve({ dataset: 'predictions' }) }
+  );
+}
+
+describe('GET /api/export/[dataset]', () => {
+  it('writes one row per NDJSON line, with the schema in a header', async () => {
+    const response = await download('format=ndjson');
+    const schema = JSON.parse(response.headers.get(EXPORT_SCHEMA_HEADER) ?? '') as ExportSchema;
+    const lines = (await response.text()).trimEnd().split('\n').map(line => JSON.parse(line) as Record<string, unknown>);
+
+    expect(schema.dataset).toBe('predictions');
+    expect(lines).toHaveLength(3);
+    for (const line of lines) {
+      expect(Object.keys(line)).toEqual(schema.fields.map(field => field.name));
+    }
+  });
+
+  it('starts a CSV file with the schema line and the column header', async () => {
+    const response = await download('format=csv');
+    const schema = JSON.parse(response.headers.get(EXPORT_SCHEMA_HEADER) ?? '') as ExportSchema;
+    const [first, header, ...rows] = (await response.text()).trimEnd().split('\n');
+
+    expect(JSON.parse(first.slice(CSV_SCHEMA_PREFIX.length))).toEqual(schema);
+    expect(header).toBe(schema.fields.map(field => field.name).join(','));
+    expect(rows).toHaveLength(3);
+  });
+
+  it('returns only the schema with ?schema=1', async () => {
+    const response = await download('format=ndjson&schema=1');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ dataset: 'predictions', fields: expect.any(Array) });
+  });
+});
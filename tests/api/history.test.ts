@@ -0,0 +1,63 @@
+// tests/api/history.test.ts - Filtering and cursor paging in GET /api/predictions/history
+import { describe, expect, it } from 'vitest';
+import { GET } from '@/app/api/predictions/history/route';
+import { COLLECTIONS } from '@/lib/firebase';
+import type { PredictionHistoryPage } from '@/types';
+import { getJson, predictions, setupApiTests, loadFixtures } from '../helpers';
+
+setupApiTests();
+
+// p000 is the newest; every third one is a loss, the last two are pending
+const FIXTURES = predictions([
+  ...Array.from({ length: 10 }, (_, index) => ({
+    timeframe: index % 2 === 0 ? 5 : 15,
+    madeMinutesAgo: 60 + index * 30,
+    result: index % 3 === 0 ? 'LOSE' as const : 'WIN' as const,
+    confidence: 60 + index * 3
+  })),
+  { timeframe: 5, madeMinutesAgo: 400 },
+  { timeframe: 15, madeMinutesAgo: 500 }
+]);
+
+async function history(query: string) {
+  return getJson<PredictionHistoryPage>(GET, `/api/predictions/history?${query}`);
+}
+
+describe('GET /api/predictions/history', () => {
+  it('pages through every prediction newest first', async () => {
+    await loadFixtures({ [COLLECTIONS.predictions]: FIXTURES });
+
+    const ids: string[] = [];
+    let cursor: string | null = null;
+    let pages = 0;
+    do {
+      const { body }: { body: PredictionHistoryPage } = await history(`limit=5${cursor ? `&cursor=${cursor}` : ''}`);
+      ids.push(...body.predictions.map(prediction => prediction.id));
+      cursor = body.nextCursor;
+      pages += 1;
+    } while (cursor);
+
+    expect(pages).toBe(3);
+    expect(ids).toEqual(Object.keys(FIXTURES));
+  });
+
+  it('filters by result, pending state, timeframe and confidence', async () => {
+    await loadFixtures({ [COLLECTIONS.predictions]: FIXTURES });
+
+    const losses = await history('validation_result=LOSE');
+    expect(losses.body.predictions.map(prediction => prediction.id)).toEqual(['p000', 'p003', 'p006', 'p009']);
+
+    const pending = await history('validation_result=PENDING');
+    expect(pending.body.predictions.map(prediction => prediction.id)).toEqual(['p010', 'p011']);
+
+    const confident = await history('timeframe_minutes=5&min_confidence=70');
+    expect(confident.body.predictions.map(prediction => prediction.id)).toEqual(['p004', 'p006', 'p008', 'p010']);
+  });
+
+  it('rejects a bad filter or an unknown cursor', async () => {
+    await loadFixtures({ [COLLECTIONS.predictions]: FIXTURES });
+
+    expect((await history('validation_result=DRAW')).status).toBe(400);
+    expect((await history('cursor=missing')).status).toBe(400);
+  });
+});
@@ -0,0 +1,181 @@
+// tests/api/predictions.test.ts - The dashboard payload from GET /api/predictions
+import { describe, expect, it } from 'vitest';
+import { GET } from '@/app/api/predictions/route';
+import { COLLECTIONS } from '@/lib/firebase';
+import type { DashboardData, HealthState } from '@/types';
+import {
+  getJson,
+  heartbeatDoc,
+  minutesAgo,
+  predictionDoc,
+  predictions,
+  setupApiTests,
+  shapeOf,
+  loadFixtures
+} from '../helpers';
+import type { FixturePrediction } from '../helpers';
+
+setupApiTests();
+
+const DAY = 24 * 60;
+
+// Within the last 7 days: 8 validated, 5 of them wins, errors summing to 1500
+const VALIDATED: FixturePrediction[] = [
+  { timeframe: 5, madeMinutesAgo: 60, result: 'WIN', error: 10 },
+  { timeframe: 5, madeMinutesAgo: 120, result: 'WIN', error: 20, trend: 'PUT' },
+  { timeframe: 5, madeMinutesAgo: DAY + 30, result: 'LOSE', error: 30 },
+  { timeframe: 5, madeMinutesAgo: 3 * DAY, result: 'WIN', error: 40 },
+  { timeframe: 15, madeMinutesAgo: 90, result: 'WIN', error: 50 },
+  { timeframe: 15, madeMinutesAgo: 2 * DAY, result: 'LOSE', error: 150 },
+  { timeframe: 60, madeMinutesAgo: 4 * DAY, result: 'LOSE', error: 200 },
+  { timeframe: 1440, madeMinutesAgo: 2 * DAY, result: 'WIN', error: 1000 }
+];
+
+// Before the window: the previous 7 days had one 5m loss
+const PREVIOUS: FixturePrediction[] = [{ timeframe: 5, madeMinutesAgo: 10 * DAY, result: 'LOSE', error: 100 }];
+
+const IN_FLIGHT: FixturePrediction = { timeframe: 60, madeMinutesAgo: 3 };
+const OVERDUE: FixturePrediction = { timeframe: 5, madeMinutesAgo: 25 };
+
+async function dashboard(path = '/api/predictions?period=7d') {
+  return getJson<DashboardData>(GET, path);
+}
+
+describe('GET /api/predictions', () => {
+  it('computes win rates and average errors overall, per timeframe and per category', async () => {
+    await loadFixtures({
+      [COLLECTIONS.predictions]: predictions([...VALIDATED, ...PREVIOUS, IN_FLIGHT]),
+      [COLLECTIONS.systemStatus]: { heartbeat: heartbeatDoc(30) }
+    });
+
+    const { status, body } = await dashboard();
+
+    expect(status).toBe(200);
+    expect(body.overallStats).toMatchObject({ total_predictions: 8, wins: 5, losses: 3, win_rate: 62.5, avg_error: 187.5 });
+
+    const byTimeframe = Object.fromEntries(body.timeframeStats.map(stats => [stats.timeframe_minutes, stats]));
+    expect(Object.keys(byTimeframe)).toEqual(['5', '15', '60', '1440']);
+    expect(byTimeframe[5]).toMatchObject({ total_predictions: 4, wins: 3, win_rate: 75, avg_error: 25 });
+    expect(byTimeframe[15]).toMatchObject({ total_predictions: 2, wins: 1, win_rate: 50, avg_error: 100 });
+    expect(byTimeframe[60]).toMatchObject({ total_predictions: 1, wins: 0, win_rate: 0, avg_error: 200 });
+    expect(byTimeframe[1440]).toMatchObject({ total_predictions: 1, wins: 1, win_rate: 100, avg_error: 1000 });
+
+    const byCategory = Object.fromEntries((body.categoryStats ?? []).map(stats => [stats.category, stats]));
+    expect(byCategory.ultra_short).toMatchObject({ timeframes: [5], total_predictions: 4, win_rate: 75 });
+    expect(byCategory.short).toMatchObject({ timeframes: [15, 60], total_predictions: 3, wins: 1 });
+    expect(byCategory.short.avg_error).toBeCloseTo(400 / 3);
+    expect(byCategory.medium).toMatchObject({ timeframes: [], total_predictions: 0, win_rate: 0, avg_error: 0 });
+    expect(byCategory.long).toMatchObject({ timeframes: [1440], total_predictions: 1, win_rate: 100 });
+  });
+
+  it('reports the change from the previous period', async () => {
+    await loadFixtures({
+      [COLLECTIONS.predictions]: predictions([...VALIDATED, ...PREVIOUS]),
+      [COLLECTIONS.systemStatus]: { heartbeat: heartbeatDoc(30) }
+    });
+
+    const { body } = await dashboard();
+
+    expect(body.overallStats?.delta).toMatchObject({ total_predictions: 7, wins: 5, losses: 2, win_rate: 62.5, avg_error: 87.5 });
+    // No previous data for 15m, so no delta rather than a jump from zero
+    expect(body.timeframeStats.find(stats => stats.timeframe_minutes === 15)?.delta).toBeNull();
+  });
+
+  it('lists predictions past their target as pending and counts them as validation lag', async () => {
+    await loadFixtures({
+      [COLLECTIONS.predictions]: predictions([...VALIDATED, IN_FLIGHT, OVERDUE]),
+      [COLLECTIONS.systemStatus]: { heartbeat: heartbeatDoc(30) }
+    });
+
+    const { body } = await dashboard();
+
+    expect(body.pendingPredictions.map(prediction => prediction.target_time)).toEqual([minutesAgo(20)]);
+    expect(body.validationLag).toMatchObject({ overdue: 1, oldest_overdue_target: minutesAgo(20) });
+    expect(body.recentPredictions).toHaveLength(VALIDATED.length + 2);
+    // The in-flight prediction has no validation yet and stays out of the stats
+    expect(body.overallStats?.total_predictions).toBe(8);
+  });
+
+  it('skips malformed predictions and reports them as warnings', async () => {
+    await loadFixtures({
+      [COLLECTIONS.predictions]: {
+        ...predictions(VALIDATED.slice(0, 2)),
+        broken: { ...predictionDoc(VALIDATED[2]), current_price: 'n/a' }
+      },
+      [COLLECTIONS.systemStatus]: { heartbeat: heartbeatDoc(30) }
+    });
+
+    const { body } = await dashboard();
+
+    expect(body.recentPredictions).toHaveLength(2);
+    expect(body.warnings).toEqual([
+      expect.objectContaining({ collection: COLLECTIONS.predictions, id: 'broken' })
+    ]);
+  });
+
+  const HEALTH_CASES: Array<[HealthState, string, { heartbeat?: Record<string, unknown>; overdue?: boolean; madeMinutesAgo?: number }]> = [
+    ['online', 'a fresh heartbeat and recent predictions', { heartbeat: heartbeatDoc(30) }],
+    ['delayed', 'a heartbeat a few minutes late', { heartbeat: heartbeatDoc(5 * 60) }],
+    ['offline', 'a heartbeat older than the offline threshold', { heartbeat: heartbeatDoc(15 * 60) }],
+    ['offline', 'a predictor that reported it is stopping', { heartbeat: heartbeatDoc(30, 'stopping') }],
+    ['error', 'a predictor that reported an error', { heartbeat: heartbeatDoc(30, 'error', { message: 'Model failed to load' }) }],
+    ['degraded', 'a validation stuck past its target', { heartbeat: heartbeatDoc(30), overdue: true }],
+    ['degraded', 'no new prediction for an hour', { heartbeat: heartbeatDoc(30), madeMinutesAgo: 60 }],
+    ['unknown', 'no heartbeat document', {}]
+  ];
+
+  it.each(HEALTH_CASES)('derives %s health from %s', async (state, _, { heartbeat, overdue, madeMinutesAgo = 10 }) => {
+    await loadFixtures({
+      [COLLECTIONS.predictions]: predictions([
+        { timeframe: 5, madeMinutesAgo, result: 'WIN' },
+        ...(overdue ? [OVERDUE] : [])
+      ]),
+      ...(heartbeat ? { [COLLECTIONS.systemStatus]: { heartbeat } } : {})
+    });
+
+    const { body } = await dashboard();
+
+    expect(body.health.state).toBe(state);
+  });
+
+  it('reads the requested asset and rejects unknown ones', async () => {
+    await loadFixtures({
+      [COLLECTIONS.predictions]: predictions(VALIDATED),
+      ethereum_predictions: predictions([{ timeframe: 5, madeMinutesAgo: 60, result: 'LOSE', error: 5 }]),
+      [COLLECTIONS.systemStatus]: { heartbeat: heartbeatDoc(30) }
+    });
+
+    const eth = await dashboard('/api/predictions?period=7d&asset=eth');
+    expect(eth.body.asset).toBe('ETH');
+    expect(eth.body.overallStats).toMatchObject({ total_predictions: 1, wins: 0, avg_error: 5 });
+
+    const unknown = await dashboard('/api/predictions?asset=DOGE');
+    expect(unknown.status).toBe(400);
+  });
+
+  it('rejects an unknown period', async () => {
+    await loadFixtures({});
+
+    const { status, body } = await getJson<{ error: string }>(GET, '/api/predictions?period=2w');
+
+    expect(status).toBe(400);
+    expect(body.error).toBe('Invalid query');
+  });
+
+  it('keeps the DashboardData shape', async () => {
+    await loadFixtures({
+      [COLLECTIONS.predictions]: predictions([...VALIDATED, ...PREVIOUS, IN_FLIGHT, OVERDUE]),
+      [COLLECTIONS.systemStatus]: { heartbeat: heartbeatDoc(30, 'running', { active_timeframes: [5, 15, 60, 1440] }) },
+      [COLLECTIONS.modelPerformance]: {
+        latest: {
+          timestamp: minutesAgo(30),
+          metrics: { lstm: { mae: 120, rmse: 150 }, gb: { mae: 110, rmse: 140 }, rf: { accuracy: 0.58 } }
+        }
+      }
+    });
+
+    const { body } = await dashboard();
+
+    expect(shapeOf(body)).toMatchSnapshot();
+  });
+});
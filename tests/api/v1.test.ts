@@ -0,0 +1,128 @@
+// tests/api/v1.test.ts - The public API: consumer keys, rate limits and payloads
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET as predictionRoute } from '@/app/api/v1/predictions/[id]/route';
+import { GET as signals } from '@/app/api/v1/signals/route';
+import { GET as stats } from '@/app/api/v1/stats/route';
+import { createApiKey, getApiKey, listApiKeyUsage, revokeApiKey } from '@/lib/auth';
+import type { DataStore } from '@/lib/datastore';
+import { COLLECTIONS } from '@/lib/firebase';
+import type { ApiV1PredictionResponse, ApiV1SignalsResponse, ApiV1StatsResponse } from '@/types';
+import { getJson, heartbeatDoc, loadFixtures, minutesAgo, NOW, predictions, setupApiTests } from '../helpers';
+
+setupApiTests();
+
+beforeEach(() => {
+  // Consumer keys are checked even with dashboard auth turned off
+  vi.stubEnv('API_RATE_LIMIT_PER_MINUTE', '3');
+});
+
+// p000 and p002 are the newest 5m and 15m predictions; p003 is a day-long one
+const FIXTURES = predictions([
+  { timeframe: 5, madeMinutesAgo: 2 },
+  { timeframe: 5, madeMinutesAgo: 30, result: 'WIN', error: 10 },
+  { timeframe: 15, madeMinutesAgo: 40, result: 'LOSE', error: 30, trend: 'PUT' },
+  { timeframe: 1440, madeMinutesAgo: 2000, result: 'WIN', error: 200, confidence: 90 }
+]);
+
+async function withKey(limit?: number): Promise<{ db: DataStore; id: string; headers: Record<string, string> }> {
+  const db = await loadFixtures({
+    [COLLECTIONS.predictions]: FIXTURES,
+    [COLLECTIONS.systemStatus]: { heartbeat: heartbeatDoc(30) }
+  });
+  const key = await createApiKey(db, { name: 'Bot', ...(limit && { rate_limit_per_minute: limit }) });
+  return { db, id: key.id, headers: { authorization: `Bearer ${key.key}` } };
+}
+
+describe('/api/v1 authentication', () => {
+  it('requires a consumer key, and stops taking one once revoked', async () => {
+    const { db, id, headers } = await withKey();
+
+    expect((await getJson(signals, '/api/v1/signals')).status).toBe(401);
+    expect((await getJson(signals, '/api/v1/signals', { headers: { 'x-api-key': 'bpk_guess' } })).status).toBe(401);
+    expect((await getJson(signals, '/api/v1/signals', { headers })).status).toBe(200);
+
+    await revokeApiKey(db, id);
+    const revoked = await getJson<{ message: string }>(signals, '/api/v1/signals', { headers });
+    expect(revoked.status).toBe(401);
+    expect(revoked.body.message).toMatch(/revoked/);
+  });
+
+  it('answers 429 past the per-minute limit, then lets the next minute through', async () => {
+    const { db, id, headers } = await withKey();
+
+    const statuses: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      statuses.push((await signals(new NextRequest('http://localhost/api/v1/signals', { headers }))).status);
+    }
+    expect(statuses).toEqual([200, 200, 200, 429]);
+
+    const limited = await signals(new NextRequest('http://localhost/api/v1/signals', { headers }));
+    expect(limited.headers.get('X-RateLimit-Limit')).toBe('3');
+    expect(limited.headers.get('X-RateLimit-Remaining')).toBe('0');
+    expect(limited.headers.get('Retry-After')).toBe('60');
+
+    vi.setSystemTime(new Date(NOW.getTime() + 60000));
+    const next = await signals(new NextRequest('http://localhost/api/v1/signals', { headers }));
+    expect(next.status).toBe(200);
+    expect(next.headers.get('X-RateLimit-Remaining')).toBe('2');
+
+    expect(await getApiKey(db, id)).toMatchObject({ request_count: 4, rejected_count: 2, last_used_at: expect.any(String) });
+    expect(await listApiKeyUsage(db, id)).toEqual([
+      expect.objectContaining({ key_id: id, date: '2026-03-10', requests: 4, rejected: 2 })
+    ]);
+  });
+
+  it('uses a key\'s own limit over the default', async () => {
+    const { headers } = await withKey(10);
+
+    const response = await signals(new NextRequest('http://localhost/api/v1/signals', { headers }));
+    expect(response.headers.get('X-RateLimit-Limit')).toBe('10');
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe('9');
+  });
+});
+
+describe('/api/v1 payloads', () => {
+  it('lists the newest signal per timeframe', async () => {
+    const { headers } = await withKey();
+
+    const { body } = await getJson<ApiV1SignalsResponse>(signals, '/api/v1/signals', { headers });
+
+    expect(body.asset).toBe('BTC');
+    expect(body.signals.map(signal => [signal.timeframe_minutes, signal.id, signal.status])).toEqual([
+      [5, 'p000', 'pending'],
+      [15, 'p002', 'lose'],
+      [1440, 'p003', 'win']
+    ]);
+    expect(body.signals[1]).toMatchObject({
+      direction: 'down',
+      confidence: 70,
+      price_at_prediction: 65000,
+      predicted_at: new Date(minutesAgo(40)).toISOString(),
+      validated_at: expect.stringMatching(/Z$/)
+    });
+  });
+
+  it('looks up one prediction and 404s on an unknown id', async () => {
+    const { headers } = await withKey();
+
+    const lookup = <T>(id: string) =>
+      getJson<T>(request => predictionRoute(request, { params: Promise.resolve({ id }) }), `/api/v1/predictions/${id}`, { headers });
+
+    const found = await lookup<ApiV1PredictionResponse>('p001');
+    expect(found.body.prediction).toMatchObject({ id: 'p001', status: 'win', actual_price: 65050 });
+    expect((await lookup('nope')).status).toBe(404);
+  });
+
+  it('reports win rates overall and per timeframe', async () => {
+    const { headers } = await withKey();
+
+    const { status, body } = await getJson<ApiV1StatsResponse>(stats, '/api/v1/stats?period=7d', { headers });
+
+    expect(status).toBe(200);
+    expect(body.period.key).toBe('7d');
+    expect(body.overall).toMatchObject({ timeframe_minutes: null, total: 3, wins: 2, losses: 1 });
+    expect(body.timeframes.map(timeframe => [timeframe.timeframe_minutes, timeframe.total])).toEqual([[5, 1], [15, 1], [1440, 1]]);
+    expect((await getJson(stats, '/api/v1/stats?period=2w', { headers })).status).toBe(400);
+  });
+});
@@ -0,0 +1,161 @@
+// tests/helpers.ts - Fixture data and request helpers for the API tests
+//
+// Handlers run against the in-memory store by default. With
+// FIRESTORE_EMULATOR_HOST set they run against the Firestore emulator
+// instead, which is wiped before each test's fixtures are written.
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, vi } from 'vitest';
+import { setDataStore } from '@/lib/datastore';
+import type { DataStore, DocumentData, StoreData } from '@/lib/datastore';
+import { createMemoryStore } from '@/lib/datastore/memory';
+import { writeStoreData } from '@/lib/datastore/seed';
+import { initFirebaseAdmin } from '@/lib/firebase';
+import { clearPriceCache } from '@/lib/price';
+import { toWibIso } from '@/lib/time';
+
+// 12:00 WIB, well clear of a day boundary
+export const NOW = new Date('2026-03-10T05:00:00.000Z');
+export const SPOT_PRICE = 65000;
+
+const MINUTE_MS = 60000;
+const realFetch = globalThis.fetch;
+
+export function minutesAgo(minutes: number): string {
+  return toWibIso(new Date(NOW.getTime() - minutes * MINUTE_MS));
+}
+
+export interface FixturePrediction {
+  timeframe: number;
+  madeMinutesAgo: number;
+  // Omitted for a prediction that hasn't been validated
+  result?: 'WIN' | 'LOSE';
+  error?: number;
+  confidence?: number;
+  trend?: 'CALL' | 'PUT';
+}
+
+// A prediction document as the predictor writes it. The price moves 50 in
+// whichever direction makes `result` true.
+export function predictionDoc({
+  timeframe,
+  madeMinutesAgo,
+  result,
+  error = 0,
+  confidence = 70,
+  trend = 'CALL'
+}: FixturePrediction): DocumentData {
+  const predicted = SPOT_PRICE + (trend === 'CALL' ? 100 : -100);
+  const doc: DocumentData = {
+    timestamp: minutesAgo(madeMinutesAgo),
+    prediction_time: minutesAgo(madeMinutesAgo),
+    timeframe_minutes: timeframe,
+    current_price: SPOT_PRICE,
+    predicted_price: predicted,
+    price_change: predicted - SPOT_PRICE,
+    price_change_pct: ((predicted - SPOT_PRICE) / SPOT_PRICE) * 100,
+    price_range_low: predicted - 200,
+    price_range_high: predicted + 200,
+    trend,
+    confidence,
+    method: 'ensemble',
+    target_time: minutesAgo(madeMinutesAgo - timeframe),
+    validated: false,
+    validation_result: null
+  };
+  if (!result) return doc;
+
+  const up = (result === 'WIN') === (trend === 'CALL');
+  return {
+    ...doc,
+    validated: true,
+    validation_result: result,
+    validation_time: minutesAgo(madeMinutesAgo - timeframe - 1),
+    actual_price: SPOT_PRICE + (up ? 50 : -50),
+    price_error: error,
+    price_error_pct: (error / SPOT_PRICE) * 100,
+    direction_correct: result === 'WIN'
+  };
+}
+
+// Ids are the fixture's index, so they sort in the order given
+export function predictions(fixtures: FixturePrediction[]): Record<string, DocumentData> {
+  return Object.fromEntries(fixtures.map((fixture, index) => [`p${String(index).padStart(3, '0')}`, predictionDoc(fixture)]));
+}
+
+export function heartbeatDoc(secondsAgo: number, status = 'running', extra: DocumentData = {}): DocumentData {
+  return {
+    status,
+    timestamp: toWibIso(new Date(NOW.getTime() - secondsAgo * 1000)),
+    cpu_percent: 20,
+    memory_mb: 800,
+    ...extra
+  };
+}
+
+async function emulatorStore(): Promise<DataStore> {
+  const db = initFirebaseAdmin();
+  const project = process.env.FIREBASE_PROJECT_ID || 'demo-btc-predictor';
+  const response = await realFetch(
+    `http://${process.env.FIRESTORE_EMULATOR_HOST}/emulator/v1/projects/${project}/databases/(default)/documents`,
+    { method: 'DELETE' }
+  );
+  if (!response.ok) throw new Error(`Could not clear the Firestore emulator: HTTP ${response.status}`);
+  return db;
+}
+
+// Writes `data` to a fresh store and points every handler at it
+export async function loadFixtures(data: StoreData): Promise<DataStore> {
+  const store = process.env.FIRESTORE_EMULATOR_HOST ? await emulatorStore() : createMemoryStore();
+  await writeStoreData(store, data);
+  setDataStore(store);
+  return store;
+}
+
+// Freezes the clock at NOW, answers price lookups with SPOT_PRICE and
+// keeps the handlers' progress logging out of the test output. Requests
+// are made as an admin; tests of sign-in and roles turn auth back on.
+export function setupApiTests(): void {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    vi.stubEnv('AUTH_DISABLED', 'true');
+    vi.stubEnv('PRICE_PROVIDERS', 'binance');
+    vi.stubEnv('TIMEFRAMES', '');
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ symbol: 'BTCUSDT', price: String(SPOT_PRICE) })));
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    clearPriceCache();
+  });
+
+  afterEach(() => {
+    setDataStore(undefined);
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+}
+
+export async function getJson<T>(
+  handler: (request: NextRequest) => Promise<Response>,
+  path: string,
+  init?: ConstructorParameters<typeof NextRequest>[1]
+): Promise<{ status: number; body: T }> {
+  const response = await handler(new NextRequest(`http://localhost${path}`, init));
+  return { status: response.status, body: (await response.json()) as T };
+}
+
+// Every key with the type of its value, arrays by their first element, so a
+// snapshot pins the payload's structure without its timestamps and numbers
+export function shapeOf(value: unknown): unknown {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return value.length > 0 ? [shapeOf(value[0])] : [];
+  if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, item]) => [key, shapeOf(item)])
+    );
+  }
+  return typeof value;
+}
@@ -0,0 +1,52 @@
+// tests/lib/aggregates.test.ts - Folding validated predictions into the daily aggregates
+import { describe, expect, it } from 'vitest';
+import { syncAggregates, syncAggregatesThrottled } from '@/lib/aggregates';
+import type { DataStore } from '@/lib/datastore';
+import { COLLECTIONS } from '@/lib/firebase';
+import { toWibDate } from '@/lib/time';
+import { loadFixtures, minutesAgo, NOW, predictionDoc, predictions, setupApiTests } from '../helpers';
+
+setupApiTests();
+
+const AGGREGATE_5M = `${toWibDate(NOW)}_5`;
+
+async function aggregate(db: DataStore, id = AGGREGATE_5M) {
+  return (await db.collection(COLLECTIONS.aggregates).doc(id).get()).data();
+}
+
+describe('syncAggregates', () => {
+  it('replaces the counts of a prediction validated again instead of adding them twice', async () => {
+    const db = await loadFixtures({
+      [COLLECTIONS.predictions]: predictions([
+        { timeframe: 5, madeMinutesAgo: 60, result: 'LOSE', error: 30 },
+        { timeframe: 5, madeMinutesAgo: 90, result: 'WIN', error: 10 }
+      ])
+    });
+    expect(await syncAggregates(db)).toBe(2);
+
+    // The validator corrects p000 to a win a little later
+    await db.collection(COLLECTIONS.predictions).doc('p000').set({
+      ...predictionDoc({ timeframe: 5, madeMinutesAgo: 60, result: 'WIN', error: 20 }),
+      validation_time: minutesAgo(1)
+    });
+    expect(await syncAggregates(db)).toBe(1);
+
+    expect(await aggregate(db)).toMatchObject({ total: 2, wins: 2, losses: 0, error_sum: 30 });
+  });
+});
+
+describe('syncAggregatesThrottled', () => {
+  it('syncs at most once per interval', async () => {
+    const db = await loadFixtures({
+      [COLLECTIONS.predictions]: predictions([{ timeframe: 5, madeMinutesAgo: 60, result: 'WIN' }])
+    });
+    expect(await syncAggregatesThrottled(db, 'BTC', NOW)).toBe(1);
+
+    await db.collection(COLLECTIONS.predictions).doc('late').set(
+      { ...predictionDoc({ timeframe: 5, madeMinutesAgo: 30, result: 'LOSE' }), validation_time: minutesAgo(-0.1) }
+    );
+    expect(await syncAggregatesThrottled(db, 'BTC', new Date(NOW.getTime() + 10000))).toBe(0);
+    expect(await syncAggregatesThrottled(db, 'BTC', new Date(NOW.getTime() + 30000))).toBe(1);
+    expect(await aggregate(db)).toMatchObject({ total: 2, wins: 1, losses: 1 });
+  });
+});
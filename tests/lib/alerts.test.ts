@@ -0,0 +1,256 @@
+// tests/lib/alerts.test.ts - Alert evaluation and delivery against a local HTTP sink and a fake mailer
+import { createServer } from 'http';
+import type { AddressInfo, Server } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAlertRule, evaluateAlerts, listDeliveries, sendNotification } from '@/lib/alerts';
+import type { Mailer } from '@/lib/alerts';
+import type { DataStore } from '@/lib/datastore';
+import { COLLECTIONS } from '@/lib/firebase';
+import type { AlertChannel, AlertRule } from '@/types';
+import { heartbeatDoc, loadFixtures, NOW, predictionDoc, setupApiTests } from '../helpers';
+
+setupApiTests();
+
+// Captured before setupApiTests stubs fetch, so deliveries reach the sink
+const realFetch = globalThis.fetch;
+const MINUTE_MS = 60000;
+
+interface Received {
+  path: string;
+  body: unknown;
+}
+
+let server: Server;
+let sinkUrl: string;
+let received: Received[];
+let mailer: Mailer & { sendMail: ReturnType<typeof vi.fn> };
+
+// Anything posted to /broken is refused
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => {
+      received.push({ path: request.url ?? '', body: JSON.parse(Buffer.concat(chunks).toString('utf8')) });
+      if (request.url === '/broken') response.writeHead(500).end('sink down');
+      else response.writeHead(200).end('{"ok":true}');
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  sinkUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+  received = [];
+  mailer = { sendMail: vi.fn(async () => undefined) };
+  vi.stubEnv('TELEGRAM_BOT_TOKEN', '123:secret');
+  vi.stubEnv('TELEGRAM_API_URL', sinkUrl);
+  vi.stubEnv('ALERT_EMAIL_FROM', 'alerts@example.com');
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+function evaluateAt(db: DataStore, minutes: number) {
+  const now = new Date(NOW.getTime() + minutes * MINUTE_MS);
+  vi.setSystemTime(now);
+  return evaluateAlerts(db, { fetchImpl: realFetch, mailer, now });
+}
+
+// A heartbeat written `minutes` after NOW
+function beat(db: DataStore, minutes: number) {
+  return db.collection(COLLECTIONS.systemStatus).doc('heartbeat').set(heartbeatDoc(-minutes * 60));
+}
+
+async function staleHeartbeatRule(channels: AlertChannel[], cooldown_minutes = 0) {
+  const db = await loadFixtures({ [COLLECTIONS.systemStatus]: { heartbeat: heartbeatDoc(0) } });
+  await createAlertRule(db, {
+    name: 'Predictor down',
+    condition: { kind: 'heartbeat_stale', stale_minutes: 10 },
+    channels,
+    cooldown_minutes
+  });
+  return db;
+}
+
+describe('evaluateAlerts', () => {
+  it('delivers to webhook, Telegram and email, and logs each delivery', async () => {
+    const db = await staleHeartbeatRule([
+      { type: 'webhook', url: `${sinkUrl}/hook` },
+      { type: 'telegram', chat_id: '42' },
+      { type: 'email', to: 'ops@example.com' }
+    ]);
+
+    expect(await evaluateAt(db, 5)).toMatchObject({ evaluated: 1, triggered: 0, sent: 0 });
+    expect(await evaluateAt(db, 15)).toMatchObject({ evaluated: 1, triggered: 1, sent: 3, failed: 0 });
+
+    const title = 'Predictor heartbeat is stale';
+    const message = `No heartbeat for 15 minutes (last at ${heartbeatDoc(0).timestamp}, threshold 10 min).`;
+    const dedup_key = `heartbeat_stale:${heartbeatDoc(0).timestamp}`;
+    expect(received).toHaveLength(2);
+    expect(received).toContainEqual({
+      path: '/hook',
+      body: expect.objectContaining({ rule_name: 'Predictor down', title, message, dedup_key })
+    });
+    expect(received).toContainEqual({
+      path: '/bot123:secret/sendMessage',
+      body: { chat_id: '42', text: `${title}\n\n${message}` }
+    });
+    expect(mailer.sendMail).toHaveBeenCalledWith({ from: 'alerts@example.com', to: 'ops@example.com', subject: title, text: message });
+
+    const deliveries = await listDeliveries(db, 10);
+    expect(deliveries.map(delivery => [delivery.channel, delivery.target, delivery.status]).sort()).toEqual([
+      ['email', 'ops@example.com', 'sent'],
+      ['telegram', 'chat 42', 'sent'],
+      ['webhook', new URL(sinkUrl).host, 'sent']
+    ]);
+    expect(deliveries.every(delivery => delivery.dedup_key === dedup_key)).toBe(true);
+  });
+
+  it('sends once per outage while the condition holds', async () => {
+    const db = await staleHeartbeatRule([{ type: 'webhook', url: `${sinkUrl}/hook` }]);
+
+    expect(await evaluateAt(db, 15)).toMatchObject({ triggered: 1, sent: 1 });
+    expect(await evaluateAt(db, 16)).toMatchObject({ triggered: 0, sent: 0 });
+
+    // Recovers, then goes quiet again: a new outage is a new key
+    await beat(db, 17);
+    expect(await evaluateAt(db, 18)).toMatchObject({ triggered: 0 });
+    expect(await evaluateAt(db, 30)).toMatchObject({ triggered: 1, sent: 1 });
+    expect(received).toHaveLength(2);
+  });
+
+  it('holds back a new key within the cooldown, logging it once, and sends it after', async () => {
+    const db = await staleHeartbeatRule([{ type: 'webhook', url: `${sinkUrl}/hook` }], 60);
+
+    expect(await evaluateAt(db, 15)).toMatchObject({ sent: 1 });
+    await beat(db, 16);
+    expect(await evaluateAt(db, 17)).toMatchObject({ triggered: 0 });
+
+    expect(await evaluateAt(db, 30)).toMatchObject({ triggered: 1, sent: 0, suppressed: 1 });
+    expect(await evaluateAt(db, 31)).toMatchObject({ triggered: 0, suppressed: 0 });
+    expect(received).toHaveLength(1);
+
+    const [suppressed] = await listDeliveries(db, 10);
+    expect(suppressed).toMatchObject({
+      status: 'suppressed',
+      error: 'within 60 min cooldown',
+      dedup_key: `heartbeat_stale:${heartbeatDoc(-16 * 60).timestamp}`
+    });
+
+    // Still stale once the cooldown from the first send at +15 ends
+    expect(await evaluateAt(db, 76)).toMatchObject({ triggered: 1, sent: 1 });
+    expect(received).toHaveLength(2);
+    expect(await listDeliveries(db, 10)).toHaveLength(3);
+  });
+
+  it('alerts when no heartbeat has ever been recorded', async () => {
+    const db = await staleHeartbeatRule([{ type: 'webhook', url: `${sinkUrl}/hook` }]);
+    await db.collection(COLLECTIONS.systemStatus).doc('heartbeat').delete();
+
+    expect(await evaluateAt(db, 1)).toMatchObject({ triggered: 1, sent: 1 });
+    expect(received[0].body).toMatchObject({ dedup_key: 'heartbeat_stale:missing' });
+  });
+
+  describe('when the heartbeat cannot be trusted', () => {
+    // Both heartbeat rules, against a heartbeat that went quiet 15 minutes ago
+    async function heartbeatRules() {
+      const db = await staleHeartbeatRule([{ type: 'webhook', url: `${sinkUrl}/hook` }]);
+      await createAlertRule(db, {
+        name: 'Predictor error',
+        condition: { kind: 'system_error' },
+        channels: [{ type: 'webhook', url: `${sinkUrl}/hook` }]
+      });
+      return db;
+    }
+
+    it('skips the rules for that run when the read fails', async () => {
+      const db = await heartbeatRules();
+      const collection = db.collection.bind(db);
+      vi.spyOn(db, 'collection').mockImplementation(name => name === COLLECTIONS.systemStatus
+        ? { ...collection(name), doc: () => ({ get: async () => { throw new Error('datastore unavailable'); } }) } as never
+        : collection(name));
+
+      expect(await evaluateAt(db, 15)).toMatchObject({ evaluated: 0, triggered: 0 });
+      expect(received).toHaveLength(0);
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('"Predictor error"'), expect.any(Error));
+
+      vi.mocked(db.collection).mockRestore();
+      expect(await evaluateAt(db, 16)).toMatchObject({ evaluated: 2, triggered: 1, sent: 1 });
+    });
+
+    it('skips the rules for that run when the document is malformed', async () => {
+      const db = await heartbeatRules();
+      await db.collection(COLLECTIONS.systemStatus).doc('heartbeat').set({ status: 'running', timestamp: 12345 });
+
+      expect(await evaluateAt(db, 15)).toMatchObject({ evaluated: 0, triggered: 0 });
+      expect(received).toHaveLength(0);
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining('"Predictor down"'),
+        expect.objectContaining({ name: 'MalformedHeartbeatError' })
+      );
+    });
+  });
+
+  it('reports each new high-confidence prediction, including ones sharing a timestamp', async () => {
+    const db = await loadFixtures({});
+    await createAlertRule(db, {
+      name: 'Strong calls',
+      condition: { kind: 'high_confidence', min_confidence: 80 },
+      channels: [{ type: 'webhook', url: `${sinkUrl}/hook` }],
+      cooldown_minutes: 0
+    });
+    const predictions = db.collection(COLLECTIONS.predictions);
+
+    // The first evaluation only starts the cursor
+    await predictions.doc('before').set(predictionDoc({ timeframe: 5, madeMinutesAgo: 1, confidence: 90 }));
+    expect(await evaluateAt(db, 0)).toMatchObject({ triggered: 0 });
+
+    await predictions.doc('a').set(predictionDoc({ timeframe: 5, madeMinutesAgo: -2, confidence: 90 }));
+    await predictions.doc('a-weak').set(predictionDoc({ timeframe: 5, madeMinutesAgo: -2, confidence: 60 }));
+    expect(await evaluateAt(db, 3)).toMatchObject({ triggered: 1, sent: 1 });
+
+    // Written after that evaluation with the same timestamp
+    await predictions.doc('b').set(predictionDoc({ timeframe: 5, madeMinutesAgo: -2, confidence: 85 }));
+    expect(await evaluateAt(db, 4)).toMatchObject({ triggered: 1, sent: 1 });
+    expect(await evaluateAt(db, 5)).toMatchObject({ triggered: 0 });
+
+    expect(received.map(request => (request.body as { dedup_key: string }).dedup_key)).toEqual(['prediction:a', 'prediction:b']);
+  });
+});
+
+describe('sendNotification', () => {
+  it('posts to Discord and logs a failing channel without blocking the rest', async () => {
+    // Built directly: a saved rule only accepts https Discord URLs
+    const rule: AlertRule = {
+      id: 'rule-1',
+      name: 'Direct',
+      enabled: true,
+      condition: { kind: 'system_error' },
+      channels: [
+        { type: 'discord', webhook_url: `${sinkUrl}/discord` },
+        { type: 'webhook', url: `${sinkUrl}/broken` }
+      ],
+      cooldown_minutes: 0,
+      created_at: NOW.toISOString(),
+      updated_at: NOW.toISOString()
+    };
+    const db = await loadFixtures({});
+
+    const deliveries = await sendNotification(db, rule, {
+      rule_id: rule.id,
+      rule_name: rule.name,
+      title: 'Predictor reported an error',
+      message: 'Model load failed',
+      dedup_key: 'system_error',
+      triggered_at: NOW.toISOString()
+    }, { fetchImpl: realFetch });
+
+    expect(received).toContainEqual({ path: '/discord', body: { content: '**Predictor reported an error**\nModel load failed' } });
+    expect(deliveries.map(({ channel, status, error }) => ({ channel, status, error }))).toEqual([
+      { channel: 'discord', status: 'sent', error: undefined },
+      { channel: 'webhook', status: 'failed', error: 'HTTP 500: sink down' }
+    ]);
+    expect((await listDeliveries(db, 10)).map(delivery => delivery.status).sort()).toEqual(['failed', 'sent']);
+  });
+});
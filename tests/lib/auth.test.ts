@@ -0,0 +1,188 @@
+// tests/lib/auth.test.ts - Sessions, passwords, users and ID token checks
+import { generateKeyPairSync, sign } from 'crypto';
+import type { JsonWebKey } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import {
+  createUser,
+  deleteUser,
+  hasRole,
+  listUsers,
+  updateUser,
+  UserConflictError,
+  UserInputError,
+  upsertOidcUser,
+  verifyCredentials
+} from '@/lib/auth';
+import { identityFromClaims, OidcError, verifyIdToken } from '@/lib/auth/oidc';
+import type { OidcConfig } from '@/lib/auth/oidc';
+import { hashPassword, verifyPassword } from '@/lib/auth/passwords';
+import { SESSION_TTL_SECONDS, signSession, verifySession } from '@/lib/auth/session';
+import { loadFixtures, NOW, setupApiTests } from '../helpers';
+
+setupApiTests();
+
+const SECRET = 'test-secret-of-reasonable-length';
+const PASSWORD = 'correct horse battery';
+
+describe('sessions', () => {
+  it('round-trips the claims until the session expires', async () => {
+    const token = await signSession({ sub: 'u1', role: 'operator', provider: 'credentials' }, SECRET, NOW);
+
+    expect(await verifySession(token, SECRET, NOW)).toMatchObject({ sub: 'u1', role: 'operator' });
+    const expired = new Date(NOW.getTime() + SESSION_TTL_SECONDS * 1000);
+    expect(await verifySession(token, SECRET, expired)).toBeNull();
+  });
+
+  it('rejects a token signed with another secret or with altered claims', async () => {
+    const token = await signSession({ sub: 'u1', role: 'viewer', provider: 'credentials' }, SECRET, NOW);
+    const [, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ sub: 'u1', role: 'admin', exp: 4e9 })).toString('base64url');
+
+    expect(await verifySession(token, 'another-secret', NOW)).toBeNull();
+    expect(await verifySession(`${forged}.${signature}`, SECRET, NOW)).toBeNull();
+    expect(await verifySession('not-a-token', SECRET, NOW)).toBeNull();
+  });
+});
+
+describe('passwords and roles', () => {
+  it('verifies only the password that was hashed', async () => {
+    const hash = await hashPassword(PASSWORD);
+
+    expect(await verifyPassword(PASSWORD, hash)).toBe(true);
+    expect(await verifyPassword('wrong password', hash)).toBe(false);
+    expect(await verifyPassword(PASSWORD, undefined)).toBe(false);
+  });
+
+  it('ranks admin over operator over viewer', () => {
+    expect(hasRole({ role: 'admin' }, 'operator')).toBe(true);
+    expect(hasRole({ role: 'operator' }, 'operator')).toBe(true);
+    expect(hasRole({ role: 'viewer' }, 'operator')).toBe(false);
+    expect(hasRole(null, 'viewer')).toBe(false);
+  });
+});
+
+describe('users', () => {
+  it('signs in by email in any case, never exposing the hash', async () => {
+    const db = await loadFixtures({});
+    await createUser(db, { email: 'Ops@Example.com', role: 'operator', password: PASSWORD });
+
+    const user = await verifyCredentials(db, { email: 'ops@example.com', password: PASSWORD });
+    expect(user).toMatchObject({ email: 'ops@example.com', role: 'operator' });
+    expect(user).not.toHaveProperty('password_hash');
+    expect(await verifyCredentials(db, { email: 'ops@example.com', password: 'wrong password' })).toBeNull();
+    expect(await verifyCredentials(db, { email: 'nobody@example.com', password: PASSWORD })).toBeNull();
+  });
+
+  it('rejects bad input and duplicate emails', async () => {
+    const db = await loadFixtures({});
+    await createUser(db, { email: 'a@example.com', role: 'viewer' });
+
+    await expect(createUser(db, { email: 'a@example.com', role: 'viewer' })).rejects.toThrow(UserConflictError);
+    await expect(createUser(db, { email: 'b@example.com', role: 'owner' })).rejects.toThrow(UserInputError);
+    await expect(createUser(db, { email: 'b@example.com', role: 'viewer', password: 'short' })).rejects.toThrow(UserInputError);
+  });
+
+  it('keeps at least one admin', async () => {
+    const db = await loadFixtures({});
+    const first = await createUser(db, { email: 'first@example.com', role: 'admin' });
+
+    await expect(updateUser(db, first.id, { role: 'viewer' })).rejects.toThrow(UserConflictError);
+    await expect(deleteUser(db, first.id)).rejects.toThrow(UserConflictError);
+
+    const second = await createUser(db, { email: 'second@example.com', role: 'admin' });
+    await updateUser(db, first.id, { role: 'viewer' });
+    await expect(deleteUser(db, second.id)).rejects.toThrow(UserConflictError);
+    const roles = Object.fromEntries((await listUsers(db)).map(user => [user.email, user.role]));
+    expect(roles).toEqual({ 'first@example.com': 'viewer', 'second@example.com': 'admin' });
+  });
+
+  it('creates SSO users with the default role and keeps a role an admin gave them', async () => {
+    const db = await loadFixtures({});
+
+    const created = await upsertOidcUser(db, { email: 'sso@example.com', email_verified: true, name: 'SSO User' }, 'viewer');
+    expect(created).toMatchObject({ role: 'viewer', last_login_at: expect.any(String) });
+
+    await updateUser(db, created.id, { role: 'operator' });
+    expect(await upsertOidcUser(db, { email: 'sso@example.com', email_verified: true }, 'viewer')).toMatchObject({ role: 'operator' });
+    // A role stated by the provider wins
+    expect(await upsertOidcUser(db, { email: 'sso@example.com', email_verified: true, role: 'viewer' }, 'viewer')).toMatchObject({ role: 'viewer' });
+  });
+
+  it('links SSO sign-ins by verified email only', async () => {
+    const db = await loadFixtures({});
+    await createUser(db, { email: 'admin@example.com', role: 'admin', password: PASSWORD });
+
+    await expect(upsertOidcUser(db, { email: 'admin@example.com', email_verified: false }, 'viewer'))
+      .rejects.toBeInstanceOf(UserConflictError);
+    await expect(upsertOidcUser(db, { email: 'new@example.com', email_verified: false }, 'viewer'))
+      .rejects.toBeInstanceOf(UserConflictError);
+    expect(await listUsers(db)).toHaveLength(1);
+  });
+
+  it('keeps the last admin when the role claim would demote them', async () => {
+    const db = await loadFixtures({});
+    const admin = await createUser(db, { email: 'admin@example.com', role: 'admin', password: PASSWORD });
+
+    expect(await upsertOidcUser(db, { email: 'admin@example.com', email_verified: true, role: 'viewer' }, 'viewer'))
+      .toMatchObject({ role: 'admin' });
+
+    await createUser(db, { email: 'other@example.com', role: 'admin', password: PASSWORD });
+    expect(await upsertOidcUser(db, { email: 'admin@example.com', email_verified: true, role: 'viewer' }, 'viewer'))
+      .toMatchObject({ id: admin.id, role: 'viewer' });
+  });
+});
+
+describe('ID tokens', () => {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const keys = [{ ...publicKey.export({ format: 'jwk' }), kid: 'k1' } as JsonWebKey & { kid: string }];
+  const expected = { issuer: 'https://idp.example.com', audience: 'dashboard', nonce: 'n-1' };
+  const seconds = Math.floor(NOW.getTime() / 1000);
+
+  const idToken = (claims: Record<string, unknown>) => {
+    const header = Buffer.from(JSON.stringify({ alg: 'RS256', kid: 'k1' })).toString('base64url');
+    const payload = Buffer.from(JSON.stringify({
+      iss: expected.issuer,
+      aud: expected.audience,
+      nonce: expected.nonce,
+      exp: seconds + 300,
+      email: 'sso@example.com',
+      ...claims
+    })).toString('base64url');
+    const signature = sign('sha256', Buffer.from(`${header}.${payload}`), privateKey).toString('base64url');
+    return `${header}.${payload}.${signature}`;
+  };
+
+  it('accepts a token from the issuer for this client', () => {
+    expect(verifyIdToken(idToken({}), keys, expected, NOW)).toMatchObject({ email: 'sso@example.com' });
+  });
+
+  it.each([
+    ['another audience', { aud: 'someone-else' }],
+    ['another nonce', { nonce: 'n-2' }],
+    ['another issuer', { iss: 'https://evil.example.com' }],
+    ['an expired token', { exp: seconds - 600 }]
+  ])('rejects %s', (_, claims) => {
+    expect(() => verifyIdToken(idToken(claims), keys, expected, NOW)).toThrow(OidcError);
+  });
+
+  it('rejects a token whose payload was swapped', () => {
+    const [header, , signature] = idToken({}).split('.');
+    const [, payload] = idToken({ email: 'admin@example.com' }).split('.');
+    expect(() => verifyIdToken(`${header}.${payload}.${signature}`, keys, expected, NOW)).toThrow('signature');
+  });
+
+  it('takes the highest role listed in the role claim', () => {
+    const config: OidcConfig = {
+      issuer: expected.issuer,
+      clientId: expected.audience,
+      scopes: 'openid email',
+      defaultRole: 'viewer',
+      roleClaim: 'groups'
+    };
+    expect(identityFromClaims({ email: 'a@example.com', groups: ['staff', 'operator', 'viewer'] }, config).role).toBe('operator');
+    expect(identityFromClaims({ email: 'a@example.com', groups: 'staff' }, config).role).toBeUndefined();
+    expect(() => identityFromClaims({ email: 'a@example.com', email_verified: false }, config)).toThrow(OidcError);
+    expect(identityFromClaims({ email: 'a@example.com', email_verified: true }, config).email_verified).toBe(true);
+    expect(identityFromClaims({ email: 'a@example.com' }, config).email_verified).toBe(false);
+  });
+});
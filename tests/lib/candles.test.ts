@@ -0,0 +1,74 @@
+// tests/lib/candles.test.ts - Candle adapters against recorded responses, and the candle cap
+import { describe, expect, it, vi } from 'vitest';
+import { CANDLE_PROVIDERS, CandleQueryError, getCandles, MAX_CANDLES } from '@/lib/price/candles';
+import type { PriceSource } from '@/types';
+import binance from '../fixtures/candles/binance.json';
+import coinbase from '../fixtures/candles/coinbase.json';
+import cryptocompare from '../fixtures/candles/cryptocompare.json';
+import kraken from '../fixtures/candles/kraken.json';
+import { NOW, setupApiTests } from '../helpers';
+
+setupApiTests();
+
+const RECORDED: Record<PriceSource, unknown> = { binance, coinbase, cryptocompare, kraken };
+const MINUTE_MS = 60000;
+
+// The three 5-minute candles every recording holds, oldest first
+const CANDLES = [
+  { time: '2026-03-10T04:50:00.000Z', open: 64910.5, high: 64988, low: 64880.1, close: 64950.2, volume: 12.5 },
+  { time: '2026-03-10T04:55:00.000Z', open: 64950.2, high: 65020, low: 64931.7, close: 64999.9, volume: 9.8 },
+  { time: '2026-03-10T05:00:00.000Z', open: 64999.9, high: 65044.4, low: 64960.3, close: 65000, volume: 7.3 }
+];
+
+const query = (minutes: number, intervalMinutes: number) => ({
+  start: new Date(NOW.getTime() - minutes * MINUTE_MS),
+  end: NOW,
+  intervalMinutes
+});
+
+describe('candle providers', () => {
+  it.each(['binance', 'cryptocompare', 'kraken'] as const)('%s reads OHLCV rows from its recorded response', source => {
+    expect(CANDLE_PROVIDERS[source].parse(RECORDED[source])).toEqual(CANDLES);
+  });
+
+  it('coinbase reads its newest-first rows', () => {
+    expect(CANDLE_PROVIDERS.coinbase.parse(RECORDED.coinbase)).toEqual([...CANDLES].reverse());
+  });
+
+  it.each([
+    ['binance', { code: -1121, msg: 'Invalid symbol.' }, 'binance: candles are not an array of rows'],
+    ['cryptocompare', { Response: 'Error', Message: 'toTs is out of range' }, 'cryptocompare: toTs is out of range'],
+    ['coinbase', { message: 'NotFound' }, 'coinbase: candles are not an array of rows'],
+    ['kraken', { error: ['EGeneral:Invalid arguments'] }, 'kraken: EGeneral:Invalid arguments']
+  ] as const)('%s rejects an error response', (source, body, message) => {
+    expect(() => CANDLE_PROVIDERS[source].parse(body)).toThrow(message);
+  });
+});
+
+describe('getCandles', () => {
+  it('returns ascending candles from the first provider that answers', async () => {
+    const fetchImpl = vi.fn(async (input: string | URL | Request) => String(input).includes('coinbase')
+      ? Response.json(RECORDED.coinbase)
+      : new Response('unavailable', { status: 503 }));
+
+    const history = await getCandles(query(15, 5), {
+      providers: [CANDLE_PROVIDERS.binance, CANDLE_PROVIDERS.coinbase],
+      fetchImpl
+    });
+
+    expect(history).toMatchObject({ source: 'coinbase', interval_minutes: 5, candles: CANDLES });
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it(`refuses an interval that would return more than ${MAX_CANDLES} candles`, async () => {
+    const fetchImpl = vi.fn();
+    const month = 30 * 1440;
+
+    const request = getCandles(query(month, 1), { providers: [CANDLE_PROVIDERS.binance], fetchImpl });
+
+    await expect(request).rejects.toBeInstanceOf(CandleQueryError);
+    await expect(request).rejects.toThrow('use 240 or more');
+    await expect(getCandles(query(400 * 1440, 1440), { fetchImpl })).rejects.toThrow('range is too long');
+    expect(fetchImpl).not.toHaveBeenCalled();
+  });
+});
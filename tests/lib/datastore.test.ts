@@ -0,0 +1,97 @@
+// tests/lib/datastore.test.ts - The Firestore behaviour lib/ code relies on
+//
+// Run against the memory store by default and the emulator with
+// FIRESTORE_EMULATOR_HOST set, so the two can't drift apart.
+import { describe, expect, it } from 'vitest';
+import { DOCUMENT_ID } from '@/lib/datastore';
+import type { StoreQuerySnapshot } from '@/lib/datastore';
+import { setupApiTests, loadFixtures } from '../helpers';
+
+setupApiTests();
+
+const SCORES = {
+  a: { score: 3, tag: 'x' },
+  b: { score: 1, tag: 'y' },
+  c: { score: 2, tag: 'x' },
+  d: { score: 2, tag: 'y' },
+  e: { tag: 'x' }
+};
+
+const ids = (snapshot: StoreQuerySnapshot) => snapshot.docs.map(doc => doc.id);
+
+describe('DataStore', () => {
+  it('orders with id tiebreaks and leaves out documents missing the ordered field', async () => {
+    const db = await loadFixtures({ scores: SCORES });
+    const scores = db.collection('scores');
+
+    expect(ids(await scores.orderBy('score').get())).toEqual(['b', 'c', 'd', 'a']);
+    expect(ids(await scores.orderBy('score', 'desc').orderBy(DOCUMENT_ID, 'desc').get())).toEqual(['a', 'd', 'c', 'b']);
+    expect(ids(await scores.where('tag', '==', 'x').orderBy('score').get())).toEqual(['c', 'a']);
+    expect((await scores.where('tag', '==', 'x').count().get()).data().count).toBe(3);
+  });
+
+  it('resumes after a snapshot or after field values', async () => {
+    const db = await loadFixtures({ scores: SCORES });
+    const query = db.collection('scores').orderBy('score').orderBy(DOCUMENT_ID);
+
+    const first = await query.limit(2).get();
+    expect(ids(first)).toEqual(['b', 'c']);
+    expect(ids(await query.startAfter(first.docs[1]).get())).toEqual(['d', 'a']);
+    expect(ids(await query.startAfter(2, 'c').get())).toEqual(['d', 'a']);
+  });
+
+  it('merges nested fields and rejects undefined values', async () => {
+    const db = await loadFixtures({ docs: { one: { nested: { a: 1, b: 2 }, top: true } } });
+    const ref = db.collection('docs').doc('one');
+
+    await ref.set({ nested: { b: 3 } }, { merge: true });
+    expect((await ref.get()).data()).toEqual({ nested: { a: 1, b: 3 }, top: true });
+
+    await expect(ref.set({ missing: undefined })).rejects.toThrow();
+  });
+
+  it('applies a batch all or nothing', async () => {
+    const db = await loadFixtures({ docs: { one: { value: 1 } } });
+    const docs = db.collection('docs');
+
+    const batch = db.batch();
+    batch.set(docs.doc('two'), { value: 2 });
+    batch.update(docs.doc('absent'), { value: 3 });
+    await expect(batch.commit()).rejects.toThrow();
+
+    expect((await docs.doc('two').get()).exists).toBe(false);
+  });
+
+  it('never loses an update to a concurrent transaction', async () => {
+    const db = await loadFixtures({ counters: { hits: { value: 0 } } });
+    const ref = db.collection('counters').doc('hits');
+
+    await Promise.all(Array.from({ length: 5 }, () => db.runTransaction(async transaction => {
+      const current = (await transaction.get(ref)).data()?.value ?? 0;
+      transaction.set(ref, { value: current + 1 });
+    })));
+
+    expect((await ref.get()).data()).toEqual({ value: 5 });
+  });
+
+  it('tells query listeners what was added, modified and removed', async () => {
+    const db = await loadFixtures({ scores: SCORES });
+    const scores = db.collection('scores');
+    const changes: string[][] = [];
+
+    const unsubscribe = scores.where('tag', '==', 'y').onSnapshot(snapshot => {
+      changes.push(snapshot.docChanges().map(change => `${change.type}:${change.doc.id}`));
+    });
+    await expect.poll(() => changes.length).toBe(1);
+
+    await scores.doc('b').update({ score: 5 });
+    await scores.doc('f').set({ score: 0, tag: 'y' });
+    await scores.doc('d').delete();
+    await expect.poll(() => changes.flat()).toEqual(
+      expect.arrayContaining(['modified:b', 'added:f', 'removed:d'])
+    );
+    unsubscribe();
+
+    expect(changes[0].sort()).toEqual(['added:b', 'added:d']);
+  });
+});
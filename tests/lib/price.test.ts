@@ -0,0 +1,127 @@
+// tests/lib/price.test.ts - Price adapters against recorded responses, and the fallback chain
+import { describe, expect, it, vi } from 'vitest';
+import { getSpotPrice, PRICE_PROVIDERS, PriceParseError } from '@/lib/price';
+import type { PriceSource } from '@/types';
+import binance from '../fixtures/price/binance.json';
+import coinbase from '../fixtures/price/coinbase.json';
+import cryptocompare from '../fixtures/price/cryptocompare.json';
+import kraken from '../fixtures/price/kraken.json';
+import { NOW, setupApiTests } from '../helpers';
+
+setupApiTests();
+
+const RECORDED: Record<PriceSource, unknown> = { cryptocompare, binance, coinbase, kraken };
+
+const PROVIDER_HOSTS: Record<string, PriceSource> = {
+  'min-api.cryptocompare.com': 'cryptocompare',
+  'api.binance.com': 'binance',
+  'api.coinbase.com': 'coinbase',
+  'api.kraken.com': 'kraken'
+};
+
+// Answers each provider with its recorded body, except those listed as down
+function recordedFetch(down: PriceSource[] = []) {
+  return vi.fn(async (input: string | URL | Request) => {
+    const source = PROVIDER_HOSTS[new URL(String(input)).host];
+    return down.includes(source)
+      ? new Response('unavailable', { status: 503 })
+      : Response.json(RECORDED[source]);
+  });
+}
+
+const calledSources = (fetchImpl: ReturnType<typeof recordedFetch>) =>
+  fetchImpl.mock.calls.map(([input]) => PROVIDER_HOSTS[new URL(String(input)).host]);
+
+const chain = (...names: PriceSource[]) => names.map(name => PRICE_PROVIDERS[name]);
+
+describe('price providers', () => {
+  it.each([
+    ['cryptocompare', 64987.12],
+    ['binance', 64991.47],
+    ['coinbase', 64985.015],
+    ['kraken', 64990.1]
+  ] as const)('%s reads the price from its recorded response', (source, expected) => {
+    expect(PRICE_PROVIDERS[source].parse(RECORDED[source])).toBe(expected);
+  });
+
+  it.each([
+    ['cryptocompare', { Response: 'Error', Message: 'fsym is a required param.' }, 'cryptocompare: fsym is a required param.'],
+    ['binance', { code: -1121, msg: 'Invalid symbol.' }, 'binance: Invalid symbol.'],
+    ['coinbase', { errors: [{ id: 'not_found', message: 'Invalid currency' }] }, 'coinbase: response is not an object'],
+    ['kraken', { error: ['EQuery:Unknown asset pair'] }, 'kraken: EQuery:Unknown asset pair'],
+    ['binance', { symbol: 'BTCUSDT', price: '0.00000000' }, 'binance: unexpected price value "0.00000000"']
+  ] as const)('%s rejects an error response', (source, body, message) => {
+    const parse = () => PRICE_PROVIDERS[source].parse(body);
+    expect(parse).toThrow(PriceParseError);
+    expect(parse).toThrow(message);
+  });
+});
+
+describe('getSpotPrice', () => {
+  it('falls back through the providers in order', async () => {
+    const fetchImpl = recordedFetch(['cryptocompare', 'binance']);
+
+    const quote = await getSpotPrice({ providers: chain('cryptocompare', 'binance', 'coinbase', 'kraken'), fetchImpl });
+
+    expect(quote).toEqual({ price: 64985.015, source: 'coinbase', timestamp: NOW.toISOString() });
+    expect(calledSources(fetchImpl)).toEqual(['cryptocompare', 'binance', 'coinbase']);
+  });
+
+  it('follows PRICE_PROVIDERS when no chain is passed', async () => {
+    vi.stubEnv('PRICE_PROVIDERS', 'kraken, coinbase');
+    const fetchImpl = recordedFetch(['kraken']);
+
+    expect(await getSpotPrice({ fetchImpl })).toMatchObject({ source: 'coinbase' });
+    expect(calledSources(fetchImpl)).toEqual(['kraken', 'coinbase']);
+  });
+
+  it('serves the cached quote until it expires', async () => {
+    const fetchImpl = recordedFetch();
+    const options = { providers: chain('binance'), cacheTtlMs: 10000, fetchImpl };
+
+    const first = await getSpotPrice(options);
+    vi.setSystemTime(NOW.getTime() + 9000);
+    expect(await getSpotPrice(options)).toBe(first);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(NOW.getTime() + 11000);
+    expect(await getSpotPrice(options)).toMatchObject({ timestamp: new Date(NOW.getTime() + 11000).toISOString() });
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one round of provider calls between concurrent lookups', async () => {
+    const fetchImpl = recordedFetch();
+    const options = { providers: chain('binance'), fetchImpl };
+
+    await Promise.all([getSpotPrice(options), getSpotPrice(options)]);
+
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it('marks the last quote stale when every provider fails, and is null with nothing cached', async () => {
+    const providers = chain('binance', 'kraken');
+    const down = recordedFetch(['binance', 'kraken']);
+    expect(await getSpotPrice({ providers, fetchImpl: down })).toBeNull();
+
+    await getSpotPrice({ providers, cacheTtlMs: 10000, fetchImpl: recordedFetch() });
+    vi.setSystemTime(NOW.getTime() + 60000);
+
+    expect(await getSpotPrice({ providers, fetchImpl: down })).toEqual({
+      price: 64991.47,
+      source: 'binance',
+      timestamp: NOW.toISOString(),
+      stale: true
+    });
+    expect(console.warn).toHaveBeenCalledWith('⚠️ Price provider kraken failed for BTC: HTTP 503');
+  });
+
+  it('keeps each asset in its own cache entry', async () => {
+    const fetchImpl = recordedFetch();
+
+    await getSpotPrice({ asset: 'BTC', providers: chain('kraken'), fetchImpl });
+    await getSpotPrice({ asset: 'ETH', providers: chain('kraken'), fetchImpl });
+    await getSpotPrice({ asset: 'BTC', providers: chain('kraken'), fetchImpl });
+
+    expect(fetchImpl.mock.calls.map(([input]) => new URL(String(input)).searchParams.get('pair'))).toEqual(['XBTUSD', 'ETHUSD']);
+  });
+});
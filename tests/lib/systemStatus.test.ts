@@ -0,0 +1,59 @@
+// tests/lib/systemStatus.test.ts - Normalizing the predictor's heartbeat
+import { describe, expect, it } from 'vitest';
+import { getDataStore } from '@/lib/datastore';
+import { COLLECTIONS } from '@/lib/firebase';
+import { MISSING_HEARTBEAT_MESSAGE, statusSignals } from '@/lib/status';
+import { getSystemStatus } from '@/lib/systemStatus';
+import type { DataWarning } from '@/types';
+import { heartbeatDoc, setupApiTests, loadFixtures } from '../helpers';
+
+setupApiTests();
+
+async function statusOf(heartbeat?: Record<string, unknown>) {
+  await loadFixtures(heartbeat ? { [COLLECTIONS.systemStatus]: { heartbeat } } : {});
+  const warnings: DataWarning[] = [];
+  return { status: await getSystemStatus(getDataStore(), warnings), warnings };
+}
+
+describe('getSystemStatus', () => {
+  it.each([
+    ['running', 30, 'running'],
+    ['running', 5 * 60, 'running'],
+    ['running', 15 * 60, 'offline'],
+    ['stopping', 15 * 60, 'stopping'],
+    ['error', 30, 'error'],
+    ['Running ', 30, 'online'],
+    [undefined, 30, 'online']
+  ])('reports %j with a heartbeat %is old as %s', async (reported, secondsAgo, expected) => {
+    const heartbeat = heartbeatDoc(secondsAgo as number);
+    if (reported === undefined) delete heartbeat.status;
+    else heartbeat.status = reported;
+
+    const { status } = await statusOf(heartbeat);
+
+    expect(status.status).toBe(expected);
+  });
+
+  it('keeps the heartbeat details', async () => {
+    const { status } = await statusOf(heartbeatDoc(30, 'running', { active_timeframes: [5, 15], uptime_hours: 12 }));
+
+    expect(status).toMatchObject({ cpu_percent: 20, memory_mb: 800, active_timeframes: [5, 15], uptime_hours: 12 });
+  });
+
+  it('reports a missing heartbeat as offline, flagged rather than timed', async () => {
+    const { status } = await statusOf();
+
+    expect(status).toMatchObject({ status: 'offline', message: MISSING_HEARTBEAT_MESSAGE, heartbeat_missing: true });
+    expect(statusSignals({ systemStatus: status, recentPredictions: [], pendingPredictions: [] })).toMatchObject({
+      heartbeat_at: null,
+      reported_status: null
+    });
+  });
+
+  it('reports a malformed heartbeat as an error with a warning', async () => {
+    const { status, warnings } = await statusOf({ status: 'running', timestamp: 12345 });
+
+    expect(status.status).toBe('error');
+    expect(warnings).toEqual([expect.objectContaining({ collection: COLLECTIONS.systemStatus, id: 'heartbeat' })]);
+  });
+});
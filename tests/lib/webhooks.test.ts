@@ -0,0 +1,190 @@
+// tests/lib/webhooks.test.ts - Webhook subscriptions, signing, retries and dead letters against a local receiver
+import { createServer } from 'http';
+import type { AddressInfo, Server } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DataStore } from '@/lib/datastore';
+import { COLLECTIONS } from '@/lib/firebase';
+import {
+  createWebhookSubscription,
+  deleteWebhookSubscription,
+  dispatchWebhooks,
+  listWebhookDeliveries,
+  listWebhookSubscriptions,
+  retryWebhookDelivery,
+  verifySignature,
+  WebhookDeliveryStateError,
+  WebhookSubscriptionInputError
+} from '@/lib/webhooks';
+import type { ApiV1WebhookPayload, WebhookSubscriptionInput } from '@/types';
+import { loadFixtures, NOW, predictionDoc, predictions, setupApiTests } from '../helpers';
+
+setupApiTests();
+
+// Captured before setupApiTests stubs fetch, so deliveries reach the receiver
+const realFetch = globalThis.fetch;
+const MINUTE_MS = 60000;
+
+interface Received {
+  headers: Record<string, string | undefined>;
+  body: string;
+}
+
+let server: Server;
+let receiverUrl: string;
+let received: Received[];
+let responseStatus: number;
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => {
+      received.push({
+        headers: request.headers as Record<string, string | undefined>,
+        body: Buffer.concat(chunks).toString('utf8')
+      });
+      response.writeHead(responseStatus).end(responseStatus >= 400 ? 'receiver down' : undefined);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  receiverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+  received = [];
+  responseStatus = 204;
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+// Everything already in the store predates the subscription and is never sent
+async function subscribe(input: Partial<WebhookSubscriptionInput> = {}) {
+  const db = await loadFixtures({
+    [COLLECTIONS.predictions]: predictions([
+      { timeframe: 5, madeMinutesAgo: 30, result: 'WIN' },
+      { timeframe: 5, madeMinutesAgo: 10 }
+    ])
+  });
+  const subscription = await createWebhookSubscription(db, {
+    name: 'Execution bot',
+    url: receiverUrl,
+    events: ['prediction.created'],
+    ...input
+  });
+  return { db, subscription };
+}
+
+// Written `minutes` after the subscription was created
+async function publish(db: DataStore, id: string, minutes: number, fields: { timeframe?: number; confidence?: number } = {}) {
+  await db.collection(COLLECTIONS.predictions).doc(id).set(
+    predictionDoc({ timeframe: fields.timeframe ?? 5, madeMinutesAgo: -minutes, confidence: fields.confidence })
+  );
+}
+
+function dispatchAt(db: DataStore, minutes: number) {
+  const now = new Date(NOW.getTime() + minutes * MINUTE_MS);
+  vi.setSystemTime(now);
+  return dispatchWebhooks(db, { fetchImpl: realFetch, now });
+}
+
+describe('webhook subscriptions', () => {
+  it('shows the secret once and validates the input', async () => {
+    const { db, subscription } = await subscribe();
+
+    expect(subscription.secret).toMatch(/^whsec_/);
+    expect((await listWebhookSubscriptions(db))[0]).not.toHaveProperty('secret');
+    await expect(createWebhookSubscription(db, { name: 'Bad', url: 'ftp://example.com', events: [] }))
+      .rejects.toBeInstanceOf(WebhookSubscriptionInputError);
+  });
+});
+
+describe('dispatchWebhooks', () => {
+  it('delivers new predictions that pass the filters, signed, exactly once', async () => {
+    const { db, subscription } = await subscribe({ timeframes: [5], min_confidence: 60 });
+    await publish(db, 'match', 1, { confidence: 75 });
+    await publish(db, 'other-timeframe', 1, { timeframe: 15, confidence: 75 });
+    await publish(db, 'low-confidence', 2, { confidence: 50 });
+
+    expect(await dispatchAt(db, 3)).toMatchObject({ subscriptions: 1, enqueued: 1, delivered: 1 });
+    expect(received).toHaveLength(1);
+
+    const [{ headers, body }] = received;
+    const payload = JSON.parse(body) as ApiV1WebhookPayload;
+    expect(payload).toMatchObject({ event: 'prediction.created', data: { prediction: { id: 'match', status: 'pending' } } });
+    expect(headers['x-webhook-id']).toBe(payload.id);
+    expect(verifySignature(subscription.secret, headers['x-webhook-timestamp'] ?? null, headers['x-webhook-signature'] ?? null, body)).toBe(true);
+    expect(verifySignature('whsec_other', headers['x-webhook-timestamp'] ?? null, headers['x-webhook-signature'] ?? null, body)).toBe(false);
+
+    expect(await dispatchAt(db, 4)).toMatchObject({ enqueued: 0, delivered: 0 });
+    expect(received).toHaveLength(1);
+  });
+
+  it('picks up a prediction sharing the timestamp of one already sent', async () => {
+    const { db } = await subscribe();
+    await publish(db, 'a', 1);
+    expect(await dispatchAt(db, 2)).toMatchObject({ enqueued: 1, delivered: 1 });
+
+    await publish(db, 'b', 1);
+    expect(await dispatchAt(db, 3)).toMatchObject({ enqueued: 1, delivered: 1 });
+    expect(await dispatchAt(db, 4)).toMatchObject({ enqueued: 0 });
+    expect(received.map(({ body }) => (JSON.parse(body) as ApiV1WebhookPayload).data.prediction.id)).toEqual(['a', 'b']);
+  });
+
+  it('delivers validation results', async () => {
+    const { db } = await subscribe({ events: ['prediction.validated'] });
+    // Made before the subscription, validated a minute after it
+    await db.collection(COLLECTIONS.predictions).doc('settled').set(
+      predictionDoc({ timeframe: 5, madeMinutesAgo: 5, result: 'LOSE' })
+    );
+    await publish(db, 'fresh', 1);
+
+    expect(await dispatchAt(db, 2)).toMatchObject({ enqueued: 1, delivered: 1 });
+    expect(JSON.parse(received[0].body)).toMatchObject({
+      event: 'prediction.validated',
+      data: { prediction: { id: 'settled', status: 'lose' } }
+    });
+  });
+
+  it('retries with exponential backoff, then dead-letters until an admin retries', async () => {
+    vi.stubEnv('WEBHOOK_MAX_ATTEMPTS', '3');
+    vi.stubEnv('WEBHOOK_RETRY_BASE_SECONDS', '60');
+    responseStatus = 500;
+    const { db } = await subscribe();
+    await publish(db, 'match', 1);
+
+    expect(await dispatchAt(db, 2)).toMatchObject({ delivered: 0, retrying: 1 });
+    // The second attempt waits 1 minute, the third 2 more
+    expect(await dispatchAt(db, 2.5)).toMatchObject({ retrying: 0 });
+    expect(await dispatchAt(db, 3)).toMatchObject({ retrying: 1 });
+    expect(await dispatchAt(db, 4.5)).toMatchObject({ retrying: 0, dead: 0 });
+    expect(await dispatchAt(db, 5)).toMatchObject({ retrying: 0, dead: 1 });
+    expect(received).toHaveLength(3);
+    // Every attempt carries the same id for the receiver to de-duplicate on
+    expect(new Set(received.map(request => request.headers['x-webhook-id'])).size).toBe(1);
+
+    const [dead] = await listWebhookDeliveries(db, { status: 'dead', limit: 10 });
+    expect(dead).toMatchObject({ prediction_id: 'match', attempts: 3, last_error: 'HTTP 500: receiver down' });
+    expect(dead).not.toHaveProperty('payload');
+
+    responseStatus = 204;
+    await retryWebhookDelivery(db, dead.id, new Date(NOW.getTime() + 6 * MINUTE_MS));
+    expect(await dispatchAt(db, 6)).toMatchObject({ delivered: 1 });
+    await expect(retryWebhookDelivery(db, dead.id)).rejects.toBeInstanceOf(WebhookDeliveryStateError);
+  });
+
+  it('dead-letters deliveries whose subscription was deleted', async () => {
+    responseStatus = 500;
+    const { db, subscription } = await subscribe();
+    await publish(db, 'match', 1);
+    await dispatchAt(db, 2);
+
+    await deleteWebhookSubscription(db, subscription.id);
+    expect(await dispatchAt(db, 10)).toMatchObject({ subscriptions: 0, dead: 1 });
+    expect(received).toHaveLength(1);
+    expect((await listWebhookDeliveries(db, { limit: 10 }))[0]).toMatchObject({
+      status: 'dead',
+      last_error: 'Subscription was deleted'
+    });
+  });
+});
@@ -1,82 +1,60 @@
 // types/index.ts - Enhanced Type Definitions
+import type { z } from 'zod';
+import type {
+  AlertChannelSchema,
+  AlertConditionSchema,
+  AlertDeliverySchema,
+  AlertRuleInputSchema,
+  AlertRuleSchema,
+  ApiKeySchema,
+  ApiKeyUsageSchema,
+  ASSET_VALUES,
+  HeartbeatSnapshotSchema,
+  ModelPerformanceSchema,
+  PredictionSchema,
+  ROLE_VALUES,
+  SystemStatusSchema,
+  UserSchema,
+  WebhookDeliverySchema,
+  WebhookSubscriptionInputSchema,
+  WebhookSubscriptionSchema
+} from './schemas';
 
-export interface Prediction {
-  id: string;
-  timestamp: string; // WIB ISO format
-  prediction_time: string; // WIB ISO format
-  timeframe_minutes: number;
-  current_price: number;
-  predicted_price: number;
-  price_change: number;
-  price_change_pct: number;
-  price_range_low: number;
-  price_range_high: number;
-  trend: string;
-  confidence: number;
-  method: string;
-  target_time: string; // WIB ISO format
-  validated: boolean;
-  validation_result?: 'WIN' | 'LOSE' | null;
-  validation_time?: string; // WIB ISO format
-  actual_price?: number;
-  price_error?: number;
-  price_error_pct?: number;
-  direction_correct?: boolean;
-  model_agreement?: number;
-  lstm_prediction?: number;
-  gb_prediction?: number;
-  rf_direction?: string;
-  rf_confidence?: number;
+// Firestore document shapes are inferred from the schemas in types/schemas.ts
+export type Prediction = z.infer<typeof PredictionSchema>;
+
+export interface StatisticsDelta {
+  total_predictions: number;
+  wins: number;
+  losses: number;
+  win_rate: number;
+  avg_error: number;
+  avg_error_pct: number;
 }
 
 export interface Statistics {
   timeframe_minutes?: number;
   period_days: number;
+  period?: StatsPeriodKey;
   total_predictions: number;
   wins: number;
   losses: number;
   win_rate: number;
   avg_error: number;
   avg_error_pct: number;
+  delta?: StatisticsDelta | null; // vs previous period of equal length
   last_updated: string; // WIB ISO format
 }
 
-export interface ModelPerformance {
+export type ModelPerformance = z.infer<typeof ModelPerformanceSchema>;
+
+export type SystemStatus = z.infer<typeof SystemStatusSchema>;
+
+// A Firestore document that failed schema validation and was left out
+export interface DataWarning {
+  collection: string;
   id: string;
-  timestamp: string; // WIB ISO format
-  metrics: {
-    lstm?: {
-      mae: number;
-      rmse: number;
-    };
-    rf?: {
-      accuracy: number;
-    };
-    gb?: {
-      mae: number;
-      rmse: number;
-    };
-  };
-}
-
-export interface SystemStatus {
-  status: 'online' | 'offline' | 'starting' | 'running' | 'stopping' | 'error';
-  timestamp: string; // WIB ISO format
-  uptime_hours?: number;
-  uptime_seconds?: number;
-  memory_mb?: number;
-  cpu_percent?: number;
-  message?: string;
-  heartbeat_count?: number;
-  last_heartbeat?: string; // WIB ISO format
-  last_activity?: string;
-  predictions_count?: number;
-  total_predictions?: number;
-  successful_predictions?: number;
-  failed_predictions?: number;
-  health_status?: string;
-  process_id?: number;
-  active_timeframes?: number;
+  issues: string[]; // "field.path: message"
 }
 
 export interface TimeframeCategoryStats {
@@ -88,20 +66,503 @@ export interface TimeframeCategoryStats {
   win_rate: number;
   avg_error: number;
   avg_error_pct: number;
+  delta?: StatisticsDelta | null;
+}
+
+export type StatsPeriodKey = '1d' | '7d' | '30d' | '90d' | 'all' | 'custom';
+
+export interface StatsPeriod {
+  key: StatsPeriodKey;
+  label: string;
+  from: string | null; // ISO, null for all-time
+  to: string; // ISO
+}
+
+// Assets the predictor covers; configured in lib/assets.ts
+export type Asset = (typeof ASSET_VALUES)[number];
+
+export interface AssetConfig {
+  symbol: Asset;
+  name: string;
+  collection: string; // Firestore collection of its predictions
+  tradingViewSymbol: string;
+  krakenPair: string; // Kraken names Bitcoin XBT
+}
+
+export type PriceSource = 'cryptocompare' | 'binance' | 'coinbase' | 'kraken';
+
+export interface PriceQuote {
+  price: number;
+  source: PriceSource;
+  timestamp: string; // ISO, when the quote was fetched
+  stale?: boolean; // served from cache after every provider failed
+}
+
+export interface Candle {
+  time: string; // ISO, candle open time
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+export type PriceHistoryRange = '1h' | '6h' | '24h';
+
+export interface PriceHistory {
+  source: PriceSource;
+  interval_minutes: number;
+  from: string; // ISO
+  to: string; // ISO
+  candles: Candle[];
 }
 
 export interface DashboardData {
+  asset?: Asset;
   currentPrice: number;
+  priceQuote?: PriceQuote | null;
   overallStats: Statistics | null;
   timeframeStats: Statistics[];
   categoryStats?: TimeframeCategoryStats[];
+  period?: StatsPeriod;
   recentPredictions: Prediction[];
   pendingPredictions: Prediction[];
   modelPerformance: ModelPerformance | null;
   systemStatus: SystemStatus;
+  health: HealthStatus;
+  validationLag?: ValidationLagSummary;
+  statusThresholds: StatusThresholds; // so clients re-derive health with the server's rules
+  warnings: DataWarning[];
   lastUpdate: string; // WIB ISO format
 }
 
+// Overall predictor health, derived in lib/status.ts
+export type HealthState = 'online' | 'delayed' | 'degraded' | 'offline' | 'error' | 'unknown';
+
+export interface StatusThresholds {
+  heartbeat_delayed_minutes: number;
+  heartbeat_offline_minutes: number;
+  prediction_stall_minutes: number; // no new prediction for this long → degraded
+  validation_stall_minutes: number; // a prediction this far past its target, unvalidated → degraded
+}
+
+export interface StatusSignals {
+  heartbeat_at: string | null;
+  reported_status: string | null; // as written by the predictor
+  message: string | null;
+  last_prediction_at: string | null;
+  overdue_validations: number;
+  oldest_overdue_target: string | null;
+}
+
+export interface HealthStatus {
+  state: HealthState;
+  reason: string;
+  heartbeat_age_minutes: number | null;
+  checked_at: string; // ISO
+}
+
+export interface PredictionOutcome {
+  in_range: boolean | null; // actual price within [price_range_low, price_range_high]
+  lstm_error: number | null; // actual - lstm_prediction
+  gb_error: number | null; // actual - gb_prediction
+  rf_direction_correct: boolean | null;
+}
+
+export interface PredictionTiming {
+  horizon_minutes: number;
+  minutes_to_target: number; // negative once the target time has passed
+  validation_lag_seconds: number | null; // validation_time - target_time
+}
+
+export interface PredictionDetail {
+  prediction: Prediction;
+  outcome: PredictionOutcome;
+  timing: PredictionTiming;
+  pricePath: PriceHistory | null;
+  pricePathError?: string;
+}
+
+export type ModelMetricKey = 'lstm_mae' | 'lstm_rmse' | 'gb_mae' | 'gb_rmse' | 'rf_accuracy';
+
+export interface MetricRegression {
+  metric: ModelMetricKey;
+  value: number;
+  trailing_average: number;
+  change_pct: number; // signed change vs the trailing average
+}
+
+export interface ModelPerformancePoint {
+  id: string;
+  timestamp: string; // WIB ISO format
+  metrics: Partial<Record<ModelMetricKey, number>>;
+  retrained: boolean; // metrics differ from the previous snapshot
+  regressions: MetricRegression[];
+}
+
+export interface ModelPerformanceHistory {
+  period: StatsPeriod;
+  threshold_pct: number;
+  window: number; // retraining runs in the trailing average
+  points: ModelPerformancePoint[]; // ascending by timestamp
+  truncated: boolean; // older snapshots in the period were left out
+  warnings: DataWarning[];
+}
+
+export interface CalibrationBucket {
+  lower: number; // confidence %, inclusive
+  upper: number; // confidence %, exclusive except for the top bucket
+  count: number;
+  wins: number;
+  win_rate: number | null; // observed %
+  avg_confidence: number | null; // predicted %
+}
+
+// Predictions at or above a confidence cut-off, to pick a threshold to act on
+export interface CalibrationThreshold {
+  min_confidence: number;
+  count: number;
+  win_rate: number | null;
+  coverage: number; // % of all predictions that clear the cut-off
+}
+
+export interface CalibrationReport {
+  period: StatsPeriod;
+  timeframe_minutes: number | null;
+  category: TimeframeCategory | null;
+  samples: number;
+  brier_score: number | null; // 0 is perfect, 0.25 is a coin flip at 50%
+  ece: number | null; // expected calibration error, percentage points
+  buckets: CalibrationBucket[];
+  thresholds: CalibrationThreshold[];
+}
+
+export type EnsembleModel = 'ensemble' | 'lstm' | 'gb' | 'rf';
+
+export interface ModelScore {
+  model: EnsembleModel;
+  samples: number;
+  hit_rate: number | null; // % of correct up/down calls
+  mae: number | null; // USD, price models only
+  rmse: number | null; // USD, price models only
+}
+
+export interface ModelLeaderboard {
+  period: StatsPeriod;
+  overall: ModelScore[]; // best hit rate first
+  byTimeframe: Array<{ timeframe_minutes: number; scores: ModelScore[] }>;
+  daily: Array<{ date: string; scores: ModelScore[] }>; // WIB yyyy-MM-dd, ascending
+}
+
+export type BacktestMode = 'binary' | 'spot';
+export type BacktestStake = 'fixed' | 'percent';
+
+export interface BacktestConfig {
+  mode: BacktestMode; // fixed-payout option vs trading the spot move
+  stake: BacktestStake;
+  stake_amount: number; // USD when fixed, % of equity when percent
+  initial_capital: number;
+  min_confidence: number;
+  timeframes: number[] | null; // null trades every timeframe
+  payout_pct: number; // binary only: profit on a win as % of stake
+  fee_pct: number; // % of stake per trade
+  slippage_pct: number; // spot only: adverse move on entry and on exit
+}
+
+export interface BacktestEquityPoint {
+  time: string; // settlement (target_time)
+  equity: number;
+  drawdown_pct: number;
+}
+
+export interface BacktestTimeframeResult {
+  timeframe_minutes: number;
+  trades: number;
+  wins: number;
+  win_rate: number;
+  pnl: number;
+}
+
+export interface BacktestResult {
+  period: StatsPeriod;
+  config: BacktestConfig;
+  trades: number;
+  wins: number;
+  losses: number;
+  pushes: number; // settled exactly at the entry price
+  win_rate: number;
+  total_pnl: number;
+  fees: number;
+  final_equity: number;
+  return_pct: number;
+  max_drawdown: number; // USD, peak to trough
+  max_drawdown_pct: number;
+  sharpe: number | null; // annualized from daily returns
+  longest_losing_streak: number;
+  ruined: boolean; // equity ran out before the last signal
+  equity_curve: BacktestEquityPoint[];
+  by_timeframe: BacktestTimeframeResult[];
+  truncated: boolean; // the period held more predictions than were simulated
+}
+
+export type HeartbeatSnapshot = z.infer<typeof HeartbeatSnapshotSchema>;
+
+export interface HeartbeatIncident {
+  kind: 'offline' | 'error';
+  start: string; // ISO
+  end: string | null; // null while ongoing
+  duration_minutes: number;
+  message?: string; // from the heartbeat, for error incidents
+}
+
+export interface DailyUptime {
+  date: string; // yyyy-MM-dd, WIB
+  uptime_pct: number | null; // null when no history covers the day
+  down_minutes: number;
+}
+
+export interface ResourceSample {
+  timestamp: string; // WIB ISO format
+  cpu_percent?: number;
+  memory_mb?: number;
+}
+
+export interface SystemHistory {
+  period: StatsPeriod;
+  uptime_pct: number | null;
+  days: DailyUptime[];
+  incidents: HeartbeatIncident[]; // newest first
+  samples: ResourceSample[];
+  interval_minutes: number; // how often snapshots are recorded
+  truncated: boolean;
+}
+
+export interface UpcomingPredictions {
+  asset: Asset;
+  predictions: Prediction[]; // soonest target_time first
+  priceQuote: PriceQuote | null;
+  server_time: string; // ISO, so countdowns can correct for client clock skew
+  truncated: boolean;
+  warnings: DataWarning[];
+}
+
+// Data dumps, built in lib/export.ts
+export type ExportFormat = 'csv' | 'ndjson';
+export type ExportDataset = 'predictions' | 'timeframe-stats' | 'category-stats' | 'model-performance';
+
+// Table Schema field types, which pandas maps onto dtypes
+export interface ExportField {
+  name: string;
+  type: 'string' | 'integer' | 'number' | 'boolean' | 'datetime';
+}
+
+export interface ExportSchema {
+  dataset: ExportDataset;
+  generated_at: string; // ISO
+  fields: ExportField[];
+}
+
+// Validator backlog, built in lib/validationLag.ts
+export interface ValidationLagSummary {
+  overdue: number; // unvalidated predictions past their target time
+  oldest_overdue_target: string | null; // WIB ISO format
+}
+
+export interface ValidationLagBucket {
+  label: string;
+  max_minutes: number | null; // exclusive upper bound; null for the last bucket
+  count: number;
+}
+
+export interface ValidationLagTimeframe {
+  timeframe_minutes: number;
+  overdue: number;
+  oldest_overdue_minutes: number | null;
+  median_lag_minutes: number | null;
+  buckets: number[]; // counts, in the order of ValidationLagReport.buckets
+}
+
+export interface ValidationLagPoint {
+  time: string; // ISO, end of the interval
+  overdue: number; // unvalidated past target at `time`
+  validated: number; // validations during the interval
+  avg_delay_minutes: number | null; // of those validations
+}
+
+export interface ValidationLagReport extends ValidationLagSummary {
+  period: StatsPeriod;
+  oldest_overdue_minutes: number | null;
+  buckets: ValidationLagBucket[];
+  timeframes: ValidationLagTimeframe[];
+  trend: ValidationLagPoint[];
+  truncated: boolean;
+}
+
+export type AlertChannel = z.infer<typeof AlertChannelSchema>;
+export type AlertCondition = z.infer<typeof AlertConditionSchema>;
+export type AlertRuleInput = z.input<typeof AlertRuleInputSchema>;
+export type AlertRule = z.infer<typeof AlertRuleSchema>;
+export type AlertDelivery = z.infer<typeof AlertDeliverySchema>;
+
+// What a rule produced on one evaluation, before it is sent anywhere
+export interface AlertNotification {
+  rule_id: string;
+  rule_name: string;
+  title: string;
+  message: string;
+  dedup_key: string; // the same key is not re-sent while the condition holds
+  triggered_at: string; // WIB ISO format
+}
+
+export interface AlertEvaluationSummary {
+  evaluated: number;
+  triggered: number;
+  sent: number;
+  failed: number;
+  suppressed: number;
+}
+
+export type Role = (typeof ROLE_VALUES)[number];
+
+// A user as the API returns it, never with the password hash
+export type User = Omit<z.infer<typeof UserSchema>, 'password_hash'>;
+
+export type AuthProvider = 'credentials' | 'oidc' | 'api_key' | 'local';
+
+// Whoever a request is made by: a signed-in user, an API key, or the
+// stand-in admin when AUTH_DISABLED=true
+export interface SessionUser {
+  id: string;
+  email: string | null;
+  name?: string;
+  role: Role;
+  provider: AuthProvider;
+}
+
+// GET /api/auth/session; `oidc` says whether to offer single sign-on
+export interface AuthSessionInfo {
+  user: SessionUser | null;
+  providers: { credentials: boolean; oidc: boolean };
+}
+
+// An API key as admins see it: never the hash, and the key itself only in
+// the response that created it
+export type ApiKey = Omit<z.infer<typeof ApiKeySchema>, 'key_hash' | 'window_start' | 'window_count'>;
+
+export type CreatedApiKey = ApiKey & { key: string };
+
+export type ApiKeyUsage = z.infer<typeof ApiKeyUsageSchema>;
+
+// ==================== Public API v1 ====================
+// The contract for /api/v1 consumers: snake_case, UTC ISO timestamps, and
+// only the fields a bot needs. Extend it with new optional fields only;
+// anything else is a v2.
+
+export interface ApiV1Prediction {
+  id: string;
+  asset: Asset;
+  timeframe_minutes: number;
+  direction: 'up' | 'down';
+  confidence: number; // 0-100
+  price_at_prediction: number;
+  predicted_price: number;
+  predicted_range: { low: number; high: number };
+  predicted_at: string; // UTC ISO
+  target_time: string; // UTC ISO
+  status: 'pending' | 'win' | 'lose';
+  actual_price: number | null;
+  validated_at: string | null; // UTC ISO
+}
+
+export interface ApiV1SignalsResponse {
+  asset: Asset;
+  generated_at: string; // UTC ISO
+  // The newest prediction per timeframe, shortest timeframe first
+  signals: ApiV1Prediction[];
+}
+
+export interface ApiV1PredictionResponse {
+  prediction: ApiV1Prediction;
+}
+
+export interface ApiV1Stats {
+  timeframe_minutes: number | null; // null for all timeframes together
+  total: number; // validated predictions
+  wins: number;
+  losses: number;
+  win_rate: number; // percent
+  avg_error: number;
+  avg_error_pct: number;
+}
+
+export interface ApiV1StatsResponse {
+  asset: Asset;
+  period: { key: StatsPeriodKey; label: string; from: string | null; to: string };
+  overall: ApiV1Stats;
+  timeframes: ApiV1Stats[];
+}
+
+// The body of every webhook POST
+export interface ApiV1WebhookPayload {
+  id: string; // the same on every retry, for de-duplication
+  event: 'prediction.created' | 'prediction.validated';
+  created_at: string; // UTC ISO
+  data: { prediction: ApiV1Prediction };
+}
+
+// ==================== Webhooks ====================
+
+export type WebhookEvent = ApiV1WebhookPayload['event'];
+export type WebhookSubscriptionInput = z.input<typeof WebhookSubscriptionInputSchema>;
+
+// A subscription as admins see it: the secret only in the response that
+// created it
+export type WebhookSubscription = Omit<z.infer<typeof WebhookSubscriptionSchema>, 'secret'>;
+
+export type CreatedWebhookSubscription = WebhookSubscription & { secret: string };
+
+// Admins see the attempt history, not the payload
+export type WebhookDelivery = Omit<z.infer<typeof WebhookDeliverySchema>, 'payload'>;
+
+export interface WebhookDispatchSummary {
+  subscriptions: number;
+  enqueued: number;
+  delivered: number;
+  retrying: number;
+  dead: number;
+}
+
+// Events pushed over /api/stream; the SSE event name matches `type`
+export type LiveEvent =
+  | { type: 'prediction'; prediction: Prediction }
+  | { type: 'validation'; prediction: Prediction }
+  | { type: 'heartbeat'; systemStatus: SystemStatus }
+  | { type: 'price'; quote: PriceQuote };
+
+export type LiveConnectionState = 'connecting' | 'live' | 'reconnecting' | 'polling' | 'off';
+
+export type ValidationFilter = 'WIN' | 'LOSE' | 'PENDING';
+
+export interface PredictionHistoryFilters {
+  timeframe_minutes?: number;
+  validation_result?: ValidationFilter;
+  trend?: string;
+  method?: string;
+  min_confidence?: number;
+  max_confidence?: number;
+  from?: string; // ISO, compared against prediction_time
+  to?: string; // ISO, compared against prediction_time
+  asset?: Asset; // which collection to read, BTC when absent
+}
+
+export interface PredictionHistoryPage {
+  predictions: Prediction[];
+  nextCursor: string | null;
+  limit: number;
+  filters: PredictionHistoryFilters;
+  warnings: DataWarning[];
+}
+
 // Utility types
 export type TimeframeCategory = 'ultra_short' | 'short' | 'medium' | 'long';
 
@@ -111,39 +572,6 @@ export interface TimeframeConfig {
   category: TimeframeCategory;
 }
 
-// Timeframe mappings
-export const TIMEFRAME_CATEGORIES: Record<TimeframeCategory, number[]> = {
-  ultra_short: [1, 2, 3, 5],
-  short: [10, 15, 20, 30, 45, 60],
-  medium: [120, 180, 240, 360, 480, 720],
-  long: [1440, 2880, 4320, 5760, 7200, 10080]
-};
-
-export const TIMEFRAME_LABELS: Record<number, string> = {
-  1: '1min',
-  2: '2min',
-  3: '3min',
-  5: '5min',
-  10: '10min',
-  15: '15min',
-  20: '20min',
-  30: '30min',
-  45: '45min',
-  60: '1h',
-  120: '2h',
-  180: '3h',
-  240: '4h',
-  360: '6h',
-  480: '8h',
-  720: '12h',
-  1440: '24h',
-  2880: '2d',
-  4320: '3d',
-  5760: '4d',
-  7200: '5d',
-  10080: '7d'
-};
-
 export const CATEGORY_LABELS: Record<TimeframeCategory, string> = {
   ultra_short: 'Ultra Short (Scalping)',
   short: 'Short Term (Day Trading)',
@@ -158,7 +586,11 @@ export const CATEGORY_ICONS: Record<TimeframeCategory, string> = {
   long: '🎯'
 };
 
+export const TIMEFRAME_CATEGORY_ORDER: TimeframeCategory[] = ['ultra_short', 'short', 'medium', 'long'];
+
 // Helper functions
+
+// Categories are ranges, so timeframes the predictor adds later fall into one
 export function getTimeframeCategory(minutes: number): TimeframeCategory {
   if (minutes <= 5) return 'ultra_short';
   if (minutes <= 60) return 'short';
@@ -166,8 +598,25 @@ export function getTimeframeCategory(minutes: number): TimeframeCategory {
   return 'long';
 }
 
+// The one label for a timeframe, anywhere it is shown: 5m, 4h, 1d
 export function getTimeframeLabel(minutes: number): string {
-  return TIMEFRAME_LABELS[minutes] || `${minutes}min`;
+  if (minutes >= 1440 && minutes % 1440 === 0) return `${minutes / 1440}d`;
+  if (minutes >= 60 && minutes % 60 === 0) return `${minutes / 60}h`;
+  return `${minutes}m`;
+}
+
+// Trend and model direction strings vary between CALL/PUT, Bullish/Bearish
+// and UP/DOWN depending on which part of the predictor wrote them
+export function isBullishDirection(direction: string): boolean {
+  return /CALL|BULL|UP/i.test(direction);
+}
+
+// How an in-flight prediction would settle at `price`, judged on direction
+// from current_price. null on an unchanged price.
+export function provisionalResult(prediction: Prediction, price: number): 'WIN' | 'LOSE' | null {
+  const move = price - prediction.current_price;
+  if (move === 0) return null;
+  return (move > 0) === isBullishDirection(prediction.trend) ? 'WIN' : 'LOSE';
 }
 
 export function getCategoryLabel(category: TimeframeCategory): string {
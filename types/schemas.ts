@@ -0,0 +1,298 @@
+// types/schemas.ts - Runtime schemas for Firestore documents
+//
+// These are the source of truth for the document shapes; the matching
+// TypeScript types in types/index.ts are inferred from them. The Python
+// predictor writes None as null, so optional fields accept null and
+// normalize it to undefined.
+import { z } from 'zod';
+
+const optionalNumber = z.number().nullable().transform(value => value ?? undefined).optional();
+const optionalString = z.string().nullable().transform(value => value ?? undefined).optional();
+const optionalBoolean = z.boolean().nullable().transform(value => value ?? undefined).optional();
+
+export const PredictionSchema = z.object({
+  id: z.string(),
+  timestamp: z.string(), // WIB ISO format
+  prediction_time: z.string(), // WIB ISO format
+  timeframe_minutes: z.number().int().positive(),
+  current_price: z.number(),
+  predicted_price: z.number(),
+  price_change: z.number(),
+  price_change_pct: z.number(),
+  price_range_low: z.number(),
+  price_range_high: z.number(),
+  trend: z.string(),
+  confidence: z.number(),
+  method: z.string(),
+  target_time: z.string(), // WIB ISO format
+  validated: z.boolean(),
+  validation_result: z.enum(['WIN', 'LOSE']).nullable().optional(),
+  validation_time: optionalString, // WIB ISO format
+  actual_price: optionalNumber,
+  price_error: optionalNumber,
+  price_error_pct: optionalNumber,
+  direction_correct: optionalBoolean,
+  model_agreement: optionalNumber,
+  lstm_prediction: optionalNumber,
+  gb_prediction: optionalNumber,
+  rf_direction: optionalString,
+  rf_confidence: optionalNumber
+});
+
+const RegressionMetricsSchema = z.object({
+  mae: z.number(),
+  rmse: z.number()
+});
+
+export const ModelPerformanceSchema = z.object({
+  id: z.string(),
+  timestamp: z.string(), // WIB ISO format
+  metrics: z.object({
+    lstm: RegressionMetricsSchema.nullable().transform(value => value ?? undefined).optional(),
+    rf: z.object({ accuracy: z.number() }).nullable().transform(value => value ?? undefined).optional(),
+    gb: RegressionMetricsSchema.nullable().transform(value => value ?? undefined).optional()
+  })
+});
+
+export const SYSTEM_STATUS_VALUES = ['online', 'offline', 'starting', 'running', 'stopping', 'error'] as const;
+
+const heartbeatFields = {
+  uptime_hours: optionalNumber,
+  uptime_seconds: optionalNumber,
+  memory_mb: optionalNumber,
+  cpu_percent: optionalNumber,
+  message: optionalString,
+  heartbeat_count: optionalNumber,
+  last_heartbeat: optionalString, // WIB ISO format
+  last_activity: optionalString,
+  predictions_count: optionalNumber,
+  total_predictions: optionalNumber,
+  successful_predictions: optionalNumber,
+  failed_predictions: optionalNumber,
+  health_status: optionalString,
+  process_id: optionalNumber,
+  // A count from older predictor versions, the list of minutes from newer ones
+  active_timeframes: z.union([z.number(), z.array(z.number().int().positive())])
+    .nullable()
+    .transform(value => value ?? undefined)
+    .optional()
+};
+
+// system_status/heartbeat as written by the predictor; `status` is free-form
+// there and normalized by heartbeatToStatus
+export const HeartbeatDocSchema = z.object({
+  status: optionalString,
+  timestamp: z.string(), // WIB ISO format
+  ...heartbeatFields
+});
+
+export const SystemStatusSchema = z.object({
+  status: z.enum(SYSTEM_STATUS_VALUES),
+  timestamp: z.string(), // WIB ISO format
+  ...heartbeatFields,
+  // Set by this app when there is no heartbeat document; `timestamp` is
+  // then only the time of the lookup
+  heartbeat_missing: z.boolean().optional()
+});
+
+// heartbeat_history/{id}: periodic copies of system_status/heartbeat kept by
+// this app, since the predictor overwrites the one document in place
+export const HeartbeatSnapshotSchema = z.object({
+  id: z.string(),
+  timestamp: z.string(), // heartbeat time, WIB ISO format
+  status: z.enum(SYSTEM_STATUS_VALUES),
+  cpu_percent: optionalNumber,
+  memory_mb: optionalNumber,
+  message: optionalString,
+  recorded_at: z.string() // WIB ISO format
+});
+
+// ==================== Alerts ====================
+// Written by this app (alert_rules, alert_deliveries); the same schemas
+// validate API input so stored rules and requests can't drift apart.
+
+export const AlertChannelSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('webhook'), url: z.url({ protocol: /^https?$/ }) }),
+  // The bot token comes from TELEGRAM_BOT_TOKEN, never from the rule
+  z.object({ type: z.literal('telegram'), chat_id: z.string().min(1) }),
+  z.object({ type: z.literal('discord'), webhook_url: z.url({ protocol: /^https$/ }) }),
+  z.object({ type: z.literal('email'), to: z.email() })
+]);
+
+// Every asset the predictor covers; BTC is the default (see lib/assets.ts)
+export const ASSET_VALUES = ['BTC', 'ETH', 'SOL'] as const;
+
+export const AlertConditionSchema = z.discriminatedUnion('kind', [
+  // A new prediction at or above min_confidence (%), optionally on some timeframes
+  z.object({
+    kind: z.literal('high_confidence'),
+    asset: z.enum(ASSET_VALUES).default('BTC'),
+    min_confidence: z.number().min(0).max(100),
+    timeframes: z.array(z.number().int().positive()).nullable().default(null)
+  }),
+  // Win rate of the last `window` validated predictions below min_win_rate (%)
+  z.object({
+    kind: z.literal('win_rate_drop'),
+    asset: z.enum(ASSET_VALUES).default('BTC'),
+    window: z.number().int().min(1).max(1000),
+    min_win_rate: z.number().min(0).max(100),
+    timeframes: z.array(z.number().int().positive()).max(10).nullable().default(null)
+  }),
+  // No heartbeat for stale_minutes
+  z.object({
+    kind: z.literal('heartbeat_stale'),
+    stale_minutes: z.number().positive()
+  }),
+  // SystemStatus.status is 'error'
+  z.object({ kind: z.literal('system_error') })
+]);
+
+export const AlertRuleInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  enabled: z.boolean().default(true),
+  condition: AlertConditionSchema,
+  channels: z.array(AlertChannelSchema).min(1),
+  cooldown_minutes: z.number().min(0).default(30)
+});
+
+export const AlertRuleSchema = AlertRuleInputSchema.extend({
+  id: z.string(),
+  created_at: z.string(), // WIB ISO format
+  updated_at: z.string() // WIB ISO format
+});
+
+export const ALERT_DELIVERY_STATUSES = ['sent', 'failed', 'suppressed'] as const;
+
+export const AlertDeliverySchema = z.object({
+  id: z.string(),
+  rule_id: z.string(),
+  rule_name: z.string(),
+  channel: z.enum(['webhook', 'telegram', 'discord', 'email']),
+  target: z.string(), // redacted destination, safe to show
+  status: z.enum(ALERT_DELIVERY_STATUSES),
+  title: z.string(),
+  message: z.string(),
+  dedup_key: z.string(),
+  error: optionalString,
+  created_at: z.string() // WIB ISO format
+});
+
+// ==================== Users ====================
+// users/{id}, written by this app. Password users carry a hash; users who
+// sign in through OIDC are matched by email and have none.
+
+export const ROLE_VALUES = ['viewer', 'operator', 'admin'] as const;
+
+export const UserSchema = z.object({
+  id: z.string(),
+  email: z.email(),
+  name: optionalString,
+  role: z.enum(ROLE_VALUES),
+  password_hash: optionalString,
+  created_at: z.string(), // WIB ISO format
+  updated_at: z.string(), // WIB ISO format
+  last_login_at: optionalString // WIB ISO format
+});
+
+const userFields = {
+  email: z.email().transform(email => email.toLowerCase()),
+  name: z.string().trim().min(1).max(100),
+  role: z.enum(ROLE_VALUES),
+  password: z.string().min(10).max(200)
+};
+
+export const UserInputSchema = z.object({
+  ...userFields,
+  name: userFields.name.optional(),
+  // Without one the user can only sign in through OIDC
+  password: userFields.password.optional()
+});
+
+// Fields left out keep their value; the email is the identity and is fixed
+export const UserUpdateSchema = z.object({
+  name: userFields.name.optional(),
+  role: userFields.role.optional(),
+  password: userFields.password.optional()
+});
+
+export const LoginInputSchema = z.object({
+  email: z.string().trim().toLowerCase(),
+  password: z.string()
+});
+
+// ==================== API keys ====================
+// api_keys/{id} and api_key_usage/{key id}_{WIB date}, written by this app.
+// Only a hash of each key is stored; the key itself is shown once.
+
+export const ApiKeySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  prefix: z.string(), // the key's first characters, to tell keys apart
+  key_hash: z.string(), // SHA-256 hex
+  rate_limit_per_minute: optionalNumber, // API_RATE_LIMIT_PER_MINUTE when unset
+  created_at: z.string(), // WIB ISO format
+  created_by: optionalString,
+  revoked_at: optionalString, // WIB ISO format
+  last_used_at: optionalString, // WIB ISO format
+  request_count: z.number().int().nonnegative().default(0),
+  rejected_count: z.number().int().nonnegative().default(0),
+  // The current one-minute rate limit window
+  window_start: optionalString, // WIB ISO format, on the minute
+  window_count: optionalNumber
+});
+
+export const ApiKeyInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  rate_limit_per_minute: z.number().int().positive().max(10000).optional()
+});
+
+export const ApiKeyUsageSchema = z.object({
+  id: z.string(),
+  key_id: z.string(),
+  date: z.string(), // WIB yyyy-MM-dd
+  requests: z.number().int().nonnegative(),
+  rejected: z.number().int().nonnegative()
+});
+
+// ==================== Webhooks ====================
+// webhook_subscriptions and webhook_deliveries, written by this app. A
+// subscription's secret signs its payloads, so unlike an API key it is kept
+// as is; it still only leaves the server in the response that created it.
+
+export const WEBHOOK_EVENTS = ['prediction.created', 'prediction.validated'] as const;
+
+export const WebhookSubscriptionInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  url: z.url({ protocol: /^https?$/ }),
+  enabled: z.boolean().default(true),
+  asset: z.enum(ASSET_VALUES).default('BTC'),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1),
+  timeframes: z.array(z.number().int().positive()).nullable().default(null),
+  min_confidence: z.number().min(0).max(100).default(0)
+});
+
+export const WebhookSubscriptionSchema = WebhookSubscriptionInputSchema.extend({
+  id: z.string(),
+  secret: z.string(),
+  created_at: z.string(), // WIB ISO format
+  updated_at: z.string() // WIB ISO format
+});
+
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'delivered', 'dead'] as const;
+
+export const WebhookDeliverySchema = z.object({
+  id: z.string(), // also the payload id, the same on every attempt
+  subscription_id: z.string(),
+  subscription_name: z.string(),
+  target: z.string(), // the URL's host, safe to show
+  event: z.enum(WEBHOOK_EVENTS),
+  prediction_id: z.string(),
+  payload: z.string(), // the JSON body exactly as signed and sent
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES),
+  attempts: z.number().int().nonnegative(),
+  next_attempt_at: z.string(), // WIB ISO format
+  last_attempt_at: optionalString, // WIB ISO format
+  last_error: optionalString,
+  delivered_at: optionalString, // WIB ISO format
+  created_at: z.string() // WIB ISO format
+});
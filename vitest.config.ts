@@ -0,0 +1,14 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) }
+  },
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+    // The emulator backend is one shared database
+    fileParallelism: !process.env.FIRESTORE_EMULATOR_HOST
+  }
+});